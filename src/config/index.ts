@@ -10,6 +10,15 @@ const envSchema = z.object({
   RATE_LIMIT_WINDOW: z.coerce.number().default(60000), // 1 minute
   LOG_LEVEL: z.enum(['trace', 'debug', 'info', 'warn', 'error', 'fatal']).default('info'),
   DEFAULT_OUTPUT_FORMAT: z.enum(['both', 'json', 'pptist']).default('pptist'),
+  // JSON object of font name -> substitute, merged over the built-in font table
+  FONT_MAP: z.string().default('{}').transform((value, ctx) => {
+    try {
+      return z.record(z.string(), z.string()).parse(JSON.parse(value))
+    } catch {
+      ctx.addIssue({ code: 'custom', message: 'FONT_MAP must be a JSON object of font names' })
+      return z.NEVER
+    }
+  }),
 })
 
 function loadConfig(): EnvConfig {
@@ -22,6 +31,7 @@ function loadConfig(): EnvConfig {
     RATE_LIMIT_WINDOW: process.env.RATE_LIMIT_WINDOW,
     LOG_LEVEL: process.env.LOG_LEVEL,
     DEFAULT_OUTPUT_FORMAT: process.env.DEFAULT_OUTPUT_FORMAT,
+    FONT_MAP: process.env.FONT_MAP,
   }
 
   const result = envSchema.safeParse(env)
@@ -72,6 +82,9 @@ export const configValues = {
   get logLevel() {
     return getConfig().LOG_LEVEL
   },
+  get fontMap() {
+    return getConfig().FONT_MAP
+  },
 }
 
 export default getConfig
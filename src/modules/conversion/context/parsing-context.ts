@@ -14,6 +14,7 @@ export type XmlObject = Record<string, any>
 export interface ResourceInfo {
   type: string
   target: string
+  external?: boolean // TargetMode="External"，target 为 URL 或本地文件路径
 }
 
 export type ResourceMap = Record<string, ResourceInfo>
@@ -82,6 +83,8 @@ export interface ParsingContext {
   slideContent: XmlObject
   /** 幻灯片索引（从1开始） */
   slideIndex: number
+  /** 幻灯片文件名 -> 转换后的幻灯片 id（按放映顺序），用于解析幻灯片跳转链接 */
+  slideIds: Record<string, string>
 
   // === 样式相关 ===
   /** 默认文本样式 */
@@ -125,6 +128,7 @@ export function createDefaultParsingContext(zip: JSZip): ParsingContext {
     themeResObj: {},
     slideContent: {},
     slideIndex: 1,
+    slideIds: {},
     loadedImages: new Map(),
   }
 }
@@ -0,0 +1,176 @@
+import type { PPTXAnimation } from '../types/pptx.js'
+import type { PPTAnimation, AnimationType, AnimationTrigger } from '../types/pptist.js'
+import { v4 as uuidv4 } from 'uuid'
+
+/**
+ * Fallback effect for each animation type
+ * Used when a PowerPoint preset has no animate.css equivalent in PPTist
+ */
+export const DEFAULT_ANIMATION_EFFECTS: Record<AnimationType, string> = {
+  in: 'fadeIn',
+  out: 'fadeOut',
+  attention: 'shakeX',
+}
+
+const PRESET_CLASS_TYPES: Partial<Record<PPTXAnimation['presetClass'], AnimationType>> = {
+  entr: 'in',
+  exit: 'out',
+  emph: 'attention',
+}
+
+const TRIGGERS: Record<PPTXAnimation['trigger'], AnimationTrigger> = {
+  click: 'click',
+  with: 'meantime',
+  after: 'auto',
+}
+
+// presetSubtype direction flags (top = 1, right = 2, bottom = 4, left = 8)
+// animate.css names vertical effects by movement (fadeInUp comes from the bottom)
+// and horizontal effects by side (fadeInLeft comes from the left)
+const ENTRANCE_DIRECTIONS: Record<number, string> = {
+  1: 'Down',
+  2: 'Right',
+  4: 'Up',
+  8: 'Left',
+}
+
+const EXIT_DIRECTIONS: Record<number, string> = {
+  1: 'Up',
+  2: 'Right',
+  4: 'Down',
+  8: 'Left',
+}
+
+const DIAGONAL_DIRECTIONS: Record<number, string> = {
+  3: 'TopRight',
+  6: 'BottomRight',
+  9: 'TopLeft',
+  12: 'BottomLeft',
+}
+
+/**
+ * Resolve a directional effect such as fly-in or wipe
+ * Diagonal directions only exist for the fade family in animate.css
+ */
+function directionalEffect(base: 'slide' | 'fade', type: 'in' | 'out', subtype: number): string | null {
+  const infix = type === 'in' ? 'In' : 'Out'
+  const directions = type === 'in' ? ENTRANCE_DIRECTIONS : EXIT_DIRECTIONS
+
+  if (directions[subtype]) return `${base}${infix}${directions[subtype]}`
+  if (DIAGONAL_DIRECTIONS[subtype]) return `fade${infix}${DIAGONAL_DIRECTIONS[subtype]}`
+  return null
+}
+
+/**
+ * Map entrance/exit preset IDs (ECMA-376 presetID) to PPTist effects
+ * Exit effects reuse the entrance table with "In" swapped for "Out"
+ */
+function mapEntranceExitEffect(presetId: number, subtype: number, type: 'in' | 'out'): string | null {
+  const infix = type === 'in' ? 'In' : 'Out'
+
+  switch (presetId) {
+    case 1: // Appear / Disappear
+    case 9: // Dissolve
+    case 10: // Fade
+      return `fade${infix}`
+    case 2: // Fly
+    case 12: // Peek
+      return directionalEffect('slide', type, subtype)
+    case 22: // Wipe
+      return directionalEffect('fade', type, subtype)
+    case 37: // Rise Up / Sink Down
+      return type === 'in' ? 'fadeInUp' : 'fadeOutDown'
+    case 42: // Ascend
+      return `fade${infix}Up`
+    case 47: // Descend
+      return `fade${infix}Down`
+    case 23: // Zoom
+    case 53: // Faded Zoom
+    case 55: // Expand / Contract
+      return `zoom${infix}`
+    case 26: // Bounce
+      return `bounce${infix}`
+    case 21: // Wheel
+    case 31: // Grow & Turn
+      return `rotate${infix}`
+    case 19: // Swivel
+      return `flip${infix}Y`
+    case 34: // Light Speed
+      return `lightSpeed${infix}Right`
+    default:
+      return null
+  }
+}
+
+/**
+ * Map emphasis preset IDs to PPTist attention effects
+ */
+function mapEmphasisEffect(presetId: number): string | null {
+  switch (presetId) {
+    case 6: // Grow/Shrink
+      return 'pulse'
+    case 32: // Teeter
+      return 'wobble'
+    case 35: // Blink
+      return 'flash'
+    default:
+      return null
+  }
+}
+
+/**
+ * Resolve the PPTist effect name for a PowerPoint animation
+ * @returns The effect name, or null if there is no equivalent
+ */
+export function mapAnimationEffect(animation: PPTXAnimation, type: AnimationType): string | null {
+  if (type === 'attention') return mapEmphasisEffect(animation.presetId)
+  return mapEntranceExitEffect(animation.presetId, animation.presetSubtype, type)
+}
+
+/**
+ * Convert PPTX animations to PPTist animations
+ *
+ * @param animations - Animations parsed from the slide's p:timing tree
+ * @param elementIds - Maps PPTX shape ids (spid) to converted PPTist element ids
+ * @param onFallback - Called for each effect replaced with the default effect
+ * @returns PPTist animations in playback order
+ */
+export function convertAnimations(
+  animations: PPTXAnimation[],
+  elementIds: Map<string, string[]>,
+  onFallback?: (animation: PPTXAnimation) => void
+): PPTAnimation[] {
+  const result: PPTAnimation[] = []
+
+  for (const animation of animations) {
+    // Media play/pause commands are not visual effects
+    if (animation.presetClass === 'mediacall' || animation.presetClass === 'verb') continue
+
+    const targets = elementIds.get(animation.targetId)
+    if (!targets || targets.length === 0) continue
+
+    // Motion paths have no PPTist counterpart and fall back to an attention effect
+    const mappedType = PRESET_CLASS_TYPES[animation.presetClass]
+    const type = mappedType || 'attention'
+    const mapped = mappedType ? mapAnimationEffect(animation, mappedType) : null
+    const effect = mapped || DEFAULT_ANIMATION_EFFECTS[type]
+
+    if (!mapped) onFallback?.(animation)
+
+    // A group target animates each of its flattened children together
+    targets.forEach((elId, index) => {
+      result.push({
+        id: uuidv4(),
+        elId,
+        effect,
+        type,
+        duration: animation.duration,
+        trigger: index === 0 ? TRIGGERS[animation.trigger] : 'meantime',
+      })
+    })
+  }
+
+  return result
+}
+
+export default { convertAnimations, mapAnimationEffect, DEFAULT_ANIMATION_EFFECTS }
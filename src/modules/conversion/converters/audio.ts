@@ -4,6 +4,13 @@ import type { PPTAudioElement } from '../types/pptist.js'
 import type { ConversionContext } from '../../../types/index.js'
 import { createEmuConverters } from '../utils/geometry.js'
 
+/** File extensions for audio MIME types whose subtype is not the extension */
+const AUDIO_EXTENSIONS: Record<string, string> = {
+  'audio/mpeg': 'mp3',
+  'audio/mp4': 'm4a',
+  'audio/x-ms-wma': 'wma',
+}
+
 /**
  * Detect if element is an audio element
  */
@@ -15,22 +22,25 @@ function isAudioElement(element: PPTXElement): element is PPTXAudioElement {
  * Convert PPTX audio element to PPTist audio element
  */
 function convertAudio(element: PPTXAudioElement, context: ConversionContext): PPTAudioElement {
-  const { transform, rId, contentType } = element
+  const { transform, rId } = element
   const { toPixelX, toPixelY } = createEmuConverters()
 
-  // Get audio data from context
-  const media = context.mediaMap.get(rId)
-  let src = ''
+  // 使用 slideIndex_rId 组合键查找媒体（避免不同幻灯片 rId 冲突）
+  const mediaKey = `${context.currentSlideIndex}_${rId}`
+  const media = context.mediaMap.get(mediaKey)
+  // Linked audio keeps its URL or file path
+  let src = element.externalSrc || ''
 
   if (media) {
     src = `data:${media.mimeType};base64,${media.data}`
   }
 
   // Extract extension from content type
-  const ext = contentType?.split('/')[1] || 'mp3'
+  const contentType = media?.mimeType || element.contentType
+  const ext = (contentType && AUDIO_EXTENSIONS[contentType]) || contentType?.split('/')[1] || 'mp3'
 
   const pptistAudio: PPTAudioElement = {
-    id: context.requestId + '_audio_' + rId,
+    id: context.requestId + '_audio_' + mediaKey,
     type: 'audio',
     left: toPixelX(transform.x),
     top: toPixelY(transform.y),
@@ -39,12 +49,14 @@ function convertAudio(element: PPTXAudioElement, context: ConversionContext): PP
     rotate: transform.rotation || 0,
     fixedRatio: true,
     color: '#666666', // Default audio icon color
-    loop: false,
-    autoplay: false,
+    loop: element.loop || false,
+    autoplay: element.autoplay || false,
     src,
     ext,
   }
 
+  if (element.trim) pptistAudio.trim = { ...element.trim }
+
   return pptistAudio
 }
 
@@ -1,9 +1,83 @@
 import { registerConverter } from './index.js'
 import type { PPTXImageElement, PPTXElement } from '../types/pptx.js'
-import type { PPTImageElement } from '../types/pptist.js'
+import tinycolor from 'tinycolor2'
+import type { PPTImageElement, ImageElementClip, ImageElementFilters } from '../types/pptist.js'
 import type { ConversionContext } from '../../../types/index.js'
 import { createEmuConverters } from '../utils/geometry.js'
 
+/**
+ * Picture geometry (prst) -> PPTist clip shape
+ * roundRect is expressed with radius instead, so its corner size follows the adj value
+ */
+const CLIP_SHAPE_MAP: Record<string, string> = {
+  ellipse: 'ellipse',
+  triangle: 'triangle',
+  diamond: 'rhombus',
+  pentagon: 'pentagon',
+  hexagon: 'hexagon',
+  heptagon: 'heptagon',
+  octagon: 'octagon',
+  parallelogram: 'parallelogram',
+  trapezoid: 'trapezoid',
+}
+
+/** Default roundRect corner adj (ECMA-376 preset) */
+const DEFAULT_ROUND_RECT_ADJ = 16667
+
+/**
+ * Build the image clip from the crop rectangle and picture geometry
+ * Range is in percent of the source image: [[left, top], [right, bottom]]
+ */
+function convertImageClip(element: PPTXImageElement): ImageElementClip | undefined {
+  const { crop, geometry } = element
+  const shape = (geometry && CLIP_SHAPE_MAP[geometry]) || 'rect'
+  if (!crop && shape === 'rect') return undefined
+
+  return {
+    shape,
+    range: crop
+      ? [[crop.left, crop.top], [100 - crop.right, 100 - crop.bottom]]
+      : [[0, 0], [100, 100]],
+  }
+}
+
+/** Contrast used to approximate a black and white (biLevel) image */
+const BI_LEVEL_CONTRAST = '1000%'
+
+/** Opacity of the duotone tint laid over the grayscale image */
+const DUOTONE_MASK_ALPHA = 0.5
+
+/**
+ * Approximate blip effects with CSS filters
+ */
+function convertImageFilters(element: PPTXImageElement): ImageElementFilters | undefined {
+  const effects = element.effects
+  if (!effects) return undefined
+
+  const filters: ImageElementFilters = {}
+  if (effects.grayscale || effects.duotone || effects.biLevel !== undefined) filters.grayscale = '100%'
+  if (effects.brightness) filters.brightness = `${100 + effects.brightness}%`
+  if (effects.contrast) filters.contrast = `${100 + effects.contrast}%`
+  if (effects.biLevel !== undefined) filters.contrast = BI_LEVEL_CONTRAST
+  if (effects.alpha !== undefined && effects.alpha < 100) filters.opacity = `${effects.alpha}%`
+
+  return Object.keys(filters).length > 0 ? filters : undefined
+}
+
+/**
+ * Tint a duotone image with its most saturated color
+ * A black and white duotone is plain grayscale and gets no mask
+ */
+function convertDuotoneMask(element: PPTXImageElement): string | undefined {
+  const colors = element.effects?.duotone || []
+  const tint = colors
+    .map(color => tinycolor(color))
+    .sort((a, b) => b.toHsl().s - a.toHsl().s)[0]
+
+  if (!tint || tint.toHsl().s === 0) return undefined
+  return tint.setAlpha(DUOTONE_MASK_ALPHA).toHex8String().toUpperCase()
+}
+
 /**
  * Detect if element is an image element
  */
@@ -20,9 +94,14 @@ function convertImage(element: PPTXImageElement, context: ConversionContext): PP
 
   // 使用 slideIndex_rId 组合键查找媒体（避免不同幻灯片 rId 冲突）
   const mediaKey = `${context.currentSlideIndex}_${rId}`
-  const media = context.mediaMap.get(mediaKey)
+  let media = context.mediaMap.get(mediaKey)
   let src = ''
 
+  // Media that could not be transcoded for the browser is replaced by the mc:Fallback image
+  if (media?.unrenderable && element.fallbackRId) {
+    media = context.mediaMap.get(`${context.currentSlideIndex}_${element.fallbackRId}`) || media
+  }
+
   if (media) {
     // Create data URL
     src = `data:${media.mimeType};base64,${media.data}`
@@ -41,6 +120,21 @@ function convertImage(element: PPTXImageElement, context: ConversionContext): PP
     outline: { style: 'solid', width: 0, color: 'transparent' },
   }
 
+  const clip = convertImageClip(element)
+  if (clip) pptistImage.clip = clip
+  if (transform.flipH) pptistImage.flipH = true
+  if (transform.flipV) pptistImage.flipV = true
+
+  const filters = convertImageFilters(element)
+  if (filters) pptistImage.filters = filters
+  const colorMask = convertDuotoneMask(element)
+  if (colorMask) pptistImage.colorMask = colorMask
+
+  if (element.geometry === 'roundRect') {
+    const adj = element.adjustValues?.adj ?? DEFAULT_ROUND_RECT_ADJ
+    pptistImage.radius = Math.min(pptistImage.width, pptistImage.height) * adj / 100000
+  }
+
   return pptistImage
 }
 
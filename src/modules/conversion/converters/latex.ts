@@ -3,8 +3,12 @@ import type { PPTXLatexElement, PPTXElement } from '../types/pptx.js'
 import type { PPTLatexElement } from '../types/pptist.js'
 import type { ConversionContext } from '../../../types/index.js'
 import { v4 as uuidv4 } from 'uuid'
+import { hfmath } from 'hfmath'
 import { createEmuConverters } from '../utils/geometry.js'
 
+/** viewBox used for paths that come with the element */
+const DEFAULT_VIEWBOX: [number, number] = [1000, 1000]
+
 /**
  * Detect if element is a latex element
  */
@@ -12,33 +16,68 @@ function isLatexElement(element: PPTXElement): element is PPTXLatexElement {
   return element.type === 'latex'
 }
 
+/**
+ * Typeset LaTeX into a stroked SVG path with hfmath, the renderer used by the PPTist LaTeX editor
+ * The viewBox includes the margins hfmath adds around the formula
+ */
+export function renderLatexPath(latex: string): { path: string; viewBox: [number, number] } | null {
+  try {
+    const equation = new hfmath(latex)
+    const box = equation.box({})
+    const path = equation.pathd({})
+    if (!path || !box.w || !box.h) return null
+    return { path, viewBox: [box.w + box.x * 2, box.h + box.y * 2] }
+  } catch {
+    return null
+  }
+}
+
 /**
  * Convert PPTX latex element to PPTist latex element
- * Note: PPTX stores LaTeX as embedded OLE objects or MathML
- * This converter handles basic conversion
+ * Equations parsed from OMML only carry LaTeX, their path is typeset here
+ * and fitted into the text box without distorting the aspect ratio
  */
 function convertLatex(element: PPTXLatexElement, _context: ConversionContext): PPTLatexElement | null {
-  const { transform, latex, path } = element
+  const { transform, latex, color } = element
   const { toPixelX, toPixelY } = createEmuConverters()
 
   // If no latex content or path, skip this element
-  if (!latex && !path) {
+  if (!latex && !element.path) {
     return null
   }
 
+  const rendered = element.path ? null : renderLatexPath(latex)
+  const path = element.path || rendered?.path || ''
+  const viewBox = rendered?.viewBox || DEFAULT_VIEWBOX
+
+  let left = toPixelX(transform.x)
+  let top = toPixelY(transform.y)
+  let width = toPixelX(transform.width)
+  let height = toPixelY(transform.height)
+
+  if (rendered && width > 0 && height > 0) {
+    const scale = Math.min(width / viewBox[0], height / viewBox[1])
+    const fittedWidth = viewBox[0] * scale
+    const fittedHeight = viewBox[1] * scale
+    left += (width - fittedWidth) / 2
+    top += (height - fittedHeight) / 2
+    width = fittedWidth
+    height = fittedHeight
+  }
+
   const pptistLatex: PPTLatexElement = {
     id: uuidv4(),
     type: 'latex',
-    left: toPixelX(transform.x),
-    top: toPixelY(transform.y),
-    width: toPixelX(transform.width),
-    height: toPixelY(transform.height),
+    left,
+    top,
+    width,
+    height,
     rotate: transform.rotation || 0,
     latex: latex || '',
-    path: path || '',
-    color: '000000',
+    path,
+    color: color || '#000000',
     strokeWidth: 1,
-    viewBox: [1000, 1000],
+    viewBox,
     fixedRatio: true,
   }
 
@@ -56,4 +95,4 @@ export function registerLatexConverter(): void {
   )
 }
 
-export default { registerLatexConverter, convertLatex, isLatexElement }
+export default { registerLatexConverter, convertLatex, isLatexElement, renderLatexPath }
@@ -4,38 +4,50 @@ import type { PPTShapeElement, ShapeText } from '../types/pptist.js'
 import type { ConversionContext } from '../../../types/index.js'
 import { v4 as uuidv4 } from 'uuid'
 import { createEmuConverters } from '../utils/geometry.js'
-import { generateShapePath } from '../generators/svg-path-generator.js'
+import { generateShapePath, generateCustomPath } from '../generators/svg-path-generator.js'
+import { paragraphsToHtml, resolveTextSpacing, applyAutofit, PPTIST_TEXT_PADDING } from '../generators/html-text-generator.js'
+import type { TextPadding } from '../generators/html-text-generator.js'
+import { sanitizeHtml } from '../generators/html-sanitizer.js'
+import { substituteFonts } from '../fonts/font-map.js'
+
+/**
+ * Extra text padding in pixels for insets wider than PPTist's fixed shape text padding
+ * The shape outline cannot move, so narrower insets are left at PPTist's padding
+ */
+function shapeTextPadding(element: PPTXShapeElement): TextPadding | undefined {
+  const { insets } = element
+  if (!insets) return undefined
+
+  const { toPixelX, toPixelY } = createEmuConverters()
+  const extra = (pixels: number) => Math.max(pixels - PPTIST_TEXT_PADDING, 0)
+  return {
+    left: extra(toPixelX(insets.left)),
+    top: extra(toPixelY(insets.top)),
+    right: extra(toPixelX(insets.right)),
+    bottom: extra(toPixelY(insets.bottom)),
+  }
+}
 
 /**
  * Convert PPTX paragraphs to shape text
  */
-function convertShapeText(element: PPTXShapeElement): ShapeText | undefined {
+function convertShapeText(element: PPTXShapeElement, context: ConversionContext): ShapeText | undefined {
   if (!element.paragraphs || element.paragraphs.length === 0) {
     return undefined
   }
 
-  const firstRun = element.paragraphs[0]?.runs[0]
-  const runsHtml = element.paragraphs
-    .map((p) => {
-      const runHtml = p.runs
-        .map((run) => {
-          let html = run.text
-          if (run.bold) html = `<b>${html}</b>`
-          if (run.italic) html = `<i>${html}</i>`
-          if (run.color) html = `<span style="color: ${run.color}">${html}</span>`
-          return html
-        })
-        .join('')
-      return `<p>${runHtml}</p>`
-    })
-    .join('')
+  const paragraphs = substituteFonts(applyAutofit(element.paragraphs, element), context)
+  const firstRun = paragraphs[0]?.runs[0]
+  const spacing = resolveTextSpacing(paragraphs)
 
   return {
-    content: runsHtml,
+    content: sanitizeHtml(paragraphsToHtml(paragraphs, spacing, shapeTextPadding(element))),
     defaultFontName: firstRun?.fontName || 'Arial',
     defaultColor: firstRun?.color || '#000000',
-    align: 'middle',
-    lineHeight: 1.5,
+    // bodyPr anchor defaults to top
+    align: element.verticalAlign || 'top',
+    lineHeight: spacing.lineHeight,
+    paragraphSpace: spacing.paragraphSpace,
   }
 }
 
@@ -49,8 +61,8 @@ function isShapeElement(element: PPTXElement): element is PPTXShapeElement {
 /**
  * Convert PPTX shape element to PPTist shape element
  */
-function convertShape(element: PPTXShapeElement, _context: ConversionContext): PPTShapeElement {
-  const { transform, shapeType, adj, fill, fillOpacity, outline, paragraphs } = element
+function convertShape(element: PPTXShapeElement, context: ConversionContext): PPTShapeElement {
+  const { transform, shapeType, adj, adjustValues, customPaths, fill, fillOpacity, outline, paragraphs } = element
   const { toPixelX, toPixelY } = createEmuConverters()
 
   // 计算像素尺寸
@@ -59,9 +71,14 @@ function convertShape(element: PPTXShapeElement, _context: ConversionContext): P
 
   // 使用像素尺寸重新生成路径（确保路径坐标与元素尺寸匹配）
   // 注意：不使用 parser 传递的 path，因为它使用的是点坐标而非像素坐标
-  const shapePath = shapeType
-    ? generateShapePath(shapeType, pixelWidth, pixelHeight, adj)
-    : `M0,0 L${pixelWidth},0 L${pixelWidth},${pixelHeight} L0,${pixelHeight} Z`
+  let shapePath: string
+  if (customPaths && customPaths.length > 0) {
+    shapePath = generateCustomPath(customPaths, pixelWidth, pixelHeight)
+  } else if (shapeType) {
+    shapePath = generateShapePath(shapeType, pixelWidth, pixelHeight, adj, adjustValues)
+  } else {
+    shapePath = `M0,0 L${pixelWidth},0 L${pixelWidth},${pixelHeight} L0,${pixelHeight} Z`
+  }
 
   // viewBox 使用像素尺寸（与元素尺寸一致）
   const viewBox: [number, number] = [pixelWidth, pixelHeight]
@@ -100,9 +117,12 @@ function convertShape(element: PPTXShapeElement, _context: ConversionContext): P
         }
       : { style: 'solid', width: 1, color: '#000000' },
     opacity: 1,
-    text: paragraphs ? convertShapeText(element) : undefined,
+    text: paragraphs ? convertShapeText(element, context) : undefined,
   }
 
+  if (transform.flipH) pptistShape.flipH = true
+  if (transform.flipV) pptistShape.flipV = true
+
   return pptistShape
 }
 
@@ -4,6 +4,7 @@ import type { PPTTableElement, TableCell, TableCellStyle, TextAlign } from '../t
 import type { ConversionContext } from '../../../types/index.js'
 import { v4 as uuidv4 } from 'uuid'
 import { createEmuConverters } from '../utils/geometry.js'
+import { escapeHtml } from '../generators/html-text-generator.js'
 
 /**
  * Map alignment string to PPTist format
@@ -40,7 +41,8 @@ function convertCell(cell: PPTXTableCell): TableCell {
     id: uuidv4(),
     colspan: cell.rowSpan || 1,
     rowspan: cell.colSpan || 1,
-    text: cell.text,
+    // PPTist renders cell text as HTML
+    text: escapeHtml(cell.text),
     style,
   }
 }
@@ -4,74 +4,99 @@ import type { PPTTextElement } from '../types/pptist.js'
 import type { ConversionContext } from '../../../types/index.js'
 import { v4 as uuidv4 } from 'uuid'
 import { createEmuConverters } from '../utils/geometry.js'
+import { paragraphsToHtml, resolveTextSpacing, applyAutofit, PPTIST_TEXT_PADDING } from '../generators/html-text-generator.js'
+import { sanitizeHtml } from '../generators/html-sanitizer.js'
+import { substituteFonts } from '../fonts/font-map.js'
 
 /**
- * Convert PPTX text runs to HTML content
+ * Detect if element is a text element
+ */
+function isTextElement(element: PPTXElement): element is PPTXTextElement {
+  return element.type === 'text'
+}
+
+/**
+ * Text box bounds in pixels
+ * PPTist pads text by a fixed amount, so the box is resized to put the text area where the PPTX insets place it
  */
-function runsToHtml(paragraphs: PPTXTextElement['paragraphs']): string {
-  return paragraphs
-    .map((p) => {
-      const runsHtml = p.runs
-        .map((run) => {
-          let html = run.text
-          if (run.bold) html = `<b>${html}</b>`
-          if (run.italic) html = `<i>${html}</i>`
-          if (run.underline) html = `<u>${html}</u>`
-          if (run.strike) html = `<s>${html}</s>`
-          if (run.fontSize) {
-            html = `<span style="font-size: ${run.fontSize}px">${html}</span>`
-          }
-          if (run.color) {
-            html = `<span style="color: ${run.color}">${html}</span>`
-          }
-          if (run.fontName) {
-            html = `<span style="font-family: ${run.fontName}">${html}</span>`
-          }
-          return html
-        })
-        .join('')
+function textBounds(element: PPTXTextElement): Pick<PPTTextElement, 'left' | 'top' | 'width' | 'height'> {
+  const { transform, insets } = element
+  const { toPixelX, toPixelY } = createEmuConverters()
+
+  if (!insets) {
+    return {
+      left: toPixelX(transform.x),
+      top: toPixelY(transform.y),
+      width: toPixelX(transform.width),
+      height: toPixelY(transform.height),
+    }
+  }
 
-      // Wrap in paragraph with alignment
-      const align = p.align || 'left'
-      const bulletStyle = p.bullet ? 'list-style-type: disc; margin-left: 20px;' : ''
-      return `<p style="text-align: ${align}; ${bulletStyle}">${runsHtml}</p>`
-    })
-    .join('')
+  return {
+    left: toPixelX(transform.x + insets.left) - PPTIST_TEXT_PADDING,
+    top: toPixelY(transform.y + insets.top) - PPTIST_TEXT_PADDING,
+    width: toPixelX(transform.width - insets.left - insets.right) + PPTIST_TEXT_PADDING * 2,
+    height: toPixelY(transform.height - insets.top - insets.bottom) + PPTIST_TEXT_PADDING * 2,
+  }
 }
 
 /**
- * Detect if element is a text element
+ * Turn a box with rotated text (vert="vert" / "vert270") so its text runs horizontally
+ * PPTist cannot rotate text inside its box, so the box is swapped around its center and rotated instead,
+ * and the insets follow the text's own left, top, right and bottom
  */
-function isTextElement(element: PPTXElement): element is PPTXTextElement {
-  return element.type === 'text'
+function rotateTextBox(element: PPTXTextElement): PPTXTextElement {
+  const { transform, insets, textRotation } = element
+  if (!textRotation) return element
+
+  const { x, y, width, height } = transform
+  const clockwise = textRotation === 90
+
+  return {
+    ...element,
+    transform: {
+      ...transform,
+      x: Math.round(x + (width - height) / 2),
+      y: Math.round(y + (height - width) / 2),
+      width: height,
+      height: width,
+      rotation: ((transform.rotation || 0) + textRotation) % 360,
+    },
+    insets: insets && (clockwise
+      ? { left: insets.top, top: insets.right, right: insets.bottom, bottom: insets.left }
+      : { left: insets.bottom, top: insets.left, right: insets.top, bottom: insets.right }),
+  }
 }
 
 /**
  * Convert PPTX text element to PPTist text element
  */
-function convertText(element: PPTXTextElement, _context: ConversionContext): PPTTextElement {
-  const { transform, paragraphs } = element
-  const { toPixelX, toPixelY } = createEmuConverters()
+function convertText(element: PPTXTextElement, context: ConversionContext): PPTTextElement {
+  const box = rotateTextBox(element)
+  // Shrink-on-overflow: emit the font sizes PowerPoint actually rendered
+  const paragraphs = substituteFonts(applyAutofit(element.paragraphs, element), context)
 
   // Get default formatting from first paragraph's first run
   const firstRun = paragraphs[0]?.runs[0]
   const defaultFontName = firstRun?.fontName || 'Arial'
   const defaultColor = firstRun?.color || '#000000'
+  const spacing = resolveTextSpacing(paragraphs)
 
   const pptistText: PPTTextElement = {
     id: uuidv4(),
     type: 'text',
-    left: toPixelX(transform.x),
-    top: toPixelY(transform.y),
-    width: toPixelX(transform.width),
-    height: toPixelY(transform.height),
-    rotate: transform.rotation || 0,
-    content: runsToHtml(paragraphs),
+    ...textBounds(box),
+    rotate: box.transform.rotation || 0,
+    content: sanitizeHtml(paragraphsToHtml(paragraphs, spacing)),
     defaultFontName,
     defaultColor,
-    lineHeight: 1.5,
+    lineHeight: spacing.lineHeight,
     wordSpace: 0,
-    paragraphSpace: 5,
+    paragraphSpace: spacing.paragraphSpace,
+  }
+
+  if (element.vertical) {
+    pptistText.vertical = true
   }
 
   return pptistText
@@ -0,0 +1,113 @@
+import type { PPTXTransition } from '../types/pptx.js'
+import type { TurningMode } from '../types/pptist.js'
+
+/**
+ * Horizontal or vertical slide depending on the transition direction
+ * Directions are l/r/u/d, optionally combined for diagonals (lu, rd, ...)
+ */
+function slideByDirection(direction?: string): TurningMode {
+  return direction === 'u' || direction === 'd' ? 'slideY' : 'slideX'
+}
+
+/**
+ * 3D rotation around the vertical or horizontal axis
+ */
+function slide3DByDirection(direction?: string): TurningMode {
+  return direction === 'u' || direction === 'd' ? 'slideY3D' : 'slideX3D'
+}
+
+/**
+ * Zoom in or out depending on the transition direction
+ */
+function scaleByDirection(direction?: string): TurningMode {
+  return direction === 'out' ? 'scaleReverse' : 'scale'
+}
+
+/**
+ * Split-style transitions open along the given orientation
+ */
+function scaleByOrientation(orientation?: string): TurningMode {
+  return orientation === 'vert' ? 'scaleX' : 'scaleY'
+}
+
+/**
+ * Map a single transition effect to the closest PPTist turning mode
+ * @returns The turning mode, or null if the effect is not recognised
+ */
+function mapTransitionEffect(transition: PPTXTransition): TurningMode | null {
+  const { type, direction } = transition
+
+  switch (type) {
+    case 'p:cut':
+      return 'no'
+    case 'p:fade':
+    case 'p:dissolve':
+    case 'p:blinds':
+    case 'p:checker':
+    case 'p:comb':
+    case 'p:randomBar':
+    case 'p:strips':
+    case 'p:circle':
+    case 'p:diamond':
+    case 'p:plus':
+    case 'p:wedge':
+    case 'p14:flash':
+    case 'p14:shred':
+    case 'p14:glitter':
+    case 'p14:honeycomb':
+    case 'p14:reveal':
+    case 'p15:prstTrans':
+      return 'fade'
+    case 'p:push':
+    case 'p:wipe':
+    case 'p:cover':
+    case 'p:pull':
+    case 'p14:pan':
+    case 'p14:conveyor':
+      return slideByDirection(direction)
+    case 'p:zoom':
+    case 'p14:warp':
+    case 'p14:flythrough':
+      return scaleByDirection(direction)
+    case 'p:split':
+    case 'p14:doors':
+    case 'p14:window':
+      return scaleByOrientation(direction)
+    case 'p:wheel':
+    case 'p:newsflash':
+    case 'p14:vortex':
+    case 'p14:ferris':
+    case 'p14:ripple':
+      return 'rotate'
+    case 'p14:prism':
+    case 'p14:flip':
+    case 'p14:switch':
+    case 'p14:gallery':
+      return slide3DByDirection(direction)
+    case 'p:random':
+      return 'random'
+    default:
+      return null
+  }
+}
+
+/**
+ * Convert a PPTX slide transition to a PPTist turning mode
+ * Extension effects (p14/p15) that are not recognised use the mc:Fallback effect,
+ * and a transition without any effect element means no animation
+ */
+export function convertTransition(transition?: PPTXTransition): TurningMode | undefined {
+  if (!transition) return undefined
+  if (!transition.type && !transition.fallback) return 'no'
+
+  const mode = mapTransitionEffect(transition)
+  if (mode) return mode
+
+  if (transition.fallback) {
+    return mapTransitionEffect(transition.fallback) || 'fade'
+  }
+
+  return 'fade'
+}
+
+export default { convertTransition }
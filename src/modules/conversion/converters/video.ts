@@ -4,6 +4,14 @@ import type { PPTVideoElement } from '../types/pptist.js'
 import type { ConversionContext } from '../../../types/index.js'
 import { createEmuConverters } from '../utils/geometry.js'
 
+/** File extensions for video MIME types whose subtype is not the extension */
+const VIDEO_EXTENSIONS: Record<string, string> = {
+  'video/quicktime': 'mov',
+  'video/x-msvideo': 'avi',
+  'video/x-ms-wmv': 'wmv',
+  'video/mpeg': 'mpg',
+}
+
 /**
  * Detect if element is a video element
  */
@@ -15,31 +23,34 @@ function isVideoElement(element: PPTXElement): element is PPTXVideoElement {
  * Convert PPTX video element to PPTist video element
  */
 function convertVideo(element: PPTXVideoElement, context: ConversionContext): PPTVideoElement {
-  const { transform, rId, contentType, posterRId } = element
+  const { transform, rId, posterRId } = element
   const { toPixelX, toPixelY } = createEmuConverters()
 
-  // Get video data from context
-  const media = context.mediaMap.get(rId)
-  let src = ''
+  // 使用 slideIndex_rId 组合键查找媒体（避免不同幻灯片 rId 冲突）
+  const mediaKey = `${context.currentSlideIndex}_${rId}`
+  const media = context.mediaMap.get(mediaKey)
+  // Linked videos keep their URL or file path
+  let src = element.externalSrc || ''
 
   if (media) {
     src = `data:${media.mimeType};base64,${media.data}`
   }
 
-  // Get poster image if available
+  // The picture's blip is the poster frame shown before playback
   let poster: string | undefined
   if (posterRId) {
-    const posterMedia = context.mediaMap.get(posterRId)
+    const posterMedia = context.mediaMap.get(`${context.currentSlideIndex}_${posterRId}`)
     if (posterMedia) {
       poster = `data:${posterMedia.mimeType};base64,${posterMedia.data}`
     }
   }
 
   // Extract extension from content type
-  const ext = contentType?.split('/')[1] || 'mp4'
+  const contentType = media?.mimeType || element.contentType
+  const ext = (contentType && VIDEO_EXTENSIONS[contentType]) || contentType?.split('/')[1] || 'mp4'
 
   const pptistVideo: PPTVideoElement = {
-    id: context.requestId + '_video_' + rId,
+    id: context.requestId + '_video_' + mediaKey,
     type: 'video',
     left: toPixelX(transform.x),
     top: toPixelY(transform.y),
@@ -47,11 +58,14 @@ function convertVideo(element: PPTXVideoElement, context: ConversionContext): PP
     height: toPixelY(transform.height),
     rotate: transform.rotation || 0,
     src,
-    autoplay: false,
+    autoplay: element.autoplay || false,
     poster,
     ext,
   }
 
+  if (element.loop) pptistVideo.loop = true
+  if (element.trim) pptistVideo.trim = { ...element.trim }
+
   return pptistVideo
 }
 
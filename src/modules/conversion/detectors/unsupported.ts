@@ -85,10 +85,10 @@ export function generateUnsupportedWarnings(
 /**
  * Check for and report unsupported elements
  */
-export function checkAndReportUnsupported(
-  elements: PPTXElement[],
+export function checkAndReportUnsupported<T extends PPTXElement>(
+  elements: T[],
   warnings: WarningInfo[]
-): PPTXElement[] {
+): T[] {
   const unsupported = detectUnsupportedElements(elements)
 
   if (unsupported.length > 0) {
@@ -0,0 +1,199 @@
+/**
+ * 嵌入字体提取
+ *
+ * @module modules/conversion/fonts/embedded-font
+ * @description 以“嵌入字体”方式保存的演示文稿在 ppt/fonts/*.fntdata 中保存字体，
+ * 由 presentation.xml 的 p:embeddedFontLst 引用。fntdata 是 EOT（Embedded OpenType）格式：
+ * EOT 头之后是 TrueType/OpenType 字体数据，设置 TTEMBED_XORENCRYPTDATA 标志时数据按字节与 0x50 异或混淆。
+ * 提取出的字体以 data URL 写入 @font-face 规则；字体的 fsType 标记为受限许可时不提取。
+ *
+ * @example
+ * ```typescript
+ * const font = extractEmbeddedFont(fntdata)
+ * if (!font.restricted) {
+ *   fontFaceRule({ fontFamily: 'Lato', fontWeight: 'bold', fontStyle: 'normal' }, font)
+ *   // "@font-face { font-family: 'Lato'; src: url(data:font/ttf;base64,...) format('truetype'); ... }"
+ * }
+ * ```
+ */
+
+import { cssFontFamily } from '../generators/html-text-generator.js'
+
+/** EOT 头中的魔数 */
+const EOT_MAGIC_NUMBER = 0x504c
+
+/** EOT 版本 1.0、2.1、2.2 */
+const EOT_VERSIONS = [0x00010000, 0x00020001, 0x00020002]
+
+/** EOT 头的最小长度（到 MagicNumber 为止） */
+const EOT_MIN_HEADER_SIZE = 36
+
+/** EOT 标志：字体数据经过 MicroType Express 压缩 */
+const TTEMBED_TTCOMPRESSED = 0x00000004
+
+/** EOT 标志：字体数据与 0x50 异或混淆 */
+const TTEMBED_XORENCRYPTDATA = 0x10000000
+
+/** 异或混淆的密钥 */
+const XOR_KEY = 0x50
+
+/** fsType 中的嵌入许可位 */
+const FS_TYPE_USAGE_MASK = 0x000f
+
+/** fsType 嵌入许可：受限许可，不允许嵌入和提取 */
+const FS_TYPE_RESTRICTED = 0x0002
+
+/** sfnt 文件头标识 -> 字体格式 */
+const SFNT_FORMATS: Record<number, 'truetype' | 'opentype'> = {
+  0x00010000: 'truetype',
+  0x74727565: 'truetype', // 'true'
+  0x4f54544f: 'opentype', // 'OTTO'
+}
+
+/** 字体格式 -> MIME 类型 */
+const FONT_MIME_TYPES: Record<'truetype' | 'opentype', string> = {
+  truetype: 'font/ttf',
+  opentype: 'font/otf',
+}
+
+/**
+ * 嵌入字体无法提取
+ *
+ * @description
+ * 如 MicroType Express 压缩的字体、无法识别的字体数据。
+ */
+export class EmbeddedFontError extends Error {
+  /** 无法提取的原因 */
+  public readonly reason: string
+
+  constructor(reason: string) {
+    super(`Cannot extract embedded font: ${reason}`)
+    this.name = 'EmbeddedFontError'
+    this.reason = reason
+  }
+}
+
+/**
+ * 提取的嵌入字体
+ */
+export interface EmbeddedFontData {
+  /** TrueType/OpenType 字体数据 */
+  data: Buffer
+  /** 字体格式，用于 @font-face 的 format() */
+  format: 'truetype' | 'opentype'
+  /** OS/2 表的 fsType（嵌入许可） */
+  fsType: number
+  /** 受限许可字体，不应提取 */
+  restricted: boolean
+}
+
+/**
+ * @font-face 规则的字体描述
+ */
+export interface FontFaceDescriptor {
+  fontFamily: string
+  fontWeight: 'normal' | 'bold'
+  fontStyle: 'normal' | 'italic'
+}
+
+/**
+ * 判断数据是否为 sfnt（TrueType/OpenType）字体
+ */
+function getSfntFormat(data: Buffer): 'truetype' | 'opentype' | undefined {
+  return data.length >= 12 ? SFNT_FORMATS[data.readUInt32BE(0)] : undefined
+}
+
+/**
+ * 读取 sfnt 字体 OS/2 表的 fsType，没有 OS/2 表时返回 0（可安装）
+ */
+function getSfntFsType(data: Buffer): number {
+  const numTables = data.readUInt16BE(4)
+  for (let i = 0; i < numTables; i++) {
+    const record = 12 + i * 16
+    if (record + 16 > data.length) break
+    if (data.toString('latin1', record, record + 4) !== 'OS/2') continue
+
+    const offset = data.readUInt32BE(record + 8)
+    return offset + 10 <= data.length ? data.readUInt16BE(offset + 8) : 0
+  }
+  return 0
+}
+
+/**
+ * 判断数据是否为 EOT 字体
+ */
+function isEot(data: Buffer): boolean {
+  return data.length >= EOT_MIN_HEADER_SIZE
+    && data.readUInt16LE(34) === EOT_MAGIC_NUMBER
+    && EOT_VERSIONS.includes(data.readUInt32LE(8))
+}
+
+/**
+ * 从 EOT 中取出字体数据
+ *
+ * @description
+ * 各版本 EOT 的字体数据都位于文件末尾，长度为 FontDataSize。
+ */
+function decodeEot(data: Buffer): { fontData: Buffer; fsType: number } {
+  const eotSize = data.readUInt32LE(0)
+  const fontDataSize = data.readUInt32LE(4)
+  const flags = data.readUInt32LE(12)
+
+  if (eotSize > data.length || fontDataSize > eotSize - EOT_MIN_HEADER_SIZE) {
+    throw new EmbeddedFontError('truncated EOT data')
+  }
+  if (flags & TTEMBED_TTCOMPRESSED) {
+    throw new EmbeddedFontError('MicroType Express compression')
+  }
+
+  const fontData = Buffer.from(data.subarray(eotSize - fontDataSize, eotSize))
+  if (flags & TTEMBED_XORENCRYPTDATA) {
+    for (let i = 0; i < fontData.length; i++) fontData[i] ^= XOR_KEY
+  }
+
+  return { fontData, fsType: data.readUInt16LE(32) }
+}
+
+/**
+ * 提取嵌入字体
+ *
+ * @description
+ * fntdata 通常是 EOT 格式，部分工具直接写入 TrueType/OpenType 字体，两种都支持。
+ * 嵌入许可取自 EOT 头的 fsType，直接写入的字体取自 OS/2 表。
+ *
+ * @param data - fntdata 文件内容
+ * @returns 字体数据、格式和嵌入许可
+ * @throws {EmbeddedFontError} 字体压缩或无法识别时抛出
+ */
+export function extractEmbeddedFont(data: Buffer): EmbeddedFontData {
+  const { fontData, fsType } = isEot(data)
+    ? decodeEot(data)
+    : { fontData: data, fsType: getSfntFormat(data) ? getSfntFsType(data) : 0 }
+
+  const format = getSfntFormat(fontData)
+  if (!format) {
+    throw new EmbeddedFontError('unrecognised font data')
+  }
+
+  return {
+    data: fontData,
+    format,
+    fsType,
+    restricted: (fsType & FS_TYPE_USAGE_MASK) === FS_TYPE_RESTRICTED,
+  }
+}
+
+/**
+ * 生成 @font-face 规则
+ *
+ * @param descriptor - 字体名、粗细和样式
+ * @param font - 提取的字体
+ * @returns @font-face 规则，字体数据以 data URL 内联
+ */
+export function fontFaceRule(descriptor: FontFaceDescriptor, font: EmbeddedFontData): string {
+  const src = `url(data:${FONT_MIME_TYPES[font.format]};base64,${font.data.toString('base64')}) format('${font.format}')`
+  return `@font-face { font-family: ${cssFontFamily(descriptor.fontFamily)}; src: ${src}; ` +
+    `font-weight: ${descriptor.fontWeight}; font-style: ${descriptor.fontStyle}; }`
+}
+
+export default { extractEmbeddedFont, fontFaceRule, EmbeddedFontError }
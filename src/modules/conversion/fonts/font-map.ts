@@ -0,0 +1,171 @@
+/**
+ * 字体替换
+ *
+ * @module modules/conversion/fonts/font-map
+ * @description PPTX 常用的 Office 字体（Calibri、微软雅黑、等线、Segoe UI 等）在浏览器中通常不可用。
+ * 转换时按替换表换成网页安全字体或 PPTist 前端自带的字体；替换表可通过 FONT_MAP 配置覆盖和扩展。
+ * 已提取的嵌入字体不替换；既不在替换表中、PPTist 也不提供的字体保留原名，在没有安装该字体的浏览器中回退到默认字体。
+ * 每种原字体的使用次数（文本运行数）记录在转换上下文中，转换结束后生成 WARN_FONT_FALLBACK 警告。
+ *
+ * @example
+ * ```typescript
+ * substituteFont('微软雅黑', context)
+ * // 'SourceHanSans'，context.fontFallbacks 中记录 { substitute: 'SourceHanSans', count: 1 }
+ * ```
+ */
+
+import type { ConversionContext } from '../../../types/index.js'
+import type { PPTXParagraph } from '../types/pptx.js'
+
+/** 替换记录：替换后的字体（无替换字体时为 undefined）和使用次数 */
+export interface FontFallback {
+  substitute?: string
+  count: number
+}
+
+/** PPTist 前端自带的字体（src/configs/font.ts 中的 font-family） */
+export const PPTIST_FONTS = [
+  'SourceHanSans',
+  'SourceHanSerif',
+  'FangZhengHeiTi',
+  'FangZhengKaiTi',
+  'FangZhengShuSong',
+  'FangZhengFangSong',
+  'AlibabaPuHuiTi',
+  'ZhuqueFangSong',
+  'LXGWWenKai',
+  'WenDingPLKaiTi',
+  'DeYiHei',
+  'MiSans',
+]
+
+/** 各平台浏览器普遍可用的字体和通用字体族 */
+export const WEB_SAFE_FONTS = [
+  'Arial',
+  'Arial Black',
+  'Helvetica',
+  'Verdana',
+  'Tahoma',
+  'Trebuchet MS',
+  'Impact',
+  'Times New Roman',
+  'Times',
+  'Georgia',
+  'Courier New',
+  'Courier',
+  'Comic Sans MS',
+  'serif',
+  'sans-serif',
+  'monospace',
+]
+
+/** 中日韩黑体类字体 */
+const CJK_SANS_FONTS = [
+  '微软雅黑', 'Microsoft YaHei', 'Microsoft YaHei UI', 'Microsoft YaHei Light',
+  '等线', 'DengXian', '等线 Light', 'DengXian Light',
+  '黑体', 'SimHei', '微軟正黑體', 'Microsoft JhengHei', '苹方', 'PingFang SC', 'Hiragino Sans GB',
+  'Noto Sans SC', 'Noto Sans CJK SC', 'Source Han Sans SC', '思源黑体',
+  'ＭＳ Ｐゴシック', 'MS PGothic', 'ＭＳ ゴシック', 'MS Gothic', 'メイリオ', 'Meiryo', '游ゴシック', 'Yu Gothic',
+  '맑은 고딕', 'Malgun Gothic',
+]
+
+/** 中日韩宋体类字体 */
+const CJK_SERIF_FONTS = [
+  '宋体', 'SimSun', '新宋体', 'NSimSun', '新細明體', 'PMingLiU', '細明體', 'MingLiU',
+  'Noto Serif SC', 'Noto Serif CJK SC', 'Source Han Serif SC', '思源宋体',
+  'ＭＳ Ｐ明朝', 'MS PMincho', 'ＭＳ 明朝', 'MS Mincho', '游明朝', 'Yu Mincho',
+  '바탕', 'Batang',
+]
+
+/** 西文无衬线字体 */
+const LATIN_SANS_FONTS = [
+  'Calibri', 'Calibri Light', 'Aptos', 'Aptos Display', 'Segoe UI', 'Segoe UI Light', 'Segoe UI Semibold',
+  'Century Gothic', 'Corbel', 'Candara', 'Franklin Gothic Book', 'Franklin Gothic Medium', 'Gill Sans MT',
+  'Arial Narrow', 'Tw Cen MT',
+]
+
+/** 西文衬线字体 */
+const LATIN_SERIF_FONTS = ['Cambria', 'Constantia', 'Book Antiqua', 'Palatino Linotype', 'Garamond', 'Bookman Old Style']
+
+/** 西文等宽字体 */
+const MONOSPACE_FONTS = ['Consolas', 'Lucida Console', 'Cascadia Code', 'Cascadia Mono']
+
+/** 内置替换表：Office 字体 -> 网页安全字体或 PPTist 自带字体 */
+export const DEFAULT_FONT_MAP: Record<string, string> = {
+  ...Object.fromEntries(CJK_SANS_FONTS.map(font => [font, 'SourceHanSans'])),
+  ...Object.fromEntries(CJK_SERIF_FONTS.map(font => [font, 'SourceHanSerif'])),
+  ...Object.fromEntries(LATIN_SANS_FONTS.map(font => [font, 'Arial'])),
+  ...Object.fromEntries(LATIN_SERIF_FONTS.map(font => [font, 'Georgia'])),
+  ...Object.fromEntries(MONOSPACE_FONTS.map(font => [font, 'Courier New'])),
+  '楷体': 'FangZhengKaiTi',
+  'KaiTi': 'FangZhengKaiTi',
+  '华文楷体': 'FangZhengKaiTi',
+  'STKaiti': 'FangZhengKaiTi',
+  '仿宋': 'FangZhengFangSong',
+  'FangSong': 'FangZhengFangSong',
+  '华文仿宋': 'FangZhengFangSong',
+  'STFangsong': 'FangZhengFangSong',
+}
+
+/** 可直接使用的字体（小写） */
+const AVAILABLE_FONTS = new Set([...PPTIST_FONTS, ...WEB_SAFE_FONTS].map(font => font.toLowerCase()))
+
+/**
+ * 在替换表中查找字体（不区分大小写）
+ */
+function findSubstitute(fontMap: Record<string, string>, fontName: string): string | undefined {
+  const key = fontName.toLowerCase()
+  return Object.entries(fontMap).find(([font]) => font.toLowerCase() === key)?.[1]
+}
+
+/**
+ * 判断字体是否为演示文稿中已提取的嵌入字体
+ */
+function isEmbeddedFont(fontName: string, context: ConversionContext): boolean {
+  const key = fontName.toLowerCase()
+  return !!context.embeddedFonts?.some(font => font.fontFace && font.fontFamily.toLowerCase() === key)
+}
+
+/**
+ * 替换字体
+ *
+ * @description
+ * 依次查找配置的替换表（context.fontMap）和内置替换表；已提取的嵌入字体、PPTist 自带字体和网页安全字体不替换。
+ * 替换的字体和不可用的字体都记录到 context.fontFallbacks。
+ *
+ * @param fontName - 原字体名
+ * @param context - 转换上下文
+ * @returns 替换后的字体名，不需要替换时返回原字体名
+ */
+export function substituteFont(fontName: string, context: ConversionContext): string {
+  if (isEmbeddedFont(fontName, context)) return fontName
+
+  const substitute = findSubstitute(context.fontMap || {}, fontName)
+    ?? (AVAILABLE_FONTS.has(fontName.toLowerCase()) ? fontName : findSubstitute(DEFAULT_FONT_MAP, fontName))
+  if (substitute === fontName) return fontName
+
+  const fallbacks = context.fontFallbacks
+  if (fallbacks) {
+    const fallback = fallbacks.get(fontName) || { substitute, count: 0 }
+    fallback.count++
+    fallbacks.set(fontName, fallback)
+  }
+
+  return substitute || fontName
+}
+
+/**
+ * 替换段落中所有文本运行的字体
+ *
+ * @param paragraphs - 段落
+ * @param context - 转换上下文
+ * @returns 替换字体后的段落副本
+ */
+export function substituteFonts(paragraphs: PPTXParagraph[], context: ConversionContext): PPTXParagraph[] {
+  return paragraphs.map(para => ({
+    ...para,
+    runs: para.runs.map(run => run.fontName ? { ...run, fontName: substituteFont(run.fontName, context) } : run),
+  }))
+}
+
+export default { substituteFont, substituteFonts }
@@ -0,0 +1,221 @@
+/**
+ * HTML 清理
+ *
+ * @module modules/conversion/generators/html-sanitizer
+ * @description 输出给 PPTist 的富文本（文本框、形状文字、表格单元格、备注）会被编辑器作为 HTML 渲染。
+ * 文本内容和字体名等来自 PPTX 文件，可能被构造成 HTML 片段或 CSS，
+ * 所有输出的 HTML 都经过白名单清理：只保留允许的标签、属性和 CSS 属性，去掉脚本链接。
+ */
+
+/** 允许的标签 */
+const ALLOWED_TAGS = ['p', 'span', 'b', 'strong', 'i', 'em', 'u', 's', 'sub', 'sup', 'a', 'br', 'ol', 'ul', 'li']
+
+/** 连同内容一起移除的标签 */
+const DROPPED_CONTENT_TAGS = ['script', 'style', 'iframe', 'object', 'embed', 'noscript', 'template', 'textarea', 'title', 'xmp']
+
+/** 自闭合标签 */
+const VOID_TAGS = ['br']
+
+/** 各标签允许的属性（'*' 适用于所有标签） */
+const ALLOWED_ATTRIBUTES: Record<string, string[]> = {
+  '*': ['style'],
+  a: ['href', 'target', 'rel'],
+  ol: ['start', 'type'],
+  ul: ['type'],
+}
+
+/** 允许的 CSS 属性 */
+const ALLOWED_CSS_PROPERTIES = [
+  'color', 'background-color', 'font-family', 'font-size', 'font-weight', 'font-style',
+  'text-decoration', 'text-decoration-line', 'text-decoration-style', 'text-decoration-color',
+  'text-align', 'text-indent', 'line-height', 'letter-spacing', 'vertical-align', 'text-transform',
+  'font-variant', 'background-image', 'background-clip', '-webkit-background-clip', '-webkit-text-fill-color', '-webkit-text-stroke',
+  'margin', 'margin-top', 'margin-bottom', 'margin-left', 'margin-right',
+  'padding', 'padding-top', 'padding-bottom', 'padding-left', 'padding-right', 'list-style-type',
+]
+
+/**
+ * 只接受特定写法的 CSS 属性
+ *
+ * @description
+ * background-image 只用于文字渐变；不带引号才能排除 image-set("...") 等加载外部图片的写法。
+ */
+const RESTRICTED_CSS_VALUES: Record<string, RegExp> = {
+  'background-image': /^(?:linear|radial)-gradient\([^"']*\)$/i,
+}
+
+/** 允许的链接协议，没有协议的相对链接和锚点也允许 */
+const ALLOWED_URL_SCHEMES = ['http', 'https', 'mailto', 'tel']
+
+/** CSS 值中可能执行代码或加载外部资源的写法 */
+const UNSAFE_CSS_VALUE = /url\s*\(|expression\s*\(|javascript:|@import|behavior\s*:|[<>\\]/i
+
+/** 标签或注释 */
+const TAG_PATTERN = /<!--[\s\S]*?(?:-->|$)|<(\/?)([a-zA-Z][a-zA-Z0-9-]*)((?:[^>"']|"[^"]*"|'[^']*')*)>/g
+
+/** 属性：name、name=value、name="value"、name='value' */
+const ATTRIBUTE_PATTERN = /([^\s"'<>/=]+)(?:\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s"'=<>`]+)))?/g
+
+/**
+ * 转义文本中的特殊字符，保留已有的字符实体
+ */
+function escapeText(text: string): string {
+  return text
+    .replace(/&(?!(?:[a-zA-Z][a-zA-Z0-9]*|#\d+|#x[0-9a-fA-F]+);)/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+}
+
+/**
+ * 转义属性值
+ */
+function escapeAttribute(value: string): string {
+  return escapeText(value).replace(/"/g, '&quot;')
+}
+
+/**
+ * 解码属性值中的字符实体，用于检查链接协议（如 &#106;avascript:）
+ */
+function decodeEntities(value: string): string {
+  return value
+    .replace(/&#x([0-9a-f]+);?/gi, (_match, hex: string) => String.fromCodePoint(parseInt(hex, 16)))
+    .replace(/&#(\d+);?/g, (_match, dec: string) => String.fromCodePoint(parseInt(dec, 10)))
+    .replace(/&colon;/gi, ':')
+    .replace(/&tab;|&newline;/gi, '')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;|&#39;/g, "'")
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&amp;/g, '&')
+}
+
+/**
+ * 检查链接是否安全
+ *
+ * @description
+ * 浏览器解析协议前会忽略空白和控制字符，检查前同样去掉；
+ * 只允许 http/https/mailto/tel 和相对链接。
+ */
+export function isSafeUrl(url: string): boolean {
+  // eslint-disable-next-line no-control-regex
+  const normalized = decodeEntities(url).replace(/[\u0000- \u007f-\u009f]/g, '')
+  const scheme = /^([a-z][a-z0-9+.-]*):/i.exec(normalized)?.[1]
+  return !scheme || ALLOWED_URL_SCHEMES.includes(scheme.toLowerCase())
+}
+
+/**
+ * 清理内联样式
+ *
+ * @param style - style 属性值
+ * @returns 只包含允许的 CSS 属性的样式，没有可保留的声明时返回空字符串
+ */
+export function sanitizeStyle(style: string): string {
+  return decodeEntities(style)
+    .split(';')
+    .map(declaration => {
+      const colon = declaration.indexOf(':')
+      if (colon < 0) return ''
+      const property = declaration.slice(0, colon).trim().toLowerCase()
+      const value = declaration.slice(colon + 1).trim()
+      if (!ALLOWED_CSS_PROPERTIES.includes(property) || !value || UNSAFE_CSS_VALUE.test(value)) return ''
+      if (RESTRICTED_CSS_VALUES[property] && !RESTRICTED_CSS_VALUES[property].test(value)) return ''
+      return `${property}: ${value}`
+    })
+    .filter(Boolean)
+    .join('; ')
+}
+
+/**
+ * 清理标签属性
+ */
+function sanitizeAttributes(tag: string, source: string): string {
+  const allowed = [...ALLOWED_ATTRIBUTES['*'], ...(ALLOWED_ATTRIBUTES[tag] || [])]
+  const attributes: string[] = []
+
+  for (const match of source.matchAll(ATTRIBUTE_PATTERN)) {
+    const name = match[1].toLowerCase()
+    if (!allowed.includes(name)) continue
+
+    let value = match[2] ?? match[3] ?? match[4] ?? ''
+    if (name === 'style') {
+      value = sanitizeStyle(value)
+      if (!value) continue
+    } else if (name === 'href') {
+      if (!isSafeUrl(value)) continue
+      value = decodeEntities(value)
+    } else if (name === 'target') {
+      if (value !== '_blank') continue
+    } else {
+      value = decodeEntities(value)
+    }
+
+    attributes.push(` ${name}="${escapeAttribute(value)}"`)
+  }
+
+  return attributes.join('')
+}
+
+/**
+ * 按白名单清理 HTML
+ *
+ * @description
+ * 不允许的标签被去掉但保留其中的文本，脚本、样式等标签连同内容一起移除；
+ * 未闭合的标签在末尾补齐，多余的结束标签被丢弃，输出总是结构完整的 HTML。
+ *
+ * @param html - 待清理的 HTML
+ * @returns 清理后的 HTML
+ *
+ * @example
+ * ```typescript
+ * sanitizeHtml('<p onclick="x()">a<img src=x onerror=alert(1)></p>')
+ * // '<p>a</p>'
+ * ```
+ */
+export function sanitizeHtml(html: string): string {
+  const output: string[] = []
+  const openTags: string[] = []
+  let droppedTag: string | undefined
+  let lastIndex = 0
+
+  for (const match of html.matchAll(TAG_PATTERN)) {
+    const [source, closing, rawName = '', attributes = ''] = match
+    const text = html.slice(lastIndex, match.index)
+    lastIndex = match.index + source.length
+    if (!droppedTag) output.push(escapeText(text))
+
+    // 注释
+    if (!rawName) continue
+
+    const tag = rawName.toLowerCase()
+
+    // 跳过脚本等标签的内容，直到对应的结束标签
+    if (droppedTag) {
+      if (closing && tag === droppedTag) droppedTag = undefined
+      continue
+    }
+    if (DROPPED_CONTENT_TAGS.includes(tag)) {
+      if (!closing && !source.endsWith('/>')) droppedTag = tag
+      continue
+    }
+
+    if (!ALLOWED_TAGS.includes(tag)) continue
+
+    if (closing) {
+      const index = openTags.lastIndexOf(tag)
+      if (index < 0) continue
+      // 关闭中间未闭合的标签
+      while (openTags.length > index) output.push(`</${openTags.pop()}>`)
+      continue
+    }
+
+    output.push(`<${tag}${sanitizeAttributes(tag, attributes)}>`)
+    if (!VOID_TAGS.includes(tag)) openTags.push(tag)
+  }
+
+  if (!droppedTag) output.push(escapeText(html.slice(lastIndex)))
+  while (openTags.length > 0) output.push(`</${openTags.pop()}>`)
+
+  return output.join('')
+}
+
+export default { sanitizeHtml, sanitizeStyle, isSafeUrl }
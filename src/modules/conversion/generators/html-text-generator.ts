@@ -4,14 +4,57 @@
  * 生成 PPTist 兼容的 HTML 文本
  */
 
-import type { XmlObject, ParsingContext } from '../context/parsing-context.js'
-import { resolveSolidFill, getTextByPathList } from '../resolvers/color-resolver.js'
-import type { PPTXTextRun, PPTXParagraph } from '../types/pptx.js'
+import type { PPTXTextRun, PPTXParagraph, PPTXLink, PPTXBodyProperties, PPTXTextGradient } from '../types/pptx.js'
+
+/** PowerPoint 单倍行距约为字号的 1.2 倍 */
+const SINGLE_LINE_HEIGHT = 1.2
+
+/** PowerPoint 未设置字号时的默认字号（点） */
+const DEFAULT_FONT_SIZE = 18
+
+/** PPTist 文本框和形状文字的固定内边距（像素） */
+export const PPTIST_TEXT_PADDING = 10
+
+/** 未设置左边距的列表缩进（像素） */
+const DEFAULT_LIST_INDENT = 20
+
+/** a:buAutoNum 编号类型 -> CSS list-style-type */
+const AUTO_NUM_LIST_STYLES: Record<string, string> = {
+  arabicPeriod: 'decimal',
+  arabicPlain: 'decimal',
+  arabicParenR: 'decimal',
+  arabicParenBoth: 'decimal',
+  romanUcPeriod: 'upper-roman',
+  romanUcPlain: 'upper-roman',
+  romanLcPeriod: 'lower-roman',
+  romanLcPlain: 'lower-roman',
+  alphaUcPeriod: 'upper-alpha',
+  alphaUcPlain: 'upper-alpha',
+  alphaUcParenR: 'upper-alpha',
+  alphaLcPeriod: 'lower-alpha',
+  alphaLcPlain: 'lower-alpha',
+  alphaLcParenR: 'lower-alpha',
+  eastAsiaChsPlain: 'cjk-ideographic',
+  eastAsiaChsPeriod: 'cjk-ideographic',
+  circleNumDbPlain: 'decimal',
+}
+
+/** a:buChar 字符 -> CSS list-style-type，其他字符使用 disc */
+const BULLET_CHAR_LIST_STYLES: Record<string, string> = {
+  '•': 'disc',
+  '●': 'disc',
+  '○': 'circle',
+  'o': 'circle',
+  '■': 'square',
+  '▪': 'square',
+  '§': 'square', // Wingdings 方块
+  'Ø': 'disc', // Wingdings 箭头
+}
 
 /**
  * 转义 HTML 特殊字符
  */
-function escapeHtml(text: string): string {
+export function escapeHtml(text: string): string {
   const htmlEntities: Record<string, string> = {
     '&': '&amp;',
     '<': '&lt;',
@@ -23,86 +66,25 @@ function escapeHtml(text: string): string {
 }
 
 /**
- * 获取字体样式
+ * 生成 CSS font-family 值
+ *
+ * @description
+ * 字体名来自 PPTX 文件，去掉引号、分号、括号等可能截断样式的字符后加引号输出。
  */
-function getFontStyle(rPr: XmlObject | undefined, context: ParsingContext): Record<string, string | number | undefined> {
-  if (!rPr) return {}
-
-  const style: Record<string, string | number | undefined> = {}
-
-  // 字体大小（PPT 中单位是百分之一点，需要转换为像素）
-  const sz = getTextByPathList(rPr, ['attrs', 'sz']) as string
-  if (sz) {
-    const sizePt = parseInt(sz, 10) / 100
-    style['font-size'] = `${sizePt}px`
-  }
-
-  // 字体名称
-  const latin = getTextByPathList(rPr, ['attrs', 'latin']) as string
-  const ea = getTextByPathList(rPr, ['attrs', 'ea']) as string
-  if (latin || ea) {
-    style['font-family'] = latin || ea
-  }
-
-  // 粗体
-  const bold = getTextByPathList(rPr, ['attrs', 'b']) as string
-  if (bold === '1') {
-    style['font-weight'] = 'bold'
-  }
-
-  // 斜体
-  const italic = getTextByPathList(rPr, ['attrs', 'i']) as string
-  if (italic === '1') {
-    style['font-style'] = 'italic'
-  }
-
-  // 下划线
-  const underline = getTextByPathList(rPr, ['attrs', 'u']) as string
-  if (underline === 'sng' || underline === '1') {
-    style['text-decoration'] = style['text-decoration'] ? `${style['text-decoration']} underline` : 'underline'
-  }
-
-  // 删除线
-  const strike = getTextByPathList(rPr, ['attrs', 'strike']) as string
-  if (strike === 'sngStrike' || strike === '1') {
-    style['text-decoration'] = style['text-decoration'] ? `${style['text-decoration']} line-through` : 'line-through'
-  }
-
-  // 颜色
-  const solidFill = rPr['a:solidFill']
-  if (solidFill) {
-    const color = resolveSolidFill(solidFill, context)
-    if (color) {
-      style['color'] = color
-    }
-  }
-
-  // 高亮（背景色）
-  const highlight = rPr['a:highlight']
-  if (highlight) {
-    const bgColor = resolveSolidFill(highlight, context)
-    if (bgColor) {
-      style['background-color'] = bgColor
-    }
-  }
-
-  // 字符间距
-  const spc = getTextByPathList(rPr, ['attrs', 'spc']) as string
-  if (spc) {
-    const spacing = parseInt(spc, 10) / 100
-    style['letter-spacing'] = `${spacing}px`
-  }
-
-  // 大小写
-  const cap = getTextByPathList(rPr, ['attrs', 'cap']) as string
-  if (cap === 'all') {
-    style['text-transform'] = 'uppercase'
-  } else if (cap === 'small') {
-    style['text-transform'] = 'lowercase'
-    style['font-size'] = 'smaller'
-  }
+export function cssFontFamily(fontName: string): string {
+  return `'${fontName.replace(/["'\\;:<>{}()]/g, '').trim()}'`
+}
 
-  return style
+/**
+ * 为文本内容添加超链接
+ *
+ * @description
+ * 仅网页链接会生成 a 标签；PPTist 的富文本不支持跳转到幻灯片，
+ * 幻灯片跳转链接保留为普通文本。不安全的链接在解析时（resolveHyperlink）已被忽略。
+ */
+export function wrapWithLink(content: string, link: PPTXLink | undefined): string {
+  if (!link || link.type !== 'web') return content
+  return `<a href="${escapeHtml(link.target)}" target="_blank">${content}</a>`
 }
 
 /**
@@ -115,353 +97,272 @@ function styleToCss(style: Record<string, string | number | undefined>): string
     .join('; ')
 }
 
-/**
- * 解析文本运行（run）
- */
-function parseTextRun(run: XmlObject, context: ParsingContext): string {
-  const rPr = run['a:rPr']
-  const text = run['a:t'] || ''
+/** 文本框的行距和段间距 */
+export interface TextSpacing {
+  lineHeight: number // 行高倍数
+  paragraphSpace: number // 段间距（像素）
+}
 
-  if (!text) return ''
+/** 文本内边距（像素） */
+export interface TextPadding {
+  left: number
+  top: number
+  right: number
+  bottom: number
+}
 
-  const style = getFontStyle(rPr, context)
-  const escapedText = escapeHtml(String(text))
+/** 段落所属列表 */
+interface ParagraphList {
+  tag: 'ol' | 'ul'
+  style: string
+  start?: number
+}
 
-  if (Object.keys(style).length === 0) {
-    return escapedText
-  }
+/**
+ * 段落的 CSS 行高倍数，固定行距或未设置行距时按单倍行距计算
+ */
+function lineHeightOf(para: PPTXParagraph): number {
+  const percent = para.lineHeight ?? 1
+  return Math.round(percent * SINGLE_LINE_HEIGHT * 100) / 100
+}
+
+/**
+ * 段前或段后间距（像素）
+ *
+ * @description
+ * 百分比间距（spcPct）相对单倍行距，按段落首个文本运行的字号换算。
+ */
+function spaceOf(para: PPTXParagraph, points: number | undefined, percent: number | undefined): number {
+  if (points !== undefined) return points
+  if (percent === undefined) return 0
 
-  return `<span style="${styleToCss(style)}">${escapedText}</span>`
+  const fontSize = para.runs[0]?.fontSize ?? DEFAULT_FONT_SIZE
+  return Math.round(percent * fontSize * SINGLE_LINE_HEIGHT * 100) / 100
 }
 
 /**
- * 解析段落属性
+ * 段落的段间距（像素），为段前和段后间距之和
  */
-function parseParagraphProperties(pPr: XmlObject | undefined, _context: ParsingContext): Record<string, string | number | undefined> {
-  if (!pPr) return {}
-
-  const style: Record<string, string | number | undefined> = {}
-
-  // 对齐方式
-  const algn = getTextByPathList(pPr, ['attrs', 'algn']) as string
-  switch (algn) {
-    case 'l':
-      style['text-align'] = 'left'
-      break
-    case 'r':
-      style['text-align'] = 'right'
-      break
-    case 'ctr':
-      style['text-align'] = 'center'
-      break
-    case 'just':
-      style['text-align'] = 'justify'
-      break
-    case 'dist':
-      style['text-align'] = 'justify'
-      break
-  }
+function paragraphSpaceOf(para: PPTXParagraph): number {
+  return spaceOf(para, para.spaceBefore, para.spaceBeforePercent) + spaceOf(para, para.spaceAfter, para.spaceAfterPercent)
+}
 
-  // 行距
-  const lnSpc = pPr['a:lnSpc']
-  if (lnSpc) {
-    const spcPct = getTextByPathList(lnSpc, ['a:spcPct', 'attrs', 'val']) as string
-    if (spcPct) {
-      const percent = parseInt(spcPct, 10) / 1000
-      style['line-height'] = `${percent}%`
-    }
-    const spcPts = getTextByPathList(lnSpc, ['a:spcPts', 'attrs', 'val']) as string
-    if (spcPts) {
-      const pts = parseInt(spcPts, 10) / 100
-      style['line-height'] = `${pts}pt`
+/**
+ * 取出现次数最多的值，次数相同时取先出现的
+ */
+function mostCommon(values: number[]): number | undefined {
+  const counts = new Map<number, number>()
+  for (const value of values) counts.set(value, (counts.get(value) || 0) + 1)
+
+  let result: number | undefined
+  let max = 0
+  for (const [value, count] of counts) {
+    if (count > max) {
+      result = value
+      max = count
     }
   }
+  return result
+}
 
-  // 段前间距
-  const spcBef = pPr['a:spcBef']
-  if (spcBef) {
-    const pts = getTextByPathList(spcBef, ['a:spcPts', 'attrs', 'val']) as string
-    if (pts) {
-      style['margin-top'] = `${parseInt(pts, 10) / 100}px`
-    }
+/**
+ * 计算文本框的行距和段间距
+ *
+ * @description
+ * PPTist 的 lineHeight 和 paragraphSpace 作用于整个文本框，取各段落中最常见的值；
+ * 与之不同的段落在 HTML 中单独设置 line-height 和 margin。
+ */
+export function resolveTextSpacing(paragraphs: PPTXParagraph[]): TextSpacing {
+  return {
+    lineHeight: mostCommon(paragraphs.map(lineHeightOf)) ?? SINGLE_LINE_HEIGHT,
+    paragraphSpace: mostCommon(paragraphs.map(paragraphSpaceOf)) ?? 0,
   }
+}
 
-  // 段后间距
-  const spcAft = pPr['a:spcAft']
-  if (spcAft) {
-    const pts = getTextByPathList(spcAft, ['a:spcPts', 'attrs', 'val']) as string
-    if (pts) {
-      style['margin-bottom'] = `${parseInt(pts, 10) / 100}px`
-    }
-  }
+/**
+ * 按 normAutofit 缩小字号和行距
+ *
+ * @description
+ * PowerPoint 在文字溢出时按 fontScale 缩小字号、按 lnSpcReduction 减小百分比行距，
+ * 转换后的字号直接使用缩小后的值，避免文字超出文本框。
+ *
+ * @param paragraphs - 段落数组
+ * @param autofit - 文本体的缩放比例
+ * @returns 缩放后的段落，无需缩放时返回原数组
+ */
+export function applyAutofit(
+  paragraphs: PPTXParagraph[],
+  autofit: Pick<PPTXBodyProperties, 'fontScale' | 'lineSpacingReduction'>
+): PPTXParagraph[] {
+  const { fontScale, lineSpacingReduction } = autofit
+  if (!fontScale && !lineSpacingReduction) return paragraphs
+
+  return paragraphs.map(para => ({
+    ...para,
+    lineHeight: lineSpacingReduction ? Math.max((para.lineHeight ?? 1) - lineSpacingReduction, 0) : para.lineHeight,
+    runs: fontScale
+      ? para.runs.map(run => ({ ...run, fontSize: Math.round((run.fontSize ?? DEFAULT_FONT_SIZE) * fontScale * 10) / 10 }))
+      : para.runs,
+  }))
+}
 
-  // 缩进
-  const indent = pPr['a:indent']
-  if (indent) {
-    const left = getTextByPathList(indent, ['attrs', 'left']) as string
-    if (left) {
-      // EMU 转像素（约）
-      const px = parseInt(left, 10) / 12700
-      style['margin-left'] = `${px}px`
-    }
-    const firstLine = getTextByPathList(indent, ['attrs', 'hanging']) as string
-    if (firstLine) {
-      const px = parseInt(firstLine, 10) / 12700
-      style['text-indent'] = `-${px}px`
-    }
+/**
+ * 解析段落所属的列表，没有项目符号时返回 undefined
+ */
+function getParagraphList(para: PPTXParagraph): ParagraphList | undefined {
+  if (!para.bullet) return undefined
+
+  const { autoNum, char, startAt } = para.bulletStyle || {}
+  if (autoNum) {
+    return { tag: 'ol', style: AUTO_NUM_LIST_STYLES[autoNum] || 'decimal', start: startAt }
   }
+  return { tag: 'ul', style: (char && BULLET_CHAR_LIST_STYLES[char]) || 'disc' }
+}
 
-  return style
+/**
+ * 生成列表开始标签，列表缩进使用段落左边距
+ */
+function listOpenTag(list: ParagraphList, para: PPTXParagraph): string {
+  const start = list.start !== undefined && list.start !== 1 ? ` start="${list.start}"` : ''
+  const indent = para.marginLeft || DEFAULT_LIST_INDENT
+  return `<${list.tag}${start} style="list-style-type: ${list.style}; margin: 0; padding-left: ${indent}px">`
 }
 
 /**
- * 解析项目符号
+ * 生成段落样式
+ *
+ * @description
+ * 行距和段间距与文本框不同时才单独设置；列表项的缩进由列表的 padding-left 表示。
  */
-function parseBullet(pPr: XmlObject | undefined): { type: string; style: string } | null {
-  if (!pPr) return null
-
-  // 检查是否有项目符号
-  const buFont = pPr['a:buFont']
-  const buChar = pPr['a:buChar']
-  const buAutoNum = pPr['a:buAutoNum']
-  const buBlip = pPr['a:buBlip']
-
-  if (!buFont && !buChar && !buAutoNum && !buBlip) {
-    // 检查是否明确禁用项目符号
-    const noBullet = getTextByPathList(pPr, ['attrs', 'noBullet']) as string
-    if (noBullet === '1') {
-      return null
-    }
+function paragraphStyle(para: PPTXParagraph, spacing: TextSpacing, inList: boolean, padding?: TextPadding): string {
+  const style: Record<string, string | number | undefined> = {
+    'text-align': para.align || 'left',
   }
 
-  // 自动编号
-  if (buAutoNum) {
-    const type = getTextByPathList(buAutoNum, ['attrs', 'type']) as string
-    let listStyle = 'decimal'
-
-    switch (type) {
-      case 'arabicPeriod':
-      case 'arabicPlain':
-        listStyle = 'decimal'
-        break
-      case 'romanUcPeriod':
-      case 'romanUcPlain':
-        listStyle = 'upper-roman'
-        break
-      case 'romanLcPeriod':
-      case 'romanLcPlain':
-        listStyle = 'lower-roman'
-        break
-      case 'alphaUcPeriod':
-      case 'alphaUcPlain':
-        listStyle = 'upper-alpha'
-        break
-      case 'alphaLcPeriod':
-      case 'alphaLcPlain':
-        listStyle = 'lower-alpha'
-        break
-      case 'eastAsiaChsPlain':
-        listStyle = 'cjk-ideographic'
-        break
-    }
-
-    return { type: 'ordered', style: listStyle }
+  if (para.lineHeightPoints !== undefined) {
+    style['line-height'] = `${para.lineHeightPoints}px`
+  } else if (lineHeightOf(para) !== spacing.lineHeight) {
+    style['line-height'] = lineHeightOf(para)
   }
 
-  // 字符项目符号
-  if (buChar) {
-    const char = getTextByPathList(buChar, ['attrs', 'char']) as string
-    return { type: 'unordered', style: char || 'disc' }
+  if (paragraphSpaceOf(para) !== spacing.paragraphSpace) {
+    style['margin-top'] = `${spaceOf(para, para.spaceBefore, para.spaceBeforePercent)}px`
+    style['margin-bottom'] = `${spaceOf(para, para.spaceAfter, para.spaceAfterPercent)}px`
   }
 
-  // 图片项目符号
-  if (buBlip) {
-    return { type: 'unordered', style: 'disc' }
+  if (!inList) {
+    if (para.marginLeft) style['margin-left'] = `${para.marginLeft}px`
+    if (para.indent) style['text-indent'] = `${para.indent}px`
   }
 
-  // 默认项目符号
-  if (buFont) {
-    return { type: 'unordered', style: 'disc' }
+  for (const side of ['left', 'top', 'right', 'bottom'] as const) {
+    if (padding?.[side]) style[`padding-${side}`] = `${padding[side]}px`
   }
 
-  return null
+  return styleToCss(style)
 }
 
 /**
- * 解析文本体（txBody）
+ * 生成文字渐变的 CSS 背景
+ *
+ * @description
+ * PPTX 线性渐变角度 0 为从左到右，对应 CSS 的 90deg。
  */
-export function parseTextBody(
-  txBody: XmlObject | undefined,
-  context: ParsingContext
-): PPTXParagraph[] {
-  if (!txBody) return []
-
-  const pArray = txBody['a:p'] || []
-  const paragraphs = Array.isArray(pArray) ? pArray : [pArray]
-
-  return paragraphs.map((p: XmlObject) => {
-    const runs: PPTXTextRun[] = []
-
-    // 解析所有文本运行
-    const rArray = p?.['a:r'] || []
-    const runArray = Array.isArray(rArray) ? rArray : [rArray]
-
-    for (const run of runArray) {
-      const r = run as XmlObject
-      const rPr = r?.['a:rPr']
-      const text = r?.['a:t'] || ''
-
-      const solidFill = rPr?.['a:solidFill']
-      const color = solidFill ? resolveSolidFill(solidFill, context) : undefined
-
-      runs.push({
-        text: String(text),
-        bold: rPr?.['attrs']?.['b'] === '1',
-        italic: rPr?.['attrs']?.['i'] === '1',
-        underline: rPr?.['attrs']?.['u'] === 'sng' || rPr?.['attrs']?.['u'] === '1',
-        strike: rPr?.['attrs']?.['strike'] === 'sngStrike',
-        fontSize: rPr?.['attrs']?.['sz'] ? parseInt(rPr['attrs']['sz'] as string, 10) / 100 : undefined,
-        fontName: rPr?.['attrs']?.['latin'] as string | undefined,
-        color,
-      })
-    }
-
-    // 解析段落属性
-    const pPr = p?.['a:pPr']
-    const algn = pPr?.['attrs']?.['algn'] as string
-    let align: 'left' | 'center' | 'right' | 'justify' | undefined
-    switch (algn) {
-      case 'l':
-        align = 'left'
-        break
-      case 'r':
-        align = 'right'
-        break
-      case 'ctr':
-        align = 'center'
-        break
-      case 'just':
-      case 'dist':
-        align = 'justify'
-        break
-    }
-
-    // 检查是否有项目符号
-    const bullet = !!(pPr?.['a:buFont'] || pPr?.['a:buChar'] || pPr?.['a:buAutoNum'])
-    const level = pPr?.['attrs']?.['lvl'] ? parseInt(pPr['attrs']['lvl'] as string, 10) : undefined
-
-    return {
-      runs,
-      align,
-      bullet,
-      level,
-    }
-  })
+function textGradientToCss(gradient: PPTXTextGradient): string {
+  const stops = gradient.colors.map(stop => `${stop.color} ${stop.pos}`).join(', ')
+  return gradient.type === 'linear'
+    ? `linear-gradient(${gradient.angle + 90}deg, ${stops})`
+    : `radial-gradient(circle, ${stops})`
 }
 
 /**
- * 生成 HTML 文本
+ * 生成文本运行的 HTML
+ *
+ * @description
+ * 上下标、粗斜体、下划线和删除线使用标签，便于 PPTist 编辑器识别；
+ * 其他格式作为行内样式。渐变文字通过 background-clip: text 实现，
+ * 突出显示放在外层 span 上，避免被渐变裁剪。
  */
-export function generateHtmlText(
-  txBody: XmlObject | undefined,
-  context: ParsingContext
-): string {
-  if (!txBody) return ''
-
-  const pArray = txBody['a:p'] || []
-  const paragraphs = Array.isArray(pArray) ? pArray : [pArray]
-
-  const htmlParts: string[] = []
-  let inList = false
-  let listType = 'ul'
-
-  for (const p of paragraphs) {
-    const pPr = p?.['a:pPr']
-    const bullet = parseBullet(pPr)
-
-    // 解析段落样式
-    const pStyle = parseParagraphProperties(pPr, context)
-    const pStyleStr = Object.keys(pStyle).length > 0 ? ` style="${styleToCss(pStyle)}"` : ''
-
-    // 解析文本内容
-    const rArray = p?.['a:r'] || []
-    const runArray = Array.isArray(rArray) ? rArray : [rArray]
-    let textContent = ''
-    for (const run of runArray) {
-      textContent += parseTextRun(run as XmlObject, context)
-    }
-
-    // 如果没有文本内容，添加一个空格
-    if (!textContent) {
-      textContent = '&nbsp;'
-    }
-
-    // 处理列表
-    if (bullet) {
-      if (!inList) {
-        inList = true
-        listType = bullet.type === 'ordered' ? 'ol' : 'ul'
-        htmlParts.push(`<${listType} style="list-style-type: ${bullet.style}; margin: 0; padding-left: 20px;">`)
-      }
-      htmlParts.push(`<li${pStyleStr}>${textContent}</li>`)
-    } else {
-      if (inList) {
-        htmlParts.push(`</${listType}>`)
-        inList = false
-      }
-      htmlParts.push(`<p${pStyleStr}>${textContent}</p>`)
-    }
+function runToHtml(run: PPTXTextRun): string {
+  let html = escapeHtml(run.text)
+  if (run.baseline) html = run.baseline > 0 ? `<sup>${html}</sup>` : `<sub>${html}</sub>`
+  if (run.bold) html = `<b>${html}</b>`
+  if (run.italic) html = `<i>${html}</i>`
+  if (run.underline) {
+    html = run.underlineStyle ? `<u style="text-decoration-style: ${run.underlineStyle}">${html}</u>` : `<u>${html}</u>`
+  }
+  if (run.strike) {
+    html = run.doubleStrike ? `<s style="text-decoration-style: double">${html}</s>` : `<s>${html}</s>`
   }
 
-  // 关闭未结束的列表
-  if (inList) {
-    htmlParts.push(`</${listType}>`)
+  const style: Record<string, string | number | undefined> = {
+    'color': run.color,
+    'font-size': run.fontSize ? `${run.fontSize}px` : undefined,
+    'font-family': run.fontName ? cssFontFamily(run.fontName) : undefined,
+    'letter-spacing': run.characterSpacing ? `${run.characterSpacing}px` : undefined,
+    'text-transform': run.caps === 'all' ? 'uppercase' : undefined,
+    'font-variant': run.caps === 'small' ? 'small-caps' : undefined,
+    '-webkit-text-stroke': run.outline ? `${run.outline.width}px ${run.outline.color}` : undefined,
   }
+  if (run.gradient) {
+    style['background-image'] = textGradientToCss(run.gradient)
+    style['-webkit-background-clip'] = 'text'
+    style['background-clip'] = 'text'
+    style['-webkit-text-fill-color'] = 'transparent'
+  }
+  const css = styleToCss(style)
+  if (css) html = `<span style="${css}">${html}</span>`
+  if (run.highlight) html = `<span style="background-color: ${run.highlight}">${html}</span>`
 
-  return htmlParts.join('\n')
+  return wrapWithLink(html, run.link)
 }
 
 /**
  * 从 PPTX 段落数据生成 HTML
+ *
+ * @description
+ * 连续的、样式相同的项目符号段落合并为一个 ol/ul 列表，每个列表项包含一个段落；
+ * 编号类型映射为 list-style-type，起始编号映射为 start 属性。
+ * 内边距的左右部分设置在每个段落上，上下部分设置在首段和末段上。
+ *
+ * @param paragraphs - 段落数组
+ * @param spacing - 文本框的行距和段间距，默认由段落计算
+ * @param padding - 文字的额外内边距
+ * @returns HTML 字符串
  */
-export function paragraphsToHtml(paragraphs: PPTXParagraph[]): string {
+export function paragraphsToHtml(
+  paragraphs: PPTXParagraph[],
+  spacing: TextSpacing = resolveTextSpacing(paragraphs),
+  padding?: TextPadding
+): string {
   const htmlParts: string[] = []
+  let openList: { key: string; tag: string } | undefined
 
-  for (const para of paragraphs) {
-    let style = ''
-    if (para.align) {
-      style = ` style="text-align: ${para.align}"`
-    }
+  paragraphs.forEach((para, index) => {
+    const list = getParagraphList(para)
+    const listKey = list ? `${list.tag}|${list.style}|${list.start}|${para.marginLeft}` : undefined
 
-    let content = ''
-    for (const run of para.runs) {
-      const styles: string[] = []
-
-      if (run.bold) styles.push('font-weight: bold')
-      if (run.italic) styles.push('font-style: italic')
-      if (run.underline) styles.push('text-decoration: underline')
-      if (run.color) styles.push(`color: ${run.color}`)
-      if (run.fontSize) styles.push(`font-size: ${run.fontSize}px`)
-      if (run.fontName) styles.push(`font-family: ${run.fontName}`)
-
-      const styleStr = styles.length > 0 ? ` style="${styles.join('; ')}"` : ''
-      const text = escapeHtml(run.text)
-
-      if (styleStr) {
-        content += `<span${styleStr}>${text}</span>`
-      } else {
-        content += text
-      }
+    if (openList && openList.key !== listKey) {
+      htmlParts.push(`</${openList.tag}>`)
+      openList = undefined
+    }
+    if (list && listKey && !openList) {
+      htmlParts.push(listOpenTag(list, para))
+      openList = { key: listKey, tag: list.tag }
     }
 
-    if (!content) content = '&nbsp;'
-
-    if (para.bullet) {
-      htmlParts.push(`<li>${content}</li>`)
-    } else {
-      htmlParts.push(`<p${style}>${content}</p>`)
+    const paragraphPadding = padding && {
+      left: padding.left,
+      right: padding.right,
+      top: index === 0 ? padding.top : 0,
+      bottom: index === paragraphs.length - 1 ? padding.bottom : 0,
     }
-  }
+    const content = para.runs.map(runToHtml).join('') || '&nbsp;'
+    const paragraphHtml = `<p style="${paragraphStyle(para, spacing, !!list, paragraphPadding)}">${content}</p>`
+    htmlParts.push(list ? `<li>${paragraphHtml}</li>` : paragraphHtml)
+  })
+
+  if (openList) htmlParts.push(`</${openList.tag}>`)
 
-  return htmlParts.join('\n')
+  return htmlParts.join('')
 }
@@ -1,7 +1,9 @@
 /**
  * 生成器入口
- * 导出 SVG 路径和 HTML 文本生成器
+ * 导出 SVG 路径、预设几何、HTML 文本生成器和 HTML 清理
  */
 
 export * from './svg-path-generator.js'
+export * from './preset-geometry.js'
 export * from './html-text-generator.js'
+export * from './html-sanitizer.js'
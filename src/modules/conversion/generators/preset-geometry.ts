@@ -0,0 +1,240 @@
+/**
+ * 预设几何计算
+ * 实现 ECMA-376 形状参考线公式（20.1.9.11 gd）的求值，
+ * 并将预设形状定义展开为带坐标的路径命令
+ */
+
+import type { PPTXCustomPath, PPTXPathCommand } from '../types/pptx.js'
+import { PRESET_SHAPES, type PresetShapeDefinition } from './preset-shape-definitions.js'
+
+/** 角度单位：1/60000 度 */
+const ANGLE_UNIT = 60000
+
+/** 预设名称小写 -> 预设名称，兼容大小写不规范的 prst 值 */
+const PRESET_NAMES = new Map(Object.keys(PRESET_SHAPES).map(name => [name.toLowerCase(), name]))
+
+/**
+ * 1/60000 度转换为弧度
+ */
+function toRadians(angle: number): number {
+  return (angle / ANGLE_UNIT) * Math.PI / 180
+}
+
+/**
+ * 计算内置参考线
+ *
+ * @description
+ * 公式和路径坐标除数值外还可以引用参考线名称，内置参考线由形状尺寸决定。
+ *
+ * @param w - 形状宽度
+ * @param h - 形状高度
+ * @returns 参考线名称 -> 数值
+ */
+export function getBuiltinGuides(w: number, h: number): Record<string, number> {
+  const ss = Math.min(w, h)
+  return {
+    l: 0,
+    t: 0,
+    r: w,
+    b: h,
+    w,
+    h,
+    hc: w / 2,
+    vc: h / 2,
+    ls: Math.max(w, h),
+    ss,
+    wd2: w / 2,
+    wd3: w / 3,
+    wd4: w / 4,
+    wd5: w / 5,
+    wd6: w / 6,
+    wd8: w / 8,
+    wd10: w / 10,
+    wd12: w / 12,
+    wd32: w / 32,
+    hd2: h / 2,
+    hd3: h / 3,
+    hd4: h / 4,
+    hd5: h / 5,
+    hd6: h / 6,
+    hd8: h / 8,
+    hd10: h / 10,
+    ssd2: ss / 2,
+    ssd4: ss / 4,
+    ssd6: ss / 6,
+    ssd8: ss / 8,
+    ssd16: ss / 16,
+    ssd32: ss / 32,
+    cd2: 180 * ANGLE_UNIT,
+    cd4: 90 * ANGLE_UNIT,
+    cd8: 45 * ANGLE_UNIT,
+    '3cd4': 270 * ANGLE_UNIT,
+    '3cd8': 135 * ANGLE_UNIT,
+    '5cd8': 225 * ANGLE_UNIT,
+    '7cd8': 315 * ANGLE_UNIT,
+  }
+}
+
+/**
+ * 解析公式参数，支持数值和参考线名称
+ */
+export function resolveGuideValue(value: string | number | undefined, guides: Record<string, number>): number {
+  if (value === undefined) return 0
+  if (typeof value === 'number') return value
+  const num = Number(value)
+  if (!isNaN(num)) return num
+  return guides[value] ?? 0
+}
+
+/**
+ * 计算参考线公式
+ *
+ * @description
+ * 公式由运算符和最多三个参数组成，如 "*\/ w adj 100000"。
+ * 角度参数和 at2 的结果单位为 1/60000 度。
+ *
+ * @param fmla - 公式
+ * @param guides - 已计算的参考线
+ * @returns 计算结果，无法识别的运算符返回 0
+ */
+export function evaluateFormula(fmla: string, guides: Record<string, number>): number {
+  const [op, ...args] = fmla.trim().split(/\s+/)
+  const [x, y, z] = args.map(arg => resolveGuideValue(arg, guides))
+
+  switch (op) {
+    case '*/':
+      return z === 0 ? 0 : (x * y) / z
+    case '+-':
+      return x + y - z
+    case '+/':
+      return z === 0 ? 0 : (x + y) / z
+    case '?:':
+      return x > 0 ? y : z
+    case 'abs':
+      return Math.abs(x)
+    case 'at2':
+      return (Math.atan2(y, x) * 180 / Math.PI) * ANGLE_UNIT
+    case 'cat2':
+      return x * Math.cos(Math.atan2(z, y))
+    case 'cos':
+      return x * Math.cos(toRadians(y))
+    case 'max':
+      return Math.max(x, y)
+    case 'min':
+      return Math.min(x, y)
+    case 'mod':
+      return Math.sqrt(x * x + y * y + z * z)
+    case 'pin':
+      return y < x ? x : y > z ? z : y
+    case 'sat2':
+      return x * Math.sin(Math.atan2(z, y))
+    case 'sin':
+      return x * Math.sin(toRadians(y))
+    case 'sqrt':
+      return Math.sqrt(x)
+    case 'tan':
+      return x * Math.tan(toRadians(y))
+    case 'val':
+      return x
+    default:
+      return 0
+  }
+}
+
+/**
+ * 按顺序计算参考线列表，结果写入 guides
+ *
+ * @param gdList - [名称, 公式] 列表，后面的公式可以引用前面的结果
+ * @param guides - 参考线集合
+ */
+export function evaluateGuides(gdList: [string, string][], guides: Record<string, number>): void {
+  for (const [name, fmla] of gdList) {
+    const value = evaluateFormula(fmla, guides)
+    guides[name] = Number.isFinite(value) ? value : 0
+  }
+}
+
+/**
+ * 查找预设形状定义
+ */
+export function getPresetShape(shapeType: string): PresetShapeDefinition | undefined {
+  const name = PRESET_NAMES.get(shapeType.toLowerCase())
+  return name ? PRESET_SHAPES[name] : undefined
+}
+
+/**
+ * 展开紧凑形式的路径命令
+ */
+function parsePathData(d: string, guides: Record<string, number>): PPTXPathCommand[] {
+  const tokens = d.split(' ')
+  const commands: PPTXPathCommand[] = []
+  let i = 0
+  const next = () => resolveGuideValue(tokens[i++], guides)
+  const points = (count: number) => Array.from({ length: count }, (): [number, number] => [next(), next()])
+
+  while (i < tokens.length) {
+    switch (tokens[i++]) {
+      case 'M':
+        commands.push({ type: 'moveTo', x: next(), y: next() })
+        break
+      case 'L':
+        commands.push({ type: 'lnTo', x: next(), y: next() })
+        break
+      case 'C':
+        commands.push({ type: 'cubicBezTo', points: points(3) })
+        break
+      case 'Q':
+        commands.push({ type: 'quadBezTo', points: points(2) })
+        break
+      case 'A':
+        commands.push({
+          type: 'arcTo',
+          wR: next(),
+          hR: next(),
+          stAng: next() / ANGLE_UNIT,
+          swAng: next() / ANGLE_UNIT,
+        })
+        break
+      case 'Z':
+        commands.push({ type: 'close' })
+        break
+    }
+  }
+
+  return commands
+}
+
+/**
+ * 计算预设形状的路径
+ *
+ * @description
+ * 计算顺序为内置参考线、调整值（avLst，未设置时使用预设默认值）、形状参考线（gdLst）。
+ *
+ * @param shapeType - 预设形状名称（prst）
+ * @param width - 形状宽度
+ * @param height - 形状高度
+ * @param adjustValues - 形状上设置的调整值，如 { adj1: 25000 }
+ * @returns 子路径数组，未知形状返回 null
+ */
+export function generatePresetPaths(
+  shapeType: string,
+  width: number,
+  height: number,
+  adjustValues: Record<string, number> = {}
+): PPTXCustomPath[] | null {
+  const preset = getPresetShape(shapeType)
+  if (!preset) return null
+
+  const guides = getBuiltinGuides(width, height)
+  for (const [name, value] of Object.entries(preset.av || {})) {
+    guides[name] = adjustValues[name] ?? value
+  }
+  evaluateGuides(preset.gd || [], guides)
+
+  return preset.paths.map(path => ({
+    w: path.w ?? width,
+    h: path.h ?? height,
+    fill: path.fill,
+    commands: parsePathData(path.d, guides),
+  }))
+}
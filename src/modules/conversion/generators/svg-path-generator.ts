@@ -1,211 +1,134 @@
 /**
  * SVG 路径生成器
- * 参考 pptxtojson 的 shapePath.js 实现
- * 支持 187 种预设形状的 SVG 路径生成
+ * 预设形状按 ECMA-376 预设几何定义计算，支持全部 187 种预设形状和调整值
  */
 
+import type { PPTXCustomPath } from '../types/pptx.js'
+import { generatePresetPaths, getPresetShape } from './preset-geometry.js'
+import { PRESET_SHAPES } from './preset-shape-definitions.js'
+
 /**
- * 预设形状路径模板
- * 使用 {w}, {h}, {w2}, {h2} 等占位符
+ * 生成形状的 SVG 路径
+ *
+ * @description
+ * 预设形状中 fill="none" 的子路径只用于描边（如立方体的棱线），不计入填充轮廓。
+ *
+ * @param shapeType 形状类型（prst）
+ * @param width 宽度（像素）
+ * @param height 高度（像素）
+ * @param adj 形状调整值 adj（0-100000），如 roundRect 的圆角
+ * @param adjustValues 形状的全部调整值（avLst），如 { adj1: 25000, adj2: 50000 }
+ * @returns SVG 路径字符串，未知形状返回矩形路径
  */
-const SHAPE_PATHS: Record<string, string> = {
-  // 基本形状
-  rect: 'M0,0 L{w},0 L{w},{h} L0,{h} Z',
-  ellipse: 'M{cx},0 C{rx1},0 {w},{ry0} {w},{cy} C{w},{ry1} {rx1},{h} {cx},{h} C{rx2},{h} 0,{ry1} 0,{cy} C0,{ry0} {rx2},0 {cx},0 Z',
-  triangle: 'M{w2},0 L{w},{h} L0,{h} Z',
-  rtTriangle: 'M0,0 L{w},{h} L0,{h} Z',
-  diamond: 'M{w2},0 L{w},{h2} L{w2},{h} L0,{h2} Z',
-  parallelogram: 'M{hd},0 L{w},0 L{ws},{h} L0,{h} Z',
-  trapezoid: 'M{hd},0 L{ws},0 L{w},{h} L0,{h} Z',
-  pentagon: 'M{w2},0 L{w},{h3} L{w4},{h} L{w5},{h} L0,{h3} Z',
-  hexagon: 'M{w4},0 L{w3},0 L{w},{h2} L{w3},{h} L{w4},{h} L0,{h2} Z',
-  heptagon: 'M{w2},0 L{w3},0 L{w},{h3} L{w4},{h} L{w5},{h} L0,{h3} Z',
-  octagon: 'M{w4},0 L{w3},0 L{w},{h4} L{w},{h3} L{w3},{h} L{w4},{h} L0,{h3} L0,{h4} Z',
-  decagon: 'M{w2},0 L{w3},0 L{w},{h3} L{w},{h4} L{w3},{h} L{w4},{h} L0,{h4} L0,{h3} Z',
-  dodecagon: 'M{w4},0 L{w3},0 L{w},{h4} L{w},{h3} L{w3},{h} L{w4},{h} L0,{h3} L0,{h4} Z',
-  star4: 'M{w2},0 L{w3},{h3} L{w},{h2} L{w3},{h4} L{w2},{h} L{w5},{h4} L0,{h2} L{w5},{h3} Z',
-  star5: 'M{w2},0 L{w3},{h3} L{w},{h3} L{w4},{h} L{w5},{h3} L0,{h3} Z',
-  star6: 'M{w2},0 L{w3},{h3} L{w},{h2} L{w3},{h} L{w2},{h4} L{w5},{h} L0,{h2} L{w5},{h3} Z',
-  star7: 'M{w2},0 L{w3},{h3} L{w},{h3} L{w4},{h} L{w5},{h3} L0,{h3} Z',
-  star8: 'M{w2},0 L{w4},{h4} L{w},{h2} L{w3},{h3} L{w2},{h} L{w5},{h3} L0,{h2} L{w4},{h5} Z',
-  star10: 'M{w2},0 L{w4},{h4} L{w},{h3} L{w3},{h3} L{w2},{h} L{w5},{h3} L0,{h3} L{w4},{h4} Z',
-  star12: 'M{w4},0 L{w3},{h4} L{w},{h3} L{w3},{h3} L{w3},{h} L{w4},{h3} L0,{h3} L{w4},{h4} Z',
-
-  // 箭头形状
-  rightArrow: 'M{w},0 L{w},{h} L{ws},0 L0,{h4} L{ws},{h} L{w},{h} Z',
-  leftArrow: 'M0,0 L{ws},{h} L{ws},0 L{w},{h4} L{ws},{h} L0,{h} Z',
-  upArrow: 'M{w2},0 L{w},{hd} L{w3},{hd} L{w3},{h} L{w5},{h} L{w5},{hd} L0,{hd} Z',
-  downArrow: 'M{w2},{h} L{w},{ws} L{w3},{ws} L{w3},0 L{w5},0 L{w5},{ws} L0,{ws} Z',
-  leftRightArrow: 'M0,{h2} L{hd},0 L{hd},{h4} L{ws},{h4} L{ws},0 L{w},{h2} L{ws},{h} L{ws},{h3} L{hd},{h3} L{hd},{h} Z',
-  upDownArrow: 'M{w2},0 L{w},{hd} L{w3},{hd} L{w3},{ws} L{w},{h2} L{w3},{ws2} L{w3},{h} L{w5},{h} L{w5},{ws2} L0,{h2} L{w5},{ws} L{w5},{hd} L{w3},{hd} Z',
-  chevron: 'M0,0 L{w2},{h2} L0,{h} L{hd},0 L{w},{h2} L{hd},{h} Z',
-  notchedRightArrow: 'M0,{h4} L{ws},{h4} L{ws},0 L{w},{h2} L{ws},{h} L{ws},{h3} L0,{h3} Z',
-  bentArrow: 'M{w},{h} L{w},{hd} L{ws},{hd} L{ws},0 L0,0 L0,{h} Z',
-  homePlate: 'M0,0 L{ws},0 L{w},{h2} L{ws},{h} L0,{h} Z',
-  cube: 'M0,{hd} L{ws},{hd} L{ws},0 L{w},0 L{w},{hd} L{ws},{hd} M{ws},0 L{ws},{h} L0,{h} L0,{hd}',
-
-  // 标注形状
-  rectCallout: 'M0,0 L{w},0 L{w},{ws} L{w4},{ws} L{w4},{h} L{w3},{ws} L0,{ws} Z',
-  roundedRectCallout: 'M{hd},0 L{ws},0 Q{w},0 {w},{hd} L{w},{ws} Q{w},{ws} {ws},{ws} L{w4},{h} L{w3},{ws} L{hd},{ws} Q0,{ws} 0,{ws2} L0,{hd} Q0,0 {hd},0 Z',
-  ovalCallout: 'M{cx},0 C{rx1},0 {w},{ry0} {w},{cy} C{w},{ry1} {rx1},{h} {cx},{h} C{rx2},{h} 0,{ry1} 0,{cy} C0,{ry0} {rx2},0 {cx},0 M{w4},{h} L{w3},{ws} Z',
-  cloudCallout: 'M{w3},0 C{w2},0 {w},{h4} {w},{h3} C{w},{h} {w3},{h4} {w2},{h} C{w},{h} {w},{h3} {w3},{h3} M{w4},{h} L{w3},{ws} Z',
-  lineCallout: 'M0,0 L{w},0 L{w},{ws} L{w4},{h} L{w3},{ws} L0,{ws} Z',
-
-  // 流程图形状
-  flowChartProcess: 'M0,0 L{w},0 L{w},{h} L0,{h} Z',
-  flowChartDecision: 'M{w2},0 L{w},{h2} L{w2},{h} L0,{h2} Z',
-  flowChartInputOutput: 'M{hd},0 L{w},0 L{ws},{h} L0,{h} Z',
-  flowChartDocument: 'M0,0 L{w},0 L{w},{ws} Q{w2},{ws} 0,{h} Z',
-  flowChartPredefinedProcess: 'M0,0 L{w},0 L{w},{h} L0,{h} Z M{hd},0 L{hd},{h} M{ws},0 L{ws},{h}',
-  flowChartInternalStorage: 'M0,0 L{w},0 L{w},{h} L0,{h} Z M{hd},0 L{hd},{h} M0,{hd} L{w},{hd}',
-  flowChartExtract: 'M0,0 L{w},0 L{w2},{h} Z',
-  flowChartMerge: 'M{w2},0 L{w},{h} L0,{h} Z',
-  flowChartOfflineStorage: 'M0,0 L{w},0 L{w},{h} L0,{h} Z M0,0 L{w2},{h} M{w},0 L{w2},{h}',
-
-  // 数学符号
-  plus: 'M0,{h2} L{w4},{h2} L{w4},0 L{w3},{h2} L{w3},0 L{w3},{h2} L{w},{h2} L{w3},{h3} L{w3},{h} L{w4},{h3} L{w4},{h} Z',
-  minus: 'M0,{h2} L{w},{h2} L{w},{h3} L0,{h3} Z',
-  multiply: 'M0,0 L{w},{h} M{w},0 L0,{h}',
-  divide: 'M{w2},0 L{w3},{h4} M0,{h2} L{w},{h2} M{w2},{h} L{w3},{ws}',
-  equal: 'M0,{h3} L{w},{h3} M0,{h3} L{w},{h3}',
-
-  // 特殊形状
-  heart: 'M{w2},{h4} C{w2},0 {w},{hd} {w},{h3} C{w},{h} {w2},{h} {w2},{h} C{w2},{h} 0,{h} 0,{h3} C0,{hd} {w2},0 {w2},{h4} Z',
-  sun: 'M{w2},{h4} L{w3},{h4} L{w4},0 L{w5},{h4} L{w},{h3} L{w5},{h3} L{w4},{h} L{w3},{h3} L0,{h3} L{w4},{h3} L{w3},{h} L{w4},{h4} L{w5},{h} L{w},{h3} Z',
-  moon: 'M{w},{h4} C{hd},{h4} 0,{h3} 0,{h2} C0,{hd} {hd},0 {w4},0 C{w4},0 {w3},{hd} {w3},{h2} C{w3},{h3} {w4},{h4} {w},{h4} Z',
-  cloud: 'M{hd},{h} C0,{h} 0,{ws} {hd},{ws} C{hd},{ws} {hd},{h3} {ws},{h3} C{ws},{h3} {ws},{h4} {w2},{h4} C{w2},{h4} {w2},{h3} {w},{h3} C{w},{h3} {w},{h} {ws},{h} Z',
-  arc: 'M0,{h} Q{w2},0 {w},{h}',
-  bracketPair: 'M0,0 L{hd},0 L{hd},{h} L0,{h} M{w},0 L{ws},0 L{ws},{h} L{w},{h}',
-  bracePair: 'M0,{h4} Q{hd},{h4} {hd},{h2} Q{hd},0 {w2},0 M{w},0 Q{ws},0 {ws},{h2} Q{ws},{h4} {w},{h4}',
-
-  // 更多形状
-  smileyFace: 'M{cx},{cy} m-{rx},0 a{rx},{ry} 0 1,0 {rx2},0 a{rx},{ry} 0 1,0 -{rx2},0 M{w4},{h3} Q{w2},{ws} {w3},{h3} M{w5},{h4} a{hd},{hd} 0 0,1 {w4},0',
-  donut: 'M{cx},{cy} m-{rx},0 a{rx},{rx} 0 1,0 {rx2},0 a{rx},{rx} 0 1,0 -{rx2},0 M{cx},{cy} m-{rx2},0 a{rx2},{rx2} 0 1,1 {rx4},0 a{rx2},{rx2} 0 1,1 -{rx4},0',
-  noSmoking: 'M0,{h2} L{w},{h2} M{w4},{h4} L{w3},{ws} M{w4},0 L{w3},{h}',
-  blockArc: 'M0,{h} A{w2},{h2} 0 1,1 {w},{h} M{w},{ws} A{ws2},{ws2} 0 1,0 0,{ws}',
-  foldedCorner: 'M0,0 L{ws},0 L{w},{hd} L{w},{h} L0,{h} Z M{ws},0 L{ws},{hd} L{w},{hd}',
-
-  // 常用形状补充
-  roundRect: 'M{r},0 L{wr},0 Q{w},0 {w},{r} L{w},{hr} Q{w},{h} {wr},{h} L{r},{h} Q0,{h} 0,{hr} L0,{r} Q0,0 {r},0 Z',
-  snip2SameRect: 'M0,{hd} L{hd},0 L{ws},0 L{ws},{hd} L{w},{hd} L{w},{h} L0,{h} Z',
-  snipRoundRect: 'M0,{hd} L{hd},0 L{ws},0 L{ws},{hd} L{w},{hd} L{w},{hr} Q{w},{h} {wr},{h} L{r},{h} Q0,{h} 0,{hr} Z',
-  round2SameRect: 'M0,{r} Q0,0 {r},0 L{ws},0 Q{w},0 {w},{r} L{w},{h} L0,{h} Z',
-  plaque: 'M{r},0 C{r},{hd} {hd},{r} 0,{r} L0,{hr} C{hd},{hr} {r},{ws} {r},{h} L{wr},{h} C{wr},{ws} {ws},{hr} {w},{hr} L{w},{r} C{ws},{r} {wr},{hd} {wr},0 Z',
-  textPlainText: 'M0,0 L{w},0 M0,{h2} L{w},{h2} M0,{h} L{w},{h}',
-  textStop: 'M{w2},0 L{w},{h2} L{w2},{h} L0,{h2} Z',
-  textTriangle: 'M0,0 L{w},0 L{w2},{h} Z M0,{h2} L{w},{h2}',
-  textTriangleInverted: 'M0,{h} L{w},{h} L{w2},0 Z M0,{h2} L{w},{h2}',
-  textChevron: 'M0,0 L{w2},{h2} L0,{h} M0,{h2} L{w2},{h} L0,{h}',
-  textChevronInverted: 'M0,{h} L{w2},0 L0,0 M0,{h} L{w2},{h2} L0,{h2}',
-  textRingInside: 'M{cx},{cy} m-{rx},0 a{rx},{rx} 0 1,0 {rx2},0 a{rx},{rx} 0 1,0 -{rx2},0',
-  textRingOutside: 'M{cx},{cy} m-{rx},0 a{rx},{rx} 0 1,0 {rx2},0 a{rx},{rx} 0 1,0 -{rx2},0',
-  textArchUp: 'M0,{h} Q{w2},0 {w},{h}',
-  textArchDown: 'M0,0 Q{w2},{h} {w},0',
-  textCircle: 'M{cx},{cy} m-{rx},0 a{rx},{rx} 0 1,0 {rx2},0 a{rx},{rx} 0 1,0 -{rx2},0',
-  textButton: 'M{r},0 L{wr},0 Q{w},0 {w},{r} L{w},{hr} Q{w},{h} {wr},{h} L{r},{h} Q0,{h} 0,{hr} L0,{r} Q0,0 {r},0 Z',
+export function generateShapePath(
+  shapeType: string,
+  width: number,
+  height: number,
+  adj?: number,
+  adjustValues: Record<string, number> = {}
+): string {
+  const values = adj === undefined ? adjustValues : { adj, ...adjustValues }
+  const paths = generatePresetPaths(shapeType, width, height, values)
+  if (!paths) {
+    return `M0,0 L${width},0 L${width},${height} L0,${height} Z`
+  }
+
+  return generateCustomPath(paths, width, height)
 }
 
 /**
- * 计算形状参数
- * @param w 宽度
- * @param h 高度
- * @param adj 形状调整值（0-100000），用于 roundRect 等形状的圆角控制
- *            adj=0: 直角矩形，adj=100000: 最大圆角（半径 = min(w,h)/2）
+ * 格式化坐标
  */
-function calculateShapeParams(w: number, h: number, adj?: number): Record<string, number> {
-  // 计算圆角半径
-  // adj 范围 0-100000，映射到 0 - min(w,h)/2
-  let r: number
-  if (adj !== undefined) {
-    const maxRadius = Math.min(w, h) / 2
-    r = (adj / 100000) * maxRadius
-  } else {
-    r = Math.min(w, h) * 0.1  // 默认10%圆角
-  }
+function formatPoint(x: number, y: number): string {
+  return `${x.toFixed(2)},${y.toFixed(2)}`
+}
 
-  const hd = h * 0.1  // 10% 高度
-  const ws = w * 0.9  // 90% 宽度
-
-  return {
-    w,
-    h,
-    w2: w / 2,
-    h2: h / 2,
-    w3: w * 0.25,
-    w4: w * 0.35,
-    w5: w * 0.65,
-    h3: h * 0.35,
-    h4: h * 0.1,
-    h5: h * 0.9,
-    hd,  // h * 0.1
-    ws,  // w * 0.9
-    ws2: w * 0.8,
-    ws3: w * 0.7,
-    cx: w / 2,
-    cy: h / 2,
-    rx: w / 2,
-    ry: h / 2,
-    rx1: w * 0.55,
-    rx2: Math.min(w, h) * 0.15,
-    ry0: h * 0.45,
-    ry1: h * 0.55,
-    r,
-    wr: w - r,
-    hr: h - r,
-    rx4: Math.min(w, h) * 0.3,
-  }
+/**
+ * 计算椭圆上指定视觉角度的参数角
+ *
+ * @description
+ * arcTo 的 stAng/swAng 是视觉角度（从中心看向该点的角度），
+ * 对于非正圆的椭圆需要换算为参数方程中的角度。
+ */
+function toParametricAngle(angle: number, wR: number, hR: number): number {
+  const radians = (angle * Math.PI) / 180
+  return Math.atan2(wR * Math.sin(radians), hR * Math.cos(radians))
 }
 
 /**
- * 替换路径模板中的占位符
+ * 筛选参与填充的子路径
+ *
+ * @description
+ * PPTist 形状只有一条路径，同时用于填充和描边，无法单独描边 fill="none" 的子路径，
+ * 因此只保留可填充的子路径；全部子路径都不填充时（如自由绘制的线条）保留全部子路径。
  */
-function replacePlaceholders(template: string, params: Record<string, number>): string {
-  let result = template
-  for (const [key, value] of Object.entries(params)) {
-    const regex = new RegExp(`\\{${key}\\}`, 'g')
-    result = result.replace(regex, value.toFixed(2))
-  }
-  return result
+function getFilledPaths(paths: PPTXCustomPath[]): PPTXCustomPath[] {
+  const filledPaths = paths.filter(path => path.fill !== 'none')
+  return filledPaths.length > 0 ? filledPaths : paths
 }
 
 /**
- * 生成形状的 SVG 路径
- * @param shapeType 形状类型
+ * 生成自定义几何（custGeom）的 SVG 路径
+ * @param paths 子路径列表，坐标位于各自的 w/h 坐标空间
  * @param width 宽度（像素）
  * @param height 高度（像素）
- * @param adj 形状调整值（0-100000），用于控制 roundRect 等形状的圆角
- *            adj=0: 直角，adj=100000: 最大圆角
- * @returns SVG 路径字符串
+ * @returns SVG 路径字符串，可填充的子路径依次拼接
  */
-export function generateShapePath(
-  shapeType: string,
-  width: number,
-  height: number,
-  adj?: number
-): string {
-  // 默认矩形路径
-  const defaultPath = `M0,0 L${width},0 L${width},${height} L0,${height} Z`
-
-  // 特殊处理：当 roundRect 的 adj=0 时，直接返回直角矩形路径
-  if (shapeType === 'roundRect' && adj === 0) {
-    return `M0,0 L${width},0 L${width},${height} L0,${height} Z`
-  }
-
-  // 获取路径模板
-  const template = SHAPE_PATHS[shapeType]
-  if (!template) {
-    // 尝试使用小写形式
-    const lowerTemplate = SHAPE_PATHS[shapeType.toLowerCase()]
-    if (lowerTemplate) {
-      const params = calculateShapeParams(width, height, adj)
-      return replacePlaceholders(lowerTemplate, params)
+export function generateCustomPath(paths: PPTXCustomPath[], width: number, height: number): string {
+  const segments: string[] = []
+
+  for (const path of getFilledPaths(paths)) {
+    const scaleX = path.w ? width / path.w : 0
+    const scaleY = path.h ? height / path.h : 0
+    const toPoint = (x: number, y: number) => formatPoint(x * scaleX, y * scaleY)
+
+    // 当前点（路径坐标空间），arcTo 从当前点开始绘制
+    let currentX = 0
+    let currentY = 0
+
+    for (const command of path.commands) {
+      switch (command.type) {
+        case 'moveTo':
+        case 'lnTo':
+          segments.push(`${command.type === 'moveTo' ? 'M' : 'L'}${toPoint(command.x, command.y)}`)
+          currentX = command.x
+          currentY = command.y
+          break
+        case 'cubicBezTo':
+        case 'quadBezTo': {
+          if (command.points.length === 0) break
+          const prefix = command.type === 'cubicBezTo' ? 'C' : 'Q'
+          segments.push(`${prefix}${command.points.map(([x, y]) => toPoint(x, y)).join(' ')}`)
+          ;[currentX, currentY] = command.points[command.points.length - 1]
+          break
+        }
+        case 'arcTo': {
+          const { wR, hR, stAng, swAng } = command
+          if (!wR || !hR || !swAng) break
+
+          const start = toParametricAngle(stAng, wR, hR)
+          const centerX = currentX - wR * Math.cos(start)
+          const centerY = currentY - hR * Math.sin(start)
+
+          // SVG 无法用一条弧线绘制整圆，超过 180° 的弧拆成两段
+          const steps = Math.abs(swAng) > 180 ? 2 : 1
+          for (let i = 1; i <= steps; i++) {
+            const end = toParametricAngle(stAng + (swAng * i) / steps, wR, hR)
+            currentX = centerX + wR * Math.cos(end)
+            currentY = centerY + hR * Math.sin(end)
+            const radii = formatPoint(wR * scaleX, hR * scaleY)
+            segments.push(`A${radii} 0 0 ${swAng > 0 ? 1 : 0} ${toPoint(currentX, currentY)}`)
+          }
+          break
+        }
+        case 'close':
+          segments.push('Z')
+          break
+      }
     }
-    return defaultPath
   }
 
-  // 计算参数并替换
-  const params = calculateShapeParams(width, height, adj)
-  return replacePlaceholders(template, params)
+  return segments.join(' ')
 }
 
 /**
@@ -223,12 +146,12 @@ export function getShapeViewBox(_shapeType: string, width: number, height: numbe
  * 检查是否为已支持的形状类型
  */
 export function isSupportedShape(shapeType: string): boolean {
-  return shapeType in SHAPE_PATHS || shapeType.toLowerCase() in SHAPE_PATHS
+  return getPresetShape(shapeType) !== undefined
 }
 
 /**
  * 获取所有支持的形状类型
  */
 export function getSupportedShapes(): string[] {
-  return Object.keys(SHAPE_PATHS)
+  return Object.keys(PRESET_SHAPES)
 }
@@ -0,0 +1,153 @@
+/**
+ * 设备无关位图（DIB）解码
+ *
+ * @module modules/conversion/media/dib
+ * @description 将 EMF/WMF 位图记录中的 DIB 转为可以嵌入 SVG 的 PNG（或原样保留的 JPEG/PNG）。
+ */
+
+import { encodePng, checkImageSize } from './png.js'
+import { UnsupportedMediaError } from './errors.js'
+
+/** 位图压缩方式 */
+const BI_RGB = 0
+const BI_BITFIELDS = 3
+const BI_JPEG = 4
+const BI_PNG = 5
+
+/** BITMAPINFOHEADER 的字节数 */
+const INFO_HEADER_SIZE = 40
+
+/** 解码后的位图 */
+export interface DecodedBitmap {
+  width: number
+  height: number
+  /** data URL，可直接作为 SVG image 的 href */
+  href: string
+}
+
+/**
+ * 读取位域掩码对应的通道值并缩放到 0-255
+ */
+function readMasked(value: number, mask: number): number {
+  if (!mask) return 0
+  const shift = Math.clz32(mask & -mask) ^ 31
+  const max = mask >>> shift
+  return Math.round((((value & mask) >>> shift) * 255) / max)
+}
+
+/**
+ * 解码 DIB
+ *
+ * @param info - BITMAPINFO（信息头 + 调色板/位域掩码）
+ * @param bits - 像素数据
+ * @param useAlpha - 32 位位图是否使用 alpha 通道（AlphaBlend 的 AC_SRC_ALPHA）
+ * @returns 位图尺寸和 data URL
+ * @throws UnsupportedMediaError 使用 RLE 压缩或旧版 BITMAPCOREHEADER
+ */
+export function decodeDib(info: Buffer, bits: Buffer, useAlpha = false): DecodedBitmap {
+  const headerSize = info.readUInt32LE(0)
+  if (headerSize < INFO_HEADER_SIZE) throw new UnsupportedMediaError('BITMAPCOREHEADER')
+
+  const width = info.readInt32LE(4)
+  const rawHeight = info.readInt32LE(8)
+  const height = Math.abs(rawHeight)
+  const bitCount = info.readUInt16LE(14)
+  const compression = info.readUInt32LE(16)
+  const colorsUsed = info.readUInt32LE(32)
+
+  // 压缩为 JPEG/PNG 的位图直接嵌入
+  if (compression === BI_JPEG || compression === BI_PNG) {
+    const mimeType = compression === BI_JPEG ? 'image/jpeg' : 'image/png'
+    return { width, height, href: `data:${mimeType};base64,${bits.toString('base64')}` }
+  }
+  if (compression !== BI_RGB && compression !== BI_BITFIELDS) {
+    throw new UnsupportedMediaError(`DIB compression ${compression}`)
+  }
+
+  // 位域掩码紧跟在 40 字节信息头之后（V4/V5 信息头中位于头内相同位置）
+  const masks = compression === BI_BITFIELDS
+    ? [info.readUInt32LE(40), info.readUInt32LE(44), info.readUInt32LE(48)]
+    : bitCount === 16 ? [0x7c00, 0x03e0, 0x001f] : [0xff0000, 0x00ff00, 0x0000ff]
+  const paletteOffset = headerSize + (compression === BI_BITFIELDS && headerSize === INFO_HEADER_SIZE ? 12 : 0)
+  const paletteSize = bitCount <= 8 ? colorsUsed || 1 << bitCount : 0
+  const palette: number[][] = []
+  for (let i = 0; i < paletteSize && paletteOffset + i * 4 + 3 <= info.length; i++) {
+    const offset = paletteOffset + i * 4
+    palette.push([info[offset + 2], info[offset + 1], info[offset]])
+  }
+
+  checkImageSize(width, height, 'DIB')
+  const stride = Math.ceil((width * bitCount) / 32) * 4
+  if (bits.length < stride * height) throw new UnsupportedMediaError('truncated DIB')
+  const rgba = new Uint8Array(width * height * 4)
+
+  for (let y = 0; y < height; y++) {
+    // 高度为正时自下而上存储
+    const rowStart = (rawHeight > 0 ? height - 1 - y : y) * stride
+    for (let x = 0; x < width; x++) {
+      const out = (y * width + x) * 4
+      let color: number[]
+      let alpha = 255
+
+      switch (bitCount) {
+        case 1:
+        case 4:
+        case 8: {
+          const bitOffset = x * bitCount
+          const index = (bits[rowStart + (bitOffset >> 3)] >> (8 - bitCount - (bitOffset & 7))) & ((1 << bitCount) - 1)
+          color = palette[index] || [0, 0, 0]
+          break
+        }
+        case 16: {
+          const value = bits.readUInt16LE(rowStart + x * 2)
+          color = masks.map(mask => readMasked(value, mask))
+          break
+        }
+        case 24: {
+          const offset = rowStart + x * 3
+          color = [bits[offset + 2], bits[offset + 1], bits[offset]]
+          break
+        }
+        case 32: {
+          const value = bits.readUInt32LE(rowStart + x * 4)
+          color = masks.map(mask => readMasked(value, mask))
+          if (useAlpha) {
+            // AlphaBlend 的源位图为预乘 alpha
+            alpha = value >>> 24
+            if (alpha > 0) color = color.map(channel => Math.min(255, Math.round((channel * 255) / alpha)))
+          }
+          break
+        }
+        default:
+          throw new UnsupportedMediaError(`${bitCount}-bit DIB`)
+      }
+
+      rgba.set(color, out)
+      rgba[out + 3] = alpha
+    }
+  }
+
+  return { width, height, href: `data:image/png;base64,${encodePng(width, height, rgba).toString('base64')}` }
+}
+
+/**
+ * 解码紧凑存储的 DIB（BITMAPINFO 后紧跟像素数据，WMF 位图记录使用）
+ *
+ * @param packed - BITMAPINFO + 像素数据
+ * @param useAlpha - 32 位位图是否使用 alpha 通道
+ */
+export function decodePackedDib(packed: Buffer, useAlpha = false): DecodedBitmap {
+  const headerSize = packed.readUInt32LE(0)
+  if (headerSize < INFO_HEADER_SIZE) throw new UnsupportedMediaError('BITMAPCOREHEADER')
+
+  const bitCount = packed.readUInt16LE(14)
+  const compression = packed.readUInt32LE(16)
+  const colorsUsed = packed.readUInt32LE(32)
+  const maskSize = compression === BI_BITFIELDS && headerSize === INFO_HEADER_SIZE ? 12 : 0
+  const paletteSize = bitCount <= 8 ? (colorsUsed || 1 << bitCount) * 4 : 0
+  const infoSize = headerSize + maskSize + paletteSize
+
+  return decodeDib(packed.subarray(0, infoSize), packed.subarray(infoSize), useAlpha)
+}
+
+export default { decodeDib, decodePackedDib }
@@ -0,0 +1,601 @@
+/**
+ * EMF 转 SVG
+ *
+ * @module modules/conversion/media/emf
+ * @description 回放 EMF（增强型图元文件）记录并输出 SVG。
+ * 支持常用的绘图、路径、裁剪、文本和位图记录；
+ * 遇到无法表达的记录（区域填充、渐变填充、图案画刷等）或只含 EMF+ 记录的文件时抛出 UnsupportedMediaError。
+ */
+
+import { GdiCanvas, getStockObject, colorRefToHex, multiplyMatrix, type Box, type GdiObject, type Matrix, type Point } from './gdi-canvas.js'
+import { decodeDib } from './dib.js'
+import { UnsupportedMediaError } from './errors.js'
+
+/** EMF 签名（' EMF'） */
+const EMF_SIGNATURE = 0x464d4520
+
+/** EMF+ 注释标识（'EMF+'） */
+const EMF_PLUS_IDENTIFIER = 0x2b464d45
+
+/** EMF+ 文件头记录类型及双格式（同时包含 EMF 记录）标志 */
+const EMF_PLUS_HEADER = 0x4001
+const EMF_PLUS_DUAL = 0x0001
+
+/** 库存对象标志位 */
+const STOCK_OBJECT_FLAG = 0x80000000
+
+/** 记录类型 */
+const EMR = {
+  HEADER: 1,
+  POLYBEZIER: 2,
+  POLYGON: 3,
+  POLYLINE: 4,
+  POLYBEZIERTO: 5,
+  POLYLINETO: 6,
+  POLYPOLYLINE: 7,
+  POLYPOLYGON: 8,
+  SETWINDOWEXTEX: 9,
+  SETWINDOWORGEX: 10,
+  SETVIEWPORTEXTEX: 11,
+  SETVIEWPORTORGEX: 12,
+  EOF: 14,
+  SETMAPMODE: 17,
+  SETBKMODE: 18,
+  SETPOLYFILLMODE: 19,
+  SETTEXTALIGN: 22,
+  SETTEXTCOLOR: 24,
+  SETBKCOLOR: 25,
+  MOVETOEX: 27,
+  EXCLUDECLIPRECT: 29,
+  INTERSECTCLIPRECT: 30,
+  SCALEVIEWPORTEXTEX: 31,
+  SCALEWINDOWEXTEX: 32,
+  SAVEDC: 33,
+  RESTOREDC: 34,
+  SETWORLDTRANSFORM: 35,
+  MODIFYWORLDTRANSFORM: 36,
+  SELECTOBJECT: 37,
+  CREATEPEN: 38,
+  CREATEBRUSHINDIRECT: 39,
+  DELETEOBJECT: 40,
+  ELLIPSE: 42,
+  RECTANGLE: 43,
+  ROUNDRECT: 44,
+  ARC: 45,
+  CHORD: 46,
+  PIE: 47,
+  CREATEPALETTE: 49,
+  LINETO: 54,
+  ARCTO: 55,
+  SETARCDIRECTION: 57,
+  BEGINPATH: 59,
+  ENDPATH: 60,
+  CLOSEFIGURE: 61,
+  FILLPATH: 62,
+  STROKEANDFILLPATH: 63,
+  STROKEPATH: 64,
+  SELECTCLIPPATH: 67,
+  ABORTPATH: 68,
+  GDICOMMENT: 70,
+  EXTSELECTCLIPRGN: 75,
+  BITBLT: 76,
+  STRETCHBLT: 77,
+  STRETCHDIBITS: 81,
+  EXTCREATEFONTINDIRECTW: 82,
+  EXTTEXTOUTA: 83,
+  EXTTEXTOUTW: 84,
+  POLYBEZIER16: 85,
+  POLYGON16: 86,
+  POLYLINE16: 87,
+  POLYBEZIERTO16: 88,
+  POLYLINETO16: 89,
+  POLYPOLYLINE16: 90,
+  POLYPOLYGON16: 91,
+  EXTCREATEPEN: 95,
+  ALPHABLEND: 114,
+} as const
+
+/** 不影响输出的记录（调色板、颜色管理、映射标志、转义等） */
+const IGNORED_RECORDS = new Set([
+  13, 16, 20, 21, 23, 26, 28, 48, 50, 51, 52, 58, 65, 98, 99, 100, 101,
+  102, 103, 104, 105, 106, 109, 110, 111, 112, 113, 115, 119, 120, 121, 122,
+])
+
+/** 无法转换为 SVG 的记录名称 */
+const UNSUPPORTED_RECORDS: Record<number, string> = {
+  15: 'EMR_SETPIXELV',
+  41: 'EMR_ANGLEARC',
+  53: 'EMR_EXTFLOODFILL',
+  56: 'EMR_POLYDRAW',
+  66: 'EMR_WIDENPATH',
+  71: 'EMR_FILLRGN',
+  72: 'EMR_FRAMERGN',
+  73: 'EMR_INVERTRGN',
+  74: 'EMR_PAINTRGN',
+  78: 'EMR_MASKBLT',
+  79: 'EMR_PLGBLT',
+  80: 'EMR_SETDIBITSTODEVICE',
+  92: 'EMR_POLYDRAW16',
+  93: 'EMR_CREATEMONOBRUSH',
+  94: 'EMR_CREATEDIBPATTERNBRUSHPT',
+  96: 'EMR_POLYTEXTOUTA',
+  97: 'EMR_POLYTEXTOUTW',
+  108: 'EMR_SMALLTEXTOUT',
+  116: 'EMR_TRANSPARENTBLT',
+  118: 'EMR_GRADIENTFILL',
+}
+
+/** 位图光栅操作 */
+const ROP = {
+  BLACKNESS: 0x00000042,
+  WHITENESS: 0x00ff0062,
+  PATCOPY: 0x00f00021,
+} as const
+
+/** ExtTextOut 选项 */
+const ETO_OPAQUE = 0x0002
+const ETO_GLYPH_INDEX = 0x0010
+const ETO_PDY = 0x2000
+
+/** 世界变换修改方式 */
+const MWT_IDENTITY = 1
+const MWT_LEFTMULTIPLY = 2
+const MWT_RIGHTMULTIPLY = 3
+
+/** 默认显示分辨率 */
+const PIXELS_PER_INCH = 96
+
+/**
+ * EMF 记录读取
+ */
+class EmfRecord {
+  constructor(private readonly data: Buffer, readonly offset: number) {}
+
+  int32(at: number): number {
+    return this.data.readInt32LE(this.offset + at)
+  }
+
+  uint32(at: number): number {
+    return this.data.readUInt32LE(this.offset + at)
+  }
+
+  uint8(at: number): number {
+    return this.data.readUInt8(this.offset + at)
+  }
+
+  float(at: number): number {
+    return this.data.readFloatLE(this.offset + at)
+  }
+
+  point(at: number): Point {
+    return { x: this.int32(at), y: this.int32(at + 4) }
+  }
+
+  box(at: number): Box {
+    return { left: this.int32(at), top: this.int32(at + 4), right: this.int32(at + 8), bottom: this.int32(at + 12) }
+  }
+
+  /** 读取 count 个点，16 位记录的坐标为 int16 */
+  points(at: number, count: number, short: boolean): Point[] {
+    const points: Point[] = []
+    for (let i = 0; i < count; i++) {
+      points.push(short
+        ? { x: this.data.readInt16LE(this.offset + at + i * 4), y: this.data.readInt16LE(this.offset + at + i * 4 + 2) }
+        : this.point(at + i * 8))
+    }
+    return points
+  }
+
+  matrix(at: number): Matrix {
+    return {
+      m11: this.float(at),
+      m12: this.float(at + 4),
+      m21: this.float(at + 8),
+      m22: this.float(at + 12),
+      dx: this.float(at + 16),
+      dy: this.float(at + 20),
+    }
+  }
+
+  /** 读取相对记录起点的数据块 */
+  slice(offset: number, length: number): Buffer {
+    return this.data.subarray(this.offset + offset, this.offset + offset + length)
+  }
+}
+
+/**
+ * 回放位图记录
+ *
+ * @param record - 位图记录
+ * @param canvas - 绘图上下文
+ * @param layout - 各字段在记录中的偏移
+ */
+function drawBitmap(
+  record: EmfRecord,
+  canvas: GdiCanvas,
+  layout: { dest: Box; source: Point; sourceSize: Point; rop: number; bmi: number; useAlpha?: boolean; dibSource?: boolean }
+): void {
+  const offBmi = record.uint32(layout.bmi)
+  const cbBmi = record.uint32(layout.bmi + 4)
+  const offBits = record.uint32(layout.bmi + 8)
+  const cbBits = record.uint32(layout.bmi + 12)
+
+  // 没有源位图时为图案/纯色填充
+  if (!cbBmi) {
+    if (layout.rop === ROP.PATCOPY) canvas.patternRect(layout.dest)
+    else if (layout.rop === ROP.BLACKNESS) canvas.fillRect(layout.dest, '#000000')
+    else if (layout.rop === ROP.WHITENESS) canvas.fillRect(layout.dest, '#FFFFFF')
+    return
+  }
+
+  const info = record.slice(offBmi, cbBmi)
+  const bitmap = decodeDib(info, record.slice(offBits, cbBits), layout.useAlpha)
+
+  // StretchDIBits 中自下而上的位图，源矩形 y 坐标从底部起算
+  const bottomUp = layout.dibSource && info.readInt32LE(8) > 0
+  const top = bottomUp ? bitmap.height - layout.source.y - layout.sourceSize.y : layout.source.y
+  canvas.image(layout.dest, bitmap, {
+    left: layout.source.x,
+    top,
+    right: layout.source.x + layout.sourceSize.x,
+    bottom: top + layout.sourceSize.y,
+  })
+}
+
+/**
+ * 回放 EMR_EXTTEXTOUTA / EMR_EXTTEXTOUTW
+ */
+function drawText(record: EmfRecord, canvas: GdiCanvas, wide: boolean): void {
+  const reference = record.point(36)
+  const chars = record.uint32(44)
+  const offString = record.uint32(48)
+  const options = record.uint32(52)
+  const rect = record.box(56)
+  const offDx = record.uint32(72)
+
+  // 字形索引无法还原为字符
+  if (options & ETO_GLYPH_INDEX) throw new UnsupportedMediaError('ETO_GLYPH_INDEX')
+
+  const text = wide
+    ? record.slice(offString, chars * 2).toString('utf16le')
+    : record.slice(offString, chars).toString('latin1')
+
+  let advance = 0
+  if (offDx) {
+    const step = options & ETO_PDY ? 8 : 4
+    for (let i = 0; i < chars; i++) advance += record.int32(offDx + i * step)
+  }
+
+  const hasRect = rect.right > rect.left && rect.bottom > rect.top
+  canvas.text(reference, text, { advance, opaqueBox: options & ETO_OPAQUE && hasRect ? rect : undefined })
+}
+
+/**
+ * 将 EMF 转换为 SVG
+ *
+ * @param data - EMF 文件内容
+ * @returns SVG 文档
+ * @throws UnsupportedMediaError 包含无法转换的记录
+ */
+export function emfToSvg(data: Buffer): string {
+  const header = new EmfRecord(data, 0)
+  if (header.uint32(0) !== EMR.HEADER || header.uint32(40) !== EMF_SIGNATURE) {
+    throw new UnsupportedMediaError('EMF header')
+  }
+
+  const bounds = header.box(8)
+  const frame = header.box(24)
+  const device = header.point(72)
+  const millimeters = header.point(80)
+  const pixelsPerMm = {
+    x: millimeters.x > 0 ? device.x / millimeters.x : PIXELS_PER_INCH / 25.4,
+    y: millimeters.y > 0 ? device.y / millimeters.y : PIXELS_PER_INCH / 25.4,
+  }
+
+  const canvas = new GdiCanvas({ applyViewport: true, pixelsPerMm })
+  const objects = new Map<number, GdiObject>()
+  const getObject = (index: number) =>
+    index & STOCK_OBJECT_FLAG ? getStockObject(index & ~STOCK_OBJECT_FLAG) : objects.get(index)
+
+  let offset = 0
+  while (offset + 8 <= data.length) {
+    const record = new EmfRecord(data, offset)
+    const type = record.uint32(0)
+    const size = record.uint32(4)
+    if (size < 8 || offset + size > data.length) break
+    offset += size
+
+    const { state } = canvas
+
+    switch (type) {
+      case EMR.HEADER:
+        break
+      case EMR.EOF:
+        offset = data.length
+        break
+
+      // 坐标映射
+      case EMR.SETMAPMODE:
+        state.mapMode = record.uint32(8)
+        break
+      case EMR.SETWINDOWEXTEX:
+        state.windowExt = record.point(8)
+        break
+      case EMR.SETWINDOWORGEX:
+        state.windowOrg = record.point(8)
+        break
+      case EMR.SETVIEWPORTEXTEX:
+        state.viewportExt = record.point(8)
+        break
+      case EMR.SETVIEWPORTORGEX:
+        state.viewportOrg = record.point(8)
+        break
+      case EMR.SCALEVIEWPORTEXTEX:
+      case EMR.SCALEWINDOWEXTEX: {
+        const key = type === EMR.SCALEVIEWPORTEXTEX ? 'viewportExt' : 'windowExt'
+        state[key] = {
+          x: (state[key].x * record.int32(8)) / (record.int32(12) || 1),
+          y: (state[key].y * record.int32(16)) / (record.int32(20) || 1),
+        }
+        break
+      }
+      case EMR.SETWORLDTRANSFORM:
+        state.transform = record.matrix(8)
+        break
+      case EMR.MODIFYWORLDTRANSFORM: {
+        const matrix = record.matrix(8)
+        const mode = record.uint32(32)
+        if (mode === MWT_IDENTITY) state.transform = { m11: 1, m12: 0, m21: 0, m22: 1, dx: 0, dy: 0 }
+        else if (mode === MWT_LEFTMULTIPLY) state.transform = multiplyMatrix(matrix, state.transform)
+        else if (mode === MWT_RIGHTMULTIPLY) state.transform = multiplyMatrix(state.transform, matrix)
+        else state.transform = matrix
+        break
+      }
+
+      // 绘图属性
+      case EMR.SETBKMODE:
+        state.bkMode = record.uint32(8)
+        break
+      case EMR.SETPOLYFILLMODE:
+        state.polyFillMode = record.uint32(8)
+        break
+      case EMR.SETTEXTALIGN:
+        state.textAlign = record.uint32(8)
+        break
+      case EMR.SETTEXTCOLOR:
+        state.textColor = colorRefToHex(record.uint32(8))
+        break
+      case EMR.SETBKCOLOR:
+        state.bkColor = colorRefToHex(record.uint32(8))
+        break
+      case EMR.SETARCDIRECTION:
+        state.arcDirection = record.uint32(8)
+        break
+      case EMR.SAVEDC:
+        canvas.save()
+        break
+      case EMR.RESTOREDC:
+        canvas.restore(record.int32(8))
+        break
+
+      // 对象
+      case EMR.CREATEPEN:
+        objects.set(record.uint32(8), { kind: 'pen', style: record.uint32(12), width: record.int32(16), color: colorRefToHex(record.uint32(24)) })
+        break
+      case EMR.EXTCREATEPEN: {
+        // 画刷样式为 BS_NULL 的画笔不可见
+        const style = record.uint32(36) === 1 ? 5 : record.uint32(28)
+        objects.set(record.uint32(8), { kind: 'pen', style, width: record.uint32(32), color: colorRefToHex(record.uint32(40)) })
+        break
+      }
+      case EMR.CREATEBRUSHINDIRECT:
+        objects.set(record.uint32(8), { kind: 'brush', style: record.uint32(12), color: colorRefToHex(record.uint32(16)) })
+        break
+      case EMR.EXTCREATEFONTINDIRECTW:
+        objects.set(record.uint32(8), {
+          kind: 'font',
+          height: record.int32(12),
+          escapement: record.int32(20),
+          weight: record.int32(28),
+          italic: record.uint8(32) !== 0,
+          underline: record.uint8(33) !== 0,
+          strikeOut: record.uint8(34) !== 0,
+          faceName: record.slice(40, 64).toString('utf16le').replace(/\0.*$/s, ''),
+        })
+        break
+      case EMR.CREATEPALETTE:
+        objects.set(record.uint32(8), { kind: 'other' })
+        break
+      case EMR.SELECTOBJECT:
+        canvas.selectObject(getObject(record.uint32(8)))
+        break
+      case EMR.DELETEOBJECT:
+        objects.delete(record.uint32(8))
+        break
+
+      // 图形
+      case EMR.MOVETOEX:
+        canvas.moveTo(record.point(8))
+        break
+      case EMR.LINETO:
+        canvas.lineTo(record.point(8))
+        break
+      case EMR.POLYBEZIER:
+      case EMR.POLYBEZIER16:
+        canvas.polyBezier(record.points(28, record.uint32(24), type === EMR.POLYBEZIER16))
+        break
+      case EMR.POLYGON:
+      case EMR.POLYGON16:
+        canvas.polygons([record.points(28, record.uint32(24), type === EMR.POLYGON16)])
+        break
+      case EMR.POLYLINE:
+      case EMR.POLYLINE16:
+        canvas.polyline(record.points(28, record.uint32(24), type === EMR.POLYLINE16))
+        break
+      case EMR.POLYBEZIERTO:
+      case EMR.POLYBEZIERTO16:
+        canvas.polyBezierTo(record.points(28, record.uint32(24), type === EMR.POLYBEZIERTO16))
+        break
+      case EMR.POLYLINETO:
+      case EMR.POLYLINETO16:
+        canvas.polylineTo(record.points(28, record.uint32(24), type === EMR.POLYLINETO16))
+        break
+      case EMR.POLYPOLYLINE:
+      case EMR.POLYPOLYLINE16:
+      case EMR.POLYPOLYGON:
+      case EMR.POLYPOLYGON16: {
+        const short = type === EMR.POLYPOLYLINE16 || type === EMR.POLYPOLYGON16
+        const count = record.uint32(24)
+        const groups: Point[][] = []
+        let pointOffset = 32 + count * 4
+        for (let i = 0; i < count; i++) {
+          const points = record.uint32(32 + i * 4)
+          groups.push(record.points(pointOffset, points, short))
+          pointOffset += points * (short ? 4 : 8)
+        }
+        if (type === EMR.POLYPOLYGON || type === EMR.POLYPOLYGON16) canvas.polygons(groups)
+        else groups.forEach(points => canvas.polyline(points))
+        break
+      }
+      case EMR.RECTANGLE:
+        canvas.rectangle(record.box(8))
+        break
+      case EMR.ROUNDRECT:
+        canvas.roundRect(record.box(8), record.point(24))
+        break
+      case EMR.ELLIPSE:
+        canvas.ellipse(record.box(8))
+        break
+      case EMR.ARC:
+      case EMR.CHORD:
+      case EMR.PIE:
+      case EMR.ARCTO: {
+        const kind = type === EMR.ARC ? 'arc' : type === EMR.CHORD ? 'chord' : type === EMR.PIE ? 'pie' : 'arcTo'
+        canvas.arc(record.box(8), record.point(24), record.point(32), kind)
+        break
+      }
+
+      // 路径
+      case EMR.BEGINPATH:
+        canvas.beginPath()
+        break
+      case EMR.ENDPATH:
+        canvas.endPath()
+        break
+      case EMR.ABORTPATH:
+        canvas.abortPath()
+        break
+      case EMR.CLOSEFIGURE:
+        canvas.closeFigure()
+        break
+      case EMR.FILLPATH:
+        canvas.drawPath(true, false)
+        break
+      case EMR.STROKEPATH:
+        canvas.drawPath(false, true)
+        break
+      case EMR.STROKEANDFILLPATH:
+        canvas.drawPath(true, true)
+        break
+
+      // 裁剪
+      case EMR.INTERSECTCLIPRECT:
+        canvas.intersectClipRect(record.box(8))
+        break
+      case EMR.EXCLUDECLIPRECT:
+        canvas.excludeClipRect(record.box(8))
+        break
+      case EMR.SELECTCLIPPATH:
+        canvas.selectClipPath(record.uint32(8))
+        break
+      case EMR.EXTSELECTCLIPRGN: {
+        const size = record.uint32(8)
+        const mode = record.uint32(12)
+        if (!size) {
+          canvas.selectClipRects(null, mode)
+          break
+        }
+        // RGNDATA：32 字节头部后为设备坐标矩形
+        const count = record.uint32(24)
+        const rects = Array.from({ length: count }, (_, i) => record.box(48 + i * 16))
+        canvas.selectClipRects(rects, mode)
+        break
+      }
+
+      // 文本
+      case EMR.EXTTEXTOUTW:
+      case EMR.EXTTEXTOUTA:
+        drawText(record, canvas, type === EMR.EXTTEXTOUTW)
+        break
+
+      // 位图
+      case EMR.STRETCHDIBITS: {
+        const position = record.point(24)
+        const destSize = record.point(72)
+        drawBitmap(record, canvas, {
+          dest: { left: position.x, top: position.y, right: position.x + destSize.x, bottom: position.y + destSize.y },
+          source: record.point(32),
+          sourceSize: record.point(40),
+          rop: record.uint32(68),
+          bmi: 48,
+          dibSource: true,
+        })
+        break
+      }
+      case EMR.BITBLT:
+      case EMR.STRETCHBLT:
+      case EMR.ALPHABLEND: {
+        const position = record.point(24)
+        const destSize = record.point(32)
+        // BitBlt 不缩放，源尺寸与目标尺寸相同
+        const sourceSize = type === EMR.BITBLT ? destSize : record.point(100)
+        drawBitmap(record, canvas, {
+          dest: { left: position.x, top: position.y, right: position.x + destSize.x, bottom: position.y + destSize.y },
+          source: record.point(44),
+          sourceSize,
+          rop: type === EMR.ALPHABLEND ? 0 : record.uint32(40),
+          bmi: 84,
+          // AlphaBlend 的 AlphaFormat 为 AC_SRC_ALPHA 时使用源位图的 alpha 通道
+          useAlpha: type === EMR.ALPHABLEND && (record.uint8(43) & 1) === 1,
+        })
+        break
+      }
+
+      case EMR.GDICOMMENT: {
+        // 只有 EMF+ 记录（非双格式）的文件，EMF 记录中没有图形
+        const isEmfPlus = size >= 24 && record.uint32(12) === EMF_PLUS_IDENTIFIER
+        if (isEmfPlus && record.uint32(16) % 0x10000 === EMF_PLUS_HEADER && !((record.uint32(16) >>> 16) & EMF_PLUS_DUAL)) {
+          throw new UnsupportedMediaError('EMF+')
+        }
+        break
+      }
+
+      default:
+        if (IGNORED_RECORDS.has(type)) break
+        throw new UnsupportedMediaError(UNSUPPORTED_RECORDS[type] || `EMF record ${type}`)
+    }
+  }
+
+  if (canvas.isEmpty) throw new UnsupportedMediaError('EMF without drawing records')
+
+  // 图片框（rclFrame，0.01 毫米）换算为设备坐标；缺失时使用绘图边界
+  const hasFrame = frame.right > frame.left && frame.bottom > frame.top
+  const viewBox = hasFrame
+    ? {
+        x: (frame.left / 100) * pixelsPerMm.x,
+        y: (frame.top / 100) * pixelsPerMm.y,
+        width: ((frame.right - frame.left) / 100) * pixelsPerMm.x,
+        height: ((frame.bottom - frame.top) / 100) * pixelsPerMm.y,
+      }
+    : { x: bounds.left, y: bounds.top, width: bounds.right - bounds.left + 1, height: bounds.bottom - bounds.top + 1 }
+  const size = hasFrame
+    ? {
+        width: ((frame.right - frame.left) / 2540) * PIXELS_PER_INCH,
+        height: ((frame.bottom - frame.top) / 2540) * PIXELS_PER_INCH,
+      }
+    : { width: viewBox.width, height: viewBox.height }
+
+  return canvas.toSvg(viewBox, size)
+}
+
+export default { emfToSvg }
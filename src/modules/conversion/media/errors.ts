@@ -0,0 +1,25 @@
+/**
+ * 媒体转码错误
+ *
+ * @module modules/conversion/media/errors
+ */
+
+/**
+ * 媒体文件使用了无法转码的特性
+ *
+ * @description
+ * 如 EMF 中的区域填充记录、JPEG 压缩的 TIFF 等。
+ * 转码失败时保留原始文件，并在有 mc:Fallback 图片时改用该图片。
+ */
+export class UnsupportedMediaError extends Error {
+  /** 不支持的特性，如 'EMR_GRADIENTFILL'、'TIFF compression 7' */
+  public readonly feature: string
+
+  constructor(feature: string) {
+    super(`Unsupported media feature: ${feature}`)
+    this.name = 'UnsupportedMediaError'
+    this.feature = feature
+  }
+}
+
+export default { UnsupportedMediaError }
@@ -0,0 +1,805 @@
+/**
+ * GDI 绘图状态与 SVG 输出
+ *
+ * @module modules/conversion/media/gdi-canvas
+ * @description EMF 和 WMF 记录回放共用的绘图上下文。
+ * 维护画笔、画刷、字体、坐标映射、路径和裁剪区域等设备上下文（DC）状态，
+ * 所有图形都换算到设备坐标后以 SVG 路径输出，椭圆和圆弧用三次贝塞尔曲线近似。
+ */
+
+import type { DecodedBitmap } from './dib.js'
+
+/** 二维点 */
+export interface Point {
+  x: number
+  y: number
+}
+
+/** 矩形（左上角和右下角） */
+export interface Box {
+  left: number
+  top: number
+  right: number
+  bottom: number
+}
+
+/** 画笔 */
+export interface GdiPen {
+  /** 样式，低 4 位为线型，0x0F00 为端点样式，0xF000 为连接样式 */
+  style: number
+  /** 逻辑单位宽度，0 表示 1 个设备像素 */
+  width: number
+  color: string
+}
+
+/** 画刷 */
+export interface GdiBrush {
+  style: number
+  color: string
+}
+
+/** 字体 */
+export interface GdiFont {
+  /** 逻辑单位高度，负值为字符高度，正值为单元格高度 */
+  height: number
+  weight: number
+  italic: boolean
+  underline: boolean
+  strikeOut: boolean
+  faceName: string
+  /** 文字基线方向，1/10 度，逆时针 */
+  escapement: number
+}
+
+/** GDI 对象 */
+export type GdiObject =
+  | ({ kind: 'pen' } & GdiPen)
+  | ({ kind: 'brush' } & GdiBrush)
+  | ({ kind: 'font' } & GdiFont)
+  | { kind: 'other' }
+
+/** 仿射变换，x' = x * m11 + y * m21 + dx，y' = x * m12 + y * m22 + dy */
+export interface Matrix {
+  m11: number
+  m12: number
+  m21: number
+  m22: number
+  dx: number
+  dy: number
+}
+
+/** 设备上下文状态 */
+interface DcState {
+  pen: GdiPen
+  brush: GdiBrush
+  font: GdiFont
+  textColor: string
+  bkColor: string
+  bkMode: number
+  textAlign: number
+  polyFillMode: number
+  arcDirection: number
+  mapMode: number
+  windowOrg: Point
+  windowExt: Point
+  viewportOrg: Point
+  viewportExt: Point
+  transform: Matrix
+  position: Point
+  clipId?: string
+}
+
+/** 映射模式 */
+export const MAP_MODE = {
+  TEXT: 1,
+  LOMETRIC: 2,
+  HIMETRIC: 3,
+  LOENGLISH: 4,
+  HIENGLISH: 5,
+  TWIPS: 6,
+  ISOTROPIC: 7,
+  ANISOTROPIC: 8,
+} as const
+
+/** 各度量映射模式一个逻辑单位对应的毫米数 */
+const MM_PER_UNIT: Record<number, number> = {
+  [MAP_MODE.LOMETRIC]: 0.1,
+  [MAP_MODE.HIMETRIC]: 0.01,
+  [MAP_MODE.LOENGLISH]: 0.254,
+  [MAP_MODE.HIENGLISH]: 0.0254,
+  [MAP_MODE.TWIPS]: 25.4 / 1440,
+}
+
+/** 裁剪区域合并方式 */
+export const REGION_MODE = {
+  AND: 1,
+  OR: 2,
+  XOR: 3,
+  DIFF: 4,
+  COPY: 5,
+} as const
+
+/** 空画笔和空画刷样式 */
+const PS_NULL = 5
+const BS_NULL = 1
+
+/** 多边形填充模式 ALTERNATE（奇偶规则） */
+const ALTERNATE = 1
+
+/** 背景模式 OPAQUE */
+const OPAQUE = 2
+
+/** 圆弧方向：顺时针 */
+const AD_CLOCKWISE = 2
+
+/** 文本对齐标志 */
+const TA_UPDATECP = 1
+const TA_CENTER = 6
+const TA_RIGHT = 2
+const TA_BASELINE = 24
+const TA_BOTTOM = 8
+
+/** 排除裁剪矩形时使用的外框范围 */
+const CLIP_EXTENT = 1e7
+
+/** 线型对应的虚线模式（以线宽为单位） */
+const DASH_PATTERNS: Record<number, number[]> = {
+  1: [3, 1],
+  2: [1, 1],
+  3: [3, 1, 1, 1],
+  4: [3, 1, 1, 1, 1, 1],
+}
+
+const IDENTITY: Matrix = { m11: 1, m12: 0, m21: 0, m22: 1, dx: 0, dy: 0 }
+
+/** 默认对象：黑色画笔、白色画刷、系统字体 */
+const DEFAULT_PEN: GdiPen = { style: 0, width: 0, color: '#000000' }
+const DEFAULT_BRUSH: GdiBrush = { style: 0, color: '#FFFFFF' }
+const DEFAULT_FONT: GdiFont = { height: -12, weight: 400, italic: false, underline: false, strikeOut: false, faceName: '', escapement: 0 }
+
+/**
+ * 获取库存对象（GetStockObject）
+ *
+ * @param index - 库存对象编号（不含 0x80000000 标志位）
+ */
+export function getStockObject(index: number): GdiObject | undefined {
+  const grays = ['#FFFFFF', '#C0C0C0', '#808080', '#404040', '#000000']
+  if (index >= 0 && index <= 4) return { kind: 'brush', style: 0, color: grays[index] }
+
+  switch (index) {
+    case 5:
+      return { kind: 'brush', style: BS_NULL, color: '#000000' }
+    case 6:
+      return { kind: 'pen', style: 0, width: 0, color: '#FFFFFF' }
+    case 7:
+      return { kind: 'pen', ...DEFAULT_PEN }
+    case 8:
+      return { kind: 'pen', style: PS_NULL, width: 0, color: '#000000' }
+    default:
+      // 10-17 为系统字体
+      return index >= 10 && index <= 17 ? { kind: 'font', ...DEFAULT_FONT } : undefined
+  }
+}
+
+/**
+ * COLORREF（0x00BBGGRR）转十六进制颜色
+ */
+export function colorRefToHex(value: number): string {
+  const r = value & 0xff
+  const g = (value >> 8) & 0xff
+  const b = (value >> 16) & 0xff
+  return '#' + [r, g, b].map(channel => channel.toString(16).padStart(2, '0')).join('').toUpperCase()
+}
+
+/**
+ * 两个变换的组合：先应用 a，再应用 b
+ */
+export function multiplyMatrix(a: Matrix, b: Matrix): Matrix {
+  return {
+    m11: a.m11 * b.m11 + a.m12 * b.m21,
+    m12: a.m11 * b.m12 + a.m12 * b.m22,
+    m21: a.m21 * b.m11 + a.m22 * b.m21,
+    m22: a.m21 * b.m12 + a.m22 * b.m22,
+    dx: a.dx * b.m11 + a.dy * b.m21 + b.dx,
+    dy: a.dx * b.m12 + a.dy * b.m22 + b.dy,
+  }
+}
+
+/**
+ * 转义 XML 特殊字符
+ */
+function escapeXml(text: string): string {
+  return text.replace(/[&<>"]/g, char => ({ '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;' })[char] || char)
+}
+
+/**
+ * 数值保留两位小数
+ */
+function fmt(value: number): string {
+  return String(Math.round(value * 100) / 100)
+}
+
+/**
+ * GDI 绘图上下文
+ */
+export class GdiCanvas {
+  state: DcState
+  private readonly savedStates: DcState[] = []
+  private readonly elements: string[] = []
+  private readonly clipPaths: string[] = []
+  /** 路径括号（BeginPath/EndPath）中收集的路径数据，null 表示不在路径中 */
+  private pathData: string[] | null = null
+  /** EndPath 后等待填充、描边或裁剪的路径 */
+  private closedPath = ''
+
+  /**
+   * @param options.applyViewport - 是否应用窗口/视口映射（EMF 需要；WMF 直接使用逻辑坐标）
+   * @param options.pixelsPerMm - 设备每毫米像素数，用于度量映射模式
+   */
+  constructor(private readonly options: { applyViewport: boolean; pixelsPerMm?: Point }) {
+    this.state = {
+      pen: DEFAULT_PEN,
+      brush: DEFAULT_BRUSH,
+      font: DEFAULT_FONT,
+      textColor: '#000000',
+      bkColor: '#FFFFFF',
+      bkMode: OPAQUE,
+      textAlign: 0,
+      polyFillMode: ALTERNATE,
+      arcDirection: 1,
+      mapMode: MAP_MODE.TEXT,
+      windowOrg: { x: 0, y: 0 },
+      windowExt: { x: 1, y: 1 },
+      viewportOrg: { x: 0, y: 0 },
+      viewportExt: { x: 1, y: 1 },
+      transform: IDENTITY,
+      position: { x: 0, y: 0 },
+    }
+  }
+
+  /** 是否已输出任何图形 */
+  get isEmpty(): boolean {
+    return this.elements.length === 0
+  }
+
+  // ==================== 状态 ====================
+
+  /**
+   * 选入对象
+   */
+  selectObject(object: GdiObject | undefined): void {
+    if (!object) return
+    if (object.kind === 'pen') this.state.pen = object
+    if (object.kind === 'brush') this.state.brush = object
+    if (object.kind === 'font') this.state.font = object
+  }
+
+  /**
+   * 保存设备上下文（SaveDC）
+   */
+  save(): void {
+    this.savedStates.push({
+      ...this.state,
+      windowOrg: { ...this.state.windowOrg },
+      windowExt: { ...this.state.windowExt },
+      viewportOrg: { ...this.state.viewportOrg },
+      viewportExt: { ...this.state.viewportExt },
+      position: { ...this.state.position },
+    })
+  }
+
+  /**
+   * 恢复设备上下文（RestoreDC）
+   *
+   * @param index - 负值为相对最近一次保存的层数，正值为绝对序号
+   */
+  restore(index: number): void {
+    const target = index < 0 ? this.savedStates.length + index : index - 1
+    if (target < 0 || target >= this.savedStates.length) return
+    this.state = this.savedStates[target]
+    this.savedStates.length = target
+  }
+
+  // ==================== 坐标映射 ====================
+
+  /**
+   * 页面坐标转设备坐标（窗口/视口映射）
+   */
+  private pageToDevice(point: Point): Point {
+    const { mapMode, windowOrg, windowExt, viewportOrg, viewportExt } = this.state
+    if (!this.options.applyViewport) return point
+
+    let scaleX = 1
+    let scaleY = 1
+    if (mapMode === MAP_MODE.ANISOTROPIC || mapMode === MAP_MODE.ISOTROPIC) {
+      scaleX = viewportExt.x / (windowExt.x || 1)
+      scaleY = viewportExt.y / (windowExt.y || 1)
+      if (mapMode === MAP_MODE.ISOTROPIC) {
+        const scale = Math.min(Math.abs(scaleX), Math.abs(scaleY))
+        scaleX = Math.sign(scaleX) * scale
+        scaleY = Math.sign(scaleY) * scale
+      }
+    } else if (MM_PER_UNIT[mapMode]) {
+      // 度量映射模式的 y 轴向上
+      const pixelsPerMm = this.options.pixelsPerMm || { x: 96 / 25.4, y: 96 / 25.4 }
+      scaleX = MM_PER_UNIT[mapMode] * pixelsPerMm.x
+      scaleY = -MM_PER_UNIT[mapMode] * pixelsPerMm.y
+    }
+
+    return {
+      x: (point.x - windowOrg.x) * scaleX + viewportOrg.x,
+      y: (point.y - windowOrg.y) * scaleY + viewportOrg.y,
+    }
+  }
+
+  /**
+   * 逻辑坐标转设备坐标（世界变换 + 窗口/视口映射）
+   */
+  toDevice(point: Point): Point {
+    const { m11, m12, m21, m22, dx, dy } = this.state.transform
+    return this.pageToDevice({
+      x: point.x * m11 + point.y * m21 + dx,
+      y: point.x * m12 + point.y * m22 + dy,
+    })
+  }
+
+  /**
+   * 逻辑长度到设备长度的平均缩放比例（用于线宽和字号）
+   */
+  lengthScale(): number {
+    const origin = this.toDevice({ x: 0, y: 0 })
+    const unitX = this.toDevice({ x: 1, y: 0 })
+    const unitY = this.toDevice({ x: 0, y: 1 })
+    return (Math.hypot(unitX.x - origin.x, unitX.y - origin.y) + Math.hypot(unitY.x - origin.x, unitY.y - origin.y)) / 2
+  }
+
+  private point(point: Point): string {
+    const device = this.toDevice(point)
+    return `${fmt(device.x)} ${fmt(device.y)}`
+  }
+
+  // ==================== 路径数据 ====================
+
+  private polyData(points: Point[], close: boolean): string {
+    if (points.length === 0) return ''
+    const [first, ...rest] = points
+    return `M ${this.point(first)}${rest.map(point => ` L ${this.point(point)}`).join('')}${close ? ' Z' : ''}`
+  }
+
+  private bezierData(points: Point[]): string {
+    let data = ''
+    for (let i = 0; i + 2 < points.length; i += 3) {
+      data += ` C ${this.point(points[i])} ${this.point(points[i + 1])} ${this.point(points[i + 2])}`
+    }
+    return data
+  }
+
+  /**
+   * 椭圆弧的贝塞尔曲线段（每段不超过 90 度）
+   *
+   * @param center - 椭圆中心
+   * @param radius - 半轴长度
+   * @param start - 起始参数角（弧度，y 轴向下）
+   * @param sweep - 扫过的角度，正值沿参数角增大方向
+   */
+  private arcSegments(center: Point, radius: Point, start: number, sweep: number): string {
+    const count = Math.max(1, Math.ceil(Math.abs(sweep) / (Math.PI / 2) - 1e-9))
+    const step = sweep / count
+    const k = (4 / 3) * Math.tan(step / 4)
+    const at = (angle: number, offset = 0): Point => ({
+      x: center.x + radius.x * (Math.cos(angle) - offset * Math.sin(angle)),
+      y: center.y + radius.y * (Math.sin(angle) + offset * Math.cos(angle)),
+    })
+
+    let data = ''
+    for (let i = 0; i < count; i++) {
+      const a = start + step * i
+      const b = a + step
+      data += ` C ${this.point(at(a, k))} ${this.point(at(b, -k))} ${this.point(at(b))}`
+    }
+    return data
+  }
+
+  private ellipseData(box: Box): string {
+    const center = { x: (box.left + box.right) / 2, y: (box.top + box.bottom) / 2 }
+    const radius = { x: (box.right - box.left) / 2, y: (box.bottom - box.top) / 2 }
+    return `M ${this.point({ x: box.right, y: center.y })}${this.arcSegments(center, radius, 0, Math.PI * 2)} Z`
+  }
+
+  private rectData(box: Box): string {
+    return this.polyData([
+      { x: box.left, y: box.top },
+      { x: box.right, y: box.top },
+      { x: box.right, y: box.bottom },
+      { x: box.left, y: box.bottom },
+    ], true)
+  }
+
+  private roundRectData(box: Box, corner: Point): string {
+    const rx = Math.min(Math.abs(corner.x) / 2, (box.right - box.left) / 2)
+    const ry = Math.min(Math.abs(corner.y) / 2, (box.bottom - box.top) / 2)
+    const quarter = Math.PI / 2
+    return `M ${this.point({ x: box.left + rx, y: box.top })}`
+      + ` L ${this.point({ x: box.right - rx, y: box.top })}`
+      + this.arcSegments({ x: box.right - rx, y: box.top + ry }, { x: rx, y: ry }, -quarter, quarter)
+      + ` L ${this.point({ x: box.right, y: box.bottom - ry })}`
+      + this.arcSegments({ x: box.right - rx, y: box.bottom - ry }, { x: rx, y: ry }, 0, quarter)
+      + ` L ${this.point({ x: box.left + rx, y: box.bottom })}`
+      + this.arcSegments({ x: box.left + rx, y: box.bottom - ry }, { x: rx, y: ry }, quarter, quarter)
+      + ` L ${this.point({ x: box.left, y: box.top + ry })}`
+      + this.arcSegments({ x: box.left + rx, y: box.top + ry }, { x: rx, y: ry }, Math.PI, quarter)
+      + ' Z'
+  }
+
+  // ==================== 输出 ====================
+
+  /**
+   * 输出路径，或在路径括号中追加到当前路径
+   */
+  private emit(data: string, fill: boolean, stroke: boolean): void {
+    if (!data) return
+    if (this.pathData) {
+      this.pathData.push(data)
+      return
+    }
+
+    const { pen, brush, polyFillMode, clipId } = this.state
+    const attrs: string[] = [`d="${data}"`]
+
+    attrs.push(`fill="${fill && brush.style !== BS_NULL ? brush.color : 'none'}"`)
+    if (fill && polyFillMode === ALTERNATE) attrs.push('fill-rule="evenodd"')
+
+    if (stroke && (pen.style & 0x0f) !== PS_NULL) {
+      attrs.push(`stroke="${pen.color}"`)
+      if (pen.width === 0) {
+        // 宽度为 0 的画笔始终为 1 个设备像素
+        attrs.push('stroke-width="1"', 'vector-effect="non-scaling-stroke"')
+      } else {
+        attrs.push(`stroke-width="${fmt(pen.width * this.lengthScale())}"`)
+      }
+
+      const dashes = DASH_PATTERNS[pen.style & 0x0f]
+      if (dashes) {
+        const unit = Math.max(pen.width * this.lengthScale(), 1)
+        attrs.push(`stroke-dasharray="${dashes.map(dash => fmt(dash * unit)).join(' ')}"`)
+      }
+
+      const cap = pen.style & 0x0f00
+      const join = pen.style & 0xf000
+      attrs.push(`stroke-linecap="${cap === 0x0100 ? 'square' : cap === 0x0200 ? 'butt' : 'round'}"`)
+      attrs.push(`stroke-linejoin="${join === 0x1000 ? 'bevel' : join === 0x2000 ? 'miter' : 'round'}"`)
+    } else {
+      attrs.push('stroke="none"')
+    }
+
+    if (clipId) attrs.push(`clip-path="url(#${clipId})"`)
+    this.elements.push(`<path ${attrs.join(' ')}/>`)
+  }
+
+  // ==================== 绘图 ====================
+
+  moveTo(point: Point): void {
+    this.state.position = point
+    if (this.pathData) this.pathData.push(`M ${this.point(point)}`)
+  }
+
+  lineTo(point: Point): void {
+    this.polylineTo([point])
+  }
+
+  /**
+   * 从当前位置开始的折线（PolylineTo），结束后更新当前位置
+   */
+  polylineTo(points: Point[]): void {
+    if (points.length === 0) return
+    if (this.pathData) {
+      this.ensureFigure()
+      this.pathData.push(points.map(point => `L ${this.point(point)}`).join(' '))
+    } else {
+      this.emit(this.polyData([this.state.position, ...points], false), false, true)
+    }
+    this.state.position = points[points.length - 1]
+  }
+
+  /**
+   * 从当前位置开始的贝塞尔曲线（PolyBezierTo），结束后更新当前位置
+   */
+  polyBezierTo(points: Point[]): void {
+    if (points.length < 3) return
+    if (this.pathData) {
+      this.ensureFigure()
+      this.pathData.push(this.bezierData(points).trim())
+    } else {
+      this.emit(`M ${this.point(this.state.position)}${this.bezierData(points)}`, false, true)
+    }
+    this.state.position = points[points.length - 1]
+  }
+
+  /**
+   * 路径中没有起点时，以当前位置开始新的图形
+   */
+  private ensureFigure(): void {
+    if (this.pathData && !this.pathData.some(data => data.startsWith('M'))) {
+      this.pathData.push(`M ${this.point(this.state.position)}`)
+    }
+  }
+
+  polyline(points: Point[]): void {
+    this.emit(this.polyData(points, false), false, true)
+  }
+
+  polyBezier(points: Point[]): void {
+    if (points.length < 4) return
+    this.emit(`M ${this.point(points[0])}${this.bezierData(points.slice(1))}`, false, true)
+  }
+
+  /**
+   * 多边形（可包含多个子多边形）
+   */
+  polygons(polygons: Point[][]): void {
+    this.emit(polygons.map(points => this.polyData(points, true)).join(' '), true, true)
+  }
+
+  rectangle(box: Box): void {
+    this.emit(this.rectData(box), true, true)
+  }
+
+  roundRect(box: Box, corner: Point): void {
+    this.emit(this.roundRectData(box, corner), true, true)
+  }
+
+  ellipse(box: Box): void {
+    this.emit(this.ellipseData(box), true, true)
+  }
+
+  /**
+   * 圆弧、弦形和扇形
+   *
+   * @param box - 椭圆外接矩形
+   * @param start - 起点方向上的点
+   * @param end - 终点方向上的点
+   * @param kind - arc 只描边，chord 连接两端，pie 连接圆心，arcTo 从当前位置连线并更新当前位置
+   */
+  arc(box: Box, start: Point, end: Point, kind: 'arc' | 'chord' | 'pie' | 'arcTo'): void {
+    const center = { x: (box.left + box.right) / 2, y: (box.top + box.bottom) / 2 }
+    const radius = { x: Math.abs(box.right - box.left) / 2, y: Math.abs(box.bottom - box.top) / 2 }
+    if (!radius.x || !radius.y) return
+
+    // 射线与椭圆交点的参数角
+    const angleOf = (point: Point) => Math.atan2((point.y - center.y) * radius.x, (point.x - center.x) * radius.y)
+    const startAngle = angleOf(start)
+    let sweep = angleOf(end) - startAngle
+
+    // 默认逆时针（屏幕方向），即参数角减小
+    if (this.state.arcDirection === AD_CLOCKWISE) {
+      while (sweep <= 0) sweep += Math.PI * 2
+    } else {
+      while (sweep >= 0) sweep -= Math.PI * 2
+    }
+
+    const startPoint = {
+      x: center.x + radius.x * Math.cos(startAngle),
+      y: center.y + radius.y * Math.sin(startAngle),
+    }
+    const segments = this.arcSegments(center, radius, startAngle, sweep)
+
+    switch (kind) {
+      case 'arc':
+        this.emit(`M ${this.point(startPoint)}${segments}`, false, true)
+        break
+      case 'chord':
+        this.emit(`M ${this.point(startPoint)}${segments} Z`, true, true)
+        break
+      case 'pie':
+        this.emit(`M ${this.point(center)} L ${this.point(startPoint)}${segments} Z`, true, true)
+        break
+      case 'arcTo': {
+        const endAngle = startAngle + sweep
+        const data = `M ${this.point(this.state.position)} L ${this.point(startPoint)}${segments}`
+        if (this.pathData) {
+          this.ensureFigure()
+          this.pathData.push(data.replace(/^M [^L]+/, ''))
+        } else {
+          this.emit(data, false, true)
+        }
+        this.state.position = { x: center.x + radius.x * Math.cos(endAngle), y: center.y + radius.y * Math.sin(endAngle) }
+        break
+      }
+    }
+  }
+
+  /**
+   * 用颜色填充矩形（PatBlt 等）
+   */
+  fillRect(box: Box, color: string): void {
+    const { clipId } = this.state
+    this.elements.push(`<path d="${this.rectData(box)}" fill="${color}" stroke="none"${clipId ? ` clip-path="url(#${clipId})"` : ''}/>`)
+  }
+
+  /**
+   * 用当前画刷填充矩形（PATCOPY）
+   */
+  patternRect(box: Box): void {
+    if (this.state.brush.style !== BS_NULL) this.fillRect(box, this.state.brush.color)
+  }
+
+  /**
+   * 绘制位图
+   *
+   * @param dest - 目标矩形（逻辑坐标）
+   * @param bitmap - 解码后的位图
+   * @param source - 源矩形（位图像素），缺省为整张位图
+   */
+  image(dest: Box, bitmap: DecodedBitmap, source?: Box): void {
+    const topLeft = this.toDevice({ x: dest.left, y: dest.top })
+    const bottomRight = this.toDevice({ x: dest.right, y: dest.bottom })
+    const x = Math.min(topLeft.x, bottomRight.x)
+    const y = Math.min(topLeft.y, bottomRight.y)
+    const width = Math.abs(bottomRight.x - topLeft.x)
+    const height = Math.abs(bottomRight.y - topLeft.y)
+    if (!width || !height) return
+
+    const src = source || { left: 0, top: 0, right: bitmap.width, bottom: bitmap.height }
+    const viewBox = [src.left, src.top, src.right - src.left, src.bottom - src.top].map(fmt).join(' ')
+    const { clipId } = this.state
+
+    this.elements.push(
+      `<svg x="${fmt(x)}" y="${fmt(y)}" width="${fmt(width)}" height="${fmt(height)}" viewBox="${viewBox}" preserveAspectRatio="none"${clipId ? ` clip-path="url(#${clipId})"` : ''}>`
+      + `<image width="${bitmap.width}" height="${bitmap.height}" preserveAspectRatio="none" href="${bitmap.href}"/></svg>`
+    )
+  }
+
+  /**
+   * 输出文本
+   *
+   * @param reference - 参考点（逻辑坐标），对齐方式由 SetTextAlign 决定
+   * @param text - 文本内容
+   * @param options.advance - 字符间距总和（逻辑单位），用于固定文本宽度
+   * @param options.opaqueBox - ETO_OPAQUE 时用背景色填充的矩形
+   */
+  text(reference: Point, text: string, options: { advance?: number; opaqueBox?: Box } = {}): void {
+    const { font, textAlign, textColor, bkColor, bkMode, transform, clipId } = this.state
+    if (options.opaqueBox && bkMode === OPAQUE) this.fillRect(options.opaqueBox, bkColor)
+
+    const content = text.replace(/\0+$/, '')
+    if (!content.trim()) return
+
+    const origin = textAlign & TA_UPDATECP ? this.state.position : reference
+    const point = this.toDevice(origin)
+    const scale = this.lengthScale()
+    const attrs: string[] = [`x="${fmt(point.x)}"`, `y="${fmt(point.y)}"`]
+
+    attrs.push(`font-family="${escapeXml(font.faceName ? `'${font.faceName}', sans-serif` : 'sans-serif')}"`)
+    attrs.push(`font-size="${fmt(Math.abs(font.height || 12) * scale)}"`)
+    if (font.weight >= 600) attrs.push('font-weight="bold"')
+    if (font.italic) attrs.push('font-style="italic"')
+
+    const decorations = [font.underline && 'underline', font.strikeOut && 'line-through'].filter(Boolean)
+    if (decorations.length > 0) attrs.push(`text-decoration="${decorations.join(' ')}"`)
+    attrs.push(`fill="${textColor}"`)
+
+    const horizontal = textAlign & TA_CENTER
+    if (horizontal === TA_CENTER) attrs.push('text-anchor="middle"')
+    else if (horizontal === TA_RIGHT) attrs.push('text-anchor="end"')
+
+    const vertical = textAlign & TA_BASELINE
+    if (vertical === 0) attrs.push('dominant-baseline="text-before-edge"')
+    else if (vertical === TA_BOTTOM) attrs.push('dominant-baseline="text-after-edge"')
+
+    if (options.advance) {
+      attrs.push(`textLength="${fmt(options.advance * scale)}"`, 'lengthAdjust="spacingAndGlyphs"')
+    }
+
+    // 基线方向：字体的倾斜角加上世界变换的旋转
+    const rotation = -font.escapement / 10 + (Math.atan2(transform.m12, transform.m11) * 180) / Math.PI
+    if (Math.abs(rotation) > 0.01) attrs.push(`transform="rotate(${fmt(rotation)} ${fmt(point.x)} ${fmt(point.y)})"`)
+    if (clipId) attrs.push(`clip-path="url(#${clipId})"`)
+
+    this.elements.push(`<text ${attrs.join(' ')} xml:space="preserve">${escapeXml(content)}</text>`)
+  }
+
+  // ==================== 路径括号 ====================
+
+  beginPath(): void {
+    this.pathData = []
+    this.closedPath = ''
+  }
+
+  endPath(): void {
+    this.closedPath = this.pathData?.join(' ') || ''
+    this.pathData = null
+  }
+
+  abortPath(): void {
+    this.pathData = null
+    this.closedPath = ''
+  }
+
+  closeFigure(): void {
+    this.pathData?.push('Z')
+  }
+
+  /**
+   * 填充和/或描边 EndPath 得到的路径，之后路径被清空
+   */
+  drawPath(fill: boolean, stroke: boolean): void {
+    if (this.pathData) this.endPath()
+    this.emit(this.closedPath, fill, stroke)
+    this.closedPath = ''
+  }
+
+  // ==================== 裁剪 ====================
+
+  /**
+   * 设置裁剪区域
+   *
+   * @param data - 区域路径（设备坐标），null 表示移除裁剪
+   * @param mode - 合并方式；OR 和 XOR 无法用嵌套裁剪表达，按移除裁剪处理
+   * @param evenOdd - 是否使用奇偶填充规则
+   */
+  private setClip(data: string | null, mode: number, evenOdd = false): void {
+    const parent = this.state.clipId
+    if (data === null || mode === REGION_MODE.OR || mode === REGION_MODE.XOR) {
+      this.state.clipId = undefined
+      return
+    }
+
+    const id = `clip${this.clipPaths.length + 1}`
+    const nested = (mode === REGION_MODE.AND || mode === REGION_MODE.DIFF) && parent
+    const clipPath = mode === REGION_MODE.DIFF
+      ? `M ${-CLIP_EXTENT} ${-CLIP_EXTENT} H ${CLIP_EXTENT} V ${CLIP_EXTENT} H ${-CLIP_EXTENT} Z ${data}`
+      : data
+    const rule = evenOdd || mode === REGION_MODE.DIFF ? ' clip-rule="evenodd"' : ''
+
+    this.clipPaths.push(`<clipPath id="${id}"${nested ? ` clip-path="url(#${parent})"` : ''}><path d="${clipPath}"${rule}/></clipPath>`)
+    this.state.clipId = id
+  }
+
+  intersectClipRect(box: Box): void {
+    this.setClip(this.rectData(box), REGION_MODE.AND)
+  }
+
+  excludeClipRect(box: Box): void {
+    this.setClip(this.rectData(box), REGION_MODE.DIFF)
+  }
+
+  /**
+   * 以 EndPath 得到的路径设置裁剪区域（SelectClipPath）
+   */
+  selectClipPath(mode: number): void {
+    if (this.pathData) this.endPath()
+    this.setClip(this.closedPath || null, mode, this.state.polyFillMode === ALTERNATE)
+    this.closedPath = ''
+  }
+
+  /**
+   * 以设备坐标矩形列表设置裁剪区域（ExtSelectClipRgn），rects 为 null 时移除裁剪
+   */
+  selectClipRects(rects: Box[] | null, mode: number): void {
+    if (rects === null) {
+      this.setClip(null, mode)
+      return
+    }
+    const data = rects
+      .map(rect => `M ${rect.left} ${rect.top} H ${rect.right} V ${rect.bottom} H ${rect.left} Z`)
+      .join(' ')
+    this.setClip(data, mode)
+  }
+
+  // ==================== SVG ====================
+
+  /**
+   * 生成 SVG 文档
+   *
+   * @param viewBox - 设备坐标中的可见区域
+   * @param size - SVG 的显示尺寸（像素）
+   */
+  toSvg(viewBox: { x: number; y: number; width: number; height: number }, size: { width: number; height: number }): string {
+    const defs = this.clipPaths.length > 0 ? `<defs>${this.clipPaths.join('')}</defs>` : ''
+    return `<svg xmlns="http://www.w3.org/2000/svg" width="${fmt(size.width)}" height="${fmt(size.height)}"`
+      + ` viewBox="${[viewBox.x, viewBox.y, viewBox.width, viewBox.height].map(fmt).join(' ')}" preserveAspectRatio="none">`
+      + defs + this.elements.join('') + '</svg>'
+  }
+}
+
+export default { GdiCanvas, getStockObject, colorRefToHex, multiplyMatrix }
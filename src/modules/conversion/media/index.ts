@@ -0,0 +1,56 @@
+/**
+ * 媒体转码入口
+ *
+ * @module modules/conversion/media
+ * @description 将浏览器无法显示的媒体格式转为可渲染的格式：
+ * EMF/WMF 回放为 SVG，TIFF 解码为 PNG，其他格式原样返回。
+ */
+
+import { emfToSvg } from './emf.js'
+import { wmfToSvg } from './wmf.js'
+import { tiffToPng } from './tiff.js'
+import { UnsupportedMediaError } from './errors.js'
+
+export { UnsupportedMediaError } from './errors.js'
+
+/** 媒体数据 */
+export interface MediaData {
+  data: Buffer
+  contentType: string
+}
+
+/** 需要转码的格式 -> 转码函数 */
+const TRANSCODERS: Record<string, { contentType: string; transcode: (data: Buffer) => Buffer }> = {
+  'image/x-emf': { contentType: 'image/svg+xml', transcode: data => Buffer.from(emfToSvg(data), 'utf8') },
+  'image/x-wmf': { contentType: 'image/svg+xml', transcode: data => Buffer.from(wmfToSvg(data), 'utf8') },
+  'image/tiff': { contentType: 'image/png', transcode: tiffToPng },
+}
+
+/**
+ * 判断媒体格式是否需要转码
+ */
+export function needsTranscode(contentType: string): boolean {
+  return contentType in TRANSCODERS
+}
+
+/**
+ * 转码媒体文件
+ *
+ * @param media - 原始媒体数据
+ * @returns 转码后的数据；无需转码时返回原数据
+ * @throws UnsupportedMediaError 文件使用了无法转换的特性或已损坏
+ */
+export function transcodeMedia(media: MediaData): MediaData {
+  const transcoder = TRANSCODERS[media.contentType]
+  if (!transcoder) return media
+
+  try {
+    return { data: transcoder.transcode(media.data), contentType: transcoder.contentType }
+  } catch (error) {
+    if (error instanceof UnsupportedMediaError) throw error
+    // 越界读取等解析错误说明文件已损坏
+    throw new UnsupportedMediaError(`malformed ${media.contentType}`)
+  }
+}
+
+export default { transcodeMedia, needsTranscode }
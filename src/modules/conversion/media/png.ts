@@ -0,0 +1,106 @@
+/**
+ * PNG 编码器
+ *
+ * @module modules/conversion/media/png
+ * @description 将 RGBA 像素编码为 PNG，供 TIFF 和位图（DIB）转码使用。
+ * 压缩使用 Node.js 内置的 zlib。
+ */
+
+import { deflateSync } from 'node:zlib'
+import { UnsupportedMediaError } from './errors.js'
+
+/** PNG 文件签名 */
+const PNG_SIGNATURE = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a])
+
+/** 解码图片的最大像素数（4096 × 4096），像素缓冲区按文件头声明的尺寸分配，需先检查 */
+export const MAX_PIXELS = 4096 * 4096
+
+/** CRC32 查找表 */
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256)
+  for (let n = 0; n < 256; n++) {
+    let c = n
+    for (let k = 0; k < 8; k++) {
+      c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1
+    }
+    table[n] = c >>> 0
+  }
+  return table
+})()
+
+/**
+ * 计算 CRC32 校验值
+ */
+function crc32(data: Buffer): number {
+  let crc = 0xffffffff
+  for (const byte of data) {
+    crc = CRC_TABLE[(crc ^ byte) & 0xff] ^ (crc >>> 8)
+  }
+  return (crc ^ 0xffffffff) >>> 0
+}
+
+/**
+ * 生成 PNG 数据块（长度 + 类型 + 数据 + CRC）
+ */
+function createChunk(type: string, data: Buffer): Buffer {
+  const length = Buffer.alloc(4)
+  length.writeUInt32BE(data.length)
+
+  const body = Buffer.concat([Buffer.from(type, 'ascii'), data])
+  const crc = Buffer.alloc(4)
+  crc.writeUInt32BE(crc32(body))
+
+  return Buffer.concat([length, body, crc])
+}
+
+/**
+ * 检查解码前的图片尺寸
+ *
+ * @param width - 文件头声明的宽度
+ * @param height - 文件头声明的高度
+ * @param format - 图片格式，用于错误信息
+ * @throws UnsupportedMediaError 尺寸无效或超过 MAX_PIXELS
+ */
+export function checkImageSize(width: number, height: number, format: string): void {
+  if (!Number.isInteger(width) || !Number.isInteger(height) || width <= 0 || height <= 0) {
+    throw new UnsupportedMediaError(`${format} without dimensions`)
+  }
+  if (width * height > MAX_PIXELS) {
+    throw new UnsupportedMediaError(`${format} larger than ${MAX_PIXELS} pixels`)
+  }
+}
+
+/**
+ * 将 RGBA 像素编码为 PNG
+ *
+ * @param width - 图片宽度（像素）
+ * @param height - 图片高度（像素）
+ * @param rgba - 自上而下逐行排列的 RGBA 像素，长度为 width * height * 4
+ * @returns PNG 文件内容
+ */
+export function encodePng(width: number, height: number, rgba: Uint8Array): Buffer {
+  const header = Buffer.alloc(13)
+  header.writeUInt32BE(width, 0)
+  header.writeUInt32BE(height, 4)
+  header[8] = 8 // 位深度
+  header[9] = 6 // 颜色类型：RGBA
+  header[10] = 0 // 压缩方法
+  header[11] = 0 // 滤波方法
+  header[12] = 0 // 隔行扫描：无
+
+  // 每行前加一个滤波类型字节（0 = None）
+  const stride = width * 4
+  const raw = Buffer.alloc((stride + 1) * height)
+  for (let y = 0; y < height; y++) {
+    raw.set(rgba.subarray(y * stride, (y + 1) * stride), y * (stride + 1) + 1)
+  }
+
+  return Buffer.concat([
+    PNG_SIGNATURE,
+    createChunk('IHDR', header),
+    createChunk('IDAT', deflateSync(raw)),
+    createChunk('IEND', Buffer.alloc(0)),
+  ])
+}
+
+export default { encodePng, checkImageSize, MAX_PIXELS }
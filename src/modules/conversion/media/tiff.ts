@@ -0,0 +1,393 @@
+/**
+ * TIFF 解码器
+ *
+ * @module modules/conversion/media/tiff
+ * @description 将 TIFF 图片转码为 PNG，浏览器无法直接显示 TIFF。
+ * 只解码第一页，支持无压缩、PackBits、LZW 和 Deflate 压缩的条带（strip）图片，
+ * 颜色模式支持黑白/灰度、RGB、调色板和 CMYK。
+ */
+
+import { inflateSync } from 'node:zlib'
+import { encodePng, checkImageSize } from './png.js'
+import { UnsupportedMediaError } from './errors.js'
+
+/** TIFF 标签 */
+const TAG = {
+  IMAGE_WIDTH: 256,
+  IMAGE_LENGTH: 257,
+  BITS_PER_SAMPLE: 258,
+  COMPRESSION: 259,
+  PHOTOMETRIC: 262,
+  STRIP_OFFSETS: 273,
+  SAMPLES_PER_PIXEL: 277,
+  ROWS_PER_STRIP: 278,
+  STRIP_BYTE_COUNTS: 279,
+  PLANAR_CONFIGURATION: 284,
+  PREDICTOR: 317,
+  COLOR_MAP: 320,
+  TILE_WIDTH: 322,
+  EXTRA_SAMPLES: 338,
+  SAMPLE_FORMAT: 339,
+} as const
+
+/** 压缩方式 */
+const COMPRESSION = {
+  NONE: 1,
+  LZW: 5,
+  DEFLATE: 8,
+  PACKBITS: 32773,
+  ADOBE_DEFLATE: 32946,
+} as const
+
+/** 颜色模式 */
+const PHOTOMETRIC = {
+  WHITE_IS_ZERO: 0,
+  BLACK_IS_ZERO: 1,
+  RGB: 2,
+  PALETTE: 3,
+  CMYK: 5,
+} as const
+
+/** 各字段类型的字节数（BYTE、ASCII、SHORT、LONG、RATIONAL…） */
+const TYPE_SIZES: Record<number, number> = { 1: 1, 2: 1, 3: 2, 4: 4, 5: 8, 6: 1, 7: 1, 8: 2, 9: 4, 10: 8, 11: 4, 12: 8 }
+
+/**
+ * TIFF 文件读取器，处理字节序
+ */
+class TiffReader {
+  private readonly view: DataView
+  readonly littleEndian: boolean
+
+  constructor(data: Buffer) {
+    this.view = new DataView(data.buffer, data.byteOffset, data.byteLength)
+    const order = data.toString('ascii', 0, 2)
+    if (order !== 'II' && order !== 'MM') throw new UnsupportedMediaError('TIFF byte order')
+    this.littleEndian = order === 'II'
+    if (this.uint16(2) !== 42) throw new UnsupportedMediaError('BigTIFF')
+  }
+
+  uint16(offset: number): number {
+    return this.view.getUint16(offset, this.littleEndian)
+  }
+
+  uint32(offset: number): number {
+    return this.view.getUint32(offset, this.littleEndian)
+  }
+
+  /**
+   * 读取第一个 IFD 的所有标签值
+   */
+  readFirstDirectory(): Map<number, number[]> {
+    const tags = new Map<number, number[]>()
+    const ifdOffset = this.uint32(4)
+    const count = this.uint16(ifdOffset)
+
+    for (let i = 0; i < count; i++) {
+      const entry = ifdOffset + 2 + i * 12
+      const tag = this.uint16(entry)
+      const type = this.uint16(entry + 2)
+      const valueCount = this.uint32(entry + 4)
+      const size = TYPE_SIZES[type] || 1
+      const valueOffset = size * valueCount > 4 ? this.uint32(entry + 8) : entry + 8
+
+      const values: number[] = []
+      for (let j = 0; j < valueCount; j++) {
+        const offset = valueOffset + j * size
+        values.push(size === 2 ? this.uint16(offset) : size === 4 ? this.uint32(offset) : this.view.getUint8(offset))
+      }
+      tags.set(tag, values)
+    }
+
+    return tags
+  }
+}
+
+/**
+ * PackBits 解压
+ *
+ * @param input - 压缩数据
+ * @param size - 解压后的字节数
+ */
+function decodePackBits(input: Uint8Array, size: number): Uint8Array {
+  const output = new Uint8Array(size)
+  let i = 0
+  let position = 0
+
+  while (i < input.length && position < size) {
+    const n = (input[i++] << 24) >> 24
+    if (n >= 0) {
+      const count = Math.min(n + 1, size - position, input.length - i)
+      output.set(input.subarray(i, i + count), position)
+      i += n + 1
+      position += count
+    } else if (n !== -128) {
+      const count = Math.min(1 - n, size - position)
+      output.fill(input[i++], position, position + count)
+      position += count
+    }
+  }
+
+  return output
+}
+
+/**
+ * LZW 解压（TIFF 变体：高位在前，码表提前一个码扩展位宽）
+ *
+ * @description
+ * 码表中每个条目记录前缀码和末尾字节，输出时沿前缀链倒序写入。
+ *
+ * @param input - 压缩数据
+ * @param size - 解压后的字节数
+ */
+function decodeLzw(input: Uint8Array, size: number): Uint8Array {
+  const CLEAR = 256
+  const EOI = 257
+  const output = new Uint8Array(size)
+  const prefix = new Int16Array(4096)
+  const suffix = new Uint8Array(4096)
+  const first = new Uint8Array(4096)
+  const lengths = new Uint16Array(4096)
+
+  for (let i = 0; i < 256; i++) {
+    prefix[i] = -1
+    suffix[i] = first[i] = i
+    lengths[i] = 1
+  }
+
+  let next = 258
+  let codeLength = 9
+  let bitPosition = 0
+  let previous = -1
+  let position = 0
+
+  const readCode = (): number => {
+    let code = 0
+    for (let i = 0; i < codeLength; i++) {
+      const bit = bitPosition + i
+      code = (code << 1) | ((input[bit >> 3] >> (7 - (bit & 7))) & 1)
+    }
+    bitPosition += codeLength
+    return code
+  }
+
+  // 将码对应的字节串写入输出
+  const writeEntry = (code: number) => {
+    const length = lengths[code]
+    for (let i = length - 1, current = code; i >= 0; i--, current = prefix[current]) {
+      if (position + i < size) output[position + i] = suffix[current]
+    }
+    position += length
+  }
+
+  while (bitPosition + codeLength <= input.length * 8 && position < size) {
+    const code = readCode()
+    if (code === EOI) break
+
+    if (code === CLEAR) {
+      next = 258
+      codeLength = 9
+      previous = -1
+      continue
+    }
+
+    if (previous === -1) {
+      writeEntry(code)
+      previous = code
+      continue
+    }
+
+    // 新条目为前一个串加上当前串（或前一个串自身，码尚未入表时）的首字节
+    const firstByte = code < next ? first[code] : first[previous]
+    if (next < 4096) {
+      prefix[next] = previous
+      suffix[next] = firstByte
+      first[next] = first[previous]
+      lengths[next] = lengths[previous] + 1
+      next++
+    }
+
+    writeEntry(code)
+    previous = code
+
+    if (next + 1 >= 1 << codeLength && codeLength < 12) codeLength++
+  }
+
+  return output
+}
+
+/**
+ * 解压一个条带
+ *
+ * @param strip - 条带数据
+ * @param compression - 压缩方式
+ * @param size - 条带解压后的字节数，解压输出不超过该长度
+ */
+function decompressStrip(strip: Uint8Array, compression: number, size: number): Uint8Array {
+  switch (compression) {
+    case COMPRESSION.NONE:
+      if (strip.length < size) throw new UnsupportedMediaError('TIFF strip shorter than its rows')
+      return strip
+    case COMPRESSION.PACKBITS:
+      return decodePackBits(strip, size)
+    case COMPRESSION.LZW:
+      return decodeLzw(strip, size)
+    case COMPRESSION.DEFLATE:
+    case COMPRESSION.ADOBE_DEFLATE:
+      try {
+        return inflateSync(strip, { maxOutputLength: Math.max(size, 1) })
+      } catch {
+        throw new UnsupportedMediaError('TIFF deflate strip')
+      }
+    default:
+      throw new UnsupportedMediaError(`TIFF compression ${compression}`)
+  }
+}
+
+/**
+ * 读取一行中的第 index 个采样值，并缩放到 0-255
+ */
+function readSample(row: Uint8Array, index: number, bits: number, littleEndian: boolean): number {
+  switch (bits) {
+    case 8:
+      return row[index]
+    case 16:
+      return littleEndian ? row[index * 2 + 1] : row[index * 2]
+    case 1:
+    case 2:
+    case 4: {
+      const bitOffset = index * bits
+      const value = (row[bitOffset >> 3] >> (8 - bits - (bitOffset & 7))) & ((1 << bits) - 1)
+      return Math.round((value * 255) / ((1 << bits) - 1))
+    }
+    default:
+      throw new UnsupportedMediaError(`TIFF ${bits}-bit samples`)
+  }
+}
+
+/**
+ * 将 TIFF 转码为 PNG
+ *
+ * @param data - TIFF 文件内容
+ * @returns PNG 文件内容
+ * @throws UnsupportedMediaError 使用了不支持的压缩方式或颜色模式
+ */
+export function tiffToPng(data: Buffer): Buffer {
+  const reader = new TiffReader(data)
+  const tags = reader.readFirstDirectory()
+  const tag = (id: number, fallback: number) => tags.get(id)?.[0] ?? fallback
+
+  const width = tag(TAG.IMAGE_WIDTH, 0)
+  const height = tag(TAG.IMAGE_LENGTH, 0)
+  const bits = tag(TAG.BITS_PER_SAMPLE, 1)
+  const samplesPerPixel = tag(TAG.SAMPLES_PER_PIXEL, 1)
+  const compression = tag(TAG.COMPRESSION, COMPRESSION.NONE)
+  const photometric = tag(TAG.PHOTOMETRIC, PHOTOMETRIC.BLACK_IS_ZERO)
+  const predictor = tag(TAG.PREDICTOR, 1)
+  const rowsPerStrip = Math.min(tag(TAG.ROWS_PER_STRIP, height), height)
+
+  checkImageSize(width, height, 'TIFF')
+  if (rowsPerStrip <= 0) throw new UnsupportedMediaError('TIFF without rows per strip')
+  if (tags.has(TAG.TILE_WIDTH)) throw new UnsupportedMediaError('tiled TIFF')
+  if (tag(TAG.PLANAR_CONFIGURATION, 1) !== 1) throw new UnsupportedMediaError('planar TIFF')
+  if (tag(TAG.SAMPLE_FORMAT, 1) !== 1) throw new UnsupportedMediaError('floating point TIFF')
+  if (predictor !== 1 && !(predictor === 2 && bits === 8)) throw new UnsupportedMediaError(`TIFF predictor ${predictor}`)
+
+  // 解压全部条带，拼接为完整的像素数据
+  const rowBytes = Math.ceil((width * samplesPerPixel * bits) / 8)
+  const pixels = new Uint8Array(rowBytes * height)
+  const offsets = tags.get(TAG.STRIP_OFFSETS) || []
+  const byteCounts = tags.get(TAG.STRIP_BYTE_COUNTS) || []
+
+  // 条带数量和位置必须与声明的尺寸一致
+  if (offsets.length !== Math.ceil(height / rowsPerStrip) || byteCounts.length !== offsets.length) {
+    throw new UnsupportedMediaError('TIFF strips do not match the image size')
+  }
+  if (offsets.some((offset, i) => offset + byteCounts[i] > data.length)) {
+    throw new UnsupportedMediaError('TIFF strip outside the file')
+  }
+
+  offsets.forEach((offset, i) => {
+    const start = i * rowsPerStrip * rowBytes
+    const stripSize = Math.min(rowsPerStrip * rowBytes, pixels.length - start)
+    const strip = decompressStrip(data.subarray(offset, offset + byteCounts[i]), compression, stripSize)
+    pixels.set(strip.subarray(0, Math.max(0, Math.min(strip.length, pixels.length - start))), start)
+  })
+
+  // 水平差分预测：每个采样加上同一行中前一个像素的采样
+  if (predictor === 2) {
+    for (let y = 0; y < height; y++) {
+      for (let x = samplesPerPixel; x < width * samplesPerPixel; x++) {
+        const i = y * rowBytes + x
+        pixels[i] = (pixels[i] + pixels[i - samplesPerPixel]) & 0xff
+      }
+    }
+  }
+
+  const colorMap = tags.get(TAG.COLOR_MAP)
+  const colorSamples = photometric === PHOTOMETRIC.RGB ? 3 : photometric === PHOTOMETRIC.CMYK ? 4 : 1
+  const extraSamples = tags.get(TAG.EXTRA_SAMPLES) || []
+  // 额外采样为关联（1）或非关联（2）透明度时作为 alpha 通道
+  const alphaType = samplesPerPixel > colorSamples ? extraSamples[0] : undefined
+  const hasAlpha = alphaType === 1 || alphaType === 2
+
+  if (photometric === PHOTOMETRIC.PALETTE && !colorMap) throw new UnsupportedMediaError('TIFF palette without color map')
+  if (!(Object.values(PHOTOMETRIC) as number[]).includes(photometric)) {
+    throw new UnsupportedMediaError(`TIFF photometric ${photometric}`)
+  }
+
+  const rgba = new Uint8Array(width * height * 4)
+  for (let y = 0; y < height; y++) {
+    const row = pixels.subarray(y * rowBytes, (y + 1) * rowBytes)
+
+    for (let x = 0; x < width; x++) {
+      const base = x * samplesPerPixel
+      const sample = (n: number) => readSample(row, base + n, bits, reader.littleEndian)
+      const out = (y * width + x) * 4
+      let r: number
+      let g: number
+      let b: number
+
+      switch (photometric) {
+        case PHOTOMETRIC.WHITE_IS_ZERO:
+          r = g = b = 255 - sample(0)
+          break
+        case PHOTOMETRIC.BLACK_IS_ZERO:
+          r = g = b = sample(0)
+          break
+        case PHOTOMETRIC.PALETTE: {
+          // 调色板索引不缩放，颜色表依次为 R、G、B 三段 16 位值
+          const bitOffset = base * bits
+          const index = bits === 8 ? row[base] : (row[bitOffset >> 3] >> (8 - bits - (bitOffset & 7))) & ((1 << bits) - 1)
+          const size = 1 << bits
+          r = colorMap![index] >> 8
+          g = colorMap![size + index] >> 8
+          b = colorMap![size * 2 + index] >> 8
+          break
+        }
+        case PHOTOMETRIC.CMYK: {
+          const k = 255 - sample(3)
+          r = ((255 - sample(0)) * k) / 255
+          g = ((255 - sample(1)) * k) / 255
+          b = ((255 - sample(2)) * k) / 255
+          break
+        }
+        default:
+          r = sample(0)
+          g = sample(1)
+          b = sample(2)
+      }
+
+      const alpha = hasAlpha ? sample(colorSamples) : 255
+      // 关联透明度的颜色已预乘 alpha
+      const scale = alphaType === 1 && alpha > 0 ? 255 / alpha : 1
+      rgba[out] = Math.min(255, Math.round(r * scale))
+      rgba[out + 1] = Math.min(255, Math.round(g * scale))
+      rgba[out + 2] = Math.min(255, Math.round(b * scale))
+      rgba[out + 3] = alpha
+    }
+  }
+
+  return encodePng(width, height, rgba)
+}
+
+export default { tiffToPng }
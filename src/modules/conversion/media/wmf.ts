@@ -0,0 +1,424 @@
+/**
+ * WMF 转 SVG
+ *
+ * @module modules/conversion/media/wmf
+ * @description 回放 WMF（Windows 图元文件）记录并输出 SVG。
+ * WMF 记录的参数多为逆序存储（如 y 在 x 之前），坐标直接使用逻辑坐标，
+ * 可见区域取自可放置文件头（placeable header）的边界，缺失时使用 SetWindowOrg/SetWindowExt。
+ */
+
+import { GdiCanvas, colorRefToHex, type Box, type GdiObject, type Point } from './gdi-canvas.js'
+import { decodePackedDib } from './dib.js'
+import { UnsupportedMediaError } from './errors.js'
+
+/** 可放置 WMF 文件头标识 */
+const PLACEABLE_KEY = 0x9ac6cdd7
+
+/** 可放置文件头的字节数 */
+const PLACEABLE_HEADER_SIZE = 22
+
+/** 记录函数号 */
+const META = {
+  EOF: 0x0000,
+  SAVEDC: 0x001e,
+  CREATEPALETTE: 0x00f7,
+  SETBKMODE: 0x0102,
+  SETPOLYFILLMODE: 0x0106,
+  RESTOREDC: 0x0127,
+  SELECTOBJECT: 0x012d,
+  SETTEXTALIGN: 0x012e,
+  DELETEOBJECT: 0x01f0,
+  SETBKCOLOR: 0x0201,
+  SETTEXTCOLOR: 0x0209,
+  SETWINDOWORG: 0x020b,
+  SETWINDOWEXT: 0x020c,
+  LINETO: 0x0213,
+  MOVETO: 0x0214,
+  CREATEPENINDIRECT: 0x02fa,
+  CREATEFONTINDIRECT: 0x02fb,
+  CREATEBRUSHINDIRECT: 0x02fc,
+  POLYGON: 0x0324,
+  POLYLINE: 0x0325,
+  EXCLUDECLIPRECT: 0x0415,
+  INTERSECTCLIPRECT: 0x0416,
+  ELLIPSE: 0x0418,
+  RECTANGLE: 0x041b,
+  TEXTOUT: 0x0521,
+  POLYPOLYGON: 0x0538,
+  ROUNDRECT: 0x061c,
+  PATBLT: 0x061d,
+  CREATEREGION: 0x06ff,
+  ARC: 0x0817,
+  PIE: 0x081a,
+  CHORD: 0x0830,
+  DIBBITBLT: 0x0940,
+  EXTTEXTOUT: 0x0a32,
+  DIBSTRETCHBLT: 0x0b41,
+  STRETCHDIB: 0x0f43,
+} as const
+
+/** 不影响输出的记录（映射模式、视口、调色板、转义等） */
+const IGNORED_RECORDS = new Set([
+  0x0035, 0x0037, 0x0103, 0x0104, 0x0105, 0x0107, 0x0108, 0x012c, 0x0139, 0x0149, 0x020a,
+  0x020d, 0x020e, 0x020f, 0x0211, 0x0220, 0x0231, 0x0234, 0x0410, 0x0412, 0x0436, 0x0626,
+])
+
+/** 无法转换为 SVG 的记录名称 */
+const UNSUPPORTED_RECORDS: Record<number, string> = {
+  0x012a: 'META_INVERTREGION',
+  0x012b: 'META_PAINTREGION',
+  0x0142: 'META_DIBCREATEPATTERNBRUSH',
+  0x01f9: 'META_CREATEPATTERNBRUSH',
+  0x0228: 'META_FILLREGION',
+  0x0419: 'META_FLOODFILL',
+  0x041f: 'META_SETPIXEL',
+  0x0429: 'META_FRAMEREGION',
+  0x0548: 'META_EXTFLOODFILL',
+  0x0922: 'META_BITBLT',
+  0x0b23: 'META_STRETCHBLT',
+  0x0d33: 'META_SETDIBTODEV',
+}
+
+/** 位图光栅操作 */
+const ROP = {
+  BLACKNESS: 0x00000042,
+  WHITENESS: 0x00ff0062,
+  PATCOPY: 0x00f00021,
+} as const
+
+/** ExtTextOut 选项：带矩形参数 */
+const ETO_OPAQUE = 0x0002
+const ETO_CLIPPED = 0x0004
+
+/** 字符集 -> 文本编码 */
+const CHARSET_ENCODINGS: Record<number, string> = {
+  128: 'shift_jis',
+  129: 'euc-kr',
+  134: 'gbk',
+  136: 'big5',
+  161: 'windows-1253',
+  162: 'windows-1254',
+  177: 'windows-1255',
+  178: 'windows-1256',
+  186: 'windows-1257',
+  204: 'windows-1251',
+  222: 'windows-874',
+  238: 'windows-1250',
+}
+
+/** 默认显示分辨率 */
+const PIXELS_PER_INCH = 96
+
+/**
+ * 按字体字符集解码 ANSI 文本
+ */
+function decodeAnsi(bytes: Buffer, charset: number): string {
+  try {
+    return new TextDecoder(CHARSET_ENCODINGS[charset] || 'windows-1252').decode(bytes)
+  } catch {
+    return bytes.toString('latin1')
+  }
+}
+
+/**
+ * WMF 记录读取
+ */
+class WmfRecord {
+  constructor(private readonly data: Buffer, private readonly params: number, readonly size: number) {}
+
+  int16(index: number): number {
+    return this.data.readInt16LE(this.params + index * 2)
+  }
+
+  uint16(index: number): number {
+    return this.data.readUInt16LE(this.params + index * 2)
+  }
+
+  uint32(index: number): number {
+    return this.data.readUInt32LE(this.params + index * 2)
+  }
+
+  /** 逆序存储的矩形：bottom, right, top, left */
+  reversedBox(index: number): Box {
+    return { bottom: this.int16(index), right: this.int16(index + 1), top: this.int16(index + 2), left: this.int16(index + 3) }
+  }
+
+  /** 逆序存储的点：y, x */
+  reversedPoint(index: number): Point {
+    return { y: this.int16(index), x: this.int16(index + 1) }
+  }
+
+  points(index: number, count: number): Point[] {
+    return Array.from({ length: count }, (_, i) => ({ x: this.int16(index + i * 2), y: this.int16(index + i * 2 + 1) }))
+  }
+
+  bytes(index: number, length: number): Buffer {
+    const start = this.params + index * 2
+    return this.data.subarray(start, start + length)
+  }
+
+  /** 参数之后直到记录末尾的数据 */
+  rest(index: number, recordEnd: number): Buffer {
+    return this.data.subarray(this.params + index * 2, recordEnd)
+  }
+}
+
+/**
+ * 将 WMF 转换为 SVG
+ *
+ * @param data - WMF 文件内容
+ * @returns SVG 文档
+ * @throws UnsupportedMediaError 包含无法转换的记录
+ */
+export function wmfToSvg(data: Buffer): string {
+  const placeable = data.readUInt32LE(0) === PLACEABLE_KEY
+  const headerOffset = placeable ? PLACEABLE_HEADER_SIZE : 0
+  const headerWords = data.readUInt16LE(headerOffset + 2)
+  const objectCount = data.readUInt16LE(headerOffset + 10)
+
+  const canvas = new GdiCanvas({ applyViewport: false })
+  const objects: (GdiObject | undefined)[] = new Array(objectCount)
+  const fonts = new Map<GdiObject, number>()
+  let window: { origin?: Point; extent?: Point } = {}
+
+  // 新对象占用编号最小的空位
+  const addObject = (object: GdiObject) => {
+    let index = 0
+    while (objects[index] !== undefined) index++
+    objects[index] = object
+  }
+
+  let offset = headerOffset + headerWords * 2
+  while (offset + 6 <= data.length) {
+    const words = data.readUInt32LE(offset)
+    const fn = data.readUInt16LE(offset + 4)
+    const recordEnd = offset + words * 2
+    if (words < 3 || recordEnd > data.length) break
+
+    const record = new WmfRecord(data, offset + 6, words)
+    offset = recordEnd
+    const { state } = canvas
+
+    switch (fn) {
+      case META.EOF:
+        offset = data.length
+        break
+
+      case META.SETWINDOWORG:
+        window = { ...window, origin: record.reversedPoint(0) }
+        break
+      case META.SETWINDOWEXT:
+        window = { ...window, extent: record.reversedPoint(0) }
+        break
+
+      case META.SETBKMODE:
+        state.bkMode = record.uint16(0)
+        break
+      case META.SETPOLYFILLMODE:
+        state.polyFillMode = record.uint16(0)
+        break
+      case META.SETTEXTALIGN:
+        state.textAlign = record.uint16(0)
+        break
+      case META.SETTEXTCOLOR:
+        state.textColor = colorRefToHex(record.uint32(0))
+        break
+      case META.SETBKCOLOR:
+        state.bkColor = colorRefToHex(record.uint32(0))
+        break
+      case META.SAVEDC:
+        canvas.save()
+        break
+      case META.RESTOREDC:
+        canvas.restore(record.int16(0))
+        break
+
+      // 对象
+      case META.CREATEPENINDIRECT:
+        addObject({ kind: 'pen', style: record.uint16(0), width: record.int16(1), color: colorRefToHex(record.uint32(3)) })
+        break
+      case META.CREATEBRUSHINDIRECT:
+        addObject({ kind: 'brush', style: record.uint16(0), color: colorRefToHex(record.uint32(1)) })
+        break
+      case META.CREATEFONTINDIRECT: {
+        const font: GdiObject = {
+          kind: 'font',
+          height: record.int16(0),
+          escapement: record.int16(2),
+          weight: record.int16(4),
+          italic: record.bytes(5, 1)[0] !== 0,
+          underline: record.bytes(5, 2)[1] !== 0,
+          strikeOut: record.bytes(6, 1)[0] !== 0,
+          faceName: record.bytes(9, 32).toString('latin1').replace(/\0.*$/s, ''),
+        }
+        fonts.set(font, record.bytes(6, 2)[1])
+        addObject(font)
+        break
+      }
+      case META.CREATEPALETTE:
+      case META.CREATEREGION:
+        addObject({ kind: 'other' })
+        break
+      case META.SELECTOBJECT:
+        canvas.selectObject(objects[record.uint16(0)])
+        break
+      case META.DELETEOBJECT:
+        objects[record.uint16(0)] = undefined
+        break
+
+      // 图形
+      case META.MOVETO:
+        canvas.moveTo(record.reversedPoint(0))
+        break
+      case META.LINETO:
+        canvas.lineTo(record.reversedPoint(0))
+        break
+      case META.POLYGON:
+        canvas.polygons([record.points(1, record.uint16(0))])
+        break
+      case META.POLYLINE:
+        canvas.polyline(record.points(1, record.uint16(0)))
+        break
+      case META.POLYPOLYGON: {
+        const count = record.uint16(0)
+        const groups: Point[][] = []
+        let index = 1 + count
+        for (let i = 0; i < count; i++) {
+          const points = record.uint16(1 + i)
+          groups.push(record.points(index, points))
+          index += points * 2
+        }
+        canvas.polygons(groups)
+        break
+      }
+      case META.RECTANGLE:
+        canvas.rectangle(record.reversedBox(0))
+        break
+      case META.ROUNDRECT:
+        canvas.roundRect(record.reversedBox(2), { x: record.int16(1), y: record.int16(0) })
+        break
+      case META.ELLIPSE:
+        canvas.ellipse(record.reversedBox(0))
+        break
+      case META.ARC:
+      case META.PIE:
+      case META.CHORD: {
+        const kind = fn === META.ARC ? 'arc' : fn === META.PIE ? 'pie' : 'chord'
+        canvas.arc(record.reversedBox(4), record.reversedPoint(2), record.reversedPoint(0), kind)
+        break
+      }
+
+      // 裁剪
+      case META.INTERSECTCLIPRECT:
+        canvas.intersectClipRect(record.reversedBox(0))
+        break
+      case META.EXCLUDECLIPRECT:
+        canvas.excludeClipRect(record.reversedBox(0))
+        break
+
+      // 文本
+      case META.TEXTOUT: {
+        const length = record.uint16(0)
+        const stringWords = Math.ceil(length / 2)
+        const charset = fonts.get(state.font as GdiObject) ?? 0
+        canvas.text(record.reversedPoint(1 + stringWords), decodeAnsi(record.bytes(1, length), charset))
+        break
+      }
+      case META.EXTTEXTOUT: {
+        const reference = record.reversedPoint(0)
+        const length = record.uint16(2)
+        const options = record.uint16(3)
+        const hasRect = (options & (ETO_OPAQUE | ETO_CLIPPED)) !== 0
+        const rect: Box | undefined = hasRect
+          ? { left: record.int16(4), top: record.int16(5), right: record.int16(6), bottom: record.int16(7) }
+          : undefined
+        const stringIndex = hasRect ? 8 : 4
+        const charset = fonts.get(state.font as GdiObject) ?? 0
+        const text = decodeAnsi(record.bytes(stringIndex, length), charset)
+
+        // 字符间距数组位于字符串之后（可选）
+        const dxIndex = stringIndex + Math.ceil(length / 2)
+        let advance = 0
+        if (dxIndex + length <= words - 3) {
+          for (let i = 0; i < length; i++) advance += record.int16(dxIndex + i)
+        }
+
+        canvas.text(reference, text, { advance, opaqueBox: options & ETO_OPAQUE ? rect : undefined })
+        break
+      }
+
+      // 位图
+      case META.PATBLT: {
+        const rop = record.uint32(0)
+        const size = record.reversedPoint(2)
+        const position = record.reversedPoint(4)
+        const box = { left: position.x, top: position.y, right: position.x + size.x, bottom: position.y + size.y }
+        if (rop === ROP.PATCOPY) canvas.patternRect(box)
+        else if (rop === ROP.BLACKNESS) canvas.fillRect(box, '#000000')
+        else if (rop === ROP.WHITENESS) canvas.fillRect(box, '#FFFFFF')
+        break
+      }
+      case META.STRETCHDIB:
+      case META.DIBSTRETCHBLT:
+      case META.DIBBITBLT: {
+        // 记录长度等于（函数号高字节 + 3）时不含位图，参数中多一个保留字
+        const hasBitmap = words !== (fn >> 8) + 3
+        const rop = record.uint32(0)
+        const base = fn === META.STRETCHDIB ? 3 : 2
+        const stretch = fn !== META.DIBBITBLT
+        const sourceSize = stretch ? record.reversedPoint(base) : undefined
+        const source = record.reversedPoint(stretch ? base + 2 : base)
+        const destIndex = (stretch ? base + 4 : base + 2) + (hasBitmap ? 0 : 1)
+        const destSize = record.reversedPoint(destIndex)
+        const position = record.reversedPoint(destIndex + 2)
+        const dest = { left: position.x, top: position.y, right: position.x + destSize.x, bottom: position.y + destSize.y }
+
+        if (!hasBitmap) {
+          if (rop === ROP.PATCOPY) canvas.patternRect(dest)
+          else if (rop === ROP.BLACKNESS) canvas.fillRect(dest, '#000000')
+          else if (rop === ROP.WHITENESS) canvas.fillRect(dest, '#FFFFFF')
+          break
+        }
+
+        const bitmap = decodePackedDib(record.rest(destIndex + 4, recordEnd))
+        const size = sourceSize || destSize
+        canvas.image(dest, bitmap, { left: source.x, top: source.y, right: source.x + size.x, bottom: source.y + size.y })
+        break
+      }
+
+      default:
+        if (IGNORED_RECORDS.has(fn)) break
+        throw new UnsupportedMediaError(UNSUPPORTED_RECORDS[fn] || `WMF record 0x${fn.toString(16).padStart(4, '0')}`)
+    }
+  }
+
+  if (canvas.isEmpty) throw new UnsupportedMediaError('WMF without drawing records')
+
+  // 可见区域：可放置文件头的边界（逻辑单位），否则为窗口原点和范围
+  let viewBox: { x: number; y: number; width: number; height: number }
+  let size: { width: number; height: number }
+  if (placeable) {
+    const left = data.readInt16LE(6)
+    const top = data.readInt16LE(8)
+    const right = data.readInt16LE(10)
+    const bottom = data.readInt16LE(12)
+    const unitsPerInch = data.readUInt16LE(14) || 1440
+    viewBox = { x: left, y: top, width: right - left, height: bottom - top }
+    size = {
+      width: (Math.abs(viewBox.width) / unitsPerInch) * PIXELS_PER_INCH,
+      height: (Math.abs(viewBox.height) / unitsPerInch) * PIXELS_PER_INCH,
+    }
+  } else if (window.extent) {
+    const origin = window.origin || { x: 0, y: 0 }
+    viewBox = { x: origin.x, y: origin.y, width: window.extent.x, height: window.extent.y }
+    size = { width: Math.abs(viewBox.width), height: Math.abs(viewBox.height) }
+  } else {
+    throw new UnsupportedMediaError('WMF without extents')
+  }
+
+  if (viewBox.width <= 0 || viewBox.height <= 0) throw new UnsupportedMediaError('WMF with flipped extents')
+
+  return canvas.toSvg(viewBox, size)
+}
+
+export default { wmfToSvg }
@@ -1,7 +1,8 @@
 /**
  * 解析器入口
- * 导出表格和图表解析器
+ * 导出表格、图表和公式解析器
  */
 
 export * from './table-parser.js'
 export * from './chart-parser.js'
+export * from './omml-parser.js'
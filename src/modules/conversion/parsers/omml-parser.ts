@@ -0,0 +1,433 @@
+/**
+ * 公式解析器
+ * 将 Office Math（OMML，m: 命名空间）转换为 LaTeX
+ * 支持分数、根式、大型运算符、矩阵、重音、上下标、定界符等结构
+ */
+
+import type { XmlObject } from '../context/parsing-context.js'
+import { getOrderedChildren, toArray } from '../services/parser/utils.js'
+
+/** 公式结构节点，按文档顺序转换 */
+export const MATH_ELEMENT_TAGS = [
+  'm:r', 'm:f', 'm:rad', 'm:nary', 'm:sSup', 'm:sSub', 'm:sSubSup', 'm:sPre',
+  'm:d', 'm:m', 'm:acc', 'm:bar', 'm:func', 'm:limLow', 'm:limUpp',
+  'm:groupChr', 'm:eqArr', 'm:box', 'm:borderBox', 'm:phant',
+]
+
+/** 字符 -> LaTeX 命令 */
+const SYMBOL_MAP: Record<string, string> = {
+  // 希腊字母
+  'α': '\\alpha', 'β': '\\beta', 'γ': '\\gamma', 'δ': '\\delta', 'ε': '\\varepsilon', 'ϵ': '\\epsilon',
+  'ζ': '\\zeta', 'η': '\\eta', 'θ': '\\theta', 'ϑ': '\\vartheta', 'ι': '\\iota', 'κ': '\\kappa',
+  'λ': '\\lambda', 'μ': '\\mu', 'ν': '\\nu', 'ξ': '\\xi', 'π': '\\pi', 'ρ': '\\rho', 'σ': '\\sigma',
+  'ς': '\\varsigma', 'τ': '\\tau', 'υ': '\\upsilon', 'φ': '\\varphi', 'ϕ': '\\phi', 'χ': '\\chi',
+  'ψ': '\\psi', 'ω': '\\omega', 'Γ': '\\Gamma', 'Δ': '\\Delta', 'Θ': '\\Theta', 'Λ': '\\Lambda',
+  'Ξ': '\\Xi', 'Π': '\\Pi', 'Σ': '\\Sigma', 'Υ': '\\Upsilon', 'Φ': '\\Phi', 'Ψ': '\\Psi', 'Ω': '\\Omega',
+  // 运算符
+  '±': '\\pm', '∓': '\\mp', '×': '\\times', '÷': '\\div', '·': '\\cdot', '⋅': '\\cdot', '∗': '\\ast',
+  '∘': '\\circ', '∙': '\\bullet', '⊕': '\\oplus', '⊗': '\\otimes', '⊙': '\\odot', '∩': '\\cap',
+  '∪': '\\cup', '∧': '\\wedge', '∨': '\\vee', '¬': '\\neg', '∇': '\\nabla', '∂': '\\partial',
+  '√': '\\surd', '−': '-', '∖': '\\setminus', '⋯': '\\cdots', '…': '\\ldots', '⋮': '\\vdots', '⋱': '\\ddots',
+  // 关系符
+  '≤': '\\leq', '≥': '\\geq', '≠': '\\neq', '≈': '\\approx', '≡': '\\equiv', '∼': '\\sim', '≃': '\\simeq',
+  '≅': '\\cong', '∝': '\\propto', '≪': '\\ll', '≫': '\\gg', '∈': '\\in', '∉': '\\notin', '∋': '\\ni',
+  '⊂': '\\subset', '⊃': '\\supset', '⊆': '\\subseteq', '⊇': '\\supseteq', '⊥': '\\perp', '∥': '\\parallel',
+  '∣': '\\mid', '≺': '\\prec', '≻': '\\succ',
+  // 箭头
+  '→': '\\rightarrow', '←': '\\leftarrow', '↔': '\\leftrightarrow', '⇒': '\\Rightarrow', '⇐': '\\Leftarrow',
+  '⇔': '\\Leftrightarrow', '↑': '\\uparrow', '↓': '\\downarrow', '↦': '\\mapsto',
+  // 其他符号
+  '∞': '\\infty', '∀': '\\forall', '∃': '\\exists', '∅': '\\emptyset', 'ℏ': '\\hbar', 'ℓ': '\\ell',
+  'ℜ': '\\Re', 'ℑ': '\\Im', 'ℵ': '\\aleph', '∠': '\\angle', '△': '\\triangle', '°': '^{\\circ}',
+  '′': "'", '″': "''", '∴': '\\therefore', '∵': '\\because',
+  // 需要转义的字符
+  '{': '\\{', '}': '\\}', '#': '\\#', '%': '\\%', '$': '\\$', '_': '\\_', '\\': '\\backslash',
+}
+
+/** 大型运算符 */
+const NARY_MAP: Record<string, string> = {
+  '∑': '\\sum', '∏': '\\prod', '∐': '\\coprod', '∫': '\\int', '∬': '\\iint', '∭': '\\iiint',
+  '∮': '\\oint', '∯': '\\oiint', '⋃': '\\bigcup', '⋂': '\\bigcap', '⋁': '\\bigvee', '⋀': '\\bigwedge',
+  '⨁': '\\bigoplus', '⨂': '\\bigotimes', '⨀': '\\bigodot',
+}
+
+/** 重音字符（组合用字符） */
+const ACCENT_MAP: Record<string, string> = {
+  '̂': '\\hat', '̃': '\\tilde', '̄': '\\bar', '̅': '\\overline', '̇': '\\dot',
+  '̈': '\\ddot', '⃗': '\\vec', '̆': '\\breve', '́': '\\acute', '̀': '\\grave',
+  '̌': '\\check', '⃖': '\\overleftarrow', '⃡': '\\overleftrightarrow',
+}
+
+/**
+ * 定界符
+ *
+ * @description
+ * hfmath 没有取整符号，⌊⌋⌈⌉ 以方括号近似。
+ */
+const DELIMITER_MAP: Record<string, string> = {
+  '{': '\\{', '}': '\\}', '‖': '\\|', '⟨': '\\langle', '〈': '\\langle', '⟩': '\\rangle',
+  '〉': '\\rangle', '⌊': '[', '⌋': ']', '⌈': '[', '⌉': ']',
+}
+
+/** 位于上方时可用重音命令绘制的组合字符 */
+const GROUP_CHAR_OVER_MAP: Record<string, string> = {
+  '⏞': '\\overline', '‾': '\\overline', '¯': '\\overline', '→': '\\overrightarrow', '←': '\\overleftarrow',
+}
+
+/** 位于下方时可用重音命令绘制的组合字符 */
+const GROUP_CHAR_UNDER_MAP: Record<string, string> = {
+  '⏟': '\\underline', '_': '\\underline', '‾': '\\underline', '¯': '\\underline',
+}
+
+/** 有对应 LaTeX 命令的函数名 */
+const FUNCTION_NAMES = [
+  'sin', 'cos', 'tan', 'cot', 'sec', 'csc', 'arcsin', 'arccos', 'arctan', 'sinh', 'cosh', 'tanh',
+  'coth', 'log', 'ln', 'lg', 'exp', 'lim', 'max', 'min', 'sup', 'inf', 'det', 'gcd', 'deg', 'dim',
+  'ker', 'arg', 'Pr', 'mod',
+]
+
+/**
+ * 转换状态
+ */
+interface MathState {
+  /** 是否位于方程组（m:eqArr）中，其中的 & 为对齐标记 */
+  inEqArr: boolean
+}
+
+/**
+ * 获取属性节点的 m:val 值
+ */
+function getVal(node: XmlObject | undefined): string | undefined {
+  if (node === undefined || typeof node !== 'object') return undefined
+  return node['attrs']?.['m:val']
+}
+
+/**
+ * 判断开关属性（如 m:degHide）是否开启，没有 m:val 时视为开启
+ */
+function isOn(node: XmlObject | undefined): boolean {
+  if (node === undefined) return false
+  const val = getVal(node)
+  return val === undefined || !['0', 'off', 'false'].includes(val)
+}
+
+/**
+ * 获取字符属性（如 m:chr），属性存在但为空字符串时返回空字符串
+ */
+function getChar(node: XmlObject | undefined, defaultChar: string): string {
+  if (node === undefined) return defaultChar
+  return getVal(node) ?? ''
+}
+
+/**
+ * 获取 m:t 的文本
+ */
+function getRunText(run: XmlObject): string {
+  return toArray(run['m:t'])
+    .map(t => (typeof t === 'object' ? String(t['#text'] ?? '') : String(t)))
+    .join('')
+}
+
+/**
+ * 转义公式文本中的字符
+ */
+function escapeMathText(text: string, state: MathState): string {
+  let result = ''
+  for (const char of text) {
+    if (char === '&') result += state.inEqArr ? '&' : '\\&'
+    else if (SYMBOL_MAP[char]) result += `${SYMBOL_MAP[char]} `
+    else if (NARY_MAP[char]) result += `${NARY_MAP[char]} `
+    else result += char
+  }
+  return result.trim()
+}
+
+/**
+ * 转换公式文本运行（m:r）
+ *
+ * @description
+ * m:nor 表示普通文本，输出为 \text；m:sty 为 p（正体）的多字母文本输出为 \mathrm，
+ * b / bi 输出为 \mathbf。
+ */
+function convertRun(run: XmlObject, state: MathState): string {
+  const text = getRunText(run)
+  if (!text) return ''
+
+  const rPr = run['m:rPr']
+  if (rPr && isOn(rPr['m:nor'])) return `\\text{${text.replace(/[{}\\]/g, '')}}`
+
+  const escaped = escapeMathText(text, state)
+  const style = getVal(rPr?.['m:sty'])
+  if (style === 'b' || style === 'bi') return `\\mathbf{${escaped}}`
+  if (style === 'p' && /[a-zA-Z]{2,}/.test(text)) {
+    return FUNCTION_NAMES.includes(text) ? `\\${text}` : `\\mathrm{${escaped}}`
+  }
+  return escaped
+}
+
+/**
+ * 转换参数节点（m:e、m:num、m:sub 等）中的全部子结构
+ */
+function convertArgument(node: XmlObject | undefined, state: MathState): string {
+  if (!node || typeof node !== 'object') return ''
+  return getOrderedChildren(node, MATH_ELEMENT_TAGS)
+    .map(({ tag, node: child }) => convertElement(tag, child, state))
+    .filter(Boolean)
+    .join(' ')
+}
+
+/**
+ * 转换函数名，如 sin、lim
+ */
+function convertFunctionName(node: XmlObject | undefined, state: MathState): string {
+  const name = convertArgument(node, state)
+  const plain = name.replace(/^\\mathrm\{(.*)\}$/, '$1')
+  if (FUNCTION_NAMES.includes(plain)) return `\\${plain}`
+  return /^[a-zA-Z]{2,}$/.test(plain) ? `\\mathrm{${plain}}` : name
+}
+
+/**
+ * 转换定界符（括号）
+ *
+ * @description
+ * 空定界符（如分段函数只有左花括号）直接省略该侧，
+ * hfmath 不支持 \left. 和 \right.，会把它们当作文字绘制。
+ */
+function convertDelimiter(node: XmlObject, state: MathState): string {
+  const dPr = node['m:dPr']
+  const delimiter = (char: string) => DELIMITER_MAP[char] ?? char
+  const begin = getChar(dPr?.['m:begChr'], '(')
+  const end = getChar(dPr?.['m:endChr'], ')')
+  const separator = getChar(dPr?.['m:sepChr'], '|')
+  const content = toArray(node['m:e'])
+    .map(e => convertArgument(e, state))
+    .join(separator ? ` ${delimiter(separator)} ` : ' ')
+
+  return [
+    begin ? `\\left${delimiter(begin)}` : '',
+    content,
+    end ? `\\right${delimiter(end)}` : '',
+  ].filter(Boolean).join(' ')
+}
+
+/**
+ * 转换分数
+ */
+function convertFraction(node: XmlObject, state: MathState): string {
+  const num = convertArgument(node['m:num'], state)
+  const den = convertArgument(node['m:den'], state)
+
+  switch (getVal(node['m:fPr']?.['m:type'])) {
+    case 'lin':
+    case 'skw':
+      return `{${num}}/{${den}}`
+    case 'noBar':
+      return `\\begin{matrix} ${num} \\\\ ${den} \\end{matrix}`
+    default:
+      return `\\frac{${num}}{${den}}`
+  }
+}
+
+/**
+ * 转换大型运算符（求和、积分等）
+ */
+function convertNary(node: XmlObject, state: MathState): string {
+  const naryPr = node['m:naryPr']
+  const char = getChar(naryPr?.['m:chr'], '∫')
+  let result = NARY_MAP[char] || escapeMathText(char, state)
+
+  if (!isOn(naryPr?.['m:subHide'])) {
+    const sub = convertArgument(node['m:sub'], state)
+    if (sub) result += `_{${sub}}`
+  }
+  if (!isOn(naryPr?.['m:supHide'])) {
+    const sup = convertArgument(node['m:sup'], state)
+    if (sup) result += `^{${sup}}`
+  }
+
+  return `${result}{${convertArgument(node['m:e'], state)}}`
+}
+
+/**
+ * 转换上方或下方的横线、括号等组合字符
+ *
+ * @description
+ * hfmath 不支持 \overbrace、\overset 等命令，花括号和横线用 \overline / \underline 近似，
+ * 箭头用 \overrightarrow / \overleftarrow，其他字符作为上标或下标。
+ */
+function convertGroupChar(node: XmlObject, state: MathState): string {
+  const groupChrPr = node['m:groupChrPr']
+  const char = getChar(groupChrPr?.['m:chr'], '⏟')
+  const top = getVal(groupChrPr?.['m:pos']) === 'top'
+  const base = convertArgument(node['m:e'], state)
+
+  const command = top ? GROUP_CHAR_OVER_MAP[char] : GROUP_CHAR_UNDER_MAP[char]
+  if (command) return `${command}{${base}}`
+  const symbol = escapeMathText(char, state)
+  if (!symbol) return base
+  return top ? `{${base}}^{${symbol}}` : `{${base}}_{${symbol}}`
+}
+
+/**
+ * 转换边框
+ *
+ * @description
+ * hfmath 不支持 \boxed，边框由上下横线和两侧竖线拼成，m:hideTop 等属性隐藏对应的边。
+ */
+function convertBorderBox(node: XmlObject, state: MathState): string {
+  const borderBoxPr = node['m:borderBoxPr']
+  const hidden = (side: string) => isOn(borderBoxPr?.[`m:hide${side}`])
+  let result = [
+    hidden('Left') ? '' : '\\left|',
+    convertArgument(node['m:e'], state),
+    hidden('Right') ? '' : '\\right|',
+  ].filter(Boolean).join(' ')
+
+  if (!hidden('Top')) result = `\\overline{${result}}`
+  if (!hidden('Bot')) result = `\\underline{${result}}`
+  return result
+}
+
+/**
+ * 转换单个公式结构
+ */
+function convertElement(tag: string, node: XmlObject, state: MathState): string {
+  const e = () => convertArgument(node['m:e'], state)
+  const sub = () => convertArgument(node['m:sub'], state)
+  const sup = () => convertArgument(node['m:sup'], state)
+
+  switch (tag) {
+    case 'm:r':
+      return convertRun(node, state)
+    case 'm:f':
+      return convertFraction(node, state)
+    case 'm:rad': {
+      const deg = isOn(node['m:radPr']?.['m:degHide']) ? '' : convertArgument(node['m:deg'], state)
+      return deg ? `\\sqrt[${deg}]{${e()}}` : `\\sqrt{${e()}}`
+    }
+    case 'm:nary':
+      return convertNary(node, state)
+    case 'm:sSup':
+      return `{${e()}}^{${sup()}}`
+    case 'm:sSub':
+      return `{${e()}}_{${sub()}}`
+    case 'm:sSubSup':
+      return `{${e()}}_{${sub()}}^{${sup()}}`
+    case 'm:sPre':
+      return `{}_{${sub()}}^{${sup()}}{${e()}}`
+    case 'm:d':
+      return convertDelimiter(node, state)
+    case 'm:m': {
+      const rows = toArray(node['m:mr'])
+        .map(row => toArray(row['m:e']).map(cell => convertArgument(cell, state)).join(' & '))
+      return `\\begin{matrix} ${rows.join(' \\\\ ')} \\end{matrix}`
+    }
+    case 'm:acc': {
+      const char = getChar(node['m:accPr']?.['m:chr'], '̂')
+      return `${ACCENT_MAP[char] || '\\hat'}{${e()}}`
+    }
+    case 'm:bar':
+      return getVal(node['m:barPr']?.['m:pos']) === 'top' ? `\\overline{${e()}}` : `\\underline{${e()}}`
+    case 'm:func':
+      return `${convertFunctionName(node['m:fName'], state)}{${e()}}`
+    case 'm:limLow': {
+      const base = convertFunctionName(node['m:e'], state)
+      return `${base}_{${convertArgument(node['m:lim'], state)}}`
+    }
+    case 'm:limUpp':
+      return `{${e()}}^{${convertArgument(node['m:lim'], state)}}`
+    case 'm:groupChr':
+      return convertGroupChar(node, state)
+    case 'm:eqArr': {
+      const rows = toArray(node['m:e']).map(row => convertArgument(row, { ...state, inEqArr: true }))
+      return `\\begin{aligned} ${rows.join(' \\\\ ')} \\end{aligned}`
+    }
+    case 'm:borderBox':
+      return convertBorderBox(node, state)
+    case 'm:box':
+    case 'm:phant':
+      return e()
+    default:
+      return ''
+  }
+}
+
+/**
+ * 将 Office Math 转换为 LaTeX
+ *
+ * @param math - m:oMathPara 或 m:oMath 节点，也可以是包含它们的 a14:m 节点
+ * @returns LaTeX 源码，多个公式之间用换行（\\）分隔
+ */
+export function ommlToLatex(math: XmlObject | undefined): string {
+  if (!math || typeof math !== 'object') return ''
+
+  const state: MathState = { inEqArr: false }
+  const paragraphs = toArray(math['m:oMathPara'])
+  const equations = [
+    ...paragraphs.flatMap(paragraph => toArray(paragraph['m:oMath'])),
+    ...toArray(math['m:oMath']),
+  ]
+
+  if (equations.length === 0) return convertArgument(math, state)
+  return equations.map(equation => convertArgument(equation, state)).join(' \\\\ ')
+}
+
+/**
+ * 判断段落列表中是否包含公式
+ */
+export function containsMath(paragraphs: XmlObject | XmlObject[] | undefined): boolean {
+  return toArray(paragraphs).some(p => p?.['a14:m'] !== undefined)
+}
+
+/**
+ * 将包含公式的文本体转换为 LaTeX
+ *
+ * @description
+ * 公式（a14:m）转换为 LaTeX，同一段落中的普通文本运行输出为 \text，
+ * 段落之间用换行（\\）分隔。
+ *
+ * @param txBody - 文本体节点
+ * @returns LaTeX 源码
+ */
+export function textBodyToLatex(txBody: XmlObject): string {
+  return toArray(txBody['a:p'])
+    .map(p => getOrderedChildren(p, ['a:r', 'a14:m'])
+      .map(({ tag, node }) => {
+        if (tag === 'a14:m') return ommlToLatex(node)
+        const text = typeof node['a:t'] === 'object' ? node['a:t']['#text'] : node['a:t']
+        const plain = String(text ?? '').replace(/[{}\\]/g, '')
+        return plain.trim() ? `\\text{${plain}}` : ''
+      })
+      .filter(Boolean)
+      .join(' '))
+    .filter(Boolean)
+    .join(' \\\\ ')
+}
+
+/**
+ * 查找公式中第一个文本运行的 DrawingML 运行属性（用于确定公式颜色）
+ */
+export function findMathRunProperties(node: unknown): XmlObject | undefined {
+  if (!node || typeof node !== 'object') return undefined
+  if (Array.isArray(node)) {
+    for (const item of node) {
+      const found = findMathRunProperties(item)
+      if (found) return found
+    }
+    return undefined
+  }
+
+  const record = node as XmlObject
+  if (record['m:r']) {
+    const rPr = toArray(record['m:r']).map(run => run['a:rPr']).find(item => item && typeof item === 'object')
+    if (rPr) return rPr
+  }
+  for (const [key, value] of Object.entries(record)) {
+    if (key === 'attrs' || key === 'm:r') continue
+    const found = findMathRunProperties(value)
+    if (found) return found
+  }
+  return undefined
+}
+
+export default { ommlToLatex, containsMath, textBodyToLatex, findMathRunProperties }
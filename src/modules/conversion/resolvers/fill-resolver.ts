@@ -6,6 +6,8 @@
 
 import type { XmlObject, ParsingContext, ResourceMap } from '../context/parsing-context.js'
 import { resolveSolidFill, getTextByPathList } from './color-resolver.js'
+import { getOrderedChildren } from '../services/parser/utils.js'
+import { transcodeMedia } from '../media/index.js'
 
 /**
  * 渐变停止点
@@ -42,6 +44,7 @@ export interface ImageFill {
   src: string  // base64 数据 URL
   opacity?: number
   transparency?: number
+  tile?: boolean  // a:tile 平铺，否则为 a:stretch 拉伸
 }
 
 /**
@@ -66,6 +69,15 @@ export interface NoFill {
  */
 export type FillStyle = SolidFill | GradientFill | ImageFill | PatternFill | NoFill
 
+/** 填充来源 */
+type FillSource = 'slide' | 'slideLayout' | 'slideMaster' | 'theme'
+
+/** 主题样式列表中的填充节点，读取主题时保留其文档顺序（见 getTheme） */
+export const FILL_TAGS = ['a:noFill', 'a:solidFill', 'a:gradFill', 'a:blipFill', 'a:pattFill', 'a:grpFill']
+
+/** bgRef 的 idx 从此值起引用主题的 bgFillStyleLst，小于此值引用 fillStyleLst */
+const BG_FILL_STYLE_START_INDEX = 1001
+
 /**
  * 角度转度数
  */
@@ -101,20 +113,26 @@ function getMimeType(ext: string): string {
     svg: 'image/svg+xml',
     tif: 'image/tiff',
     tiff: 'image/tiff',
+    emf: 'image/x-emf',
+    wmf: 'image/x-wmf',
   }
   return mimeTypes[ext.toLowerCase()] || 'application/octet-stream'
 }
 
 /**
- * ArrayBuffer 转 Base64
+ * 将图片转为 data URL
+ *
+ * @description
+ * EMF/WMF 和 TIFF 浏览器无法显示，转码为 SVG/PNG；无法转码时保留原始格式。
  */
-function arrayBufferToBase64(buffer: ArrayBuffer): string {
-  const bytes = new Uint8Array(buffer)
-  let binary = ''
-  for (let i = 0; i < bytes.byteLength; i++) {
-    binary += String.fromCharCode(bytes[i])
+function toDataUrl(data: Buffer, mimeType: string): string {
+  let media = { data, contentType: mimeType }
+  try {
+    media = transcodeMedia(media)
+  } catch {
+    // 保留原始格式
   }
-  return Buffer.from(binary, 'binary').toString('base64')
+  return `data:${media.contentType};base64,${media.data.toString('base64')}`
 }
 
 /**
@@ -132,7 +150,7 @@ function getImagePath(rId: string, resObj: ResourceMap): string | undefined {
 async function getPicFill(
   blipFill: XmlObject,
   context: ParsingContext,
-  source: 'slide' | 'slideLayout' | 'slideMaster' | 'theme' = 'slide'
+  source: FillSource = 'slide'
 ): Promise<ImageFill | null> {
   const blip = blipFill?.['a:blip']
   if (!blip) return null
@@ -168,6 +186,8 @@ async function getPicFill(
 
   if (!imgPath) return null
 
+  const tile = blipFill['a:tile'] !== undefined ? { tile: true } : {}
+
   // 检查缓存
   const cachedImage = context.loadedImages.get(imgPath)
   if (cachedImage) {
@@ -175,6 +195,7 @@ async function getPicFill(
       type: 'image',
       src: cachedImage,
       opacity: getPicFillOpacity(blipFill),
+      ...tile,
     }
   }
 
@@ -186,9 +207,7 @@ async function getPicFill(
     const imgArrayBuffer = await context.zip.file(imgPath)?.async('arraybuffer')
     if (!imgArrayBuffer) return null
 
-    const mimeType = getMimeType(ext || '')
-    const base64 = arrayBufferToBase64(imgArrayBuffer)
-    const src = `data:${mimeType};base64,${base64}`
+    const src = toDataUrl(Buffer.from(imgArrayBuffer), getMimeType(ext || ''))
 
     // 缓存图片
     context.loadedImages.set(imgPath, src)
@@ -197,6 +216,7 @@ async function getPicFill(
       type: 'image',
       src,
       opacity: getPicFillOpacity(blipFill),
+      ...tile,
     }
   } catch {
     return null
@@ -218,15 +238,16 @@ function getPicFillOpacity(blipFill: XmlObject): number {
 /**
  * 获取渐变填充
  */
-function getGradientFill(
+export function getGradientFill(
   gradFill: XmlObject,
-  context: ParsingContext
+  context: ParsingContext,
+  phClr?: string
 ): GradientFill {
   const gsLst = gradFill?.['a:gsLst']?.['a:gs'] || []
   const gsArray = Array.isArray(gsLst) ? gsLst : [gsLst]
 
   const colors: GradientStop[] = gsArray.map((gs: XmlObject) => {
-    const color = resolveSolidFill(gs, context)
+    const color = resolveSolidFill(gs, context, undefined, phClr)
     const posAttr = getTextByPathList(gs, ['attrs', 'pos']) as string
     const pos = posAttr ? (parseInt(posAttr, 10) / 1000) + '%' : '0%'
 
@@ -271,7 +292,8 @@ function getGradientFill(
  */
 function getPatternFill(
   pattFill: XmlObject,
-  context: ParsingContext
+  context: ParsingContext,
+  phClr?: string
 ): PatternFill | null {
   if (!pattFill) return null
 
@@ -284,11 +306,11 @@ function getPatternFill(
   let backgroundColor = '#FFFFFF'
 
   if (fgColorNode) {
-    foregroundColor = resolveSolidFill(fgColorNode, context) || '#000000'
+    foregroundColor = resolveSolidFill(fgColorNode, context, undefined, phClr) || '#000000'
   }
 
   if (bgColorNode) {
-    backgroundColor = resolveSolidFill(bgColorNode, context) || '#FFFFFF'
+    backgroundColor = resolveSolidFill(bgColorNode, context, undefined, phClr) || '#FFFFFF'
   }
 
   return {
@@ -304,11 +326,13 @@ function getPatternFill(
  * @param spPr 形状属性节点
  * @param context 解析上下文
  * @param source 填充来源
+ * @param phClr 主题样式中 phClr 的替换颜色（来自 fillRef/bgRef）
  */
 export async function resolveFill(
   spPr: XmlObject | undefined,
   context: ParsingContext,
-  source: 'slide' | 'slideLayout' | 'slideMaster' | 'theme' = 'slide'
+  source: FillSource = 'slide',
+  phClr?: string
 ): Promise<FillStyle> {
   if (!spPr) {
     return { type: 'none' }
@@ -321,12 +345,12 @@ export async function resolveFill(
       return { type: 'none' }
 
     case 'SOLID_FILL': {
-      const color = resolveSolidFill(spPr['a:solidFill'], context)
+      const color = resolveSolidFill(spPr['a:solidFill'], context, undefined, phClr)
       return { type: 'solid', color }
     }
 
     case 'GRADIENT_FILL': {
-      const gradient = getGradientFill(spPr['a:gradFill'], context)
+      const gradient = getGradientFill(spPr['a:gradFill'], context, phClr)
       return gradient
     }
 
@@ -337,7 +361,7 @@ export async function resolveFill(
     }
 
     case 'PATTERN_FILL': {
-      const patternFill = getPatternFill(spPr['a:pattFill'], context)
+      const patternFill = getPatternFill(spPr['a:pattFill'], context, phClr)
       if (patternFill) return patternFill
       return { type: 'none' }
     }
@@ -358,46 +382,63 @@ export async function resolveFill(
   }
 }
 
+/**
+ * 解析背景样式引用（p:bgRef）
+ *
+ * @description
+ * idx 为 1-999 时引用主题 fmtScheme 的 fillStyleLst，1001 及以上引用 bgFillStyleLst（均从 1 开始计数），
+ * 0 表示无背景。样式中的 phClr 由 bgRef 自身的颜色替换，样式中的图片使用主题的关系文件。
+ *
+ * @param bgRef - p:bgRef 节点
+ * @param context - 解析上下文
+ * @returns 背景填充
+ */
+async function resolveBackgroundRef(bgRef: XmlObject, context: ParsingContext): Promise<FillStyle> {
+  const idx = parseInt(bgRef['attrs']?.['idx'], 10)
+  if (!idx) return { type: 'none' }
+
+  const fmtScheme = getTextByPathList(context.themeContent, ['a:theme', 'a:themeElements', 'a:fmtScheme']) as XmlObject | undefined
+  const [listTag, index] = idx >= BG_FILL_STYLE_START_INDEX
+    ? ['a:bgFillStyleLst', idx - BG_FILL_STYLE_START_INDEX]
+    : ['a:fillStyleLst', idx - 1]
+  const styleList = fmtScheme?.[listTag]
+  if (!styleList || typeof styleList !== 'object') return { type: 'none' }
+
+  // 样式列表中不同类型的填充按文档顺序编号
+  const style = getOrderedChildren(styleList, FILL_TAGS)[index]
+  if (!style) return { type: 'none' }
+
+  const phClr = resolveSolidFill(bgRef, context)
+  return resolveFill({ [style.tag]: style.node }, context, 'theme', phClr || undefined)
+}
+
 /**
  * 解析幻灯片背景填充
+ *
+ * @description
+ * 依次检查幻灯片、布局和母版的 p:bg，背景可以是直接指定的 p:bgPr，
+ * 也可以是引用主题背景样式的 p:bgRef。
  */
 export async function resolveSlideBackgroundFill(
   context: ParsingContext
 ): Promise<FillStyle> {
-  // 1. 首先检查幻灯片本身的背景
-  let bgPr = getTextByPathList(
-    context.slideContent,
-    ['p:sld', 'p:cSld', 'p:bg', 'p:bgPr']
-  ) as XmlObject | undefined
-
-  if (bgPr) {
-    const fill = await resolveFill(bgPr, context, 'slide')
-    if (fill.type !== 'none') return fill
-  }
-
-  // 2. 检查布局背景
-  bgPr = getTextByPathList(
-    context.slideLayoutContent,
-    ['p:sldLayout', 'p:cSld', 'p:bg', 'p:bgPr']
-  ) as XmlObject | undefined
-
-  if (bgPr) {
-    const fill = await resolveFill(bgPr, context, 'slideLayout')
-    if (fill.type !== 'none') return fill
-  }
-
-  // 3. 检查母版背景
-  bgPr = getTextByPathList(
-    context.slideMasterContent,
-    ['p:sldMaster', 'p:cSld', 'p:bg', 'p:bgPr']
-  ) as XmlObject | undefined
-
-  if (bgPr) {
-    const fill = await resolveFill(bgPr, context, 'slideMaster')
+  const levels: { content: XmlObject; root: string; source: FillSource }[] = [
+    { content: context.slideContent, root: 'p:sld', source: 'slide' },
+    { content: context.slideLayoutContent, root: 'p:sldLayout', source: 'slideLayout' },
+    { content: context.slideMasterContent, root: 'p:sldMaster', source: 'slideMaster' },
+  ]
+
+  for (const { content, root, source } of levels) {
+    const bg = getTextByPathList(content, [root, 'p:cSld', 'p:bg']) as XmlObject | undefined
+    if (!bg || typeof bg !== 'object') continue
+
+    const fill = bg['p:bgPr']
+      ? await resolveFill(bg['p:bgPr'], context, source)
+      : bg['p:bgRef'] ? await resolveBackgroundRef(bg['p:bgRef'], context) : { type: 'none' as const }
     if (fill.type !== 'none') return fill
   }
 
-  // 4. 默认白色背景
+  // 默认白色背景
   return { type: 'solid', color: '#FFFFFF' }
 }
 
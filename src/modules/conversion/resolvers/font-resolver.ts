@@ -0,0 +1,165 @@
+/**
+ * 字体解析器
+ *
+ * @module modules/conversion/resolvers/font-resolver
+ * @description 解析文本运行使用的字体。
+ * PPTX 为每个运行分别指定西文（a:latin）、东亚（a:ea）和复杂文种（a:cs）字体，
+ * 按文字的书写系统选用其中之一；+mj-lt、+mn-ea 等引用从主题的 a:fontScheme 解析，
+ * 主题中东亚和复杂文种字体为空时按文种（a:font script）选择。
+ *
+ * @example
+ * ```typescript
+ * resolveThemeFont('+mn-ea', context, 'Hans')
+ * // 主题正文东亚字体，未设置时为 <a:font script="Hans"> 的字体，如 '等线'
+ * ```
+ */
+
+import type { XmlObject, ParsingContext } from '../context/parsing-context.js'
+import { getTextByPathList } from './color-resolver.js'
+
+/** 字体类别：西文、东亚、复杂文种 */
+export type FontCategory = 'latin' | 'ea' | 'cs'
+
+/** 主题字体引用的类别后缀 -> 字体类别 */
+const THEME_FONT_CATEGORIES: Record<string, FontCategory> = {
+  lt: 'latin',
+  ea: 'ea',
+  cs: 'cs',
+}
+
+/** 东亚文字：谚文字母、CJK 符号和表意文字、假名、谚文音节、兼容表意文字、全角字符、扩展区表意文字 */
+const EAST_ASIAN_PATTERN = /[\u1100-\u11ff\u2e80-\u9fff\ua960-\ua97f\uac00-\ud7af\uf900-\ufaff\ufe30-\ufe4f\uff00-\uffef]|[\u{20000}-\u{3ffff}]/u
+
+/** 复杂文种的 Unicode 范围 -> 主题 a:font 的 script */
+const COMPLEX_SCRIPTS: [RegExp, string][] = [
+  [/[\u0590-\u05ff\ufb1d-\ufb4f]/, 'Hebr'],
+  [/[\u0600-\u06ff\u0750-\u077f\u08a0-\u08ff\ufb50-\ufdff\ufe70-\ufeff]/, 'Arab'],
+  [/[\u0700-\u074f]/, 'Syrc'],
+  [/[\u0780-\u07bf]/, 'Thaa'],
+  [/[\u0900-\u097f]/, 'Deva'],
+  [/[\u0980-\u09ff]/, 'Beng'],
+  [/[\u0a00-\u0a7f]/, 'Guru'],
+  [/[\u0a80-\u0aff]/, 'Gujr'],
+  [/[\u0b00-\u0b7f]/, 'Orya'],
+  [/[\u0b80-\u0bff]/, 'Taml'],
+  [/[\u0c00-\u0c7f]/, 'Telu'],
+  [/[\u0c80-\u0cff]/, 'Knda'],
+  [/[\u0d00-\u0d7f]/, 'Mlym'],
+  [/[\u0d80-\u0dff]/, 'Sinh'],
+  [/[\u0e00-\u0e7f]/, 'Thai'],
+  [/[\u0e80-\u0eff]/, 'Laoo'],
+  [/[\u0f00-\u0fff]/, 'Tibt'],
+  [/[\u1780-\u17ff]/, 'Khmr'],
+]
+
+/** 假名 */
+const KANA_PATTERN = /[\u3040-\u30ff\u31f0-\u31ff]/
+
+/** 谚文 */
+const HANGUL_PATTERN = /[\u1100-\u11ff\ua960-\ua97f\uac00-\ud7af\u3130-\u318f]/
+
+/** 语言 -> 东亚文种，未列出的中文按简体处理 */
+const EAST_ASIAN_LANG_SCRIPTS: [RegExp, string][] = [
+  [/^zh-(tw|hk|mo|hant)/i, 'Hant'],
+  [/^zh/i, 'Hans'],
+  [/^ja/i, 'Jpan'],
+  [/^ko/i, 'Hang'],
+]
+
+/**
+ * 判断文字所属的字体类别
+ *
+ * @description
+ * 包含东亚文字时使用东亚字体，包含复杂文种时使用复杂文种字体，其他使用西文字体。
+ */
+export function getFontCategory(text: string): FontCategory {
+  if (EAST_ASIAN_PATTERN.test(text)) return 'ea'
+  if (COMPLEX_SCRIPTS.some(([pattern]) => pattern.test(text))) return 'cs'
+  return 'latin'
+}
+
+/**
+ * 判断文字的文种（主题 a:font 的 script 属性）
+ *
+ * @param text - 文字
+ * @param category - 字体类别
+ * @param langs - 运行的语言（lang、altLang），用于区分简繁中文和日文汉字
+ * @returns 文种代码，西文返回 undefined
+ */
+export function getTextScript(text: string, category: FontCategory, langs: (string | undefined)[] = []): string | undefined {
+  if (category === 'cs') {
+    return COMPLEX_SCRIPTS.find(([pattern]) => pattern.test(text))?.[1]
+  }
+  if (category !== 'ea') return undefined
+
+  if (KANA_PATTERN.test(text)) return 'Jpan'
+  if (HANGUL_PATTERN.test(text)) return 'Hang'
+  for (const lang of langs) {
+    const script = lang && EAST_ASIAN_LANG_SCRIPTS.find(([pattern]) => pattern.test(lang))?.[1]
+    if (script) return script
+  }
+  return 'Hans'
+}
+
+/**
+ * 解析主题字体引用
+ *
+ * @description
+ * +mj-xx 使用主题标题字体（a:majorFont），+mn-xx 使用正文字体（a:minorFont），
+ * 后缀 lt/ea/cs 对应 a:latin、a:ea、a:cs；东亚或复杂文种字体为空时按文种查找 a:font。
+ *
+ * @param typeface - 字体名或主题字体引用
+ * @param context - 解析上下文
+ * @param script - 文字的文种
+ * @returns 字体名，主题中未定义时返回 undefined
+ */
+export function resolveThemeFont(typeface: string, context: ParsingContext, script?: string): string | undefined {
+  const match = /^\+(mj|mn)-(lt|ea|cs)$/.exec(typeface)
+  if (!match) return typeface || undefined
+
+  const fontTag = match[1] === 'mj' ? 'a:majorFont' : 'a:minorFont'
+  const fonts = getTextByPathList(context.themeContent, ['a:theme', 'a:themeElements', 'a:fontScheme', fontTag]) as XmlObject | undefined
+  if (!fonts || typeof fonts !== 'object') return undefined
+
+  const category = THEME_FONT_CATEGORIES[match[2]]
+  const font = getTextByPathList(fonts, [`a:${category}`, 'attrs', 'typeface']) as string | undefined
+  if (font || category === 'latin' || !script) return font || undefined
+
+  const scriptFonts = fonts['a:font']
+  const scriptFont = (Array.isArray(scriptFonts) ? scriptFonts : scriptFonts ? [scriptFonts] : [])
+    .find((item: XmlObject) => item?.['attrs']?.['script'] === script)
+  return scriptFont?.['attrs']?.['typeface'] || undefined
+}
+
+/**
+ * 解析文本运行的字体
+ *
+ * @description
+ * 按文字的字体类别在运行属性和继承的 a:defRPr 中查找最近的 a:latin/a:ea/a:cs，
+ * 都未设置时使用主题正文字体（+mn-xx）。东亚或复杂文种字体无法解析时回退到西文字体。
+ *
+ * @param runProps - a:rPr 和继承的 a:defRPr 节点（由近到远）
+ * @param text - 运行的文字
+ * @param context - 解析上下文
+ * @param langs - 运行的语言（lang、altLang）
+ * @returns 字体名，无法解析时返回 undefined
+ */
+export function resolveRunFont(
+  runProps: XmlObject[],
+  text: string,
+  context: ParsingContext,
+  langs: (string | undefined)[] = []
+): string | undefined {
+  const resolve = (category: FontCategory): string | undefined => {
+    const typeface = runProps
+      .map(props => getTextByPathList(props, [`a:${category}`, 'attrs', 'typeface']) as string | undefined)
+      .find(Boolean)
+    const suffix = category === 'latin' ? 'lt' : category
+    return resolveThemeFont(typeface || `+mn-${suffix}`, context, getTextScript(text, category, langs))
+  }
+
+  const category = getFontCategory(text)
+  return (category !== 'latin' && resolve(category)) || resolve('latin')
+}
+
+export default { getFontCategory, getTextScript, resolveThemeFont, resolveRunFont }
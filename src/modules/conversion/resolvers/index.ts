@@ -7,3 +7,4 @@ export * from './color-resolver.js'
 export * from './fill-resolver.js'
 export * from './shadow-resolver.js'
 export * from './border-resolver.js'
+export * from './font-resolver.js'
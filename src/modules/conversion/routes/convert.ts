@@ -8,10 +8,12 @@ import {
   convertSlides,
   createConversionContext,
   processMedia,
+  processFonts,
 } from '../services/converter.js'
 import { serializePresentation } from '../services/serializer.js'
 import { validateNotPasswordProtected } from '../detectors/password.js'
 import { formatResponse, getOutputFormat } from '../services/response.js'
+import type { HiddenSlidesPolicy } from '../../../types/index.js'
 
 const logger = getLogger()
 
@@ -55,10 +57,22 @@ function validateExtension(filename: string): void {
   }
 }
 
+/**
+ * Parse hidden slide policy, unknown values fall back to include
+ */
+function parseHiddenSlidesParam(value: string | undefined): HiddenSlidesPolicy {
+  const normalized = value?.toLowerCase().trim()
+  if (normalized === 'skip' || normalized === 'mark') {
+    return normalized
+  }
+  return 'include'
+}
+
 interface ConvertRequest {
   Body: FormData
   Querystring: {
     format?: string
+    hiddenSlides?: string
   }
 }
 
@@ -75,8 +89,9 @@ export async function conversionRoutes(fastify: FastifyInstance): Promise<void>
 
     // Get output format from query parameter or config default
     const format = getOutputFormat(formatParam)
+    const hiddenSlides = parseHiddenSlidesParam(request.query.hiddenSlides)
 
-    logger.info({ requestId, format }, 'Starting conversion request')
+    logger.info({ requestId, format, hiddenSlides }, 'Starting conversion request')
 
     try {
       // Get uploaded file
@@ -128,7 +143,7 @@ export async function conversionRoutes(fastify: FastifyInstance): Promise<void>
       }
 
       // Create conversion context with slideSize
-      const context = createConversionContext(requestId, presentation.slideSize)
+      const context = createConversionContext(requestId, presentation.slideSize, hiddenSlides, config.FONT_MAP)
 
       logger.info(
         { requestId, slideCount: presentation.slides.length },
@@ -138,6 +153,9 @@ export async function conversionRoutes(fastify: FastifyInstance): Promise<void>
       // Process media
       processMedia(presentation, context)
 
+      // Extract embedded fonts, before conversion so they are not substituted
+      processFonts(presentation, context)
+
       // Convert slides
       const slides = convertSlides(presentation, context)
 
@@ -1,8 +1,27 @@
 import type { Slide } from '../types/pptist.js'
-import type { ConversionContext } from '../../../types/index.js'
+import type { PPTXAnimation, PPTXTransition, PPTXEmbeddedFont } from '../types/pptx.js'
+import type { ConversionContext, HiddenSlidesPolicy } from '../../../types/index.js'
 import { convertElement } from '../converters/index.js'
+import { convertAnimations } from '../converters/animation.js'
+import { convertTransition } from '../converters/transition.js'
+import { checkAndReportUnsupported } from '../detectors/unsupported.js'
+import { Warnings } from '../../../utils/errors.js'
 import { getLogger } from '../../../utils/logger.js'
 import { createErrorHandler } from '../../../utils/error-handler.js'
+import { transcodeMedia, UnsupportedMediaError } from '../media/index.js'
+import { escapeHtml } from '../generators/html-text-generator.js'
+import { extractEmbeddedFont, fontFaceRule, EmbeddedFontError } from '../fonts/embedded-font.js'
+
+/**
+ * Convert plain notes text to the HTML PPTist expects in remark
+ * One paragraph per line, with the text escaped
+ */
+function notesToHtml(notes: string): string {
+  return notes
+    .split('\n')
+    .map(line => `<p>${escapeHtml(line)}</p>`)
+    .join('')
+}
 
 /**
  * Convert a single PPTX slide to PPTist slide
@@ -13,15 +32,30 @@ import { createErrorHandler } from '../../../utils/error-handler.js'
  * @returns Converted PPTist slide
  */
 export function convertSlide(
-  pptxSlide: { id: string; elements: any[]; background?: any; notes?: string },
+  pptxSlide: {
+    id: string
+    sldId?: string
+    hidden?: boolean
+    elements: any[]
+    background?: any
+    notes?: string
+    animations?: PPTXAnimation[]
+    transition?: PPTXTransition
+    sectionTag?: { id: string; title?: string }
+  },
   slideIndex: number,
   context: ConversionContext
 ): Slide {
   const elements: any[] = []
   const logger = getLogger()
   const errorHandler = createErrorHandler(context.requestId, logger)
+  // PPTX shape id (and enclosing group ids) -> converted element ids, for animation targets
+  const elementIds = new Map<string, string[]>()
+
+  // Unsupported elements (e.g. SmartArt without a drawing part) are dropped with a warning
+  const supportedElements = checkAndReportUnsupported(pptxSlide.elements, context.warnings)
 
-  for (const pptxElement of pptxSlide.elements) {
+  for (const pptxElement of supportedElements) {
     try {
       const converted = convertElement(pptxElement, context)
 
@@ -29,10 +63,60 @@ export function convertSlide(
         continue
       }
 
-      if (Array.isArray(converted)) {
-        elements.push(...converted)
-      } else {
-        elements.push(converted)
+      const convertedElements = Array.isArray(converted) ? converted : [converted]
+
+      // 组合内的元素共享同一个 groupId
+      if (pptxElement.groupId) {
+        for (const element of convertedElements) {
+          element.groupId = pptxElement.groupId
+        }
+      }
+
+      if (pptxElement.link) {
+        for (const element of convertedElements) {
+          element.link = { ...pptxElement.link }
+        }
+      }
+
+      // Image effects with no CSS filter equivalent are dropped with a warning
+      for (const effect of pptxElement.effects?.unsupported || []) {
+        errorHandler.addWarning('WARN_IMAGE_EFFECT_FALLBACK', Warnings.imageEffectFallback().message, {
+          elementId: pptxElement.id,
+          slideIndex,
+          effect,
+        })
+      }
+
+      // EMF/WMF/TIFF that failed to transcode is shown through the mc:Fallback image when there is one
+      if (pptxElement.type === 'image') {
+        const media = context.mediaMap.get(`${context.currentSlideIndex}_${pptxElement.rId}`)
+        if (media?.unrenderable) {
+          errorHandler.addWarning('WARN_MEDIA_TRANSCODE_FAILED', Warnings.mediaTranscodeFailed().message, {
+            elementId: pptxElement.id,
+            slideIndex,
+            mimeType: media.mimeType,
+            fallback: context.mediaMap.has(`${context.currentSlideIndex}_${pptxElement.fallbackRId}`),
+          })
+        }
+      }
+
+      // Layout and master shapes are locked and never animation targets,
+      // their shape ids belong to a different part and may collide with slide shape ids
+      if (pptxElement.inheritedFrom) {
+        for (const element of convertedElements) {
+          element.lock = true
+          element.inheritedFrom = pptxElement.inheritedFrom
+        }
+        elements.push(...convertedElements)
+        continue
+      }
+
+      elements.push(...convertedElements)
+
+      for (const spId of [pptxElement.id, ...(pptxElement.groupSpIds || [])]) {
+        const ids = elementIds.get(spId) || []
+        ids.push(...convertedElements.map(element => element.id))
+        elementIds.set(spId, ids)
       }
     } catch (error) {
       // 使用统一错误处理器记录错误
@@ -43,16 +127,51 @@ export function convertSlide(
     }
   }
 
+  const animations = convertAnimations(pptxSlide.animations || [], elementIds, animation => {
+    errorHandler.addWarning('WARN_ANIMATION_FALLBACK', Warnings.animationFallback().message, {
+      elementId: animation.targetId,
+      slideIndex,
+      presetClass: animation.presetClass,
+      presetId: animation.presetId,
+    })
+  })
+
   // 将警告合并到上下文中
   if (errorHandler.hasWarnings()) {
     context.warnings.push(...errorHandler.getWarnings())
   }
 
   const slide: Slide = {
-    id: `slide-${slideIndex + 1}`,
+    id: pptxSlide.id,
     elements,
     background: convertBackground(pptxSlide),
-    remark: pptxSlide.notes,
+    remark: pptxSlide.notes ? notesToHtml(pptxSlide.notes) : undefined,
+  }
+
+  if (pptxSlide.sldId) {
+    slide.sldId = pptxSlide.sldId
+  }
+
+  if (pptxSlide.hidden && context.hiddenSlides === 'mark') {
+    slide.hidden = true
+  }
+
+  if (animations.length > 0) {
+    slide.animations = animations
+  }
+
+  const turningMode = convertTransition(pptxSlide.transition)
+  if (turningMode) {
+    slide.turningMode = turningMode
+  }
+
+  const advanceTime = pptxSlide.transition?.advanceTime ?? pptxSlide.transition?.fallback?.advanceTime
+  if (advanceTime !== undefined) {
+    slide.advanceTime = advanceTime
+  }
+
+  if (pptxSlide.sectionTag) {
+    slide.sectionTag = pptxSlide.sectionTag
   }
 
   return slide
@@ -73,12 +192,13 @@ function convertBackground(pptxSlide: { background?: any }): Slide['background']
     }
   }
 
-  if (bg.type === 'image' && bg.imageRId) {
+  // Stretched pictures fill the slide, tiled pictures repeat
+  if (bg.type === 'image' && bg.imageSrc) {
     return {
       type: 'image',
       image: {
-        src: bg.imageRId,
-        size: 'cover',
+        src: bg.imageSrc,
+        size: bg.imageTile ? 'repeat' : 'cover',
       },
     }
   }
@@ -97,6 +217,43 @@ function convertBackground(pptxSlide: { background?: any }): Slide['background']
   return undefined
 }
 
+/**
+ * Map each hidden slide id to the id of the next visible slide
+ *
+ * Used with hiddenSlides=skip: slide-jump links into a skipped slide go to the slide the show
+ * continues with, and links with no visible slide after them are dropped.
+ */
+function getSkippedSlideTargets(slides: { id: string; hidden?: boolean }[]): Map<string, string | undefined> {
+  const targets = new Map<string, string | undefined>()
+  let next: string | undefined
+
+  for (let i = slides.length - 1; i >= 0; i--) {
+    if (slides[i].hidden) {
+      targets.set(slides[i].id, next)
+    } else {
+      next = slides[i].id
+    }
+  }
+
+  return targets
+}
+
+/**
+ * Retarget slide-jump links that point at skipped slides
+ */
+function retargetSlideLinks(slide: Slide, targets: Map<string, string | undefined>): void {
+  for (const element of slide.elements) {
+    if (element.link?.type !== 'slide' || !targets.has(element.link.target)) continue
+
+    const target = targets.get(element.link.target)
+    if (target) {
+      element.link.target = target
+    } else {
+      delete element.link
+    }
+  }
+}
+
 /**
  * Convert all slides from PPTX presentation
  */
@@ -105,14 +262,41 @@ export function convertSlides(
   context: ConversionContext
 ): Slide[] {
   const slides: Slide[] = []
+  const skippedSlides: number[] = []
+  const skip = context.hiddenSlides === 'skip'
+  const skippedTargets = skip ? getSkippedSlideTargets(presentation.slides) : new Map<string, string | undefined>()
+  // Section started by a skipped slide, moved to the next visible slide
+  let pendingSection: Slide['sectionTag']
 
   for (let i = 0; i < presentation.slides.length; i++) {
+    if (presentation.slides[i].hidden && skip) {
+      skippedSlides.push(i + 1)
+      pendingSection = presentation.slides[i].sectionTag || pendingSection
+      continue
+    }
+
     // 设置当前幻灯片索引（用于媒体查找的组合键）
     context.currentSlideIndex = i
     const slide = convertSlide(presentation.slides[i], i, context)
+    if (skippedTargets.size > 0) {
+      retargetSlideLinks(slide, skippedTargets)
+    }
+    if (pendingSection && !slide.sectionTag) {
+      slide.sectionTag = pendingSection
+    }
+    pendingSection = undefined
     slides.push(slide)
   }
 
+  if (skippedSlides.length > 0) {
+    context.warnings.push(Warnings.hiddenSlidesSkipped(skippedSlides).toInfo())
+  }
+
+  // One warning per original font, counting the text runs that used it
+  for (const [font, { substitute, count }] of context.fontFallbacks || []) {
+    context.warnings.push(Warnings.fontFallback(font, substitute, count).toInfo())
+  }
+
   return slides
 }
 
@@ -121,7 +305,9 @@ export function convertSlides(
  */
 export function createConversionContext(
   requestId: string,
-  slideSize: { width: number; height: number }
+  slideSize: { width: number; height: number },
+  hiddenSlides: HiddenSlidesPolicy = 'include',
+  fontMap: Record<string, string> = {}
 ): ConversionContext {
   return {
     requestId,
@@ -130,38 +316,106 @@ export function createConversionContext(
     mediaMap: new Map(),
     slideSize,
     currentSlideIndex: 0,
+    hiddenSlides,
+    fontMap,
+    fontFallbacks: new Map(),
+    embeddedFonts: [],
   }
 }
 
 /**
  * Process media files from PPTX and add to context
  * Uses slideMediaMaps with slideIndex_rId composite key to avoid rId collisions
+ * EMF/WMF become SVG and TIFF becomes PNG; files that fail keep their original data
+ * and are marked unrenderable
  */
 export function processMedia(
   presentation: { slideMediaMaps: Map<string, { data: Buffer; contentType: string }>[] },
   context: ConversionContext
 ): void {
+  const logger = getLogger()
+  // The same media file is shared by every slide that references it, transcode it once
+  const transcoded = new Map<Buffer, { data: string; mimeType: string; unrenderable?: boolean }>()
+
+  const encode = (mediaInfo: { data: Buffer; contentType: string }) => {
+    const cached = transcoded.get(mediaInfo.data)
+    if (cached) return cached
+
+    let result: { data: string; mimeType: string; unrenderable?: boolean }
+    try {
+      const media = transcodeMedia(mediaInfo)
+      result = { data: media.data.toString('base64'), mimeType: media.contentType }
+    } catch (error) {
+      if (!(error instanceof UnsupportedMediaError)) throw error
+      logger.warn(
+        { requestId: context.requestId, contentType: mediaInfo.contentType, feature: error.feature },
+        'Media transcode failed'
+      )
+      result = { data: mediaInfo.data.toString('base64'), mimeType: mediaInfo.contentType, unrenderable: true }
+    }
+
+    transcoded.set(mediaInfo.data, result)
+    return result
+  }
+
   // 为每个幻灯片的媒体使用 slideIndex_rId 作为组合键
   presentation.slideMediaMaps.forEach((slideMedia, slideIndex) => {
     for (const [rId, mediaInfo] of slideMedia) {
       const key = `${slideIndex}_${rId}`  // 组合键避免冲突
-      const base64 = mediaInfo.data.toString('base64')
       context.mediaMap.set(key, {
         type: mediaInfo.contentType.startsWith('image')
           ? 'image'
           : mediaInfo.contentType.startsWith('video')
             ? 'video'
             : 'audio',
-        data: base64,
-        mimeType: mediaInfo.contentType,
+        ...encode(mediaInfo),
       })
     }
   })
 }
 
+/**
+ * Extract embedded fonts from PPTX and add @font-face rules to context
+ * Restricted-licence fonts are listed without a rule, fonts that cannot be decoded are left out;
+ * both are reported once per font
+ */
+export function processFonts(
+  presentation: { embeddedFonts?: PPTXEmbeddedFont[] },
+  context: ConversionContext
+): void {
+  const reported = new Set<string>()
+  const report = (font: string, reason: string) => {
+    if (reported.has(`${font}:${reason}`)) return
+    reported.add(`${font}:${reason}`)
+    context.warnings.push(Warnings.embeddedFontSkipped(font, reason).toInfo())
+  }
+
+  for (const font of presentation.embeddedFonts || []) {
+    const descriptor = {
+      fontFamily: font.typeface,
+      fontWeight: font.bold ? 'bold' : 'normal',
+      fontStyle: font.italic ? 'italic' : 'normal',
+    } as const
+
+    try {
+      const extracted = extractEmbeddedFont(font.data)
+      if (extracted.restricted) {
+        context.embeddedFonts?.push({ ...descriptor, restricted: true })
+        report(font.typeface, 'restricted licence')
+        continue
+      }
+      context.embeddedFonts?.push({ ...descriptor, fontFace: fontFaceRule(descriptor, extracted) })
+    } catch (error) {
+      if (!(error instanceof EmbeddedFontError)) throw error
+      report(font.typeface, error.reason)
+    }
+  }
+}
+
 export default {
   convertSlide,
   convertSlides,
   createConversionContext,
   processMedia,
+  processFonts,
 }
@@ -21,9 +21,18 @@
 // 从模块化的 parser 目录重新导出所有内容
 export { parsePPTX, readXmlFile, getMimeType } from './parser/index.js'
 export { getContentTypes, type ContentTypesResult } from './parser/content-types.js'
-export { getSlideInfo, type SlideInfoResult } from './parser/slide-info.js'
+export {
+  getSlideInfo,
+  getSlideIdList,
+  getSections,
+  type SlideInfoResult,
+  type SlideIdEntry,
+  type SectionInfo,
+} from './parser/slide-info.js'
 export { getTheme, type ThemeResult } from './parser/theme.js'
 export { parseRelationships, parseSlideRels, type RelationshipsResult } from './parser/relationships.js'
+export { parseTiming } from './parser/timing.js'
+export { parseTransition } from './parser/transition.js'
 export {
   parseShape,
   parseTransform,
@@ -0,0 +1,117 @@
+/**
+ * 自定义几何解析器
+ *
+ * @module modules/conversion/services/parser/elements/custom-geometry
+ * @description 解析形状的自定义几何（a:custGeom），提取 a:pathLst 中的路径命令。
+ * 自由绘制的形状和从 Visio 导入的图形都使用自定义几何。
+ */
+
+import type { PPTXCustomPath, PPTXPathCommand } from '../../../types/pptx.js'
+import type { XmlObject } from '../../../context/parsing-context.js'
+import { getOrderedChildren, toArray } from '../utils.js'
+import { getBuiltinGuides, evaluateGuides, resolveGuideValue } from '../../../generators/preset-geometry.js'
+
+/** 路径命令节点 */
+const PATH_COMMAND_TAGS = ['a:moveTo', 'a:lnTo', 'a:cubicBezTo', 'a:quadBezTo', 'a:arcTo', 'a:close']
+
+/** 角度单位：1/60000 度 */
+const ANGLE_UNIT = 60000
+
+/**
+ * 计算 avLst/gdLst 中的参考线
+ *
+ * @description
+ * 参考线按文档顺序计算，公式可以引用内置参考线和前面定义的参考线。
+ */
+function collectGuides(custGeom: XmlObject, guides: Record<string, number>): void {
+  const gdList = [
+    ...toArray(custGeom['a:avLst']?.['a:gd']),
+    ...toArray(custGeom['a:gdLst']?.['a:gd']),
+  ]
+    .map(gd => [gd['attrs']?.['name'], gd['attrs']?.['fmla']] as [string, string])
+    .filter(([name, fmla]) => name && fmla)
+
+  evaluateGuides(gdList, guides)
+}
+
+/**
+ * 解析点列表
+ */
+function parsePoints(node: XmlObject, guides: Record<string, number>): [number, number][] {
+  return toArray(node['a:pt']).map(pt => [
+    resolveGuideValue(pt['attrs']?.['x'], guides),
+    resolveGuideValue(pt['attrs']?.['y'], guides),
+  ])
+}
+
+/**
+ * 解析单条路径命令
+ */
+function parsePathCommand(tag: string, node: XmlObject, guides: Record<string, number>): PPTXPathCommand | null {
+  switch (tag) {
+    case 'a:moveTo':
+    case 'a:lnTo': {
+      const [x, y] = parsePoints(node, guides)[0] || [0, 0]
+      return { type: tag === 'a:moveTo' ? 'moveTo' : 'lnTo', x, y }
+    }
+    case 'a:cubicBezTo':
+      return { type: 'cubicBezTo', points: parsePoints(node, guides) }
+    case 'a:quadBezTo':
+      return { type: 'quadBezTo', points: parsePoints(node, guides) }
+    case 'a:arcTo': {
+      const attrs = node['attrs'] || {}
+      return {
+        type: 'arcTo',
+        wR: resolveGuideValue(attrs['wR'], guides),
+        hR: resolveGuideValue(attrs['hR'], guides),
+        stAng: resolveGuideValue(attrs['stAng'], guides) / ANGLE_UNIT,
+        swAng: resolveGuideValue(attrs['swAng'], guides) / ANGLE_UNIT,
+      }
+    }
+    case 'a:close':
+      return { type: 'close' }
+    default:
+      return null
+  }
+}
+
+/**
+ * 解析自定义几何
+ *
+ * @description
+ * a:pathLst 可以包含多条子路径，每条子路径有独立的 w/h 坐标空间，
+ * 未指定 w/h 时坐标与形状尺寸（EMU）一致。
+ *
+ * @param custGeom - a:custGeom 节点
+ * @param width - 形状宽度（EMU）
+ * @param height - 形状高度（EMU）
+ * @returns 子路径数组，没有可用路径时返回空数组
+ */
+export function parseCustomGeometry(custGeom: XmlObject | undefined, width: number, height: number): PPTXCustomPath[] {
+  if (!custGeom) return []
+
+  const guides = getBuiltinGuides(width, height)
+  collectGuides(custGeom, guides)
+
+  const paths: PPTXCustomPath[] = []
+
+  for (const path of toArray(custGeom['a:pathLst']?.['a:path'])) {
+    const attrs = path['attrs'] || {}
+    const commands = getOrderedChildren(path, PATH_COMMAND_TAGS)
+      .map(({ tag, node }) => parsePathCommand(tag, node, guides))
+      .filter((command): command is PPTXPathCommand => command !== null)
+
+    if (commands.length === 0) continue
+
+    paths.push({
+      w: attrs['w'] ? parseInt(attrs['w'], 10) : width,
+      h: attrs['h'] ? parseInt(attrs['h'], 10) : height,
+      fill: attrs['fill'],
+      commands,
+    })
+  }
+
+  return paths
+}
+
+export default { parseCustomGeometry }
@@ -0,0 +1,121 @@
+/**
+ * SmartArt 图形解析器
+ *
+ * @module modules/conversion/services/parser/elements/diagram
+ * @description 解析 SmartArt（dgm）图形框架。
+ * PowerPoint 会把 SmartArt 的排版结果保存在绘图部件（ppt/diagrams/drawingN.xml）中，
+ * 其中的 dsp:sp 与幻灯片上的 p:sp 结构相同，换算前缀后复用形状树解析，
+ * 坐标相对于图形框架左上角，整体作为一个组合输出。
+ */
+
+import type { PPTXElement } from '../../../types/pptx.js'
+import type { XmlObject, ParsingContext } from '../../../context/parsing-context.js'
+import { readXmlFile, prefixMediaRIds, toArray, DIAGRAM_RID_PREFIX } from '../utils.js'
+import { parseRelationships } from '../relationships.js'
+import { parseGroup, type ShapeTreeParser } from './group.js'
+
+/** SmartArt 图形数据的 URI */
+export const DIAGRAM_URI = 'http://schemas.openxmlformats.org/drawingml/2006/diagram'
+
+/** 绘图部件的关系类型 */
+const DIAGRAM_DRAWING_REL_TYPE = 'http://schemas.microsoft.com/office/2007/relationships/diagramDrawing'
+
+/**
+ * 判断图形框架是否为 SmartArt
+ */
+export function isDiagramFrame(frame: XmlObject): boolean {
+  return frame['a:graphic']?.['a:graphicData']?.['attrs']?.['uri'] === DIAGRAM_URI
+}
+
+/**
+ * 查找 SmartArt 的绘图部件
+ *
+ * @description
+ * 数据模型（dgm:dataModel）的扩展 dsp:dataModelExt 记录了绘图部件在幻灯片关系中的 id；
+ * 缺少该扩展时，按编号匹配幻灯片关系中的 diagramDrawing（data1.xml 对应 drawing1.xml）。
+ *
+ * @param graphicData - a:graphicData 节点
+ * @param context - 解析上下文
+ * @returns 绘图部件路径，不存在时返回 undefined
+ */
+async function findDrawingPart(graphicData: XmlObject, context: ParsingContext): Promise<string | undefined> {
+  const dataRId = graphicData['dgm:relIds']?.['attrs']?.['r:dm'] as string | undefined
+  const dataPath = dataRId ? context.slideResObj[dataRId]?.target : undefined
+  if (!dataPath) return undefined
+
+  const dataModel = (await readXmlFile(context.zip, dataPath))['dgm:dataModel']
+  for (const ext of toArray(dataModel?.['dgm:extLst']?.['a:ext'])) {
+    const relId = ext['dsp:dataModelExt']?.['attrs']?.['relId']
+    const target = relId ? context.slideResObj[relId]?.target : undefined
+    if (target && context.zip.file(target)) return target
+  }
+
+  const expected = dataPath.replace(/data(\d+)\.xml$/, 'drawing$1.xml')
+  const drawing = Object.values(context.slideResObj)
+    .find(resource => resource.type === DIAGRAM_DRAWING_REL_TYPE && resource.target === expected)
+  return drawing && context.zip.file(drawing.target) ? drawing.target : undefined
+}
+
+/**
+ * 将绘图部件中的 dsp 前缀换算为 p 前缀
+ */
+function toPresentationNode(node: unknown): unknown {
+  if (Array.isArray(node)) return node.map(toPresentationNode)
+  if (!node || typeof node !== 'object') return node
+
+  const result: XmlObject = {}
+  for (const [key, value] of Object.entries(node)) {
+    result[key.startsWith('dsp:') ? `p:${key.slice(4)}` : key] = toPresentationNode(value)
+  }
+  return result
+}
+
+/**
+ * 解析 SmartArt 图形框架
+ *
+ * @description
+ * 绘图部件的形状树按图形框架的位置和尺寸换算到幻灯片坐标系，
+ * 子元素共享一个 groupId，groupSpIds 中记录图形框架的 id（动画以图形框架为目标）。
+ * 绘图部件中的图片等资源使用绘图部件自身的关系文件解析，
+ * 媒体 rId 加上绘图部件前缀（diagram:ppt/diagrams/drawing1.xml:rId1），由 parsePPTX 加入幻灯片的媒体映射。
+ *
+ * @param frame - 图形框架 XML 节点
+ * @param context - 解析上下文
+ * @param parseShapeTree - 形状树解析函数
+ * @returns 展平后的子元素数组，不是 SmartArt 或缺少绘图部件时返回 null
+ */
+export async function parseDiagram(
+  frame: XmlObject,
+  context: ParsingContext,
+  parseShapeTree: ShapeTreeParser
+): Promise<PPTXElement[] | null> {
+  if (!isDiagramFrame(frame)) return null
+
+  const drawingPath = await findDrawingPart(frame['a:graphic']['a:graphicData'], context)
+  if (!drawingPath) return null
+
+  const spTree = (await readXmlFile(context.zip, drawingPath))['dsp:drawing']?.['dsp:spTree']
+  if (!spTree || typeof spTree !== 'object') return null
+
+  const xfrm = frame['p:xfrm'] || {}
+  const ext = xfrm['a:ext']?.['attrs'] || {}
+  const grpSp: XmlObject = {
+    ...(toPresentationNode(spTree) as XmlObject),
+    'p:nvGrpSpPr': { 'p:cNvPr': frame['p:nvGraphicFramePr']?.['p:cNvPr'] },
+    'p:grpSpPr': {
+      'a:xfrm': {
+        ...xfrm,
+        'a:chOff': { attrs: { x: '0', y: '0' } },
+        'a:chExt': { attrs: { cx: ext['cx'] || '0', cy: ext['cy'] || '0' } },
+      },
+    },
+  }
+
+  const relsPath = drawingPath.replace(/([^/]+)$/, '_rels/$1.rels')
+  const { resources } = await parseRelationships(context.zip, relsPath)
+
+  const elements = await parseGroup(grpSp, { ...context, slideResObj: resources }, parseShapeTree)
+  return elements.map(element => prefixMediaRIds(element, `${DIAGRAM_RID_PREFIX}${drawingPath}`))
+}
+
+export default { parseDiagram, isDiagramFrame }
@@ -3,6 +3,7 @@
  *
  * @module modules/conversion/services/parser/elements/graphic-frame
  * @description 解析 PPTX 中的图形框架（graphicFrame），包括图表和表格。
+ * SmartArt 由 diagram 模块展开为组合，这里只处理缺少绘图部件的情况。
  */
 
 import { v4 as uuidv4 } from 'uuid'
@@ -10,6 +11,7 @@ import type { PPTXElement, PPTXTransform } from '../../../types/pptx.js'
 import type { XmlObject, ParsingContext } from '../../../context/parsing-context.js'
 import { parseTable } from '../../../parsers/table-parser.js'
 import { parseChart } from '../../../parsers/chart-parser.js'
+import { DIAGRAM_URI } from './diagram.js'
 
 /**
  * 解析图形框架（图表/表格）
@@ -69,6 +71,17 @@ export async function parseGraphicFrame(
     return parseTable(frame, transform, context)
   }
 
+  // 缺少绘图部件的 SmartArt，返回占位形状，转换时跳过并给出警告
+  if (uri === DIAGRAM_URI) {
+    return {
+      type: 'shape',
+      id: String(id),
+      transform,
+      name,
+      shapeType: 'smartArt',
+    }
+  }
+
   // 不支持的图形类型
   return null
 }
@@ -0,0 +1,222 @@
+/**
+ * 组合形状解析器
+ *
+ * @module modules/conversion/services/parser/elements/group
+ * @description 解析 PPTX 中的组合形状（grpSp）。
+ * 组内子元素的坐标位于组的子坐标系（chOff/chExt）中，
+ * 解析时换算到父坐标系并展平输出，通过 groupId 保留组合关系。
+ */
+
+import { v4 as uuidv4 } from 'uuid'
+import type { PPTXElement, PPTXTransform } from '../../../types/pptx.js'
+import type { XmlObject, ParsingContext } from '../../../context/parsing-context.js'
+
+/**
+ * 形状树解析函数
+ *
+ * @description
+ * grpSp 与 spTree 结构相同，组内子元素由调用方提供的形状树解析函数处理，
+ * 从而支持任意层级的嵌套组合。
+ */
+export type ShapeTreeParser = (tree: XmlObject, context: ParsingContext) => Promise<PPTXElement[]>
+
+/**
+ * 组合变换信息（EMU）
+ */
+export interface GroupTransform {
+  /** 组在父坐标系中的位置和尺寸 */
+  x: number
+  y: number
+  width: number
+  height: number
+  /** 子坐标系的原点和尺寸 */
+  childX: number
+  childY: number
+  childWidth: number
+  childHeight: number
+  /** 旋转角度（度） */
+  rotation: number
+  flipH: boolean
+  flipV: boolean
+}
+
+/**
+ * 解析组合变换
+ *
+ * @param grpSpPr - 组合形状属性节点
+ * @returns 组合变换信息
+ */
+export function parseGroupTransform(grpSpPr: XmlObject | undefined): GroupTransform {
+  const xfrm = grpSpPr?.['a:xfrm']
+  const attrs = xfrm?.['attrs'] || {}
+  const off = xfrm?.['a:off']?.['attrs'] || {}
+  const ext = xfrm?.['a:ext']?.['attrs'] || {}
+  const chOff = xfrm?.['a:chOff']?.['attrs'] || off
+  const chExt = xfrm?.['a:chExt']?.['attrs'] || ext
+
+  return {
+    x: parseInt(off['x'] || '0', 10),
+    y: parseInt(off['y'] || '0', 10),
+    width: parseInt(ext['cx'] || '0', 10),
+    height: parseInt(ext['cy'] || '0', 10),
+    childX: parseInt(chOff['x'] || '0', 10),
+    childY: parseInt(chOff['y'] || '0', 10),
+    childWidth: parseInt(chExt['cx'] || '0', 10),
+    childHeight: parseInt(chExt['cy'] || '0', 10),
+    rotation: attrs['rot'] ? parseInt(attrs['rot'], 10) / 60000 : 0,
+    flipH: attrs['flipH'] === '1' || attrs['flipH'] === 'true',
+    flipV: attrs['flipV'] === '1' || attrs['flipV'] === 'true',
+  }
+}
+
+/**
+ * 获取子坐标系到父坐标系的缩放比例
+ */
+function getGroupScale(group: GroupTransform): { scaleX: number; scaleY: number } {
+  return {
+    scaleX: group.childWidth ? group.width / group.childWidth : 1,
+    scaleY: group.childHeight ? group.height / group.childHeight : 1,
+  }
+}
+
+/**
+ * 将子坐标系中的点映射到父坐标系
+ *
+ * @description
+ * 依次应用：子坐标系缩放平移 → 绕组中心翻转 → 绕组中心旋转。
+ *
+ * @param group - 组合变换信息
+ * @param x - 子坐标系 x（EMU）
+ * @param y - 子坐标系 y（EMU）
+ * @returns 父坐标系中的 [x, y]
+ */
+export function mapGroupPoint(group: GroupTransform, x: number, y: number): [number, number] {
+  const { scaleX, scaleY } = getGroupScale(group)
+  const centerX = group.x + group.width / 2
+  const centerY = group.y + group.height / 2
+
+  let px = group.x + (x - group.childX) * scaleX
+  let py = group.y + (y - group.childY) * scaleY
+
+  if (group.flipH) px = 2 * centerX - px
+  if (group.flipV) py = 2 * centerY - py
+
+  if (group.rotation) {
+    const radians = (group.rotation * Math.PI) / 180
+    const cos = Math.cos(radians)
+    const sin = Math.sin(radians)
+    const dx = px - centerX
+    const dy = py - centerY
+    px = centerX + dx * cos - dy * sin
+    py = centerY + dx * sin + dy * cos
+  }
+
+  return [px, py]
+}
+
+/**
+ * 将子元素的变换换算到父坐标系
+ *
+ * @param transform - 子元素在子坐标系中的变换
+ * @param group - 组合变换信息
+ * @returns 父坐标系中的变换
+ */
+export function composeGroupTransform(transform: PPTXTransform, group: GroupTransform): PPTXTransform {
+  const { scaleX, scaleY } = getGroupScale(group)
+  const rotation = transform.rotation || 0
+
+  // 子元素旋转接近 90°/270° 时，其宽高分别沿组的纵横方向缩放
+  const normalized = ((rotation % 180) + 180) % 180
+  const quarterTurn = normalized > 45 && normalized < 135
+  const width = transform.width * (quarterTurn ? scaleY : scaleX)
+  const height = transform.height * (quarterTurn ? scaleX : scaleY)
+
+  const [centerX, centerY] = mapGroupPoint(
+    group,
+    transform.x + transform.width / 2,
+    transform.y + transform.height / 2
+  )
+
+  // 奇数次翻转会使旋转方向反转
+  const mirrored = group.flipH !== group.flipV
+  let composedRotation = (mirrored ? -rotation : rotation) + group.rotation
+  composedRotation = ((composedRotation % 360) + 360) % 360
+
+  const flipH = !!transform.flipH !== group.flipH
+  const flipV = !!transform.flipV !== group.flipV
+
+  return {
+    x: Math.round(centerX - width / 2),
+    y: Math.round(centerY - height / 2),
+    width: Math.round(width),
+    height: Math.round(height),
+    rotation: composedRotation || undefined,
+    flipH: flipH || undefined,
+    flipV: flipV || undefined,
+  }
+}
+
+/**
+ * 将子元素换算到父坐标系
+ *
+ * @description
+ * 线条以起点终点表示，直接映射两个端点并取其包围盒；
+ * 其他元素换算变换信息。
+ */
+function applyGroupTransform(element: PPTXElement, group: GroupTransform): PPTXElement {
+  if (element.type === 'line') {
+    const [startX, startY] = mapGroupPoint(group, element.startX, element.startY)
+    const [endX, endY] = mapGroupPoint(group, element.endX, element.endY)
+
+    return {
+      ...element,
+      startX: Math.round(startX),
+      startY: Math.round(startY),
+      endX: Math.round(endX),
+      endY: Math.round(endY),
+      transform: {
+        x: Math.round(Math.min(startX, endX)),
+        y: Math.round(Math.min(startY, endY)),
+        width: Math.round(Math.abs(endX - startX)),
+        height: Math.round(Math.abs(endY - startY)),
+      },
+    }
+  }
+
+  return {
+    ...element,
+    transform: composeGroupTransform(element.transform, group),
+  }
+}
+
+/**
+ * 解析组合形状
+ *
+ * @description
+ * 递归解析组内的形状树，将所有子元素（包括嵌套组合中的元素）换算到父坐标系，
+ * 并为它们设置同一个 groupId。嵌套组合会被最外层组合的 groupId 覆盖，
+ * 因为 PPTist 只支持单层组合；各层组合的 cNvPr id 记录在 groupSpIds 中。
+ *
+ * @param grpSp - 组合形状 XML 节点
+ * @param context - 解析上下文
+ * @param parseShapeTree - 形状树解析函数
+ * @returns 展平后的子元素数组
+ */
+export async function parseGroup(
+  grpSp: XmlObject,
+  context: ParsingContext,
+  parseShapeTree: ShapeTreeParser
+): Promise<PPTXElement[]> {
+  const group = parseGroupTransform(grpSp['p:grpSpPr'])
+  const children = await parseShapeTree(grpSp, context)
+  const groupId = uuidv4()
+  const spId = grpSp['p:nvGrpSpPr']?.['p:cNvPr']?.['attrs']?.['id']
+
+  return children.map(child => ({
+    ...applyGroupTransform(child, group),
+    groupId,
+    groupSpIds: spId ? [String(spId), ...(child.groupSpIds || [])] : child.groupSpIds,
+  }))
+}
+
+export default { parseGroup, parseGroupTransform, mapGroupPoint, composeGroupTransform }
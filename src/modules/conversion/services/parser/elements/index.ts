@@ -5,7 +5,10 @@
  * @description 导出所有元素解析器。
  */
 
-export { parseShape, parseTransform, parseTextBodyToParagraphs } from './shape.js'
+export { parseShape, parseTransform, parseTextBodyToParagraphs, parseAdjustValues } from './shape.js'
 export { parsePicture } from './picture.js'
 export { parseGraphicFrame } from './graphic-frame.js'
 export { parseConnector } from './connector.js'
+export { parseDiagram, isDiagramFrame } from './diagram.js'
+export { parseGroup, parseGroupTransform, mapGroupPoint, composeGroupTransform } from './group.js'
+export { parseCustomGeometry } from './custom-geometry.js'
@@ -6,9 +6,170 @@
  */
 
 import { v4 as uuidv4 } from 'uuid'
-import type { PPTXElement } from '../../../types/pptx.js'
+import type { PPTXElement, PPTXImageCrop, PPTXImageEffects, PPTXMediaTrim } from '../../../types/pptx.js'
 import type { XmlObject, ParsingContext } from '../../../context/parsing-context.js'
-import { parseTransform } from './shape.js'
+import { parseTransform, parseAdjustValues } from './shape.js'
+import { resolvePlaceholderSpPr } from '../placeholder.js'
+import { getMimeType, toArray } from '../utils.js'
+import { resolveSolidFill } from '../../../resolvers/color-resolver.js'
+
+/** 颜色节点标签，双色调（a:duotone）中的两个颜色可以是任意组合 */
+const COLOR_TAGS = ['a:scrgbClr', 'a:srgbClr', 'a:hslClr', 'a:sysClr', 'a:schemeClr', 'a:prstClr']
+
+/**
+ * 非效果子节点
+ *
+ * @description
+ * a:extLst 中的 a14:imgProps（艺术效果、颜色和亮度校正）在保存时已经渲染进 r:embed 指向的图片，
+ * 原图保存在 a14:imgLayer 中，因此不需要再转换为滤镜。
+ */
+const NON_EFFECT_TAGS = ['attrs', 'a:extLst']
+
+/** 视频和音频文件节点（p:nvPr 的子节点） */
+const VIDEO_FILE_TAGS = ['a:videoFile', 'a:quickTimeFile']
+const AUDIO_FILE_TAGS = ['a:audioFile', 'a:wavAudioFile']
+
+/** PowerPoint 2010 嵌入媒体扩展（p14:media）的 uri */
+const MEDIA_EXT_URI = '{DAA4B4D4-6D71-4841-9C94-3DE7FCFB9230}'
+
+/**
+ * 媒体来源
+ */
+interface MediaSource {
+  rId: string
+  contentType?: string
+  externalSrc?: string
+  trim?: PPTXMediaTrim
+}
+
+/**
+ * 解析图片裁剪（a:srcRect）
+ *
+ * @description
+ * l/t/r/b 为从原图各边裁去的比例，单位为 1/1000 百分比；
+ * 负值表示图片向外扩展。没有裁剪时返回 undefined。
+ *
+ * @param srcRect - a:srcRect 节点
+ * @returns 各边裁去的百分比
+ */
+function parseCrop(srcRect: XmlObject | undefined): PPTXImageCrop | undefined {
+  const attrs = srcRect?.['attrs']
+  if (!attrs) return undefined
+
+  const crop = {
+    left: parseInt(attrs['l'] || '0', 10) / 1000,
+    top: parseInt(attrs['t'] || '0', 10) / 1000,
+    right: parseInt(attrs['r'] || '0', 10) / 1000,
+    bottom: parseInt(attrs['b'] || '0', 10) / 1000,
+  }
+
+  return Object.values(crop).some(value => value !== 0) ? crop : undefined
+}
+
+/**
+ * 读取百分比属性
+ *
+ * @param node - 效果节点
+ * @param name - 属性名
+ * @param defaultValue - 缺省值（1/1000 百分比）
+ * @returns 百分比
+ */
+function getPercent(node: XmlObject, name: string, defaultValue: number): number {
+  const value = parseInt(node?.['attrs']?.[name], 10)
+  return (isNaN(value) ? defaultValue : value) / 1000
+}
+
+/**
+ * 解析图片效果（a:blip 的子节点）
+ *
+ * @description
+ * 灰度、亮度/对比度、透明度、双色调和黑白效果可以用 CSS 滤镜近似，
+ * 其余效果（如 a:clrChange 设置透明色）记录在 unsupported 中，由转换阶段输出警告。
+ *
+ * @param blip - a:blip 节点
+ * @param context - 解析上下文
+ * @returns 图片效果，没有效果时返回 undefined
+ */
+function parseBlipEffects(blip: XmlObject | undefined, context: ParsingContext): PPTXImageEffects | undefined {
+  if (!blip || typeof blip !== 'object') return undefined
+
+  const effects: PPTXImageEffects = {}
+  const unsupported: string[] = []
+
+  for (const [tag, node] of Object.entries(blip)) {
+    if (NON_EFFECT_TAGS.includes(tag)) continue
+
+    switch (tag) {
+      case 'a:grayscl':
+        effects.grayscale = true
+        break
+      case 'a:lum':
+        effects.brightness = getPercent(node, 'bright', 0)
+        effects.contrast = getPercent(node, 'contrast', 0)
+        break
+      case 'a:alphaModFix':
+        effects.alpha = getPercent(node, 'amt', 100000)
+        break
+      case 'a:duotone':
+        effects.duotone = COLOR_TAGS.flatMap(colorTag => {
+          const colors = node?.[colorTag]
+          if (colors === undefined) return []
+          return (Array.isArray(colors) ? colors : [colors])
+            .map(color => resolveSolidFill({ [colorTag]: color }, context))
+        }).filter(Boolean)
+        break
+      case 'a:biLevel':
+        effects.biLevel = getPercent(node, 'thresh', 50000)
+        break
+      default:
+        unsupported.push(tag)
+    }
+  }
+
+  if (unsupported.length > 0) effects.unsupported = unsupported
+  return Object.keys(effects).length > 0 ? effects : undefined
+}
+
+/**
+ * 解析媒体剪裁（p14:trim）
+ *
+ * @param trim - p14:trim 节点，st/end 为从开头和结尾剪去的毫秒数
+ * @returns 剪裁时间，没有剪裁时返回 undefined
+ */
+function parseTrim(trim: XmlObject | undefined): PPTXMediaTrim | undefined {
+  const start = parseFloat(trim?.['attrs']?.['st']) || 0
+  const end = parseFloat(trim?.['attrs']?.['end']) || 0
+  return start > 0 || end > 0 ? { start, end } : undefined
+}
+
+/**
+ * 解析视频/音频的媒体来源
+ *
+ * @description
+ * PowerPoint 2010 起媒体通过 p:extLst 中的 p14:media r:embed 嵌入，
+ * a:videoFile/a:audioFile 的 r:link 指向同一文件或原始的外部文件；
+ * 只有 r:link 时为链接的媒体，外部关系的目标（本地路径或在线视频 URL）作为链接来源保留。
+ *
+ * @param nvPr - p:nvPr 节点
+ * @param fileNode - a:videoFile 等媒体文件节点
+ * @param context - 解析上下文
+ * @returns 媒体来源，没有关系 ID 时返回 undefined
+ */
+function parseMediaSource(nvPr: XmlObject, fileNode: XmlObject, context: ParsingContext): MediaSource | undefined {
+  const media = toArray(nvPr['p:extLst']?.['p:ext'])
+    .find(ext => ext['attrs']?.['uri'] === MEDIA_EXT_URI)?.['p14:media']
+  const fileAttrs = fileNode?.['attrs'] || {}
+  const rId = (media?.['attrs']?.['r:embed'] || fileAttrs['r:link'] || fileAttrs['r:embed'] || media?.['attrs']?.['r:link']) as string | undefined
+  if (!rId) return undefined
+
+  const resource = context.slideResObj[rId]
+  return {
+    rId,
+    contentType: resource ? getMimeType(resource.target) : undefined,
+    externalSrc: resource?.external ? resource.target : undefined,
+    trim: parseTrim(media?.['p14:trim']),
+  }
+}
 
 /**
  * 解析图片/视频/音频元素
@@ -18,18 +179,18 @@ import { parseTransform } from './shape.js'
  * 根据嵌入的关系类型，返回 image、video 或 audio 元素。
  *
  * @param pic - 图片 XML 节点
- * @param context - 解析上下文（未使用，但保持接口一致）
+ * @param context - 解析上下文
  * @returns 解析后的 PPTX 元素，如果解析失败返回 null
  */
 export function parsePicture(
   pic: XmlObject,
-  _context: ParsingContext
+  context: ParsingContext
 ): PPTXElement | null {
   const nvPicPr = pic['p:nvPicPr']
-  const spPr = pic['p:spPr']
   const blipFill = pic['p:blipFill']
 
-  const transform = parseTransform(spPr)
+  // 图片占位符没有 a:xfrm 时使用布局或母版中的位置
+  const transform = parseTransform(resolvePlaceholderSpPr(pic, context))
   const cNvPr = nvPicPr?.['p:cNvPr']?.['attrs']
   const id = cNvPr?.['id'] || uuidv4()
   const name = cNvPr?.['name'] as string | undefined
@@ -38,37 +199,39 @@ export function parsePicture(
   const rId = blipFill?.['a:blip']?.['attrs']?.['r:embed'] as string
   if (!rId) return null
 
-  // 检查是否是视频/音频
+  // 检查是否是视频/音频，视频的 blip 是播放前显示的封面
   const nvPr = nvPicPr?.['p:nvPr']
-  const videoFile = nvPr?.['a:videoFile']?.['attrs']?.['r:link'] as string
-  const audioFile = nvPr?.['a:audioFile']?.['attrs']?.['r:link'] as string
-
-  if (videoFile) {
-    return {
-      type: 'video',
-      id: String(id),
-      transform,
-      name,
-      rId: videoFile,
+  const videoTag = VIDEO_FILE_TAGS.find(tag => nvPr?.[tag] !== undefined)
+  const audioTag = AUDIO_FILE_TAGS.find(tag => nvPr?.[tag] !== undefined)
+
+  if (videoTag) {
+    const source = parseMediaSource(nvPr, nvPr[videoTag], context)
+    if (source) {
+      return { type: 'video', id: String(id), transform, name, ...source, posterRId: rId }
     }
   }
 
-  if (audioFile) {
-    return {
-      type: 'audio',
-      id: String(id),
-      transform,
-      name,
-      rId: audioFile,
+  if (audioTag) {
+    const source = parseMediaSource(nvPr, nvPr[audioTag], context)
+    if (source) {
+      return { type: 'audio', id: String(id), transform, name, ...source }
     }
   }
 
+  // 图片外形：圆形头像等通过 prstGeom 裁剪
+  const prstGeom = pic['p:spPr']?.['a:prstGeom']
+  const adjustValues = parseAdjustValues(prstGeom?.['a:avLst'])
+
   return {
     type: 'image',
     id: String(id),
     transform,
     name,
     rId,
+    crop: parseCrop(blipFill?.['a:srcRect']),
+    geometry: prstGeom?.['attrs']?.['prst'],
+    adjustValues: Object.keys(adjustValues).length > 0 ? adjustValues : undefined,
+    effects: parseBlipEffects(blipFill?.['a:blip'], context),
   }
 }
 
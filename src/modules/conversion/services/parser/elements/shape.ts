@@ -11,14 +11,90 @@ import type {
   PPTXShapeElement,
   PPTXTransform,
   PPTXParagraph,
+  PPTXBulletStyle,
+  PPTXBodyProperties,
+  PPTXTextRun,
+  PPTXTextGradient,
+  PPTXTextOutline,
 } from '../../../types/pptx.js'
 import type { XmlObject, ParsingContext } from '../../../context/parsing-context.js'
 import { getTextByPathList, resolveSolidFill, resolveSolidFillWithAlpha } from '../../../resolvers/color-resolver.js'
-import { generateShapePath } from '../../../generators/svg-path-generator.js'
+import { generateShapePath, generateCustomPath } from '../../../generators/svg-path-generator.js'
+import { getGradientFill } from '../../../resolvers/fill-resolver.js'
+import { resolveRunFont } from '../../../resolvers/font-resolver.js'
+import { resolveHyperlink } from '../hyperlink.js'
+import { parseCustomGeometry } from './custom-geometry.js'
+import { containsMath, textBodyToLatex, findMathRunProperties } from '../../../parsers/omml-parser.js'
+import {
+  getPlaceholder,
+  resolvePlaceholderSpPr,
+  resolveBodyProperties,
+  getListStyleChain,
+  getLevelProperties,
+} from '../placeholder.js'
 
 /** EMU 到点的转换比例 */
 const RATIO_EMUs_Points = 1 / 12700
 
+/** 文本体 anchor 属性 -> 垂直对齐方式 */
+const VERTICAL_ALIGN_MAP: Record<string, 'top' | 'middle' | 'bottom'> = {
+  t: 'top',
+  ctr: 'middle',
+  b: 'bottom',
+}
+
+/** 下划线类型 -> CSS text-decoration-style，未列出的类型（sng、heavy、words）为实线 */
+const UNDERLINE_STYLES: Record<string, PPTXTextRun['underlineStyle']> = {
+  dbl: 'double',
+  dotted: 'dotted',
+  dottedHeavy: 'dotted',
+  dotDash: 'dotted',
+  dotDashHeavy: 'dotted',
+  dotDotDash: 'dotted',
+  dotDotDashHeavy: 'dotted',
+  dash: 'dashed',
+  dashHeavy: 'dashed',
+  dashLong: 'dashed',
+  dashLongHeavy: 'dashed',
+  wavy: 'wavy',
+  wavyHeavy: 'wavy',
+  wavyDbl: 'wavy',
+}
+
+/** 竖排文字的 vert 属性值（字符逐个竖向排列），PPTist 只有一种竖排方式 */
+const VERTICAL_TEXT_TYPES = ['eaVert', 'wordArtVert', 'wordArtVertRtl', 'mongolianVert']
+
+/** 整体旋转的横排文字：vert 顺时针旋转 90°，vert270 顺时针旋转 270° */
+const TEXT_ROTATION_MAP: Record<string, number> = {
+  vert: 90,
+  vert270: 270,
+}
+
+/** 文本体默认内边距（EMU）：左右 0.1 英寸，上下 0.05 英寸 */
+const DEFAULT_INSETS = { left: 91440, top: 45720, right: 91440, bottom: 45720 }
+
+/**
+ * 解析预设形状的调整值
+ *
+ * @param avLst - a:prstGeom 下的 a:avLst 节点
+ * @returns 调整值名称 -> 数值，如 { adj1: 25000, adj2: 50000 }
+ */
+export function parseAdjustValues(avLst: XmlObject | undefined): Record<string, number> {
+  const gdList = avLst?.['a:gd']
+  const gdArray: XmlObject[] = Array.isArray(gdList) ? gdList : gdList ? [gdList] : []
+  const adjustValues: Record<string, number> = {}
+
+  for (const gd of gdArray) {
+    const name = gd?.['attrs']?.['name'] as string
+    const fmla = gd?.['attrs']?.['fmla'] as string
+    if (name && fmla?.startsWith('val ')) {
+      adjustValues[name] = parseInt(fmla.substring(4), 10)
+    }
+  }
+
+  return adjustValues
+}
+
 /**
  * 解析变换信息
  *
@@ -30,6 +106,8 @@ export function parseTransform(spPr: XmlObject | undefined): PPTXTransform {
   const off = xfrm?.['a:off']?.['attrs'] || {}
   const ext = xfrm?.['a:ext']?.['attrs'] || {}
   const rot = xfrm?.['attrs']?.['rot']
+  const flipH = xfrm?.['attrs']?.['flipH']
+  const flipV = xfrm?.['attrs']?.['flipV']
 
   return {
     x: parseInt(off['x'] || '0', 10),
@@ -37,9 +115,18 @@ export function parseTransform(spPr: XmlObject | undefined): PPTXTransform {
     width: parseInt(ext['cx'] || '0', 10),
     height: parseInt(ext['cy'] || '0', 10),
     rotation: rot ? parseInt(rot, 10) / 60000 : undefined,
+    flipH: flipH === '1' || flipH === 'true' ? true : undefined,
+    flipV: flipV === '1' || flipV === 'true' ? true : undefined,
   }
 }
 
+/**
+ * 判断 XML 布尔属性是否为真
+ */
+function isTrue(value: string | undefined): boolean {
+  return value === '1' || value === 'true'
+}
+
 /**
  * 解析文本运行的颜色（支持多层级继承）
  *
@@ -49,12 +136,14 @@ export function parseTransform(spPr: XmlObject | undefined): PPTXTransform {
  * 2. 段落默认: a:p/a:pPr/a:defRPr/a:solidFill
  * 3. 列表级别: a:p/a:pPr/a:lvlXpPr/a:defRPr/a:solidFill (X = 0-8)
  * 4. 文本体列表样式: a:txBody/a:lstStyle/a:defRPr/a:solidFill
+ * 5. 继承的列表样式: 布局、母版占位符和母版文本样式中对应级别的 a:defRPr/a:solidFill
  */
 function resolveTextColor(
   run: XmlObject,
   paragraph: XmlObject,
   txBody: XmlObject,
-  context: ParsingContext
+  context: ParsingContext,
+  levelProps: XmlObject[] = []
 ): string | undefined {
   // 1. 运行级别
   const runSolidFill = run?.['a:rPr']?.['a:solidFill']
@@ -88,19 +177,136 @@ function resolveTextColor(
     return resolveSolidFill(lstStyleDefRPrSolidFill, context)
   }
 
+  // 5. 继承的列表样式
+  for (const props of levelProps) {
+    const solidFill = props['a:defRPr']?.['a:solidFill']
+    if (solidFill) {
+      return resolveSolidFill(solidFill, context)
+    }
+  }
+
+  return undefined
+}
+
+/**
+ * 解析文字渐变填充
+ *
+ * @description
+ * 运行属性和继承的 a:defRPr 中最近一个声明了填充的节点决定文字填充，
+ * 是 a:gradFill 时返回渐变，颜色仍按 resolveTextColor 解析作为不支持渐变时的回退。
+ */
+function resolveTextGradient(runProps: XmlObject[], context: ParsingContext): PPTXTextGradient | undefined {
+  const fillProps = runProps.find(props => props['a:solidFill'] || props['a:gradFill'])
+  const gradFill = fillProps?.['a:gradFill']
+  if (!gradFill) return undefined
+
+  const gradient = getGradientFill(gradFill, context)
+  return {
+    type: gradient.gradientType === 'linear' ? 'linear' : 'radial',
+    angle: gradient.angle || 0,
+    colors: gradient.colors,
+  }
+}
+
+/**
+ * 解析文字轮廓（a:rPr/a:ln），无填充的轮廓返回 undefined
+ */
+function resolveTextOutline(ln: XmlObject | undefined, context: ParsingContext): PPTXTextOutline | undefined {
+  if (!ln || typeof ln !== 'object' || !ln['a:solidFill']) return undefined
+
+  const w = ln['attrs']?.['w']
+  return {
+    // 未设置线宽时为 0.75 点
+    width: w ? parseInt(w, 10) * RATIO_EMUs_Points : 0.75,
+    color: resolveSolidFill(ln['a:solidFill'], context),
+  }
+}
+
+/**
+ * 按继承顺序查找文本运行属性
+ *
+ * @param rPr - 运行属性 a:rPr 的 attrs
+ * @param defRPrs - 继承的 a:defRPr 节点（由近到远）
+ * @param name - 属性名
+ */
+function getInheritedRunAttr(rPr: Record<string, string>, defRPrs: XmlObject[], name: string): string | undefined {
+  if (rPr[name] !== undefined) return rPr[name]
+  return defRPrs.find(defRPr => defRPr['attrs']?.[name] !== undefined)?.['attrs'][name]
+}
+
+/**
+ * 解析间距节点（a:lnSpc、a:spcBef、a:spcAft）
+ *
+ * @returns 百分比（1 = 100%）或点数，未设置时返回 undefined
+ */
+function parseSpacing(node: XmlObject | undefined): { percent?: number; points?: number } | undefined {
+  const spcPct = node?.['a:spcPct']?.['attrs']?.['val']
+  if (spcPct !== undefined) return { percent: parseInt(spcPct, 10) / 100000 }
+
+  const spcPts = node?.['a:spcPts']?.['attrs']?.['val']
+  if (spcPts !== undefined) return { points: parseInt(spcPts, 10) / 100 }
+
   return undefined
 }
 
+/**
+ * 按继承顺序查找段落间距
+ *
+ * @param propsChain - a:pPr 和继承的 a:lvlNpPr 节点（由近到远）
+ * @param tag - 间距节点名
+ */
+function getInheritedSpacing(propsChain: XmlObject[], tag: string): { percent?: number; points?: number } | undefined {
+  for (const props of propsChain) {
+    const spacing = parseSpacing(props[tag])
+    if (spacing) return spacing
+  }
+  return undefined
+}
+
+/**
+ * 按继承顺序解析段落的项目符号
+ *
+ * @description
+ * 最近一个声明 a:buNone 或 a:buChar/a:buAutoNum/a:buBlip 的节点决定结果；
+ * 段落自身只有 a:buFont 时也视为项目符号。
+ *
+ * @returns 项目符号样式，没有项目符号时返回 undefined
+ */
+function resolveBullet(pPr: XmlObject | undefined, levelProps: XmlObject[]): PPTXBulletStyle | undefined {
+  for (const props of [pPr, ...levelProps]) {
+    if (!props || typeof props !== 'object') continue
+    if (props['a:buNone'] !== undefined) return undefined
+
+    const autoNum = props['a:buAutoNum']
+    if (autoNum) {
+      const startAt = autoNum['attrs']?.['startAt']
+      return {
+        autoNum: autoNum['attrs']?.['type'] || 'arabicPeriod',
+        startAt: startAt !== undefined ? parseInt(startAt, 10) : undefined,
+      }
+    }
+    if (props['a:buChar']) return { char: props['a:buChar']['attrs']?.['char'] }
+    if (props['a:buBlip']) return {}
+  }
+  return pPr?.['a:buFont'] ? {} : undefined
+}
+
 /**
  * 解析文本体
  *
+ * @description
+ * 段落和文本运行上未设置的属性（字号、粗体、对齐、间距、项目符号等）
+ * 从列表样式继承链中对应级别的 a:lvlNpPr 查找。
+ *
  * @param txBody - 文本体节点
  * @param context - 解析上下文
+ * @param listStyles - 列表样式继承链（见 getListStyleChain），默认只使用段落自身属性
  * @returns 段落数组
  */
 export function parseTextBodyToParagraphs(
   txBody: XmlObject | undefined,
-  context: ParsingContext
+  context: ParsingContext,
+  listStyles: XmlObject[] = []
 ): PPTXParagraph[] {
   if (!txBody) return []
 
@@ -108,7 +314,15 @@ export function parseTextBodyToParagraphs(
   const paragraphs = Array.isArray(pArray) ? pArray : [pArray]
 
   return paragraphs.map((p: XmlObject) => {
-    const runs: any[] = []
+    const runs: PPTXTextRun[] = []
+
+    const pPrNode = typeof p?.['a:pPr'] === 'object' ? p['a:pPr'] as XmlObject : undefined
+    const pPr = pPrNode?.['attrs']
+    const level = pPr?.['lvl'] ? parseInt(pPr['lvl'], 10) : undefined
+    const levelProps = getLevelProperties(listStyles, level)
+    const defRPrs = levelProps
+      .map(props => props['a:defRPr'])
+      .filter((defRPr): defRPr is XmlObject => !!defRPr && typeof defRPr === 'object')
 
     // 解析文本运行
     const rArray = p?.['a:r'] || []
@@ -118,25 +332,51 @@ export function parseTextBodyToParagraphs(
       const run = r as XmlObject
       const rPr = run?.['a:rPr']?.['attrs'] || {}
       const text = run?.['a:t'] || ''
+      const inherited = (name: string) => getInheritedRunAttr(rPr, defRPrs, name)
+
+      // 运行属性节点和继承的 a:defRPr（由近到远），用于查找子节点
+      const rPrNode = typeof run?.['a:rPr'] === 'object' ? run['a:rPr'] as XmlObject : undefined
+      const runProps = rPrNode ? [rPrNode, ...defRPrs] : defRPrs
+      const inheritedChild = (tag: string) => runProps.find(props => props[tag] !== undefined)?.[tag]
 
       // 解析颜色（支持多层级继承）
-      const color = resolveTextColor(run, p, txBody, context)
+      const color = resolveTextColor(run, p, txBody, context, levelProps)
+      const gradient = resolveTextGradient(runProps, context)
+      const highlight = inheritedChild('a:highlight')
+      const sz = inherited('sz')
+      const u = inherited('u')
+      const strike = inherited('strike')
+      const baseline = parsePercentage(inherited('baseline'))
+      const spc = inherited('spc')
+      const cap = inherited('cap')
 
       runs.push({
         text: String(text),
-        bold: rPr['b'] === '1',
-        italic: rPr['i'] === '1',
-        underline: rPr['u'] === 'sng' || rPr['u'] === '1',
-        strike: rPr['strike'] === 'sngStrike',
-        fontSize: rPr['sz'] ? parseInt(rPr['sz'], 10) / 100 : undefined,
-        fontName: rPr['latin'] as string | undefined,
-        color,
+        bold: isTrue(inherited('b')),
+        italic: isTrue(inherited('i')),
+        underline: !!u && u !== 'none',
+        underlineStyle: u ? UNDERLINE_STYLES[u] : undefined,
+        strike: strike === 'sngStrike' || strike === 'dblStrike',
+        doubleStrike: strike === 'dblStrike' || undefined,
+        fontSize: sz ? parseInt(sz, 10) / 100 : undefined,
+        fontName: resolveRunFont(runProps, String(text), context, [inherited('lang'), inherited('altLang')]),
+        color: color ?? gradient?.colors[0]?.color,
+        gradient,
+        outline: resolveTextOutline(inheritedChild('a:ln'), context),
+        highlight: highlight && typeof highlight === 'object' ? resolveSolidFill(highlight, context) : undefined,
+        baseline: baseline || undefined,
+        characterSpacing: spc ? parseInt(spc, 10) / 100 : undefined,
+        caps: cap === 'all' || cap === 'small' ? cap : undefined,
+        link: resolveHyperlink(run?.['a:rPr']?.['a:hlinkClick'], context),
       })
     }
 
     // 解析段落属性
-    const pPr = p?.['a:pPr']?.['attrs']
-    const algn = pPr?.['algn']
+    const inheritedAttr = (name: string): string | undefined =>
+      pPr?.[name] ?? levelProps.find(props => props['attrs']?.[name] !== undefined)?.['attrs'][name]
+    const algn = inheritedAttr('algn')
+    const marL = inheritedAttr('marL')
+    const indent = inheritedAttr('indent')
 
     let align: 'left' | 'center' | 'right' | 'justify' | undefined
     switch (algn) {
@@ -155,13 +395,85 @@ export function parseTextBodyToParagraphs(
         break
     }
 
-    const bullet = !!(p?.['a:pPr']?.['a:buFont'] || p?.['a:pPr']?.['a:buChar'] || p?.['a:pPr']?.['a:buAutoNum'])
-    const level = pPr?.['lvl'] ? parseInt(pPr['lvl'], 10) : undefined
+    const bulletStyle = resolveBullet(pPrNode, levelProps)
+
+    // 解析段落间距
+    const propsChain = pPrNode ? [pPrNode, ...levelProps] : levelProps
+    const lineSpacing = getInheritedSpacing(propsChain, 'a:lnSpc')
+    const spaceBefore = getInheritedSpacing(propsChain, 'a:spcBef')
+    const spaceAfter = getInheritedSpacing(propsChain, 'a:spcAft')
 
-    return { runs, align, bullet, level }
+    return {
+      runs,
+      align,
+      bullet: !!bulletStyle,
+      bulletStyle,
+      level,
+      marginLeft: marL !== undefined ? parseInt(marL, 10) * RATIO_EMUs_Points : undefined,
+      indent: indent !== undefined ? parseInt(indent, 10) * RATIO_EMUs_Points : undefined,
+      lineHeight: lineSpacing?.percent,
+      lineHeightPoints: lineSpacing?.points,
+      spaceBefore: spaceBefore?.points,
+      spaceBeforePercent: spaceBefore?.percent,
+      spaceAfter: spaceAfter?.points,
+      spaceAfterPercent: spaceAfter?.percent,
+    }
   })
 }
 
+/**
+ * 解析百分比属性，支持 ST_Percentage 的千分之一百分比（62500）和带 % 的写法（62.5%）
+ */
+function parsePercentage(value: string | undefined): number | undefined {
+  if (value === undefined) return undefined
+  return value.endsWith('%') ? parseFloat(value) / 100 : parseInt(value, 10) / 100000
+}
+
+/**
+ * 解析文本体属性
+ *
+ * @description
+ * 包括垂直对齐、内边距、竖排、文字旋转和 normAutofit 的缩放比例。
+ * PowerPoint 保存时已计算好 fontScale 和 lnSpcReduction，转换时按比例缩小字号和行距即可；
+ * spAutoFit 不需要处理，保存时 xfrm 中的形状尺寸已按文本调整。
+ *
+ * @param bodyPr - 合并继承后的 a:bodyPr 节点（见 resolveBodyProperties）
+ */
+function parseBodyProperties(bodyPr: XmlObject): PPTXBodyProperties {
+  const attrs = bodyPr['attrs'] || {}
+  const inset = (name: string, fallback: number) => attrs[name] !== undefined ? parseInt(attrs[name], 10) : fallback
+  const normAutofit = bodyPr['a:normAutofit']?.['attrs'] || {}
+
+  return {
+    verticalAlign: VERTICAL_ALIGN_MAP[attrs['anchor']],
+    insets: {
+      left: inset('lIns', DEFAULT_INSETS.left),
+      top: inset('tIns', DEFAULT_INSETS.top),
+      right: inset('rIns', DEFAULT_INSETS.right),
+      bottom: inset('bIns', DEFAULT_INSETS.bottom),
+    },
+    vertical: VERTICAL_TEXT_TYPES.includes(attrs['vert']) || undefined,
+    textRotation: TEXT_ROTATION_MAP[attrs['vert']],
+    fontScale: parsePercentage(normAutofit['fontScale']),
+    lineSpacingReduction: parsePercentage(normAutofit['lnSpcReduction']),
+  }
+}
+
+/**
+ * 判断形状是否有可见的外形（填充、边框或非矩形几何）
+ *
+ * @description
+ * 有外形的形状即使包含文本也作为形状输出（文本放入形状内），
+ * 否则外形会丢失，如 SmartArt 中带文字的色块。
+ */
+function hasVisibleGeometry(spPr: XmlObject | undefined): boolean {
+  if (!spPr || typeof spPr !== 'object') return false
+  if (spPr['a:solidFill'] || spPr['a:gradFill'] || spPr['a:blipFill'] || spPr['a:custGeom']) return true
+  if (spPr['a:ln'] && spPr['a:ln']['a:noFill'] === undefined) return true
+  const prst = spPr['a:prstGeom']?.['attrs']?.['prst']
+  return !!prst && prst !== 'rect'
+}
+
 /**
  * 解析形状元素
  *
@@ -184,51 +496,60 @@ export function parseShape(
   const spPr = shape['p:spPr']
   const txBody = shape['p:txBody']
 
-  const transform = parseTransform(spPr)
+  const transform = parseTransform(resolvePlaceholderSpPr(shape, context))
   const cNvPr = nvSpPr?.['p:cNvPr']?.['attrs']
   const id = cNvPr?.['id'] || uuidv4()
   const name = cNvPr?.['name'] as string | undefined
 
+  // 包含公式（a14:m）的文本体整体转换为 LaTeX 公式
+  if (txBody && containsMath(txBody['a:p'])) {
+    const mathFill = findMathRunProperties(txBody['a:p'])?.['a:solidFill']
+    return {
+      type: 'latex',
+      id: String(id),
+      transform,
+      name,
+      latex: textBodyToLatex(txBody),
+      color: mathFill ? resolveSolidFill(mathFill, context) : undefined,
+    }
+  }
+
   // 检查是否有实际文本内容
   let paragraphs: PPTXParagraph[] = []
   let hasActualText = false
+  let bodyProperties: PPTXBodyProperties = {}
 
   if (txBody) {
-    paragraphs = parseTextBodyToParagraphs(txBody, context)
+    paragraphs = parseTextBodyToParagraphs(txBody, context, getListStyleChain(shape, context))
     hasActualText = paragraphs.some(p => p.runs.some(run => run.text && run.text.trim().length > 0))
+    bodyProperties = parseBodyProperties(resolveBodyProperties(shape, context))
   }
 
-  // 如果有实际文本内容，返回文本元素
-  if (hasActualText) {
+  // 如果有实际文本内容且没有可见外形，返回文本元素
+  if (hasActualText && !hasVisibleGeometry(spPr)) {
     return {
       type: 'text',
       id: String(id),
       transform,
       name,
       paragraphs,
+      ...bodyProperties,
     }
   }
 
-  // 形状
+  // 没有文本的占位符在放映时不显示，除非自身设置了填充或边框
+  if (getPlaceholder(shape) && !spPr?.['a:solidFill'] && !spPr?.['a:gradFill'] && !spPr?.['a:ln']) {
+    return null
+  }
+
+  // 形状：自定义几何优先，其次预设形状，都没有时按矩形处理
+  const customPaths = parseCustomGeometry(spPr?.['a:custGeom'], transform.width, transform.height)
   const prstGeom = spPr?.['a:prstGeom']?.['attrs']?.['prst'] as string
-  const shapeType = prstGeom || 'rect'
+  const shapeType = customPaths.length > 0 ? undefined : prstGeom || 'rect'
 
   // 解析 avLst 中的调整值
-  const avLst = spPr?.['a:prstGeom']?.['a:avLst']
-  const gdList = avLst?.['a:gd']
-  const gdArray = Array.isArray(gdList) ? gdList : gdList ? [gdList] : []
-
-  let adj: number | undefined
-  for (const gd of gdArray) {
-    const gdAttrs = gd?.['attrs']
-    if (gdAttrs?.['name'] === 'adj') {
-      const fmla = gdAttrs['fmla'] as string
-      if (fmla?.startsWith('val ')) {
-        adj = parseInt(fmla.substring(4), 10)
-      }
-      break
-    }
-  }
+  const adjustValues = parseAdjustValues(spPr?.['a:prstGeom']?.['a:avLst'])
+  const adj = adjustValues['adj']
 
   // 解析填充（带透明度）
   let fill: string | undefined
@@ -254,6 +575,9 @@ export function parseShape(
     }
   }
 
+  const widthPt = transform.width * RATIO_EMUs_Points
+  const heightPt = transform.height * RATIO_EMUs_Points
+
   return {
     type: 'shape',
     id: String(id),
@@ -261,11 +585,17 @@ export function parseShape(
     name,
     shapeType,
     adj,
+    adjustValues: Object.keys(adjustValues).length > 0 ? adjustValues : undefined,
+    customPaths: customPaths.length > 0 ? customPaths : undefined,
     fill,
     fillOpacity,
     outline,
-    path: generateShapePath(shapeType, transform.width * RATIO_EMUs_Points, transform.height * RATIO_EMUs_Points, adj),
+    paragraphs: hasActualText ? paragraphs : undefined,
+    ...(hasActualText ? bodyProperties : {}),
+    path: shapeType
+      ? generateShapePath(shapeType, widthPt, heightPt, adj, adjustValues)
+      : generateCustomPath(customPaths, widthPt, heightPt),
   }
 }
 
-export default { parseShape, parseTransform, parseTextBodyToParagraphs }
+export default { parseShape, parseTransform, parseTextBodyToParagraphs, parseAdjustValues }
@@ -0,0 +1,104 @@
+/**
+ * 超链接解析器
+ *
+ * @module modules/conversion/services/parser/hyperlink
+ * @description 解析元素和文本运行上的 a:hlinkClick 节点。
+ * 外部链接通过关系文件解析为 URL；幻灯片跳转（ppaction://hlinksldjump）
+ * 解析为转换后的幻灯片 id。
+ */
+
+import type { PPTXLink } from '../../types/pptx.js'
+import type { XmlObject, ParsingContext } from '../../context/parsing-context.js'
+import { isSafeUrl } from '../../generators/html-sanitizer.js'
+
+/** 跳转到指定幻灯片 */
+const ACTION_SLIDE_JUMP = 'ppaction://hlinksldjump'
+/** 跳转到相对位置的幻灯片（下一张、上一张、第一张、最后一张） */
+const ACTION_SHOW_JUMP = 'ppaction://hlinkshowjump'
+
+/**
+ * 解析相对跳转的目标幻灯片 id
+ *
+ * @param action - 动作字符串，如 ppaction://hlinkshowjump?jump=nextslide
+ * @param context - 解析上下文
+ * @returns 目标幻灯片 id，无法解析时返回 undefined
+ */
+function resolveShowJump(action: string, context: ParsingContext): string | undefined {
+  const slideIds = Object.values(context.slideIds)
+  const current = context.slideIndex - 1
+  const jump = action.match(/jump=(\w+)/)?.[1]
+
+  switch (jump) {
+    case 'nextslide':
+      return slideIds[current + 1]
+    case 'previousslide':
+      return slideIds[current - 1]
+    case 'firstslide':
+      return slideIds[0]
+    case 'lastslide':
+      return slideIds[slideIds.length - 1]
+    default:
+      return undefined
+  }
+}
+
+/**
+ * 解析超链接
+ *
+ * @description
+ * 仅处理网页链接和幻灯片跳转，宏、程序、OLE 动作等在 PPTist 中没有对应功能，会被忽略。
+ * javascript: 等不安全的网页链接同样忽略，元素和文本运行的链接都经过这里检查。
+ * 幻灯片关系的 Target 相对于 ppt/slides/ 目录（如 slide3.xml）。
+ *
+ * @param hlinkClick - a:hlinkClick 节点
+ * @param context - 解析上下文
+ * @param resources - 超链接所在部件的资源映射，默认为当前幻灯片
+ * @returns 链接信息，不支持或无法解析时返回 undefined
+ */
+export function resolveHyperlink(
+  hlinkClick: XmlObject | undefined,
+  context: ParsingContext,
+  resources = context.slideResObj
+): PPTXLink | undefined {
+  const attrs = hlinkClick?.['attrs']
+  if (!attrs) return undefined
+
+  const action = attrs['action'] as string | undefined
+  const rId = attrs['r:id'] as string | undefined
+  const resource = rId ? resources[rId] : undefined
+
+  if (action?.startsWith(ACTION_SLIDE_JUMP)) {
+    if (!resource) return undefined
+    const filename = resource.target.startsWith('ppt/') ? resource.target : `ppt/slides/${resource.target}`
+    const slideId = context.slideIds[filename]
+    return slideId ? { type: 'slide', target: slideId } : undefined
+  }
+
+  if (action?.startsWith(ACTION_SHOW_JUMP)) {
+    const slideId = resolveShowJump(action, context)
+    return slideId ? { type: 'slide', target: slideId } : undefined
+  }
+
+  if (action) return undefined
+
+  if (resource?.type === 'hyperlink' && isSafeUrl(resource.target)) {
+    return { type: 'web', target: resource.target }
+  }
+
+  return undefined
+}
+
+/**
+ * 获取元素（sp、pic、cxnSp、graphicFrame、grpSp）上的超链接
+ *
+ * @param node - 元素 XML 节点
+ * @param context - 解析上下文
+ * @returns 链接信息
+ */
+export function getElementHyperlink(node: XmlObject, context: ParsingContext): PPTXLink | undefined {
+  const nvKey = Object.keys(node).find(key => key.startsWith('p:nv'))
+  const cNvPr = nvKey ? node[nvKey]?.['p:cNvPr'] : undefined
+  return resolveHyperlink(cNvPr?.['a:hlinkClick'], context)
+}
+
+export default { resolveHyperlink, getElementHyperlink }
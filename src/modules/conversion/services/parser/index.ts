@@ -21,6 +21,8 @@ import type {
   PPTXPresentation,
   PPTXSlide,
   PPTXElement,
+  PPTXImageElement,
+  PPTXEmbeddedFont,
 } from '../../types/pptx.js'
 import type {
   XmlObject,
@@ -33,15 +35,21 @@ import { resolveSlideBackgroundFill, type FillStyle } from '../../resolvers/fill
 import { Errors } from '../../../../utils/errors.js'
 
 // 导入拆分的模块
-import { readXmlFile, getMimeType } from './utils.js'
+import { readXmlFile, getMimeType, getOrderedChildren, prefixMediaRIds, DIAGRAM_RID_PREFIX } from './utils.js'
 import { getContentTypes } from './content-types.js'
-import { getSlideInfo } from './slide-info.js'
+import { getSlideInfo, getSlideIdList, getSections, getEmbeddedFontList, type SlideIdEntry } from './slide-info.js'
 import { getTheme } from './theme.js'
 import { parseRelationships, parseSlideRels } from './relationships.js'
+import { parseTiming, parseMediaTiming } from './timing.js'
+import { parseTransition } from './transition.js'
+import { getElementHyperlink } from './hyperlink.js'
+import { getPlaceholder } from './placeholder.js'
 import { parseShape, parseTextBodyToParagraphs } from './elements/shape.js'
 import { parsePicture } from './elements/picture.js'
 import { parseGraphicFrame } from './elements/graphic-frame.js'
 import { parseConnector } from './elements/connector.js'
+import { parseGroup } from './elements/group.js'
+import { parseDiagram } from './elements/diagram.js'
 
 // 重新导出子模块
 export * from './utils.js'
@@ -51,6 +59,17 @@ export * from './theme.js'
 export * from './relationships.js'
 export * from './elements/index.js'
 
+/**
+ * 获取 XML 文档的根节点（跳过 ?xml 声明）
+ *
+ * @param content - XML 内容
+ * @returns 根节点，如 p:sld、p:sldLayout、p:sldMaster
+ */
+function getDocumentRoot(content: XmlObject): XmlObject | undefined {
+  const rootKey = Object.keys(content).find(key => !key.startsWith('?'))
+  return rootKey ? content[rootKey] : undefined
+}
+
 /**
  * 索引节点（用于占位符查找）
  *
@@ -58,8 +77,7 @@ export * from './elements/index.js'
  * @returns 索引表
  */
 function indexNodes(content: XmlObject): IndexTables {
-  const keys = Object.keys(content)
-  const spTreeNode = content[keys[0]]?.['p:cSld']?.['p:spTree']
+  const spTreeNode = getDocumentRoot(content)?.['p:cSld']?.['p:spTree']
 
   const idTable: Record<string, XmlObject> = {}
   const idxTable: Record<string, XmlObject> = {}
@@ -135,13 +153,13 @@ function extractNotesText(notesContent: XmlObject): string {
  * @param zip - JSZip 实例
  * @param slideFilename - 幻灯片文件名
  * @param baseContext - 基础上下文
- * @returns 包含上下文和备注文件名的对象
+ * @returns 包含上下文、备注、布局和母版文件名的对象
  */
 async function buildSlideContext(
   zip: JSZip,
   slideFilename: string,
   baseContext: ParsingContext
-): Promise<{ context: ParsingContext; noteFilename?: string }> {
+): Promise<{ context: ParsingContext; noteFilename?: string; layoutFilename?: string; masterFilename?: string }> {
   // 解析幻灯片关系
   const slideName = slideFilename.split('/').pop()?.replace('.xml', '') || 'slide1'
   const relsPath = `ppt/slides/_rels/${slideName}.xml.rels`
@@ -187,6 +205,8 @@ async function buildSlideContext(
           slideContent,
         },
         noteFilename,
+        layoutFilename,
+        masterFilename,
       }
     }
   }
@@ -204,6 +224,7 @@ async function buildSlideContext(
       slideContent,
     },
     noteFilename,
+    layoutFilename,
   }
 }
 
@@ -218,7 +239,7 @@ function convertFillToBackground(fill: FillStyle): PPTXSlide['background'] {
     case 'solid':
       return { type: 'solid', color: fill.color }
     case 'image':
-      return { type: 'image', imageRId: fill.src }
+      return { type: 'image', imageSrc: fill.src, imageTile: fill.tile }
     case 'gradient':
       return {
         type: 'gradient',
@@ -238,65 +259,257 @@ function convertFillToBackground(fill: FillStyle): PPTXSlide['background'] {
   }
 }
 
+/** 形状树中可解析的元素节点 */
+const SHAPE_TREE_TAGS = ['p:sp', 'p:pic', 'p:graphicFrame', 'p:cxnSp', 'p:grpSp', 'mc:AlternateContent']
+
+/** 可以解析的 mc:Choice 扩展命名空间（a14 公式、p14/p15 媒体等） */
+const SUPPORTED_CHOICE_NAMESPACES = ['a14', 'p14', 'p15']
+
+/**
+ * 选择 mc:AlternateContent 中可解析的内容
+ *
+ * @description
+ * Requires 中的命名空间都能解析时使用 mc:Choice（如 a14 公式），
+ * 否则使用 mc:Fallback（通常是旧版本可识别的图片）。
+ */
+function selectAlternateContent(alternate: XmlObject): XmlObject {
+  const choices: XmlObject[] = Array.isArray(alternate['mc:Choice']) ? alternate['mc:Choice'] : [alternate['mc:Choice']]
+  const choice = choices.find(item => {
+    const requires = String(item?.['attrs']?.['Requires'] || '').split(/\s+/).filter(Boolean)
+    return requires.length > 0 && requires.every(ns => SUPPORTED_CHOICE_NAMESPACES.includes(ns))
+  })
+  const selected = choice || alternate['mc:Fallback']
+  return selected && typeof selected === 'object' ? selected : {}
+}
+
+/**
+ * 为 mc:Choice 中的图片关联 mc:Fallback 中的图片
+ *
+ * @description
+ * Choice 中的 EMF/WMF/TIFF 图片无法转码时改用 Fallback 中（通常为 PNG）的图片，
+ * 两侧的图片按出现顺序一一对应。
+ */
+function attachFallbackImages(elements: PPTXElement[], alternate: XmlObject, selected: XmlObject): void {
+  const fallback = alternate['mc:Fallback']
+  if (!fallback || typeof fallback !== 'object' || selected === fallback) return
+
+  const fallbackRIds = getOrderedChildren(fallback, ['p:pic'])
+    .map(({ node }) => node?.['p:blipFill']?.['a:blip']?.['attrs']?.['r:embed'])
+  const images = elements.filter((element): element is PPTXImageElement => element.type === 'image')
+  images.forEach((image, index) => {
+    const rId = fallbackRIds[index]
+    if (rId && rId !== image.rId) image.fallbackRId = rId
+  })
+}
+
+/**
+ * 解析形状树
+ *
+ * @description
+ * 按叠放顺序解析 spTree（或 grpSp）的所有子元素，
+ * 组合形状和 SmartArt 会递归展开为带 groupId 的子元素。
+ *
+ * @param tree - spTree 或 grpSp 节点
+ * @param context - 解析上下文
+ * @returns 解析后的元素数组
+ */
+async function parseShapeTree(tree: XmlObject, context: ParsingContext): Promise<PPTXElement[]> {
+  const elements: PPTXElement[] = []
+
+  for (const { tag, node } of getOrderedChildren(tree, SHAPE_TREE_TAGS)) {
+    let element: PPTXElement | null = null
+
+    switch (tag) {
+      case 'p:sp':
+        element = parseShape(node, context)
+        break
+      case 'p:pic':
+        element = parsePicture(node, context)
+        break
+      case 'p:graphicFrame': {
+        // SmartArt 优先使用预先排版的绘图部件，展开为组合
+        const diagram = await parseDiagram(node, context, parseShapeTree)
+        if (diagram) {
+          elements.push(...diagram)
+          break
+        }
+        element = await parseGraphicFrame(node, context)
+        break
+      }
+      case 'p:cxnSp':
+        element = parseConnector(node, context)
+        break
+      case 'p:grpSp': {
+        // 组合上的链接作用于没有自身链接的子元素
+        const groupLink = getElementHyperlink(node, context)
+        const children = await parseGroup(node, context, parseShapeTree)
+        elements.push(...children.map(child => (groupLink && !child.link ? { ...child, link: groupLink } : child)))
+        break
+      }
+      case 'mc:AlternateContent': {
+        const selected = selectAlternateContent(node)
+        const children = await parseShapeTree(selected, context)
+        attachFallbackImages(children, node, selected)
+        elements.push(...children)
+        break
+      }
+    }
+
+    if (element) {
+      const link = getElementHyperlink(node, context)
+      if (link) element.link = link
+      elements.push(element)
+    }
+  }
+
+  return elements
+}
+
+/**
+ * 布局或母版部件
+ */
+interface InheritedPart {
+  source: 'layout' | 'master'
+  filename: string
+}
+
+/**
+ * 判断 showMasterSp 属性是否隐藏了上一级的形状
+ */
+function hidesMasterShapes(root: XmlObject | undefined): boolean {
+  const showMasterSp = root?.['attrs']?.['showMasterSp']
+  return showMasterSp === '0' || showMasterSp === 'false'
+}
+
+/**
+ * 判断幻灯片是否在放映时隐藏（show="0" 或 show="false"）
+ */
+function isHiddenSlide(root: XmlObject | undefined): boolean {
+  const show = root?.['attrs']?.['show']
+  return show === '0' || show === 'false'
+}
+
+/**
+ * 移除形状树中的占位符
+ */
+function removePlaceholders(tree: XmlObject): XmlObject {
+  const result: XmlObject = { ...tree }
+  for (const tag of SHAPE_TREE_TAGS) {
+    if (!tree[tag]) continue
+    const nodes: XmlObject[] = Array.isArray(tree[tag]) ? tree[tag] : [tree[tag]]
+    result[tag] = nodes.filter(node => !getPlaceholder(node))
+  }
+  return result
+}
+
+/**
+ * 解析布局或母版上的非占位符形状
+ *
+ * @description
+ * 布局和母版中的装饰形状（徽标、页脚色条、背景图案等）显示在每张使用它们的幻灯片上；
+ * 占位符只作为幻灯片占位符的继承来源，不单独显示。
+ * 媒体元素的 rId 属于布局或母版的关系文件，加上来源前缀（如 layout:rId2）以免与幻灯片的 rId 冲突。
+ *
+ * @param source - 形状来源
+ * @param context - 幻灯片解析上下文
+ * @returns 标记了来源的元素数组
+ */
+async function parseInheritedShapes(source: InheritedPart['source'], context: ParsingContext): Promise<PPTXElement[]> {
+  const content = source === 'layout' ? context.slideLayoutContent : context.slideMasterContent
+  const spTree = getDocumentRoot(content)?.['p:cSld']?.['p:spTree']
+  if (!spTree) return []
+
+  // 超链接等关系引用使用布局或母版自身的关系文件
+  const resources = source === 'layout' ? context.layoutResObj : context.masterResObj
+  const elements = await parseShapeTree(removePlaceholders(spTree), { ...context, slideResObj: resources })
+
+  return elements.map(element => ({ ...prefixMediaRIds(element, source), inheritedFrom: source }))
+}
+
+/**
+ * 收集元素中媒体 rId 引用的 SmartArt 绘图部件
+ *
+ * @description
+ * 绘图部件中的媒体 rId 形如 diagram:ppt/diagrams/drawing1.xml:rId1，
+ * 这些部件的关系文件需要加入幻灯片的媒体映射。
+ */
+function getDiagramParts(elements: PPTXElement[]): string[] {
+  const parts = new Set<string>()
+  for (const element of elements) {
+    const { rId, fallbackRId, posterRId } = element as Partial<Record<'rId' | 'fallbackRId' | 'posterRId', string>>
+    for (const id of [rId, fallbackRId, posterRId]) {
+      if (id?.startsWith(DIAGRAM_RID_PREFIX)) {
+        parts.add(id.slice(DIAGRAM_RID_PREFIX.length, id.lastIndexOf(':')))
+      }
+    }
+  }
+  return [...parts]
+}
+
 /**
  * 解析单张幻灯片
  *
+ * @description
+ * 母版和布局上的非占位符形状位于幻灯片自身元素的下方，
+ * 幻灯片的 showMasterSp="0" 隐藏两者，布局的 showMasterSp="0" 只隐藏母版形状。
+ *
  * @param zip - JSZip 实例
  * @param slideFilename - 幻灯片文件名
  * @param slideIndex - 幻灯片索引
  * @param baseContext - 基础上下文
- * @returns 解析后的幻灯片
+ * @returns 解析后的幻灯片，以及提供了形状的布局和母版、SmartArt 绘图部件（用于解析其中的媒体）
  */
 async function parseSingleSlide(
   zip: JSZip,
   slideFilename: string,
   slideIndex: number,
   baseContext: ParsingContext
-): Promise<PPTXSlide> {
+): Promise<{ slide: PPTXSlide; inheritedParts: InheritedPart[]; diagramParts: string[] }> {
   // 构建幻灯片上下文
-  const { context, noteFilename } = await buildSlideContext(zip, slideFilename, baseContext)
+  const { context, noteFilename, layoutFilename, masterFilename } = await buildSlideContext(zip, slideFilename, baseContext)
   context.slideIndex = slideIndex
 
+  const hidden = isHiddenSlide(context.slideContent?.['p:sld']) || undefined
+
   // 获取幻灯片元素树
   const spTree = context.slideContent?.['p:sld']?.['p:cSld']?.['p:spTree']
   if (!spTree) {
-    return { id: `slide-${slideIndex}`, elements: [] }
+    return { slide: { id: `slide-${slideIndex}`, elements: [], hidden }, inheritedParts: [], diagramParts: [] }
   }
 
-  const elements: PPTXElement[] = []
-
-  // 按原始顺序遍历 spTree 的所有子元素
-  for (const key of Object.keys(spTree)) {
-    // 跳过非 p: 命名空间的元素
-    if (!key.startsWith('p:')) continue
-
-    // 跳过非元素节点
-    if (key === 'p:nvGrpSpPr' || key === 'p:grpSpPr') continue
-
-    const items = Array.isArray(spTree[key]) ? spTree[key] : [spTree[key]]
-
-    for (const item of items) {
-      let element: PPTXElement | null = null
-
-      switch (key) {
-        case 'p:sp':
-          element = parseShape(item as XmlObject, context)
-          break
-        case 'p:pic':
-          element = parsePicture(item as XmlObject, context)
-          break
-        case 'p:graphicFrame':
-          element = await parseGraphicFrame(item as XmlObject, context)
-          break
-        case 'p:cxnSp':
-          element = parseConnector(item as XmlObject, context)
-          break
-      }
+  // 母版和布局上的装饰形状
+  const inheritedParts: InheritedPart[] = []
+  if (!hidesMasterShapes(context.slideContent?.['p:sld'])) {
+    if (masterFilename && !hidesMasterShapes(getDocumentRoot(context.slideLayoutContent))) {
+      inheritedParts.push({ source: 'master', filename: masterFilename })
+    }
+    if (layoutFilename) {
+      inheritedParts.push({ source: 'layout', filename: layoutFilename })
+    }
+  }
 
-      if (element) elements.push(element)
+  const elements: PPTXElement[] = []
+  for (const part of inheritedParts) {
+    elements.push(...await parseInheritedShapes(part.source, context))
+  }
+  const slideElements = await parseShapeTree(spTree, context)
+  elements.push(...slideElements)
+
+  // 解析动画
+  const timing = context.slideContent?.['p:sld']?.['p:timing']
+  const animations = parseTiming(timing)
+
+  // 视频/音频的自动播放和循环设置记录在时间线中
+  const mediaTiming = parseMediaTiming(timing)
+  for (const element of slideElements) {
+    if ((element.type === 'video' || element.type === 'audio') && mediaTiming.has(element.id)) {
+      Object.assign(element, mediaTiming.get(element.id))
     }
   }
 
+  // 解析切换效果
+  const transition = parseTransition(context.slideContent?.['p:sld'])
+
   // 解析幻灯片背景
   const backgroundFill = await resolveSlideBackgroundFill(context)
   const background = convertFillToBackground(backgroundFill)
@@ -313,12 +526,46 @@ async function parseSingleSlide(
     }
   }
 
-  return {
+  const slide: PPTXSlide = {
     id: `slide-${slideIndex}`,
     elements,
     background,
     notes,
+    animations: animations.length > 0 ? animations : undefined,
+    transition,
+    hidden,
+  }
+
+  return { slide, inheritedParts, diagramParts: getDiagramParts(elements) }
+}
+
+/** 幻灯片文件名格式 */
+const SLIDE_FILE_PATTERN = /^ppt\/slides\/slide\d+\.xml$/
+
+/**
+ * 获取按放映顺序排列的幻灯片
+ *
+ * @description
+ * 放映顺序以 presentation.xml 的 p:sldIdLst 为准，幻灯片在 PowerPoint 中重新排序后，
+ * 文件编号与放映顺序不再一致。缺少 sldIdLst 的文件退回到按编号排序的
+ * [Content_Types].xml Override 列表，并补充未在其中登记、但存在于包内的幻灯片文件。
+ *
+ * @param zip - JSZip 实例
+ * @returns 幻灯片 id 列表（sldId 可能缺失）
+ */
+async function getOrderedSlides(zip: JSZip): Promise<SlideIdEntry[]> {
+  const slideIdList = (await getSlideIdList(zip)).filter(entry => entry.filename && zip.file(entry.filename))
+  if (slideIdList.length > 0) return slideIdList
+
+  const { slides: contentTypeSlides } = await getContentTypes(zip)
+  const slideFiles = new Set(contentTypeSlides.filter(filename => zip.file(filename)))
+  for (const path of Object.keys(zip.files)) {
+    if (SLIDE_FILE_PATTERN.test(path)) slideFiles.add(path)
   }
+
+  return [...slideFiles]
+    .sort((a, b) => parseInt(a.replace(/\D/g, ''), 10) - parseInt(b.replace(/\D/g, ''), 10))
+    .map(filename => ({ filename }))
 }
 
 /**
@@ -330,7 +577,7 @@ async function parseSingleSlide(
  * 2. 验证文件结构（检查 presentation.xml）
  * 3. 提取幻灯片信息（尺寸、主题等）
  * 4. 解析每张幻灯片的元素（形状、图片、图表等）
- * 5. 提取媒体文件（图片、视频、音频）
+ * 5. 提取媒体文件（图片、视频、音频）和嵌入字体
  *
  * @param buffer - PPTX 文件的二进制数据
  * @returns 解析后的演示文稿对象，包含幻灯片、媒体和尺寸信息
@@ -368,17 +615,24 @@ export async function parsePPTX(buffer: Buffer): Promise<PPTXPresentation> {
   const { width, height, defaultTextStyle } = await getSlideInfo(zip)
 
   // 获取主题
-  const { themeContent, themeColors } = await getTheme(zip)
+  const { themeContent, themeColors, themePath } = await getTheme(zip)
+  // 主题背景样式中的图片使用主题自身的关系文件
+  const themeResObj = themePath
+    ? (await parseRelationships(zip, themePath.replace(/([^/]+)$/, '_rels/$1.rels'))).resources
+    : {}
 
-  // 获取文件信息
-  const { slides: slideFiles } = await getContentTypes(zip)
+  // 获取幻灯片放映顺序
+  const orderedSlides = await getOrderedSlides(zip)
+  const slideFiles = orderedSlides.map(entry => entry.filename as string)
 
   // 创建基础上下文
   const baseContext: ParsingContext = {
     ...createDefaultParsingContext(zip),
     themeContent,
     themeColors,
+    themeResObj,
     defaultTextStyle,
+    slideIds: Object.fromEntries(slideFiles.map((filename, i) => [filename, `slide-${i + 1}`])),
   }
 
   // 提取媒体文件
@@ -403,12 +657,13 @@ export async function parsePPTX(buffer: Buffer): Promise<PPTXPresentation> {
     const slideNum = i + 1
 
     // 解析幻灯片
-    const slide = await parseSingleSlide(zip, slideFilename, slideNum, baseContext)
+    const { slide, inheritedParts, diagramParts } = await parseSingleSlide(zip, slideFilename, slideNum, baseContext)
+    if (orderedSlides[i].id) slide.sldId = orderedSlides[i].id
     slides.push(slide)
 
     // 为每个幻灯片创建独立的 rId -> media 映射
     const slideRIdToMedia = new Map<string, { data: Buffer; contentType: string }>()
-    const rIdToTarget = await parseSlideRels(zip, slideNum)
+    const rIdToTarget = await parseSlideRels(zip, slideFilename)
     for (const [rId, target] of rIdToTarget) {
       const mediaId = target.replace('media/', '')
       const mediaData = media.get(mediaId)
@@ -416,14 +671,54 @@ export async function parsePPTX(buffer: Buffer): Promise<PPTXPresentation> {
         slideRIdToMedia.set(rId, mediaData)
       }
     }
+
+    // 布局和母版形状引用的媒体使用带来源前缀的 rId
+    for (const part of inheritedParts) {
+      for (const [rId, target] of await parseSlideRels(zip, part.filename)) {
+        const mediaData = media.get(target.replace('media/', ''))
+        if (mediaData) {
+          slideRIdToMedia.set(`${part.source}:${rId}`, mediaData)
+        }
+      }
+    }
+
+    // SmartArt 绘图部件引用的媒体使用带部件前缀的 rId
+    for (const part of diagramParts) {
+      for (const [rId, target] of await parseSlideRels(zip, part)) {
+        const mediaData = media.get(target.replace('media/', ''))
+        if (mediaData) {
+          slideRIdToMedia.set(`${DIAGRAM_RID_PREFIX}${part}:${rId}`, mediaData)
+        }
+      }
+    }
     slideMediaMaps.push(slideRIdToMedia)
   }
 
+  // 在每个节的第一张幻灯片上设置节标记
+  const sections = await getSections(zip)
+  for (const section of sections) {
+    const sectionSlideIds = new Set(section.slideIds)
+    const index = slides.findIndex(slide => slide.sldId && sectionSlideIds.has(slide.sldId))
+    if (index >= 0) {
+      slides[index].sectionTag = { id: section.id, title: section.title }
+    }
+  }
+
+  // 读取嵌入字体文件，解码在转换阶段进行
+  const embeddedFonts: PPTXEmbeddedFont[] = []
+  for (const { filename, ...font } of await getEmbeddedFontList(zip)) {
+    const file = zip.file(filename)
+    if (file) {
+      embeddedFonts.push({ ...font, data: await file.async('nodebuffer') })
+    }
+  }
+
   return {
     slides,
     slideSize: { width, height },
     media,
     slideMediaMaps,
+    embeddedFonts,
   }
 }
 
@@ -0,0 +1,197 @@
+/**
+ * 占位符继承解析器
+ *
+ * @module modules/conversion/services/parser/placeholder
+ * @description 解析占位符（p:ph）从布局和母版继承的属性。
+ * 幻灯片上的占位符通常只保存文本，位置、尺寸、文本体属性和文本样式
+ * 按 幻灯片 → 布局 → 母版 的顺序查找。
+ */
+
+import type { XmlObject, ParsingContext, IndexTables } from '../../context/parsing-context.js'
+
+/**
+ * 占位符信息
+ */
+export interface PlaceholderInfo {
+  type?: string
+  idx?: string
+}
+
+/** 母版中用于查找的占位符类型，布局特有的类型映射到母版的通用类型 */
+const MASTER_TYPE_MAP: Record<string, string> = {
+  ctrTitle: 'title',
+  subTitle: 'body',
+  obj: 'body',
+}
+
+/** 使用母版 titleStyle 的占位符类型 */
+const TITLE_TYPES = ['title', 'ctrTitle']
+
+/** 使用母版 bodyStyle 的占位符类型 */
+const BODY_TYPES = ['body', 'subTitle', 'obj']
+
+/** 文本体的自动调整方式（互斥） */
+const AUTOFIT_TAGS = ['a:noAutofit', 'a:normAutofit', 'a:spAutoFit']
+
+/**
+ * 获取元素的占位符信息
+ *
+ * @param node - 元素 XML 节点（sp、pic 等）
+ * @returns 占位符信息，非占位符返回 undefined
+ */
+export function getPlaceholder(node: XmlObject | undefined): PlaceholderInfo | undefined {
+  if (!node) return undefined
+  const nvKey = Object.keys(node).find(key => key.startsWith('p:nv'))
+  const ph = nvKey ? node[nvKey]?.['p:nvPr']?.['p:ph'] : undefined
+  if (!ph) return undefined
+
+  const attrs = ph['attrs'] || {}
+  return { type: attrs['type'], idx: attrs['idx'] }
+}
+
+/**
+ * 在索引表中查找占位符，优先按 idx 匹配，其次按类型匹配
+ */
+function lookupPlaceholder(tables: IndexTables | undefined, type: string | undefined, idx: string | undefined): XmlObject | undefined {
+  if (!tables) return undefined
+  if (idx !== undefined && tables.idxTable[idx]) return tables.idxTable[idx]
+  if (type) return tables.typeTable[type] || tables.typeTable[MASTER_TYPE_MAP[type]]
+  return undefined
+}
+
+/**
+ * 查找占位符在布局和母版中对应的节点
+ *
+ * @description
+ * 布局中按 idx 或类型查找；母版中的占位符一般没有 idx，按类型查找，
+ * 幻灯片未指定类型时使用布局中对应占位符的类型，都没有时视为正文（body）。
+ *
+ * @param node - 元素 XML 节点
+ * @param context - 解析上下文
+ * @returns 由近到远的继承节点（布局、母版），非占位符返回空数组
+ */
+export function findPlaceholderNodes(node: XmlObject, context: ParsingContext): XmlObject[] {
+  const placeholder = getPlaceholder(node)
+  if (!placeholder) return []
+
+  const layoutNode = lookupPlaceholder(context.slideLayoutTables, placeholder.type, placeholder.idx)
+  const masterType = placeholder.type || getPlaceholder(layoutNode)?.type || 'body'
+  const masterNode = lookupPlaceholder(context.slideMasterTables, masterType, undefined)
+
+  return [layoutNode, masterNode].filter((item): item is XmlObject => !!item)
+}
+
+/**
+ * 获取包含位置信息的形状属性
+ *
+ * @description
+ * 幻灯片上的占位符没有 a:xfrm 时，使用布局或母版中对应占位符的位置和尺寸。
+ *
+ * @param node - 元素 XML 节点
+ * @param context - 解析上下文
+ * @returns 第一个包含 a:xfrm 的 p:spPr，都没有时返回元素自身的 p:spPr
+ */
+export function resolvePlaceholderSpPr(node: XmlObject, context: ParsingContext): XmlObject | undefined {
+  const spPr = node['p:spPr']
+  if (spPr?.['a:xfrm']) return spPr
+
+  const inherited = findPlaceholderNodes(node, context).find(item => item['p:spPr']?.['a:xfrm'])
+  return inherited ? inherited['p:spPr'] : spPr
+}
+
+/**
+ * 解析继承后的文本体属性（a:bodyPr）
+ *
+ * @description
+ * 依次合并母版、布局和幻灯片上的 a:bodyPr，近处的属性覆盖远处的属性；
+ * 子节点（如 a:normAutofit）同样按就近原则合并，自动调整方式以最近一层的声明为准。
+ *
+ * @param node - 元素 XML 节点
+ * @param context - 解析上下文
+ * @returns 合并后的 a:bodyPr 节点
+ */
+export function resolveBodyProperties(node: XmlObject, context: ParsingContext): XmlObject {
+  const sources = [node, ...findPlaceholderNodes(node, context)].reverse()
+  const bodyPr: XmlObject = { attrs: {} }
+
+  for (const source of sources) {
+    const current = source['p:txBody']?.['a:bodyPr']
+    if (!current || typeof current !== 'object') continue
+
+    // 自动调整方式三选一，近的一层声明后覆盖远层的设置
+    if (AUTOFIT_TAGS.some(tag => current[tag] !== undefined)) {
+      for (const tag of AUTOFIT_TAGS) delete bodyPr[tag]
+    }
+
+    for (const [key, value] of Object.entries(current)) {
+      bodyPr[key] = key === 'attrs' ? { ...bodyPr['attrs'], ...(value as XmlObject) } : value
+    }
+  }
+
+  return bodyPr
+}
+
+/**
+ * 获取母版文本样式（p:txStyles）中适用于该元素的样式
+ *
+ * @description
+ * 标题类占位符使用 titleStyle，正文类占位符使用 bodyStyle，
+ * 其余占位符（日期、页脚、页码等）和普通形状使用 otherStyle。
+ */
+function getMasterTextStyle(node: XmlObject, context: ParsingContext): XmlObject | undefined {
+  const textStyles = context.slideMasterTextStyles
+  if (!textStyles) return undefined
+
+  const placeholder = getPlaceholder(node)
+  if (!placeholder) return textStyles['p:otherStyle']
+
+  const type = placeholder.type || 'body'
+  if (TITLE_TYPES.includes(type)) return textStyles['p:titleStyle']
+  if (BODY_TYPES.includes(type)) return textStyles['p:bodyStyle']
+  return textStyles['p:otherStyle']
+}
+
+/**
+ * 获取元素的列表样式继承链
+ *
+ * @description
+ * 顺序为幻灯片 a:lstStyle、布局和母版占位符的 a:lstStyle、母版文本样式，
+ * 查找段落或文本运行属性时按顺序取第一个有定义的值。
+ *
+ * @param node - 元素 XML 节点
+ * @param context - 解析上下文
+ * @returns 由近到远的列表样式节点（包含 a:lvl1pPr ~ a:lvl9pPr）
+ */
+export function getListStyleChain(node: XmlObject, context: ParsingContext): XmlObject[] {
+  const listStyles = [node, ...findPlaceholderNodes(node, context)]
+    .map(item => item['p:txBody']?.['a:lstStyle'])
+    .filter((item): item is XmlObject => !!item && typeof item === 'object')
+
+  const masterStyle = getMasterTextStyle(node, context)
+  if (masterStyle && typeof masterStyle === 'object') listStyles.push(masterStyle)
+
+  return listStyles
+}
+
+/**
+ * 获取指定段落级别的样式节点
+ *
+ * @param listStyles - 列表样式继承链
+ * @param level - 段落级别（a:pPr 的 lvl 属性，从 0 开始）
+ * @returns 由近到远的 a:lvlNpPr 节点
+ */
+export function getLevelProperties(listStyles: XmlObject[], level = 0): XmlObject[] {
+  const key = `a:lvl${level + 1}pPr`
+  return listStyles
+    .map(style => style[key])
+    .filter((item): item is XmlObject => !!item && typeof item === 'object')
+}
+
+export default {
+  getPlaceholder,
+  findPlaceholderNodes,
+  resolvePlaceholderSpPr,
+  resolveBodyProperties,
+  getListStyleChain,
+  getLevelProperties,
+}
@@ -63,13 +63,15 @@ export async function parseRelationships(
       const id = rel?.['attrs']?.['Id']
       const type = rel?.['attrs']?.['Type']
       const target = rel?.['attrs']?.['Target']
+      const isExternal = rel?.['attrs']?.['TargetMode'] === 'External'
 
       if (!id || !type || !target) continue
 
       const typeName = type.replace('http://schemas.openxmlformats.org/officeDocument/2006/relationships/', '')
-      const normalizedTarget = target.replace('../', 'ppt/')
+      // 外部目标（超链接 URL、链接的媒体）保持原样
+      const normalizedTarget = isExternal ? target : target.replace('../', 'ppt/')
 
-      resources[id] = { type: typeName, target: normalizedTarget }
+      resources[id] = { type: typeName, target: normalizedTarget, ...(isExternal ? { external: true } : {}) }
 
       // 识别特殊关系
       if (typeName === 'slideLayout') {
@@ -93,14 +95,15 @@ export async function parseRelationships(
  * 解析幻灯片关系文件获取 rId -> media target 映射
  *
  * @param zip - JSZip 实例
- * @param slideNum - 幻灯片编号
+ * @param slideFilename - 幻灯片文件名，如 ppt/slides/slide1.xml；
+ *   也可以是布局或母版文件名，关系文件位于同目录的 _rels 下
  * @returns rId 到媒体路径的映射
  */
 export async function parseSlideRels(
   zip: JSZip,
-  slideNum: number
+  slideFilename: string
 ): Promise<Map<string, string>> {
-  const relsPath = `ppt/slides/_rels/slide${slideNum}.xml.rels`
+  const relsPath = slideFilename.replace(/([^/]+)$/, '_rels/$1.rels')
   const relsXml = await zip.file(relsPath)?.async('string')
 
   const rIdToTarget = new Map<string, string>()
@@ -7,7 +7,11 @@
 
 import type JSZip from 'jszip'
 import type { XmlObject } from '../../context/parsing-context.js'
-import { readXmlFile } from './utils.js'
+import { readXmlFile, toArray } from './utils.js'
+import { parseRelationships } from './relationships.js'
+
+/** p14:sectionLst 所在扩展的 uri */
+const SECTION_LIST_EXT_URI = '{521415D9-36F7-43E2-AB2F-B90AF26B5E84}'
 
 /**
  * 幻灯片信息解析结果
@@ -50,4 +54,124 @@ export async function getSlideInfo(zip: JSZip): Promise<SlideInfoResult> {
   }
 }
 
-export default { getSlideInfo }
+/**
+ * 幻灯片 id 列表项
+ */
+export interface SlideIdEntry {
+  /** 演示文稿内稳定的幻灯片 id（p:sldId 的 id 属性） */
+  id?: string
+  /** 幻灯片文件名，如 ppt/slides/slide1.xml */
+  filename?: string
+}
+
+/**
+ * 演示文稿节
+ */
+export interface SectionInfo {
+  /** 节 id（GUID） */
+  id: string
+  /** 节名称 */
+  title: string
+  /** 节内幻灯片的 sldId，按放映顺序 */
+  slideIds: string[]
+}
+
+/**
+ * 嵌入字体列表项
+ */
+export interface EmbeddedFontEntry {
+  /** 字体名 */
+  typeface: string
+  /** 粗体 */
+  bold: boolean
+  /** 斜体 */
+  italic: boolean
+  /** 字体文件名，如 ppt/fonts/font1.fntdata */
+  filename: string
+}
+
+/** p:embeddedFont 中各字形的标签 -> 粗体、斜体 */
+const EMBEDDED_FONT_STYLES: [string, boolean, boolean][] = [
+  ['p:regular', false, false],
+  ['p:bold', true, false],
+  ['p:italic', false, true],
+  ['p:boldItalic', true, true],
+]
+
+/**
+ * 获取幻灯片 id 列表
+ *
+ * @description
+ * 读取 presentation.xml 中的 p:sldIdLst，并通过 presentation.xml.rels
+ * 将每个 sldId 的 r:id 解析为幻灯片文件名。列表顺序即放映顺序。
+ *
+ * @param zip - JSZip 实例
+ * @returns 按放映顺序排列的幻灯片 id 列表
+ */
+export async function getSlideIdList(zip: JSZip): Promise<SlideIdEntry[]> {
+  const content = await readXmlFile(zip, 'ppt/presentation.xml')
+  const { resources } = await parseRelationships(zip, 'ppt/_rels/presentation.xml.rels')
+
+  return toArray(content?.['p:presentation']?.['p:sldIdLst']?.['p:sldId']).map(sldId => {
+    const attrs = sldId['attrs'] || {}
+    const target = resources[attrs['r:id']]?.target
+    return {
+      id: String(attrs['id']),
+      // presentation.xml.rels 的目标相对于 ppt/ 目录
+      filename: target ? (target.startsWith('ppt/') ? target : `ppt/${target}`) : undefined,
+    }
+  })
+}
+
+/**
+ * 获取演示文稿的节列表
+ *
+ * @description
+ * 节信息保存在 presentation.xml 扩展列表的 p14:sectionLst 中。
+ *
+ * @param zip - JSZip 实例
+ * @returns 节列表，未使用节时返回空数组
+ */
+export async function getSections(zip: JSZip): Promise<SectionInfo[]> {
+  const content = await readXmlFile(zip, 'ppt/presentation.xml')
+  const exts = toArray(content?.['p:presentation']?.['p:extLst']?.['p:ext'])
+  const sectionLst = exts.find(ext => ext['attrs']?.['uri'] === SECTION_LIST_EXT_URI)?.['p14:sectionLst']
+
+  return toArray(sectionLst?.['p14:section']).map(section => ({
+    id: String(section['attrs']?.['id'] || ''),
+    title: String(section['attrs']?.['name'] || ''),
+    slideIds: toArray(section['p14:sldIdLst']?.['p14:sldId']).map(sldId => String(sldId['attrs']?.['id'])),
+  }))
+}
+
+/**
+ * 获取嵌入字体列表
+ *
+ * @description
+ * presentation.xml 的 p:embeddedFontLst 中每个 p:embeddedFont 包含字体名（p:font）
+ * 和各字形（常规、粗体、斜体、粗斜体）的字体文件关系 id。
+ *
+ * @param zip - JSZip 实例
+ * @returns 嵌入字体列表，每个字形一项
+ */
+export async function getEmbeddedFontList(zip: JSZip): Promise<EmbeddedFontEntry[]> {
+  const content = await readXmlFile(zip, 'ppt/presentation.xml')
+  const { resources } = await parseRelationships(zip, 'ppt/_rels/presentation.xml.rels')
+  const entries: EmbeddedFontEntry[] = []
+
+  for (const embeddedFont of toArray(content?.['p:presentation']?.['p:embeddedFontLst']?.['p:embeddedFont'])) {
+    const typeface = embeddedFont['p:font']?.['attrs']?.['typeface']
+    if (!typeface) continue
+
+    for (const [tag, bold, italic] of EMBEDDED_FONT_STYLES) {
+      const target = resources[embeddedFont[tag]?.['attrs']?.['r:id']]?.target
+      if (!target) continue
+      // presentation.xml.rels 的目标相对于 ppt/ 目录
+      entries.push({ typeface: String(typeface), bold, italic, filename: target.startsWith('ppt/') ? target : `ppt/${target}` })
+    }
+  }
+
+  return entries
+}
+
+export default { getSlideInfo, getSlideIdList, getSections, getEmbeddedFontList }
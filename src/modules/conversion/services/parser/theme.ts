@@ -8,6 +8,7 @@
 import type JSZip from 'jszip'
 import type { XmlObject } from '../../context/parsing-context.js'
 import { getTextByPathList } from '../../resolvers/color-resolver.js'
+import { FILL_TAGS } from '../../resolvers/fill-resolver.js'
 import { readXmlFile } from './utils.js'
 
 /**
@@ -57,7 +58,8 @@ export async function getTheme(zip: JSZip): Promise<ThemeResult> {
   }
 
   const themePath = `ppt/${themeURI}`
-  const themeContent = await readXmlFile(zip, themePath)
+  // 样式列表（fillStyleLst/bgFillStyleLst）中的填充按序号引用，需要保留文档顺序
+  const themeContent = await readXmlFile(zip, themePath, FILL_TAGS)
 
   // 提取主题颜色
   const themeColors: string[] = []
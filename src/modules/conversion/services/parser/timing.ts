@@ -0,0 +1,208 @@
+/**
+ * 动画时间线解析器
+ *
+ * @module modules/conversion/services/parser/timing
+ * @description 解析幻灯片的 p:timing 节点，提取主序列（mainSeq）中的动画效果。
+ * 交互序列（interactiveSeq，由点击特定形状触发）在 PPTist 中没有对应概念，会被忽略。
+ */
+
+import type { PPTXAnimation, PPTXMediaTiming } from '../../types/pptx.js'
+import type { XmlObject } from '../../context/parsing-context.js'
+import { toArray } from './utils.js'
+
+/** 动画效果的预设类别 */
+const PRESET_CLASSES: PPTXAnimation['presetClass'][] = ['entr', 'exit', 'emph', 'path', 'verb', 'mediacall']
+
+/** 效果节点类型 -> 触发方式 */
+const NODE_TYPE_TRIGGERS: Record<string, PPTXAnimation['trigger']> = {
+  clickEffect: 'click',
+  withEffect: 'with',
+  afterEffect: 'after',
+}
+
+/** 未指定时长时的默认值（毫秒） */
+const DEFAULT_DURATION = 500
+
+/** 媒体命令效果（presetClass="mediacall"）中的播放命令 */
+const MEDIA_PLAY_PRESET_ID = 1
+
+/** 媒体节点 */
+const MEDIA_NODE_TAGS = ['p:video', 'p:audio']
+
+/**
+ * 查找主序列节点
+ *
+ * @param timing - p:timing 节点
+ * @returns mainSeq 的 cTn 节点，不存在时返回 undefined
+ */
+function findMainSequence(timing: XmlObject): XmlObject | undefined {
+  for (const root of toArray(timing['p:tnLst']?.['p:par'])) {
+    for (const seq of toArray(root['p:cTn']?.['p:childTnLst']?.['p:seq'])) {
+      const cTn = seq['p:cTn']
+      if (cTn?.['attrs']?.['nodeType'] === 'mainSeq') return cTn
+    }
+  }
+  return undefined
+}
+
+/**
+ * 在节点子树中查找第一个动画目标的 spid
+ */
+function findTargetId(node: unknown): string | undefined {
+  if (!node || typeof node !== 'object') return undefined
+
+  if (Array.isArray(node)) {
+    for (const item of node) {
+      const id = findTargetId(item)
+      if (id) return id
+    }
+    return undefined
+  }
+
+  const obj = node as XmlObject
+  const spid = obj['p:spTgt']?.['attrs']?.['spid']
+  if (spid) return String(spid)
+
+  for (const [key, value] of Object.entries(obj)) {
+    if (key === 'attrs') continue
+    const id = findTargetId(value)
+    if (id) return id
+  }
+  return undefined
+}
+
+/**
+ * 递归收集时间线中的媒体节点（p:video/p:audio）
+ */
+function collectMediaNodes(node: unknown, mediaNodes: XmlObject[]): void {
+  if (!node || typeof node !== 'object') return
+
+  if (Array.isArray(node)) {
+    for (const item of node) collectMediaNodes(item, mediaNodes)
+    return
+  }
+
+  for (const [key, value] of Object.entries(node as XmlObject)) {
+    if (key === 'attrs') continue
+    if (MEDIA_NODE_TAGS.includes(key)) mediaNodes.push(...toArray(value))
+    else collectMediaNodes(value, mediaNodes)
+  }
+}
+
+/**
+ * 计算效果时长
+ *
+ * @description
+ * 效果本身的 cTn 通常不带 dur，实际时长记录在各行为（animEffect、anim 等）的 cTn 中，
+ * 取其中的最大值。
+ */
+function findDuration(node: unknown): number {
+  if (!node || typeof node !== 'object') return 0
+
+  if (Array.isArray(node)) {
+    return node.reduce((max: number, item) => Math.max(max, findDuration(item)), 0)
+  }
+
+  let max = 0
+  for (const [key, value] of Object.entries(node as XmlObject)) {
+    if (key === 'attrs') continue
+    if (key === 'p:cTn') {
+      for (const cTn of toArray(value)) {
+        const dur = parseInt(cTn?.['attrs']?.['dur'], 10)
+        if (!isNaN(dur)) max = Math.max(max, dur)
+      }
+    }
+    max = Math.max(max, findDuration(value))
+  }
+  return max
+}
+
+/**
+ * 递归收集带有 presetClass 的效果节点
+ */
+function collectEffects(cTn: XmlObject, animations: PPTXAnimation[]): void {
+  const attrs = cTn['attrs'] || {}
+  const presetClass = attrs['presetClass'] as PPTXAnimation['presetClass'] | undefined
+
+  if (presetClass && PRESET_CLASSES.includes(presetClass)) {
+    const targetId = findTargetId(cTn['p:childTnLst'])
+    if (targetId) {
+      animations.push({
+        targetId,
+        presetClass,
+        presetId: parseInt(attrs['presetID'] || '0', 10),
+        presetSubtype: parseInt(attrs['presetSubtype'] || '0', 10),
+        trigger: NODE_TYPE_TRIGGERS[attrs['nodeType']] || 'click',
+        duration: findDuration(cTn['p:childTnLst']) || DEFAULT_DURATION,
+      })
+    }
+    return
+  }
+
+  for (const par of toArray(cTn['p:childTnLst']?.['p:par'])) {
+    if (par['p:cTn']) collectEffects(par['p:cTn'], animations)
+  }
+}
+
+/**
+ * 解析幻灯片动画
+ *
+ * @description
+ * 主序列的结构为：点击组（par）→ 同时播放组（par）→ 效果（par，cTn 带 presetClass）。
+ * 效果节点的 nodeType 表示触发方式（单击时 / 与上一动画同时 / 上一动画之后）。
+ *
+ * @param timing - p:timing 节点
+ * @returns 按播放顺序排列的动画数组
+ */
+export function parseTiming(timing: XmlObject | undefined): PPTXAnimation[] {
+  if (!timing) return []
+
+  const mainSeq = findMainSequence(timing)
+  if (!mainSeq) return []
+
+  const animations: PPTXAnimation[] = []
+  collectEffects(mainSeq, animations)
+  return animations
+}
+
+/**
+ * 解析视频/音频的播放设置
+ *
+ * @description
+ * 媒体节点的 cMediaNode 指向媒体元素，其 cTn 的 repeatCount="indefinite" 表示循环播放直到停止；
+ * 主序列中第一个单击触发的效果之前的播放命令在幻灯片开始时执行，即自动播放。
+ *
+ * @param timing - p:timing 节点
+ * @returns 元素 id（cNvPr id）-> 播放设置
+ */
+export function parseMediaTiming(timing: XmlObject | undefined): Map<string, PPTXMediaTiming> {
+  const result = new Map<string, PPTXMediaTiming>()
+  if (!timing) return result
+
+  const getTiming = (targetId: string) => {
+    const mediaTiming = result.get(targetId) || {}
+    result.set(targetId, mediaTiming)
+    return mediaTiming
+  }
+
+  const mediaNodes: XmlObject[] = []
+  collectMediaNodes(timing['p:tnLst'], mediaNodes)
+  for (const mediaNode of mediaNodes) {
+    const cMediaNode = mediaNode['p:cMediaNode']
+    const targetId = findTargetId(cMediaNode?.['p:tgtEl'])
+    if (targetId && cMediaNode['p:cTn']?.['attrs']?.['repeatCount'] === 'indefinite') {
+      getTiming(targetId).loop = true
+    }
+  }
+
+  for (const animation of parseTiming(timing)) {
+    if (animation.trigger === 'click') break
+    if (animation.presetClass === 'mediacall' && animation.presetId === MEDIA_PLAY_PRESET_ID) {
+      getTiming(animation.targetId).autoplay = true
+    }
+  }
+
+  return result
+}
+
+export default { parseTiming, parseMediaTiming }
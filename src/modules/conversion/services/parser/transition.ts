@@ -0,0 +1,75 @@
+/**
+ * 切换效果解析器
+ *
+ * @module modules/conversion/services/parser/transition
+ * @description 解析幻灯片的 p:transition 节点。
+ * PowerPoint 2010 及以后新增的切换效果（p14:/p15: 命名空间）写在 mc:AlternateContent 中，
+ * mc:Choice 提供扩展效果，mc:Fallback 提供旧版本可识别的替代效果。
+ */
+
+import type { PPTXTransition } from '../../types/pptx.js'
+import type { XmlObject } from '../../context/parsing-context.js'
+import { toArray } from './utils.js'
+
+/** p:transition 中不属于切换效果的子节点 */
+const NON_EFFECT_KEYS = ['attrs', 'p:sndAc', 'p:extLst', '#text']
+
+/**
+ * 解析单个 p:transition 节点
+ *
+ * @param transition - p:transition 节点
+ * @returns 切换效果信息
+ */
+function parseTransitionNode(transition: XmlObject): PPTXTransition {
+  const attrs = transition['attrs'] || {}
+  const result: PPTXTransition = {}
+
+  const advTm = parseInt(attrs['advTm'], 10)
+  if (!isNaN(advTm)) result.advanceTime = advTm
+
+  const effectKey = Object.keys(transition).find(key => !NON_EFFECT_KEYS.includes(key))
+  if (effectKey) {
+    const effectAttrs = transition[effectKey]?.['attrs'] || {}
+    result.type = effectKey
+    result.direction = effectAttrs['dir'] || effectAttrs['orient']
+    result.preset = effectAttrs['prst']
+  }
+
+  return result
+}
+
+/**
+ * 解析幻灯片切换效果
+ *
+ * @description
+ * 优先使用 mc:Choice 中的扩展效果，并将 mc:Fallback 中的效果作为替代，
+ * 以便扩展效果无法映射时仍可使用旧版效果。
+ *
+ * @param slide - p:sld 节点
+ * @returns 切换效果信息，未设置切换时返回 undefined
+ */
+export function parseTransition(slide: XmlObject | undefined): PPTXTransition | undefined {
+  if (!slide) return undefined
+
+  if (slide['p:transition']) {
+    return parseTransitionNode(slide['p:transition'])
+  }
+
+  for (const alternate of toArray(slide['mc:AlternateContent'])) {
+    const choice = toArray(alternate['mc:Choice']).find(item => item['p:transition'])
+    const fallback = alternate['mc:Fallback']?.['p:transition']
+
+    if (choice) {
+      const transition = parseTransitionNode(choice['p:transition'])
+      if (fallback) transition.fallback = parseTransitionNode(fallback)
+      return transition
+    }
+    if (fallback) {
+      return parseTransitionNode(fallback)
+    }
+  }
+
+  return undefined
+}
+
+export default { parseTransition }
@@ -8,12 +8,59 @@
 import JSZip from 'jszip'
 import { XMLParser } from 'fast-xml-parser'
 import type { XmlObject } from '../../context/parsing-context.js'
+import type { PPTXElement } from '../../types/pptx.js'
+
+/**
+ * 需要保留文档顺序的节点
+ *
+ * @description
+ * fast-xml-parser 会把同名子节点合并为数组，不同名兄弟节点之间的先后顺序因此丢失。
+ * 形状树中元素的先后顺序即叠放顺序，自定义几何中路径命令的先后顺序决定图形轮廓，
+ * 公式中结构的先后顺序决定公式内容，解析前为这些节点注入 order 属性，由使用方通过 getOrderedChildren 恢复原始顺序。
+ * 只在个别部件中需要保留顺序的节点（如主题样式列表中的填充）由 readXmlFile 的 orderedTags 参数指定。
+ */
+const ORDERED_TAGS = [
+  // 形状树
+  'p:sp', 'p:pic', 'p:grpSp', 'p:graphicFrame', 'p:cxnSp', 'mc:AlternateContent',
+  // SmartArt 绘图部件的形状树
+  'dsp:sp', 'dsp:grpSp',
+  // 自定义几何路径命令
+  'a:moveTo', 'a:lnTo', 'a:cubicBezTo', 'a:quadBezTo', 'a:arcTo', 'a:close',
+  // 段落中的文本运行和公式
+  'a:r', 'a14:m',
+  // 公式结构（OMML）
+  'm:r', 'm:f', 'm:rad', 'm:nary', 'm:sSup', 'm:sSub', 'm:sSubSup', 'm:sPre',
+  'm:d', 'm:m', 'm:acc', 'm:bar', 'm:func', 'm:limLow', 'm:limUpp',
+  'm:groupChr', 'm:eqArr', 'm:box', 'm:borderBox', 'm:phant',
+]
+
+/**
+ * 生成匹配节点开始标签的正则
+ */
+function createOrderedTagPattern(tags: string[]): RegExp {
+  return new RegExp(`<(${tags.join('|')})(?=[\\s/>])`, 'g')
+}
+
+const ORDERED_TAG_PATTERN = createOrderedTagPattern(ORDERED_TAGS)
+
+/**
+ * 为顺序敏感的节点注入 order 属性
+ *
+ * @param xml - 原始 XML 字符串
+ * @param pattern - 需要注入的节点开始标签
+ * @returns 注入 order 属性后的 XML 字符串
+ */
+function injectOrderAttributes(xml: string, pattern: RegExp): string {
+  let order = 0
+  return xml.replace(pattern, (_match, tag: string) => `<${tag} order="${order++}"`)
+}
 
 /**
  * 读取 ZIP 中的 XML 文件并解析为对象
  *
  * @param zip - JSZip 实例
  * @param path - ZIP 内的文件路径
+ * @param orderedTags - 该文件中额外需要保留文档顺序的节点
  * @returns 解析后的 XML 对象，如果文件不存在则返回空对象
  *
  * @example
@@ -22,7 +69,7 @@ import type { XmlObject } from '../../context/parsing-context.js'
  * const slideSize = content?.['p:presentation']?.['p:sldSz']?.['attrs'];
  * ```
  */
-export async function readXmlFile(zip: JSZip, path: string): Promise<XmlObject> {
+export async function readXmlFile(zip: JSZip, path: string, orderedTags: string[] = []): Promise<XmlObject> {
   const content = await zip.file(path)?.async('string')
   if (!content) return {}
 
@@ -33,7 +80,99 @@ export async function readXmlFile(zip: JSZip, path: string): Promise<XmlObject>
     textNodeName: '#text',
   })
 
-  return parser.parse(content) as XmlObject
+  const pattern = orderedTags.length > 0 ? createOrderedTagPattern([...ORDERED_TAGS, ...orderedTags]) : ORDERED_TAG_PATTERN
+  return parser.parse(injectOrderAttributes(content, pattern)) as XmlObject
+}
+
+/**
+ * 按文档顺序获取子节点
+ *
+ * @description
+ * 依据 readXmlFile 注入的 order 属性，将不同标签的子节点合并为一个按原始顺序排列的列表。
+ * 没有 order 属性的节点保持各自标签内的相对顺序，并排在有序节点之后。
+ *
+ * @param parent - 父节点
+ * @param tags - 需要收集的子节点标签
+ * @returns 按文档顺序排列的 { tag, node } 数组
+ *
+ * @example
+ * ```typescript
+ * for (const { tag, node } of getOrderedChildren(spTree, ['p:sp', 'p:pic'])) {
+ *   // 按叠放顺序处理元素
+ * }
+ * ```
+ */
+export function getOrderedChildren(
+  parent: XmlObject | undefined,
+  tags: string[]
+): { tag: string; node: XmlObject }[] {
+  if (!parent) return []
+
+  const children: { tag: string; node: XmlObject; order: number }[] = []
+
+  for (const tag of tags) {
+    const value = parent[tag]
+    if (value === undefined || value === null) continue
+
+    const nodes = Array.isArray(value) ? value : [value]
+    for (const node of nodes) {
+      const order = parseInt(node?.['attrs']?.['order'], 10)
+      children.push({ tag, node: node as XmlObject, order: isNaN(order) ? Number.MAX_SAFE_INTEGER : order })
+    }
+  }
+
+  // Array.prototype.sort 是稳定排序，相同 order 的节点保持原有顺序
+  children.sort((a, b) => a.order - b.order)
+
+  return children.map(({ tag, node }) => ({ tag, node }))
+}
+
+/** rId 需要按来源加前缀的媒体元素类型 */
+const MEDIA_ELEMENT_TYPES = ['image', 'video', 'audio']
+
+/** SmartArt 绘图部件中媒体 rId 的前缀 */
+export const DIAGRAM_RID_PREFIX = 'diagram:'
+
+/**
+ * 为媒体元素的 rId 加上来源前缀
+ *
+ * @description
+ * 布局、母版和 SmartArt 绘图部件中的媒体 rId 属于各自的关系文件，
+ * 加上前缀（如 layout:rId2、diagram:ppt/diagrams/drawing1.xml:rId1）以免与幻灯片的 rId 冲突。
+ * 已带有绘图部件前缀的 rId 不再加前缀（布局中的 SmartArt）。
+ *
+ * @param element - 元素
+ * @param prefix - 来源前缀，不含末尾的冒号
+ * @returns 替换了 rId 的元素副本
+ */
+export function prefixMediaRIds(element: PPTXElement, prefix: string): PPTXElement {
+  const withPrefix = (rId: string) => rId.startsWith(DIAGRAM_RID_PREFIX) ? rId : `${prefix}:${rId}`
+  const result: PPTXElement = { ...element }
+  if ('rId' in result && MEDIA_ELEMENT_TYPES.includes(result.type)) {
+    result.rId = withPrefix(result.rId)
+  }
+  if (result.type === 'image' && result.fallbackRId) {
+    result.fallbackRId = withPrefix(result.fallbackRId)
+  }
+  if (result.type === 'video' && result.posterRId) {
+    result.posterRId = withPrefix(result.posterRId)
+  }
+  return result
+}
+
+/**
+ * 将节点统一为数组
+ *
+ * @description
+ * fast-xml-parser 只在同名子节点出现多次时生成数组；缺失的节点和空元素（解析为 ''）返回空数组。
+ * 文本节点可能是字符串或数字，原样放入数组。
+ *
+ * @param node - 节点、节点数组或 undefined
+ * @returns 节点数组
+ */
+export function toArray(node: unknown): XmlObject[] {
+  if (node === undefined || node === null || node === '') return []
+  return Array.isArray(node) ? node : [node as XmlObject]
 }
 
 /**
@@ -50,13 +189,26 @@ export function getMimeType(path: string): string {
     jpeg: 'image/jpeg',
     gif: 'image/gif',
     bmp: 'image/bmp',
+    svg: 'image/svg+xml',
+    emf: 'image/x-emf',
+    wmf: 'image/x-wmf',
+    tif: 'image/tiff',
+    tiff: 'image/tiff',
     mp4: 'video/mp4',
+    m4v: 'video/mp4',
     avi: 'video/x-msvideo',
     mov: 'video/quicktime',
+    wmv: 'video/x-ms-wmv',
+    mpg: 'video/mpeg',
+    mpeg: 'video/mpeg',
+    webm: 'video/webm',
     mp3: 'audio/mpeg',
+    m4a: 'audio/mp4',
     wav: 'audio/wav',
+    wma: 'audio/x-ms-wma',
+    ogg: 'audio/ogg',
   }
   return mimeTypes[ext || ''] || 'application/octet-stream'
 }
 
-export default { readXmlFile, getMimeType }
+export default { readXmlFile, getMimeType, getOrderedChildren, prefixMediaRIds, toArray }
@@ -36,6 +36,10 @@ export function serializePresentation(
     warnings: warningStrings,
   }
 
+  if (context.embeddedFonts && context.embeddedFonts.length > 0) {
+    presentation.embeddedFonts = context.embeddedFonts
+  }
+
   return presentation
 }
 
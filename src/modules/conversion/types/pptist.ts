@@ -54,6 +54,7 @@ export interface PPTBaseElement {
   rotate: number
   link?: PPTElementLink
   name?: string
+  inheritedFrom?: 'layout' | 'master' // Non-placeholder shape from the slide layout or master
 }
 
 // Text element
@@ -243,6 +244,8 @@ export interface PPTVideoElement extends PPTBaseElement {
   autoplay: boolean
   poster?: string
   ext?: string
+  loop?: boolean
+  trim?: MediaTrim
 }
 
 // Audio element
@@ -254,6 +257,13 @@ export interface PPTAudioElement extends PPTBaseElement {
   autoplay: boolean
   src: string
   ext?: string
+  trim?: MediaTrim
+}
+
+// Milliseconds trimmed from the start and the end of a video or audio (PowerPoint p14:trim)
+export interface MediaTrim {
+  start: number
+  end: number
 }
 
 // Union type for all elements
@@ -327,12 +337,15 @@ export interface SectionTag {
 // Slide
 export interface Slide {
   id: string
+  sldId?: string // stable PowerPoint slide id (p:sldId), for round-tripping
+  hidden?: boolean // hidden in PowerPoint, only set with hiddenSlides=mark
   elements: PPTElement[]
   notes?: Note[]
   remark?: string
   background?: SlideBackground
   animations?: PPTAnimation[]
   turningMode?: TurningMode
+  advanceTime?: number // auto-advance after this many ms (p:transition advTm)
   sectionTag?: SectionTag
   type?: SlideType
 }
@@ -361,4 +374,14 @@ export interface PPTistPresentation {
     version: string
   }
   warnings: string[]
+  embeddedFonts?: PPTistEmbeddedFont[]
+}
+
+// Font embedded in the PPTX, restricted-licence fonts are listed without fontFace
+export interface PPTistEmbeddedFont {
+  fontFamily: string
+  fontWeight: 'normal' | 'bold'
+  fontStyle: 'normal' | 'italic'
+  fontFace?: string // @font-face rule with the font inlined as a data URL
+  restricted?: boolean
 }
@@ -25,6 +25,27 @@ export interface PPTXTransform {
   width: number
   height: number
   rotation?: number // degrees
+  flipH?: boolean
+  flipV?: boolean
+}
+
+// Hyperlink (a:hlinkClick)
+export interface PPTXLink {
+  type: 'web' | 'slide'
+  target: string // URL 或转换后的幻灯片 id
+}
+
+// 文字渐变填充
+export interface PPTXTextGradient {
+  type: 'linear' | 'radial'
+  angle: number // 线性渐变角度（度），0 为从左到右
+  colors: { pos: string; color: string }[]
+}
+
+// 文字轮廓（a:rPr/a:ln）
+export interface PPTXTextOutline {
+  width: number // 线宽（点）
+  color: string
 }
 
 // Text run (a segment of text with formatting)
@@ -33,10 +54,26 @@ export interface PPTXTextRun {
   bold?: boolean
   italic?: boolean
   underline?: boolean
+  underlineStyle?: 'double' | 'dotted' | 'dashed' | 'wavy' // 非单线下划线的 CSS 样式
   strike?: boolean
+  doubleStrike?: boolean // dblStrike 双删除线
   fontSize?: number // in points
   fontName?: string
   color?: string // hex color
+  gradient?: PPTXTextGradient // 渐变文字
+  outline?: PPTXTextOutline
+  highlight?: string // 突出显示颜色
+  baseline?: number // 基线偏移比例，正数为上标，负数为下标（0.3 = 30%）
+  characterSpacing?: number // 字符间距 spc（点）
+  caps?: 'all' | 'small' // 全部大写 / 小型大写字母
+  link?: PPTXLink
+}
+
+// 项目符号样式
+export interface PPTXBulletStyle {
+  char?: string // a:buChar 符号字符
+  autoNum?: string // a:buAutoNum 编号类型，如 arabicPeriod、romanUcPeriod
+  startAt?: number // 编号起始值
 }
 
 // Paragraph
@@ -44,7 +81,16 @@ export interface PPTXParagraph {
   runs: PPTXTextRun[]
   align?: 'left' | 'center' | 'right' | 'justify'
   bullet?: boolean
+  bulletStyle?: PPTXBulletStyle
   level?: number // indentation level
+  marginLeft?: number // 左边距 marL（点）
+  indent?: number // 首行缩进 indent（点），负值为悬挂缩进
+  lineHeight?: number // 行距倍数（1 = 单倍行距）
+  lineHeightPoints?: number // 固定行距（点）
+  spaceBefore?: number // 段前间距（点）
+  spaceBeforePercent?: number // 段前间距，相对单倍行距的倍数（spcPct）
+  spaceAfter?: number // 段后间距（点）
+  spaceAfterPercent?: number // 段后间距，相对单倍行距的倍数（spcPct）
 }
 
 // Base element
@@ -52,13 +98,34 @@ export interface PPTXBaseElement {
   id: string
   transform: PPTXTransform
   name?: string
+  groupId?: string // 所属组合（grpSp）标识，组内元素展平后共享同一个值
+  groupSpIds?: string[] // 所属各层组合的 cNvPr id（由外到内），用于匹配以组合为目标的动画
+  link?: PPTXLink
+  inheritedFrom?: 'layout' | 'master' // 来自布局或母版的非占位符形状
+}
+
+// 文本内边距（EMU）
+export interface PPTXTextInsets {
+  left: number
+  top: number
+  right: number
+  bottom: number
+}
+
+// 文本体属性（a:bodyPr）
+export interface PPTXBodyProperties {
+  verticalAlign?: 'top' | 'middle' | 'bottom' // anchor
+  insets?: PPTXTextInsets // lIns/tIns/rIns/bIns
+  vertical?: boolean // 竖排文字（vert 为 eaVert、mongolianVert、wordArtVert 等）
+  textRotation?: number // 横排文字整体旋转角度（vert 为 90，vert270 为 270），仅文本元素使用
+  fontScale?: number // normAutofit 字号缩放比例（1 = 100%）
+  lineSpacingReduction?: number // normAutofit 行距缩减量（0.2 = 减少 20%）
 }
 
 // Text element
-export interface PPTXTextElement extends PPTXBaseElement {
+export interface PPTXTextElement extends PPTXBaseElement, PPTXBodyProperties {
   type: 'text'
   paragraphs: PPTXParagraph[]
-  verticalAlign?: 'top' | 'middle' | 'bottom'
 }
 
 // Image element
@@ -66,28 +133,90 @@ export interface PPTXImageElement extends PPTXBaseElement {
   type: 'image'
   rId: string // relationship ID to find media
   contentType?: string
+  crop?: PPTXImageCrop // a:srcRect 裁剪
+  geometry?: string // 图片外形（prstGeom 的 prst），如 'ellipse'、'roundRect'
+  adjustValues?: Record<string, number> // 外形的调整值，如 roundRect 的 { adj: 16667 }
+  effects?: PPTXImageEffects // a:blip 中的图片效果
+  fallbackRId?: string // mc:Fallback 中对应图片的 rId，EMF/WMF/TIFF 无法转码时使用
+}
+
+// Image effects (a:blip children), percentages unless noted
+export interface PPTXImageEffects {
+  grayscale?: boolean // a:grayscl
+  brightness?: number // a:lum bright, -100 ~ 100
+  contrast?: number // a:lum contrast, -100 ~ 100
+  alpha?: number // a:alphaModFix amt, 0 ~ 100
+  duotone?: string[] // a:duotone colors
+  biLevel?: number // a:biLevel threshold, 0 ~ 100
+  unsupported?: string[] // effect tags with no PPTist equivalent, e.g. 'a:clrChange'
+}
+
+// Image crop (a:srcRect), percentages of the source image cut from each edge
+export interface PPTXImageCrop {
+  left: number
+  top: number
+  right: number
+  bottom: number
 }
 
 // Video element
 export interface PPTXVideoElement extends PPTXBaseElement {
   type: 'video'
-  rId: string
+  rId: string // 嵌入的媒体（p14:media r:embed），没有时为 a:videoFile 的 r:link
   contentType?: string
   posterRId?: string // thumbnail image
+  externalSrc?: string // 链接的外部媒体（本地文件路径或在线视频 URL）
+  trim?: PPTXMediaTrim
+  autoplay?: boolean // 时间线中幻灯片开始时自动播放
+  loop?: boolean // 循环播放直到停止
 }
 
 // Audio element
 export interface PPTXAudioElement extends PPTXBaseElement {
   type: 'audio'
-  rId: string
+  rId: string // 嵌入的媒体（p14:media r:embed），没有时为 a:audioFile 的 r:link
   contentType?: string
+  externalSrc?: string // 链接的外部媒体
+  trim?: PPTXMediaTrim
+  autoplay?: boolean
+  loop?: boolean
+}
+
+// Media trim (p14:trim), ms cut from the start and the end
+export interface PPTXMediaTrim {
+  start: number
+  end: number
+}
+
+// Media playback settings from the slide timing tree
+export interface PPTXMediaTiming {
+  autoplay?: boolean
+  loop?: boolean
+}
+
+// Custom geometry path command (a:custGeom)，坐标位于所在路径的 w/h 坐标空间
+export type PPTXPathCommand =
+  | { type: 'moveTo' | 'lnTo'; x: number; y: number }
+  | { type: 'cubicBezTo'; points: [number, number][] } // 两个控制点 + 终点
+  | { type: 'quadBezTo'; points: [number, number][] } // 控制点 + 终点
+  | { type: 'arcTo'; wR: number; hR: number; stAng: number; swAng: number } // 角度单位为度
+  | { type: 'close' }
+
+// Custom geometry sub-path (a:path)
+export interface PPTXCustomPath {
+  w: number // 路径坐标空间宽度，未指定时为形状宽度（EMU）
+  h: number
+  fill?: string // 'none' 表示只描边不填充，生成填充轮廓时跳过
+  commands: PPTXPathCommand[]
 }
 
 // Shape element
-export interface PPTXShapeElement extends PPTXBaseElement {
+export interface PPTXShapeElement extends PPTXBaseElement, PPTXBodyProperties {
   type: 'shape'
   shapeType?: string // e.g., 'rect', 'ellipse'
   adj?: number // 形状调整值 (0-100000)，用于 roundRect 等形状的圆角控制
+  adjustValues?: Record<string, number> // avLst 中的全部调整值，如 { adj1: 25000, adj2: 50000 }
+  customPaths?: PPTXCustomPath[] // 自定义几何（custGeom）的路径列表
   path?: string // SVG path data
   viewBox?: [number, number]
   fill?: string // hex color
@@ -147,6 +276,7 @@ export interface PPTXLatexElement extends PPTXBaseElement {
   type: 'latex'
   latex: string
   path?: string // SVG path
+  color?: string // hex color，公式文本的颜色
 }
 
 // Union type for all elements
@@ -161,14 +291,36 @@ export type PPTXElement =
   | PPTXChartElement
   | PPTXLatexElement
 
+// Animation (from p:timing main sequence)
+export interface PPTXAnimation {
+  targetId: string // spTgt spid，对应元素的 cNvPr id
+  presetClass: 'entr' | 'exit' | 'emph' | 'path' | 'verb' | 'mediacall'
+  presetId: number
+  presetSubtype: number
+  trigger: 'click' | 'with' | 'after'
+  duration: number // ms
+}
+
+// Slide transition (p:transition)
+export interface PPTXTransition {
+  type?: string // 效果节点名，如 'p:fade'、'p14:prism'
+  direction?: string // dir 或 orient 属性
+  preset?: string // p15:prstTrans 的 prst 属性
+  advanceTime?: number // 自动换片时间（ms），advTm
+  fallback?: PPTXTransition // mc:Fallback 中的替代效果
+}
+
 // Slide
 export interface PPTXSlide {
   id: string
+  sldId?: string // presentation.xml 中的 p:sldId，重新排序后保持不变
+  hidden?: boolean // p:sld show="0" 或 show="false"
   elements: PPTXElement[]
   background?: {
     type: 'solid' | 'image' | 'gradient'
     color?: string
-    imageRId?: string
+    imageSrc?: string // 图片 data URL
+    imageTile?: boolean // a:tile 平铺，否则为拉伸
     gradient?: {
       type: 'linear' | 'radial'
       colors: { pos: number; color: string }[]
@@ -176,6 +328,9 @@ export interface PPTXSlide {
     }
   }
   notes?: string
+  animations?: PPTXAnimation[]
+  transition?: PPTXTransition
+  sectionTag?: { id: string; title?: string } // 所在节的第一张幻灯片上设置
 }
 
 // Presentation
@@ -188,6 +343,16 @@ export interface PPTXPresentation {
   media: Map<string, { data: Buffer; contentType: string }>
   // 每个幻灯片独立的 rId -> media 映射（避免不同幻灯片 rId 冲突）
   slideMediaMaps: Map<string, { data: Buffer; contentType: string }>[]
+  // p:embeddedFontLst 引用的嵌入字体（fntdata 原始数据）
+  embeddedFonts?: PPTXEmbeddedFont[]
+}
+
+// Embedded font (ppt/fonts/*.fntdata)
+export interface PPTXEmbeddedFont {
+  typeface: string
+  bold: boolean
+  italic: boolean
+  data: Buffer
 }
 
 // Relationship (for resolving media references)
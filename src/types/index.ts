@@ -1,3 +1,5 @@
+import type { PPTistEmbeddedFont } from '../modules/conversion/types/pptist.js'
+
 // Error codes for conversion service
 export type ErrorCode =
   | 'ERR_INVALID_FORMAT'
@@ -13,6 +15,11 @@ export type WarningCode =
   | 'WARN_MACRO_SKIPPED'
   | 'WARN_ACTIVEX_SKIPPED'
   | 'WARN_FONT_FALLBACK'
+  | 'WARN_ANIMATION_FALLBACK'
+  | 'WARN_HIDDEN_SLIDES_SKIPPED'
+  | 'WARN_IMAGE_EFFECT_FALLBACK'
+  | 'WARN_MEDIA_TRANSCODE_FAILED'
+  | 'WARN_EMBEDDED_FONT_SKIPPED'
 
 // Environment configuration schema
 export interface EnvConfig {
@@ -24,6 +31,7 @@ export interface EnvConfig {
   RATE_LIMIT_WINDOW: number
   LOG_LEVEL: string
   DEFAULT_OUTPUT_FORMAT: 'both' | 'json' | 'pptist'
+  FONT_MAP: Record<string, string>
 }
 
 // API response types
@@ -43,12 +51,16 @@ export interface WarningInfo {
   count?: number
 }
 
+// How slides marked hidden in PowerPoint (show="0") are handled
+export type HiddenSlidesPolicy = 'include' | 'skip' | 'mark'
+
 // Conversion context passed through the pipeline
 export interface ConversionContext {
   requestId: string
   startTime: number
   warnings: WarningInfo[]
-  mediaMap: Map<string, { type: string; data: string; mimeType: string }>
+  // unrenderable: EMF/WMF/TIFF 转码失败，data 仍为原始格式
+  mediaMap: Map<string, { type: string; data: string; mimeType: string; unrenderable?: boolean }>
   // 原始 PPTX 幻灯片尺寸（EMU 单位）
   slideSize: {
     width: number   // EMU
@@ -56,4 +68,12 @@ export interface ConversionContext {
   }
   // 当前处理的幻灯片索引（用于媒体查找的组合键）
   currentSlideIndex: number
+  // 隐藏幻灯片的处理方式
+  hiddenSlides: HiddenSlidesPolicy
+  // 配置的字体替换表，优先于内置替换表
+  fontMap?: Record<string, string>
+  // 原字体名 -> 替换后的字体和使用次数，用于 WARN_FONT_FALLBACK
+  fontFallbacks?: Map<string, { substitute?: string; count: number }>
+  // 演示文稿中的嵌入字体，提取的字体带 @font-face 规则
+  embeddedFonts?: PPTistEmbeddedFont[]
 }
@@ -148,10 +148,50 @@ export const Warnings = {
       count
     ),
 
-  fontFallback: (count?: number) =>
-    new ConversionWarning(
+  fontFallback: (font?: string, substitute?: string, count?: number) => {
+    const runs = count !== undefined ? ` in ${count} text run${count === 1 ? '' : 's'}` : ''
+    return new ConversionWarning(
       'WARN_FONT_FALLBACK',
-      'Some fonts were replaced with system defaults',
+      !font
+        ? 'Some fonts were replaced with system defaults'
+        : substitute
+          ? `Font "${font}" was replaced with "${substitute}"${runs}`
+          : `Font "${font}" is not available and falls back to the default font${runs}`,
+      count
+    )
+  },
+
+  animationFallback: (count?: number) =>
+    new ConversionWarning(
+      'WARN_ANIMATION_FALLBACK',
+      'Some animation effects were replaced with a default effect',
+      count
+    ),
+
+  imageEffectFallback: (count?: number) =>
+    new ConversionWarning(
+      'WARN_IMAGE_EFFECT_FALLBACK',
+      'Some image effects have no PPTist equivalent and were dropped',
+      count
+    ),
+
+  mediaTranscodeFailed: (count?: number) =>
+    new ConversionWarning(
+      'WARN_MEDIA_TRANSCODE_FAILED',
+      'Some EMF, WMF or TIFF images could not be converted to a web format',
       count
     ),
+
+  embeddedFontSkipped: (font: string, reason: string) =>
+    new ConversionWarning(
+      'WARN_EMBEDDED_FONT_SKIPPED',
+      `Embedded font "${font}" was not extracted: ${reason}`
+    ),
+
+  hiddenSlidesSkipped: (slideNumbers: number[]) =>
+    new ConversionWarning(
+      'WARN_HIDDEN_SLIDES_SKIPPED',
+      `Hidden slides were skipped: ${slideNumbers.join(', ')}`,
+      slideNumbers.length
+    ),
 }
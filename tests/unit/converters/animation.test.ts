@@ -0,0 +1,86 @@
+/**
+ * 动画转换器单元测试
+ */
+
+import { describe, it, expect, vi } from 'vitest'
+import { convertAnimations, mapAnimationEffect } from '../../../src/modules/conversion/converters/animation.js'
+import type { PPTXAnimation } from '../../../src/modules/conversion/types/pptx.js'
+
+// 创建测试用的动画
+const createTestAnimation = (overrides: Partial<PPTXAnimation> = {}): PPTXAnimation => ({
+  targetId: '2',
+  presetClass: 'entr',
+  presetId: 10,
+  presetSubtype: 0,
+  trigger: 'click',
+  duration: 500,
+  ...overrides,
+})
+
+describe('Animation Converter', () => {
+  describe('mapAnimationEffect', () => {
+    it('should map fade entrance and exit', () => {
+      expect(mapAnimationEffect(createTestAnimation(), 'in')).toBe('fadeIn')
+      expect(mapAnimationEffect(createTestAnimation({ presetClass: 'exit' }), 'out')).toBe('fadeOut')
+    })
+
+    it('should map fly directions', () => {
+      const fromLeft = createTestAnimation({ presetId: 2, presetSubtype: 8 })
+      const fromBottom = createTestAnimation({ presetId: 2, presetSubtype: 4 })
+      const toBottom = createTestAnimation({ presetClass: 'exit', presetId: 2, presetSubtype: 4 })
+
+      expect(mapAnimationEffect(fromLeft, 'in')).toBe('slideInLeft')
+      expect(mapAnimationEffect(fromBottom, 'in')).toBe('slideInUp')
+      expect(mapAnimationEffect(toBottom, 'out')).toBe('slideOutDown')
+    })
+
+    it('should return null for unmapped presets', () => {
+      expect(mapAnimationEffect(createTestAnimation({ presetId: 3 }), 'in')).toBeNull()
+    })
+  })
+
+  describe('convertAnimations', () => {
+    it('should map triggers and target element ids', () => {
+      const elementIds = new Map([['2', ['el-a']], ['3', ['el-b']]])
+      const result = convertAnimations(
+        [
+          createTestAnimation({ trigger: 'click' }),
+          createTestAnimation({ targetId: '3', trigger: 'with' }),
+          createTestAnimation({ targetId: '3', trigger: 'after', duration: 1200 }),
+        ],
+        elementIds
+      )
+
+      expect(result.map(a => a.elId)).toEqual(['el-a', 'el-b', 'el-b'])
+      expect(result.map(a => a.trigger)).toEqual(['click', 'meantime', 'auto'])
+      expect(result[2].duration).toBe(1200)
+    })
+
+    it('should animate all children of a group target together', () => {
+      const elementIds = new Map([['10', ['el-a', 'el-b']]])
+      const result = convertAnimations([createTestAnimation({ targetId: '10' })], elementIds)
+
+      expect(result).toHaveLength(2)
+      expect(result.map(a => a.trigger)).toEqual(['click', 'meantime'])
+    })
+
+    it('should fall back to the default effect and report it', () => {
+      const onFallback = vi.fn()
+      const elementIds = new Map([['2', ['el-a']]])
+      const result = convertAnimations(
+        [createTestAnimation({ presetId: 3 }), createTestAnimation({ presetClass: 'path', presetId: 0 })],
+        elementIds,
+        onFallback
+      )
+
+      expect(result.map(a => a.effect)).toEqual(['fadeIn', 'shakeX'])
+      expect(result[1].type).toBe('attention')
+      expect(onFallback).toHaveBeenCalledTimes(2)
+    })
+
+    it('should skip animations whose target was not converted', () => {
+      const result = convertAnimations([createTestAnimation({ targetId: '99' })], new Map())
+      expect(result).toEqual([])
+    })
+  })
+})
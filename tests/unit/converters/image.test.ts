@@ -0,0 +1,145 @@
+/**
+ * 图片转换器单元测试
+ */
+
+import { describe, it, expect, afterEach } from 'vitest'
+import imageModule from '../../../src/modules/conversion/converters/image.js'
+import { clearConverters } from '../../../src/modules/conversion/converters/index.js'
+import { convertSlide } from '../../../src/modules/conversion/services/converter.js'
+import { parsePicture } from '../../../src/modules/conversion/services/parser/elements/picture.js'
+import { createDefaultParsingContext } from '../../../src/modules/conversion/context/parsing-context.js'
+import type { XmlObject } from '../../../src/modules/conversion/context/parsing-context.js'
+import type { PPTXImageElement } from '../../../src/modules/conversion/types/pptx.js'
+import type { ConversionContext } from '../../../src/types/index.js'
+
+const { convertImage, registerImageConverter } = imageModule as any
+
+// 创建测试用的转换上下文
+const createTestContext = (): ConversionContext => ({
+  requestId: 'test-request-id',
+  startTime: Date.now(),
+  warnings: [],
+  mediaMap: new Map(),
+  slideSize: { width: 9144000, height: 6858000 },
+  currentSlideIndex: 0,
+  hiddenSlides: 'include',
+})
+
+// 创建 p:pic 节点，尺寸为 200 x 100 px
+const createPic = (extra: { srcRect?: XmlObject; prstGeom?: XmlObject; xfrm?: XmlObject; effects?: XmlObject } = {}): XmlObject => ({
+  'p:nvPicPr': { 'p:cNvPr': { attrs: { id: '4', name: 'Picture 3' } } },
+  'p:blipFill': {
+    'a:blip': { attrs: { 'r:embed': 'rId2' }, ...extra.effects },
+    ...(extra.srcRect ? { 'a:srcRect': extra.srcRect } : {}),
+  },
+  'p:spPr': {
+    'a:xfrm': {
+      attrs: extra.xfrm || {},
+      'a:off': { attrs: { x: '0', y: '0' } },
+      'a:ext': { attrs: { cx: '1905000', cy: '952500' } },
+    },
+    'a:prstGeom': extra.prstGeom || { attrs: { prst: 'rect' }, 'a:avLst': '' },
+  },
+})
+
+const parse = (pic: XmlObject) => parsePicture(pic, createDefaultParsingContext({} as any)) as PPTXImageElement
+
+const convert = (pic: XmlObject) => convertImage(parse(pic), createTestContext())
+
+describe('Image Converter', () => {
+  it('should output plain pictures without clip, flip or radius', () => {
+    const image = convert(createPic())
+
+    expect(image).toMatchObject({ type: 'image', width: 200, height: 100 })
+    expect(image.clip).toBeUndefined()
+    expect(image.flipH).toBeUndefined()
+    expect(image.radius).toBeUndefined()
+  })
+
+  it('should map srcRect crop to the clip range', () => {
+    const image = convert(createPic({ srcRect: { attrs: { l: '10000', t: '5000', r: '25000', b: '-2500' } } }))
+
+    expect(image.clip).toEqual({ shape: 'rect', range: [[10, 5], [75, 102.5]] })
+  })
+
+  it('should clip to preset picture geometry and keep flips', () => {
+    const image = convert(createPic({ prstGeom: { attrs: { prst: 'ellipse' } }, xfrm: { flipH: '1', flipV: '1' } }))
+
+    expect(image.clip).toEqual({ shape: 'ellipse', range: [[0, 0], [100, 100]] })
+    expect(image).toMatchObject({ flipH: true, flipV: true })
+  })
+
+  it('should map preset names to PPTist clip shapes', () => {
+    expect(convert(createPic({ prstGeom: { attrs: { prst: 'diamond' } } })).clip)
+      .toEqual({ shape: 'rhombus', range: [[0, 0], [100, 100]] })
+    expect(convert(createPic({ prstGeom: { attrs: { prst: 'rhombus' } } })).clip).toBeUndefined()
+  })
+
+  it('should map roundRect corners to radius', () => {
+    expect(convert(createPic({ prstGeom: { attrs: { prst: 'roundRect' } } })).radius).toBeCloseTo(16.667)
+
+    const custom = convert(createPic({
+      prstGeom: { attrs: { prst: 'roundRect' }, 'a:avLst': { 'a:gd': { attrs: { name: 'adj', fmla: 'val 50000' } } } },
+    }))
+    expect(custom.radius).toBe(50)
+    expect(custom.clip).toBeUndefined()
+  })
+
+  describe('image effects', () => {
+    afterEach(() => {
+      clearConverters()
+    })
+
+    it('should map grayscale, luminance and transparency to filters', () => {
+      const image = convert(createPic({
+        effects: {
+          'a:grayscl': '',
+          'a:lum': { attrs: { bright: '20000', contrast: '-40000' } },
+          'a:alphaModFix': { attrs: { amt: '60000' } },
+        },
+      }))
+
+      expect(image.filters).toEqual({ grayscale: '100%', brightness: '120%', contrast: '60%', opacity: '60%' })
+    })
+
+    it('should tint duotone images with the saturated color', () => {
+      const image = convert(createPic({
+        effects: { 'a:duotone': { 'a:prstClr': { attrs: { val: 'black' } }, 'a:srgbClr': { attrs: { val: 'FF0000' } } } },
+      }))
+
+      expect(image.filters).toEqual({ grayscale: '100%' })
+      expect(image.colorMask).toBe('#FF000080')
+    })
+
+    it('should ignore pre-rendered a14 effects and warn on effects without a filter', () => {
+      const element = parse(createPic({
+        effects: {
+          'a:biLevel': { attrs: { thresh: '25000' } },
+          'a:clrChange': { 'a:clrFrom': { 'a:srgbClr': { attrs: { val: 'FFFFFF' } } } },
+          'a:extLst': { 'a:ext': { 'a14:imgProps': { 'a14:imgLayer': { 'a14:imgEffect': { 'a14:artisticBlur': '' } } } } },
+        },
+      }))
+      expect(element.effects).toEqual({ biLevel: 25, unsupported: ['a:clrChange'] })
+
+      registerImageConverter()
+      const context = createTestContext()
+      const slide = convertSlide({ id: 'slide-1', elements: [element] }, 0, context)
+
+      expect(slide.elements[0].filters).toEqual({ grayscale: '100%', contrast: '1000%' })
+      expect(context.warnings).toEqual([expect.objectContaining({ code: 'WARN_IMAGE_EFFECT_FALLBACK', count: 1 })])
+    })
+  })
+
+  it('should show the mc:Fallback image when the media could not be transcoded', () => {
+    registerImageConverter()
+    const context = createTestContext()
+    context.mediaMap.set('0_rId2', { type: 'image', data: 'AQID', mimeType: 'image/x-emf', unrenderable: true })
+    context.mediaMap.set('0_rId3', { type: 'image', data: 'BAUG', mimeType: 'image/png' })
+
+    const slide = convertSlide({ id: 'slide-1', elements: [{ ...parse(createPic()), fallbackRId: 'rId3' }] }, 0, context)
+    clearConverters()
+
+    expect(slide.elements[0].src).toBe('data:image/png;base64,BAUG')
+    expect(context.warnings).toEqual([expect.objectContaining({ code: 'WARN_MEDIA_TRANSCODE_FAILED', count: 1 })])
+  })
+})
@@ -22,6 +22,7 @@ const createTestContext = (): ConversionContext => ({
   mediaMap: new Map(),
   slideSize: { width: 9144000, height: 6858000 },
   currentSlideIndex: 0,
+  hiddenSlides: 'include',
 })
 
 describe('Converter Registry', () => {
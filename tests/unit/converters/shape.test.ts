@@ -19,6 +19,7 @@ const createTestContext = (): ConversionContext => ({
   mediaMap: new Map(),
   slideSize: { width: 9144000, height: 6858000 },
   currentSlideIndex: 0,
+  hiddenSlides: 'include',
 })
 
 // 创建测试用的形状元素
@@ -117,6 +118,18 @@ describe('Shape Converter', () => {
       expect(result.rotate).toBe(45)
     })
 
+    it('should handle flips', () => {
+      const flipped = convertShape(createTestShapeElement({
+        transform: { ...createTestShapeElement().transform, flipH: true, flipV: true },
+      }), createTestContext())
+      const plain = convertShape(createTestShapeElement(), createTestContext())
+
+      expect(flipped.flipH).toBe(true)
+      expect(flipped.flipV).toBe(true)
+      expect(plain.flipH).toBeUndefined()
+      expect(plain.flipV).toBeUndefined()
+    })
+
     it('should generate shape path', () => {
       const element = createTestShapeElement({ shapeType: 'rect' })
       const context = createTestContext()
@@ -176,6 +189,22 @@ describe('Shape Converter', () => {
       expect(result.text?.content).toContain('Hello')
       expect(result.text?.content).toContain('<b>')
     })
+
+    it('should apply anchor, insets and autofit to shape text', () => {
+      const element = createTestShapeElement({
+        paragraphs: [{ runs: [{ text: 'Fit', fontSize: 40 }] }],
+        verticalAlign: 'bottom',
+        insets: { left: 190500, top: 0, right: 0, bottom: 0 },
+        fontScale: 0.625,
+        lineSpacingReduction: 0.2,
+      })
+
+      const result = convertShape(element, createTestContext())
+
+      expect(result.text?.align).toBe('bottom')
+      expect(result.text?.lineHeight).toBe(0.96)
+      expect(result.text?.content).toBe('<p style="text-align: left; padding-left: 10px"><span style="font-size: 25px">Fit</span></p>')
+    })
   })
 
   describe('registerShapeConverter', () => {
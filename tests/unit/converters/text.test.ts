@@ -0,0 +1,60 @@
+/**
+ * 文本转换器单元测试
+ */
+
+import { describe, it, expect } from 'vitest'
+import textModule from '../../../src/modules/conversion/converters/text.js'
+import { createConversionContext } from '../../../src/modules/conversion/services/converter.js'
+import type { PPTXTextElement } from '../../../src/modules/conversion/types/pptx.js'
+
+const { convertText } = textModule as any
+
+const SLIDE_SIZE = { width: 9144000, height: 6858000 }
+
+// 创建位于 (1, 1) 英寸、尺寸为 2 x 1 英寸、没有内边距的文本框
+const createTextElement = (overrides: Partial<PPTXTextElement> = {}): PPTXTextElement => ({
+  type: 'text',
+  id: '2',
+  transform: { x: 914400, y: 914400, width: 1828800, height: 914400 },
+  paragraphs: [{ runs: [{ text: 'Rotated' }] }],
+  insets: { left: 0, top: 0, right: 0, bottom: 0 },
+  ...overrides,
+})
+
+describe('Text Converter', () => {
+  it('should keep stacked vertical text in its box', () => {
+    const result = convertText(createTextElement({ vertical: true }), createConversionContext('req', SLIDE_SIZE))
+
+    expect(result.vertical).toBe(true)
+    expect(result.rotate).toBe(0)
+  })
+
+  it('should turn the box of rotated text around its center', () => {
+    const context = createConversionContext('req', SLIDE_SIZE)
+    const plain = convertText(createTextElement(), context)
+    const rotated = convertText(createTextElement({ textRotation: 90 }), context)
+
+    expect(rotated.vertical).toBeUndefined()
+    expect(rotated.rotate).toBe(90)
+    expect(rotated.width).toBeCloseTo(plain.height)
+    expect(rotated.height).toBeCloseTo(plain.width)
+    expect(rotated.left + rotated.width / 2).toBeCloseTo(plain.left + plain.width / 2)
+    expect(rotated.top + rotated.height / 2).toBeCloseTo(plain.top + plain.height / 2)
+  })
+
+  it('should add the text rotation to the box rotation and turn the insets with the text', () => {
+    const context = createConversionContext('req', SLIDE_SIZE)
+    const insets = { left: 91440, top: 0, right: 0, bottom: 0 }
+    const clockwise = convertText(createTextElement({ textRotation: 90, insets }), context)
+    const counterClockwise = convertText(createTextElement({ textRotation: 270, insets, transform: {
+      ...createTextElement().transform, rotation: 180,
+    } }), context)
+    const unpadded = convertText(createTextElement({ textRotation: 90 }), context)
+
+    // 形状的左内边距位于顺时针旋转文字的下方、逆时针旋转文字的上方
+    expect(clockwise.height).toBeLessThan(unpadded.height)
+    expect(clockwise.top).toBeCloseTo(unpadded.top)
+    expect(counterClockwise.rotate).toBe(90)
+    expect(counterClockwise.top).toBeGreaterThan(unpadded.top)
+  })
+})
@@ -0,0 +1,65 @@
+/**
+ * 切换效果转换单元测试
+ */
+
+import { describe, it, expect } from 'vitest'
+import { convertTransition } from '../../../src/modules/conversion/converters/transition.js'
+import { convertSlide, createConversionContext } from '../../../src/modules/conversion/services/converter.js'
+import type { PPTXTransition } from '../../../src/modules/conversion/types/pptx.js'
+
+const SLIDE_SIZE = { width: 9144000, height: 6858000 }
+
+describe('convertTransition', () => {
+  it('should map effects and their directions to turning modes', () => {
+    expect(convertTransition({ type: 'p:push', direction: 'u' })).toBe('slideY')
+    expect(convertTransition({ type: 'p:wipe', direction: 'l' })).toBe('slideX')
+    expect(convertTransition({ type: 'p:zoom', direction: 'out' })).toBe('scaleReverse')
+    expect(convertTransition({ type: 'p:split', direction: 'vert' })).toBe('scaleX')
+    expect(convertTransition({ type: 'p14:vortex' })).toBe('rotate')
+    expect(convertTransition({ type: 'p:cut' })).toBe('no')
+  })
+
+  it('should use the mc:Fallback effect when the mc:Choice effect is not recognised', () => {
+    const transition: PPTXTransition = { type: 'p15:unknownEffect', fallback: { type: 'p:push', direction: 'd' } }
+
+    expect(convertTransition(transition)).toBe('slideY')
+    expect(convertTransition({ type: 'p14:prism', fallback: { type: 'p:fade' } })).toBe('slideX3D')
+    expect(convertTransition({ type: 'p15:unknownEffect', fallback: { type: 'p:unknown' } })).toBe('fade')
+  })
+
+  it('should treat transitions without an effect as no animation', () => {
+    expect(convertTransition({ advanceTime: 3000 })).toBe('no')
+    expect(convertTransition(undefined)).toBeUndefined()
+  })
+})
+
+describe('Slide transition output', () => {
+  it('should set turningMode and advanceTime on the slide', () => {
+    const slide = convertSlide({
+      id: 'slide-1',
+      elements: [],
+      transition: { type: 'p:push', direction: 'u', advanceTime: 3000 },
+    }, 0, createConversionContext('req', SLIDE_SIZE))
+
+    expect(slide.turningMode).toBe('slideY')
+    expect(slide.advanceTime).toBe(3000)
+  })
+
+  it('should take the advance time from mc:Fallback when mc:Choice has none', () => {
+    const slide = convertSlide({
+      id: 'slide-1',
+      elements: [],
+      transition: { type: 'p14:vortex', fallback: { type: 'p:fade', advanceTime: 2000 } },
+    }, 0, createConversionContext('req', SLIDE_SIZE))
+
+    expect(slide.turningMode).toBe('rotate')
+    expect(slide.advanceTime).toBe(2000)
+  })
+
+  it('should leave slides without a transition unset', () => {
+    const slide = convertSlide({ id: 'slide-1', elements: [] }, 0, createConversionContext('req', SLIDE_SIZE))
+
+    expect(slide.turningMode).toBeUndefined()
+    expect(slide.advanceTime).toBeUndefined()
+  })
+})
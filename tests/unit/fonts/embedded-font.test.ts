@@ -0,0 +1,108 @@
+/**
+ * 嵌入字体提取单元测试
+ */
+
+import { describe, it, expect } from 'vitest'
+import JSZip from 'jszip'
+import { extractEmbeddedFont, EmbeddedFontError } from '../../../src/modules/conversion/fonts/embedded-font.js'
+import { substituteFont } from '../../../src/modules/conversion/fonts/font-map.js'
+import { parsePPTX } from '../../../src/modules/conversion/services/parser/index.js'
+import { createConversionContext, processFonts } from '../../../src/modules/conversion/services/converter.js'
+import { serializePresentation } from '../../../src/modules/conversion/services/serializer.js'
+
+const NS = 'xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships" xmlns:p="http://schemas.openxmlformats.org/presentationml/2006/main"'
+const REL_NS = 'xmlns="http://schemas.openxmlformats.org/package/2006/relationships"'
+const REL_TYPE = 'http://schemas.openxmlformats.org/officeDocument/2006/relationships'
+
+const TTEMBED_TTCOMPRESSED = 0x4
+const TTEMBED_XORENCRYPTDATA = 0x10000000
+
+// 只有 OS/2 表的最小 TrueType 字体
+const createTtf = (fsType: number): Buffer => {
+  const font = Buffer.alloc(38)
+  font.writeUInt32BE(0x00010000, 0)
+  font.writeUInt16BE(1, 4)
+  font.write('OS/2', 12, 'latin1')
+  font.writeUInt32BE(28, 20)
+  font.writeUInt32BE(10, 24)
+  font.writeUInt16BE(fsType, 36)
+  return font
+}
+
+// EOT 2.1：名称字符串为空，字体数据位于末尾
+const createEot = (font: Buffer, fsType: number, flags = 0): Buffer => {
+  const header = Buffer.alloc(100)
+  header.writeUInt32LE(header.length + font.length, 0)
+  header.writeUInt32LE(font.length, 4)
+  header.writeUInt32LE(0x00020001, 8)
+  header.writeUInt32LE(flags, 12)
+  header.writeUInt16LE(fsType, 32)
+  header.writeUInt16LE(0x504c, 34)
+  const data = Buffer.from(font)
+  if (flags & TTEMBED_XORENCRYPTDATA) {
+    for (let i = 0; i < data.length; i++) data[i] ^= 0x50
+  }
+  return Buffer.concat([header, data])
+}
+
+describe('extractEmbeddedFont', () => {
+  it('should de-obfuscate EOT font data', () => {
+    const ttf = createTtf(0)
+    const font = extractEmbeddedFont(createEot(ttf, 0x0008, TTEMBED_XORENCRYPTDATA))
+
+    expect(font).toEqual({ data: ttf, format: 'truetype', fsType: 0x0008, restricted: false })
+  })
+
+  it('should flag restricted-licence fonts', () => {
+    expect(extractEmbeddedFont(createEot(createTtf(0), 0x0002)).restricted).toBe(true)
+    expect(extractEmbeddedFont(createTtf(0x0002))).toMatchObject({ fsType: 0x0002, restricted: true })
+  })
+
+  it('should reject compressed and unknown font data', () => {
+    expect(() => extractEmbeddedFont(createEot(createTtf(0), 0, TTEMBED_TTCOMPRESSED))).toThrow(EmbeddedFontError)
+    expect(() => extractEmbeddedFont(Buffer.from('not a font'))).toThrow('unrecognised font data')
+  })
+})
+
+describe('processFonts', () => {
+  it('should return embedded fonts as @font-face rules and keep them from substitution', async () => {
+    const zip = new JSZip()
+    zip.file('ppt/presentation.xml', `<p:presentation ${NS}>
+      <p:sldSz cx="9144000" cy="6858000"/>
+      <p:embeddedFontLst>
+        <p:embeddedFont><p:font typeface="Calibri"/><p:regular r:id="rId1"/><p:bold r:id="rId2"/></p:embeddedFont>
+        <p:embeddedFont><p:font typeface="Secret Sans"/><p:regular r:id="rId3"/></p:embeddedFont>
+      </p:embeddedFontLst>
+    </p:presentation>`)
+    zip.file('ppt/_rels/presentation.xml.rels', `<Relationships ${REL_NS}>
+      <Relationship Id="rId1" Type="${REL_TYPE}/font" Target="fonts/font1.fntdata"/>
+      <Relationship Id="rId2" Type="${REL_TYPE}/font" Target="fonts/font2.fntdata"/>
+      <Relationship Id="rId3" Type="${REL_TYPE}/font" Target="fonts/font3.fntdata"/>
+    </Relationships>`)
+    zip.file('ppt/fonts/font1.fntdata', createEot(createTtf(0), 0, TTEMBED_XORENCRYPTDATA))
+    zip.file('ppt/fonts/font2.fntdata', createEot(createTtf(0), 0, TTEMBED_TTCOMPRESSED))
+    zip.file('ppt/fonts/font3.fntdata', createEot(createTtf(0x0002), 0x0002))
+
+    const presentation = await parsePPTX(await zip.generateAsync({ type: 'nodebuffer' }))
+    const context = createConversionContext('req', presentation.slideSize)
+    processFonts(presentation, context)
+    const { embeddedFonts, warnings } = serializePresentation([], context)
+
+    expect(embeddedFonts).toEqual([
+      {
+        fontFamily: 'Calibri',
+        fontWeight: 'normal',
+        fontStyle: 'normal',
+        fontFace: `@font-face { font-family: 'Calibri'; src: url(data:font/ttf;base64,${createTtf(0).toString('base64')}) format('truetype'); ` +
+          'font-weight: normal; font-style: normal; }',
+      },
+      { fontFamily: 'Secret Sans', fontWeight: 'normal', fontStyle: 'normal', restricted: true },
+    ])
+    expect(warnings).toEqual([
+      'WARN_EMBEDDED_FONT_SKIPPED: Embedded font "Calibri" was not extracted: MicroType Express compression',
+      'WARN_EMBEDDED_FONT_SKIPPED: Embedded font "Secret Sans" was not extracted: restricted licence',
+    ])
+    expect(substituteFont('Calibri', context)).toBe('Calibri')
+    expect(substituteFont('Secret Sans', context)).toBe('Secret Sans')
+  })
+})
@@ -0,0 +1,62 @@
+/**
+ * 字体替换单元测试
+ */
+
+import { describe, it, expect } from 'vitest'
+import { substituteFont } from '../../../src/modules/conversion/fonts/font-map.js'
+import { convertSlides, createConversionContext } from '../../../src/modules/conversion/services/converter.js'
+import textModule from '../../../src/modules/conversion/converters/text.js'
+
+const { convertText } = textModule as any
+
+const SLIDE_SIZE = { width: 9144000, height: 6858000 }
+
+describe('substituteFont', () => {
+  it('should replace Office fonts and keep available fonts', () => {
+    const context = createConversionContext('req', SLIDE_SIZE)
+
+    expect(substituteFont('微软雅黑', context)).toBe('SourceHanSans')
+    expect(substituteFont('calibri', context)).toBe('Arial')
+    expect(substituteFont('Georgia', context)).toBe('Georgia')
+    expect(substituteFont('SourceHanSerif', context)).toBe('SourceHanSerif')
+    expect(substituteFont('Fancy Script', context)).toBe('Fancy Script')
+
+    expect([...context.fontFallbacks!]).toEqual([
+      ['微软雅黑', { substitute: 'SourceHanSans', count: 1 }],
+      ['calibri', { substitute: 'Arial', count: 1 }],
+      ['Fancy Script', { substitute: undefined, count: 1 }],
+    ])
+  })
+
+  it('should prefer the configured font map', () => {
+    const context = createConversionContext('req', SLIDE_SIZE, 'include', { Calibri: 'Carlito', 'Fancy Script': 'Fancy Script' })
+
+    expect(substituteFont('Calibri', context)).toBe('Carlito')
+    expect(substituteFont('Fancy Script', context)).toBe('Fancy Script')
+    expect([...context.fontFallbacks!.keys()]).toEqual(['Calibri'])
+  })
+})
+
+describe('WARN_FONT_FALLBACK', () => {
+  it('should report each substituted font once with its run count', () => {
+    const context = createConversionContext('req', SLIDE_SIZE)
+    const text = convertText({
+      type: 'text',
+      id: '2',
+      transform: { x: 0, y: 0, width: 1000000, height: 500000 },
+      paragraphs: [
+        { runs: [{ text: 'a', fontName: 'Calibri' }, { text: 'b', fontName: 'Calibri' }] },
+        { runs: [{ text: '字', fontName: '等线' }] },
+      ],
+    }, context)
+
+    expect(text.defaultFontName).toBe('Arial')
+    expect(text.content).toContain("font-family: 'SourceHanSans'")
+
+    convertSlides({ slides: [] }, context)
+    expect(context.warnings).toEqual([
+      { code: 'WARN_FONT_FALLBACK', message: 'Font "Calibri" was replaced with "Arial" in 2 text runs', count: 2 },
+      { code: 'WARN_FONT_FALLBACK', message: 'Font "等线" was replaced with "SourceHanSans" in 1 text run', count: 1 },
+    ])
+  })
+})
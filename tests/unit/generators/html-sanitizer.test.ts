@@ -0,0 +1,155 @@
+/**
+ * HTML 清理单元测试
+ */
+
+import { describe, it, expect, beforeAll, afterAll } from 'vitest'
+import JSZip from 'jszip'
+import { sanitizeHtml } from '../../../src/modules/conversion/generators/html-sanitizer.js'
+import textModule from '../../../src/modules/conversion/converters/text.js'
+import { parsePPTX } from '../../../src/modules/conversion/services/parser/index.js'
+import { convertSlides, createConversionContext } from '../../../src/modules/conversion/services/converter.js'
+import {
+  clearConverters,
+  registerShapeConverter,
+  registerTableConverter,
+  registerTextConverter,
+} from '../../../src/modules/conversion/converters/index.js'
+
+const { convertText } = textModule as any
+
+const NS = 'xmlns:a="http://schemas.openxmlformats.org/drawingml/2006/main" xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships" xmlns:p="http://schemas.openxmlformats.org/presentationml/2006/main"'
+const REL_NS = 'xmlns="http://schemas.openxmlformats.org/package/2006/relationships"'
+const REL_TYPE = 'http://schemas.openxmlformats.org/officeDocument/2006/relationships'
+
+const XSS = '&lt;img src=x onerror=alert(1)&gt;&lt;script&gt;alert(2)&lt;/script&gt;'
+
+const xfrm = '<a:xfrm><a:off x="0" y="0"/><a:ext cx="1000000" cy="500000"/></a:xfrm>'
+
+// 带有恶意文本、字体名和链接的文本框
+const TEXT_BOX = `<p:sp>
+  <p:nvSpPr><p:cNvPr id="2" name="TextBox 1"/><p:cNvSpPr txBox="1"/><p:nvPr/></p:nvSpPr>
+  <p:spPr>${xfrm}<a:prstGeom prst="rect"><a:avLst/></a:prstGeom></p:spPr>
+  <p:txBody><a:bodyPr/><a:p>
+    <a:r><a:rPr><a:latin typeface="x&quot;;}&lt;/style&gt;&lt;script&gt;alert(3)&lt;/script&gt;"/><a:hlinkClick r:id="rId2"/></a:rPr><a:t>${XSS}</a:t></a:r>
+  </a:p></p:txBody>
+</p:sp>`
+
+// 带文字和元素链接的形状
+const SHAPE = `<p:sp>
+  <p:nvSpPr><p:cNvPr id="3" name="Shape 2"><a:hlinkClick r:id="rId2"/></p:cNvPr><p:cNvSpPr/><p:nvPr/></p:nvSpPr>
+  <p:spPr>${xfrm}<a:prstGeom prst="ellipse"><a:avLst/></a:prstGeom><a:solidFill><a:srgbClr val="FF0000"/></a:solidFill></p:spPr>
+  <p:txBody><a:bodyPr/><a:p><a:r><a:rPr><a:hlinkClick r:id="rId2"/></a:rPr><a:t>${XSS}</a:t></a:r></a:p></p:txBody>
+</p:sp>`
+
+const TABLE = `<p:graphicFrame>
+  <p:nvGraphicFramePr><p:cNvPr id="4" name="Table 3"/><p:cNvGraphicFramePr/><p:nvPr/></p:nvGraphicFramePr>
+  <p:xfrm><a:off x="0" y="0"/><a:ext cx="1000000" cy="500000"/></p:xfrm>
+  <a:graphic><a:graphicData uri="http://schemas.openxmlformats.org/drawingml/2006/table"><a:tbl>
+    <a:tblGrid><a:gridCol w="1000000"/></a:tblGrid>
+    <a:tr h="500000"><a:tc><a:txBody><a:bodyPr/><a:p><a:r><a:t>${XSS}</a:t></a:r></a:p></a:txBody></a:tc></a:tr>
+  </a:tbl></a:graphicData></a:graphic>
+</p:graphicFrame>`
+
+// 创建包含恶意内容的最小 PPTX
+const createMaliciousPptx = async (): Promise<Buffer> => {
+  const zip = new JSZip()
+  zip.file('ppt/presentation.xml', `<p:presentation ${NS}>
+    <p:sldIdLst><p:sldId id="256" r:id="rId1"/></p:sldIdLst>
+    <p:sldSz cx="9144000" cy="6858000"/>
+  </p:presentation>`)
+  zip.file('ppt/_rels/presentation.xml.rels', `<Relationships ${REL_NS}>
+    <Relationship Id="rId1" Type="${REL_TYPE}/slide" Target="slides/slide1.xml"/>
+  </Relationships>`)
+  zip.file('ppt/slides/slide1.xml', `<p:sld ${NS}><p:cSld><p:spTree>
+    <p:nvGrpSpPr><p:cNvPr id="1" name=""/><p:cNvGrpSpPr/><p:nvPr/></p:nvGrpSpPr><p:grpSpPr/>
+    ${TEXT_BOX}${SHAPE}${TABLE}
+  </p:spTree></p:cSld></p:sld>`)
+  zip.file('ppt/slides/_rels/slide1.xml.rels', `<Relationships ${REL_NS}>
+    <Relationship Id="rId2" Type="${REL_TYPE}/hyperlink" Target="javascript:alert(4)" TargetMode="External"/>
+    <Relationship Id="rId3" Type="${REL_TYPE}/notesSlide" Target="../notesSlides/notesSlide1.xml"/>
+  </Relationships>`)
+  zip.file('ppt/notesSlides/notesSlide1.xml', `<p:notes ${NS}><p:cSld><p:spTree>
+    <p:sp><p:nvSpPr><p:cNvPr id="2" name="Notes"/><p:cNvSpPr/><p:nvPr><p:ph type="body"/></p:nvPr></p:nvSpPr>
+      <p:txBody><a:bodyPr/><a:p><a:r><a:t>${XSS}</a:t></a:r></a:p></p:txBody>
+    </p:sp>
+  </p:spTree></p:cSld></p:notes>`)
+  return zip.generateAsync({ type: 'nodebuffer' })
+}
+
+describe('sanitizeHtml', () => {
+  it('should keep allowed tags and styles', () => {
+    const html = '<p style="text-align: center"><span style="color: #FF0000; font-family: \'Arial\'">a &amp; b</span><br></p>'
+
+    expect(sanitizeHtml(html)).toBe('<p style="text-align: center"><span style="color: #FF0000; font-family: \'Arial\'">a &amp; b</span><br></p>')
+  })
+
+  it('should drop disallowed tags, attributes and CSS', () => {
+    const html = '<p onclick="x()" style="color: red; background: url(x); position: fixed">a<img src=x onerror=alert(1)><script>alert(2)</script><b>b</p>'
+
+    expect(sanitizeHtml(html)).toBe('<p style="color: red">a<b>b</b></p>')
+  })
+
+  it('should only keep gradient background images', () => {
+    const gradient = 'background-image: linear-gradient(90deg, #FF0000 0%, #0000FF 100%)'
+
+    expect(sanitizeHtml(`<span style="${gradient}">x</span>`)).toBe(`<span style="${gradient}">x</span>`)
+    expect(sanitizeHtml('<span style="background-image: image-set(&quot;https://evil.example/p.png&quot; 1x)">x</span>')).toBe('<span>x</span>')
+    expect(sanitizeHtml('<span style="background-image: linear-gradient(red, red), -webkit-image-set(\'p.png\' 1x)">x</span>')).toBe('<span>x</span>')
+  })
+
+  it('should strip script links', () => {
+    expect(sanitizeHtml('<a href="jav&#x09;ascript:alert(1)" target="_blank">x</a>')).toBe('<a target="_blank">x</a>')
+    expect(sanitizeHtml('<a href=" JavaScript:alert(1)">x</a>')).toBe('<a>x</a>')
+    expect(sanitizeHtml('<a href="https://example.com/?a=1&amp;b=2">x</a>')).toBe('<a href="https://example.com/?a=1&amp;b=2">x</a>')
+  })
+
+  it('should escape stray markup characters in text', () => {
+    expect(sanitizeHtml('1 < 2 & 3 > 2')).toBe('1 &lt; 2 &amp; 3 &gt; 2')
+  })
+})
+
+describe('Malicious PPTX content', () => {
+  beforeAll(() => {
+    registerTextConverter()
+    registerShapeConverter()
+    registerTableConverter()
+  })
+
+  afterAll(() => {
+    clearConverters()
+  })
+
+  it('should escape text, shape text, table cells and notes', async () => {
+    const presentation = await parsePPTX(await createMaliciousPptx())
+    const context = createConversionContext('req', presentation.slideSize)
+    const [slide] = convertSlides(presentation as any, context)
+    const [text, shape, table] = slide.elements as any[]
+
+    const outputs = [text.content, shape.text.content, table.data[0][0].text, slide.remark]
+    for (const html of outputs) {
+      expect(html).toContain('&lt;img src=x onerror=alert(1)&gt;')
+      expect(html).not.toMatch(/<img|<script|<\/style|javascript:/i)
+    }
+  })
+
+  it('should drop javascript: links on elements', async () => {
+    const presentation = await parsePPTX(await createMaliciousPptx())
+    const context = createConversionContext('req', presentation.slideSize)
+    const [slide] = convertSlides(presentation as any, context)
+
+    expect(presentation.slides[0].elements[1].link).toBeUndefined()
+    expect(slide.elements[1].link).toBeUndefined()
+  })
+
+  it('should quote font names without breaking out of the style', () => {
+    const element = {
+      type: 'text',
+      id: '2',
+      transform: { x: 0, y: 0, width: 1000000, height: 500000 },
+      paragraphs: [{ runs: [{ text: 'a', fontName: 'x";}</style><script>alert(3)</script>' }] }],
+    }
+    const text = convertText(element, createConversionContext('req', { width: 9144000, height: 6858000 }))
+
+    expect(text.content).toBe('<p style="text-align: left"><span style="font-family: \'x/stylescriptalert3/script\'">a</span></p>')
+  })
+})
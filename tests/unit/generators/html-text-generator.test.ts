@@ -0,0 +1,100 @@
+/**
+ * HTML 文本生成器单元测试
+ */
+
+import { describe, it, expect } from 'vitest'
+import { paragraphsToHtml, resolveTextSpacing } from '../../../src/modules/conversion/generators/html-text-generator.js'
+import { parseTextBodyToParagraphs } from '../../../src/modules/conversion/services/parser/elements/shape.js'
+import { createDefaultParsingContext } from '../../../src/modules/conversion/context/parsing-context.js'
+import type { XmlObject } from '../../../src/modules/conversion/context/parsing-context.js'
+
+const paragraph = (text: string, pPr: XmlObject = {}): XmlObject => ({
+  'a:pPr': pPr,
+  'a:r': { 'a:t': text },
+})
+
+const parse = (paragraphs: XmlObject[], listStyles: XmlObject[] = []) =>
+  parseTextBodyToParagraphs({ 'a:p': paragraphs }, createDefaultParsingContext({} as any), listStyles)
+
+describe('paragraphsToHtml', () => {
+  it('should group numbered paragraphs into ordered lists', () => {
+    const paragraphs = parse([
+      paragraph('Intro'),
+      paragraph('One', { attrs: { marL: '342900', indent: '-342900' }, 'a:buAutoNum': { attrs: { type: 'romanUcPeriod', startAt: '3' } } }),
+      paragraph('Two', { attrs: { marL: '342900', indent: '-342900' }, 'a:buAutoNum': { attrs: { type: 'romanUcPeriod', startAt: '3' } } }),
+      paragraph('Point', { 'a:buChar': { attrs: { char: '■' } } }),
+    ])
+
+    expect(paragraphsToHtml(paragraphs)).toBe(
+      '<p style="text-align: left">Intro</p>' +
+      '<ol start="3" style="list-style-type: upper-roman; margin: 0; padding-left: 27px">' +
+      '<li><p style="text-align: left">One</p></li><li><p style="text-align: left">Two</p></li>' +
+      '</ol>' +
+      '<ul style="list-style-type: square; margin: 0; padding-left: 20px"><li><p style="text-align: left">Point</p></li></ul>'
+    )
+  })
+
+  it('should inherit indentation and bullets from the list style chain', () => {
+    const listStyles = [{ 'a:lvl2pPr': { attrs: { marL: '914400', indent: '-228600' }, 'a:buChar': { attrs: { char: '•' } } } }]
+    const [para] = parse([paragraph('Nested', { attrs: { lvl: '1' } })], listStyles)
+
+    expect(para).toMatchObject({ bullet: true, bulletStyle: { char: '•' }, marginLeft: 72, indent: -18 })
+  })
+
+  it('should emit rich run formatting as tags and inline styles', () => {
+    const run = (text: string, rPr: XmlObject) => ({ 'a:rPr': rPr, 'a:t': text })
+    const [para] = parse([{
+      'a:r': [
+        run('H', {}),
+        run('2', { attrs: { baseline: '-25000' } }),
+        run('note', { attrs: { u: 'dbl', strike: 'dblStrike', spc: '150', cap: 'small' }, 'a:highlight': { 'a:srgbClr': { attrs: { val: 'FFFF00' } } } }),
+        run('glow', {
+          'a:ln': { attrs: { w: '12700' }, 'a:solidFill': { 'a:srgbClr': { attrs: { val: '000000' } } } },
+          'a:gradFill': {
+            'a:gsLst': { 'a:gs': [
+              { attrs: { pos: '0' }, 'a:srgbClr': { attrs: { val: 'FF0000' } } },
+              { attrs: { pos: '100000' }, 'a:srgbClr': { attrs: { val: '0000FF' } } },
+            ] },
+            'a:lin': { attrs: { ang: '0' } },
+          },
+        }),
+      ],
+    }])
+
+    expect(paragraphsToHtml([para])).toBe(
+      '<p style="text-align: left">H<sub>2</sub>' +
+      '<span style="background-color: #FFFF00"><span style="letter-spacing: 1.5px; font-variant: small-caps">' +
+      '<s style="text-decoration-style: double"><u style="text-decoration-style: double">note</u></s></span></span>' +
+      '<span style="color: #FF0000; -webkit-text-stroke: 1px #000000; background-image: linear-gradient(90deg, #FF0000 0%, #0000FF 100%); ' +
+      '-webkit-background-clip: text; background-clip: text; -webkit-text-fill-color: transparent">glow</span></p>'
+    )
+  })
+
+  it('should move the most common spacing to the text box', () => {
+    const spaced = { 'a:lnSpc': { 'a:spcPct': { attrs: { val: '150000' } } }, 'a:spcAft': { 'a:spcPts': { attrs: { val: '600' } } } }
+    const paragraphs = parse([
+      paragraph('A', spaced),
+      paragraph('B', spaced),
+      paragraph('C', { 'a:lnSpc': { 'a:spcPts': { attrs: { val: '2400' } } } }),
+    ])
+
+    const spacing = resolveTextSpacing(paragraphs)
+    expect(spacing).toEqual({ lineHeight: 1.8, paragraphSpace: 6 })
+    expect(paragraphsToHtml(paragraphs, spacing)).toBe(
+      '<p style="text-align: left">A</p><p style="text-align: left">B</p>' +
+      '<p style="text-align: left; line-height: 24px; margin-top: 0px; margin-bottom: 0px">C</p>'
+    )
+  })
+  it('should convert percentage paragraph spacing with the run font size', () => {
+    const spaced = { 'a:spcBef': { 'a:spcPct': { attrs: { val: '50000' } } }, 'a:spcAft': { 'a:spcPts': { attrs: { val: '600' } } } }
+    const paragraphs = parse([
+      paragraph('A', spaced),
+      paragraph('B', spaced),
+      { 'a:pPr': spaced, 'a:r': { 'a:rPr': { attrs: { sz: '4000' } }, 'a:t': 'C' } },
+    ])
+
+    const spacing = resolveTextSpacing(paragraphs)
+    expect(spacing).toEqual({ lineHeight: 1.2, paragraphSpace: 16.8 })
+    expect(paragraphsToHtml(paragraphs, spacing)).toContain('margin-top: 24px; margin-bottom: 6px')
+  })
+})
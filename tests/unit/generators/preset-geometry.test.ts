@@ -0,0 +1,122 @@
+/**
+ * 预设几何计算单元测试
+ */
+
+import { describe, it, expect } from 'vitest'
+import {
+  evaluateFormula,
+  evaluateGuides,
+  getBuiltinGuides,
+  generatePresetPaths,
+} from '../../../src/modules/conversion/generators/preset-geometry.js'
+import {
+  generateCustomPath,
+  generateShapePath,
+  getSupportedShapes,
+  isSupportedShape,
+} from '../../../src/modules/conversion/generators/svg-path-generator.js'
+
+describe('Preset Geometry', () => {
+  describe('evaluateFormula', () => {
+    const guides = { w: 200, h: 100, adj: 25000 }
+
+    it('should evaluate arithmetic operators', () => {
+      expect(evaluateFormula('*/ w adj 100000', guides)).toBe(50)
+      expect(evaluateFormula('+- w h 50', guides)).toBe(250)
+      expect(evaluateFormula('+/ w h 3', guides)).toBe(100)
+      expect(evaluateFormula('abs -5', guides)).toBe(5)
+      expect(evaluateFormula('max w h', guides)).toBe(200)
+      expect(evaluateFormula('min w h', guides)).toBe(100)
+      expect(evaluateFormula('sqrt 16', guides)).toBe(4)
+      expect(evaluateFormula('mod 3 4 0', guides)).toBe(5)
+      expect(evaluateFormula('val 42', guides)).toBe(42)
+    })
+
+    it('should evaluate conditional and pin operators', () => {
+      expect(evaluateFormula('?: adj w h', guides)).toBe(200)
+      expect(evaluateFormula('?: 0 w h', guides)).toBe(100)
+      expect(evaluateFormula('pin 0 adj 50000', guides)).toBe(25000)
+      expect(evaluateFormula('pin 0 -10 50000', guides)).toBe(0)
+      expect(evaluateFormula('pin 0 80000 50000', guides)).toBe(50000)
+    })
+
+    it('should evaluate trigonometric operators in 60000ths of a degree', () => {
+      expect(evaluateFormula('cos 100 0', guides)).toBeCloseTo(100)
+      expect(evaluateFormula('sin 100 5400000', guides)).toBeCloseTo(100)
+      expect(evaluateFormula('tan 100 2700000', guides)).toBeCloseTo(100)
+      expect(evaluateFormula('at2 1 1', guides)).toBeCloseTo(2700000)
+      expect(evaluateFormula('cat2 10 1 0', guides)).toBeCloseTo(10)
+      expect(evaluateFormula('sat2 10 0 1', guides)).toBeCloseTo(10)
+    })
+
+    it('should tolerate repeated whitespace between arguments', () => {
+      expect(evaluateFormula('*/ w  adj 100000', guides)).toBe(50)
+    })
+  })
+
+  describe('evaluateGuides', () => {
+    it('should let later guides reference earlier ones', () => {
+      const guides = getBuiltinGuides(200, 100)
+      evaluateGuides([['x1', '*/ ss 1 2'], ['x2', '+- r 0 x1']], guides)
+
+      expect(guides.x1).toBe(50)
+      expect(guides.x2).toBe(150)
+    })
+  })
+
+  describe('generatePresetPaths', () => {
+    it('should return null for unknown shapes', () => {
+      expect(generatePresetPaths('notAShape', 100, 100)).toBeNull()
+    })
+
+    it('should apply adjust values over preset defaults', () => {
+      const defaults = generatePresetPaths('rightArrow', 200, 100)!
+      const adjusted = generatePresetPaths('rightArrow', 200, 100, { adj1: 20000, adj2: 80000 })!
+
+      expect(defaults[0].commands[0]).toEqual({ type: 'moveTo', x: 0, y: 25 })
+      expect(adjusted[0].commands[0]).toEqual({ type: 'moveTo', x: 0, y: 40 })
+      expect(adjusted[0].commands[1]).toEqual({ type: 'lnTo', x: 120, y: 40 })
+    })
+  })
+
+  describe('generateShapePath', () => {
+    it('should generate a path for every supported shape', () => {
+      for (const shapeType of getSupportedShapes()) {
+        const path = generateShapePath(shapeType, 200, 100)
+        expect(path, shapeType).toMatch(/^M/)
+        expect(path, shapeType).not.toMatch(/NaN|Infinity/)
+      }
+    })
+
+    it('should render star5 points on the shape bounds', () => {
+      const path = generateShapePath('star5', 100, 100)
+
+      expect(path).toContain('L50.00,0.00')
+      expect(path).toContain('L80.90,100.00')
+    })
+
+    it('should use the adj value for rounded rectangles', () => {
+      expect(generateShapePath('roundRect', 200, 100, 0)).toBe('M0.00,0.00 L200.00,0.00 L200.00,100.00 L0.00,100.00 Z')
+      expect(generateShapePath('roundRect', 200, 100, 50000)).toContain('A50.00,50.00')
+    })
+
+    it('should leave stroke-only subpaths out of the filled outline', () => {
+      const [body, top] = generatePresetPaths('can', 200, 100)!
+
+      expect(generateShapePath('can', 200, 100)).toBe(generateCustomPath([body, top], 200, 100))
+    })
+
+    it('should fall back to a rectangle for unknown shapes', () => {
+      expect(generateShapePath('notAShape', 10, 20)).toBe('M0,0 L10,0 L10,20 L0,20 Z')
+    })
+  })
+
+  describe('isSupportedShape', () => {
+    it('should support all preset shapes', () => {
+      expect(getSupportedShapes()).toHaveLength(187)
+      expect(isSupportedShape('blockArc')).toBe(true)
+      expect(isSupportedShape('wedgeRoundRectCallout')).toBe(true)
+      expect(isSupportedShape('notAShape')).toBe(false)
+    })
+  })
+})
@@ -0,0 +1,78 @@
+/**
+ * 自定义几何 SVG 路径生成单元测试
+ */
+
+import { describe, it, expect } from 'vitest'
+import { generateCustomPath } from '../../../src/modules/conversion/generators/svg-path-generator.js'
+import type { PPTXCustomPath, PPTXPathCommand } from '../../../src/modules/conversion/types/pptx.js'
+
+const path = (w: number, h: number, commands: PPTXPathCommand[], fill?: string): PPTXCustomPath => ({ w, h, fill, commands })
+
+describe('generateCustomPath', () => {
+  it('should output commands in order', () => {
+    const commands: PPTXPathCommand[] = [
+      { type: 'moveTo', x: 0, y: 0 },
+      { type: 'lnTo', x: 100, y: 0 },
+      { type: 'cubicBezTo', points: [[100, 25], [75, 50], [50, 50]] },
+      { type: 'quadBezTo', points: [[0, 50], [0, 25]] },
+      { type: 'close' },
+    ]
+
+    expect(generateCustomPath([path(100, 50, commands)], 100, 50)).toBe(
+      'M0.00,0.00 L100.00,0.00 C100.00,25.00 75.00,50.00 50.00,50.00 Q0.00,50.00 0.00,25.00 Z'
+    )
+  })
+
+  it('should scale coordinates from the path space to the element size', () => {
+    const commands: PPTXPathCommand[] = [
+      { type: 'moveTo', x: 0, y: 0 },
+      { type: 'lnTo', x: 100, y: 50 },
+      { type: 'close' },
+    ]
+
+    expect(generateCustomPath([path(100, 50, commands)], 200, 200)).toBe('M0.00,0.00 L200.00,200.00 Z')
+  })
+
+  it('should draw arcTo from the current point', () => {
+    const commands: PPTXPathCommand[] = [
+      { type: 'moveTo', x: 100, y: 50 },
+      { type: 'arcTo', wR: 50, hR: 50, stAng: 0, swAng: 90 },
+    ]
+
+    expect(generateCustomPath([path(100, 100, commands)], 100, 100)).toBe('M100.00,50.00 A50.00,50.00 0 0 1 50.00,100.00')
+  })
+
+  it('should split arcs over 180 degrees into two segments', () => {
+    const commands: PPTXPathCommand[] = [
+      { type: 'moveTo', x: 100, y: 50 },
+      { type: 'arcTo', wR: 50, hR: 50, stAng: 0, swAng: 360 },
+      { type: 'close' },
+    ]
+
+    expect(generateCustomPath([path(100, 100, commands)], 100, 100)).toBe(
+      'M100.00,50.00 A50.00,50.00 0 0 1 0.00,50.00 A50.00,50.00 0 0 1 100.00,50.00 Z'
+    )
+  })
+
+  it('should join multiple paths, each scaled from its own path space', () => {
+    const paths = [
+      path(10, 10, [{ type: 'moveTo', x: 0, y: 0 }, { type: 'lnTo', x: 10, y: 10 }]),
+      path(20, 20, [{ type: 'moveTo', x: 0, y: 20 }, { type: 'lnTo', x: 20, y: 0 }]),
+    ]
+
+    expect(generateCustomPath(paths, 100, 100)).toBe('M0.00,0.00 L100.00,100.00 M0.00,100.00 L100.00,0.00')
+  })
+
+  it('should leave fill="none" paths out of the filled outline', () => {
+    const outline = path(10, 10, [{ type: 'moveTo', x: 0, y: 0 }, { type: 'lnTo', x: 10, y: 0 }, { type: 'lnTo', x: 10, y: 10 }, { type: 'close' }])
+    const detail = path(10, 10, [{ type: 'moveTo', x: 0, y: 10 }, { type: 'lnTo', x: 10, y: 0 }], 'none')
+
+    expect(generateCustomPath([outline, detail], 10, 10)).toBe('M0.00,0.00 L10.00,0.00 L10.00,10.00 Z')
+  })
+
+  it('should keep fill="none" paths when no path is filled', () => {
+    const line = path(10, 10, [{ type: 'moveTo', x: 0, y: 10 }, { type: 'lnTo', x: 10, y: 0 }], 'none')
+
+    expect(generateCustomPath([line], 10, 10)).toBe('M0.00,10.00 L10.00,0.00')
+  })
+})
@@ -0,0 +1,131 @@
+/**
+ * 媒体转码单元测试
+ */
+
+import { describe, it, expect } from 'vitest'
+import { inflateSync, deflateSync } from 'node:zlib'
+import { transcodeMedia, UnsupportedMediaError } from '../../../src/modules/conversion/media/index.js'
+
+// 按 [值, 字节数] 写入小端整数
+const bytes = (...fields: [number, 1 | 2 | 4][]): Buffer => {
+  const buffer = Buffer.alloc(fields.reduce((sum, [, size]) => sum + size, 0))
+  let offset = 0
+  for (const [value, size] of fields) {
+    if (size === 1) buffer.writeUInt8(value, offset)
+    else if (size === 2) buffer.writeUInt16LE(value & 0xffff, offset)
+    else buffer.writeUInt32LE(value >>> 0, offset)
+    offset += size
+  }
+  return buffer
+}
+
+// 创建 EMF：96 x 48 px 的图片框（96 DPI），后接给定记录和 EOF
+const createEmf = (records: Buffer[]): Buffer => {
+  const body = [...records, bytes([14, 4], [20, 4], [0, 4], [0, 4], [20, 4])]
+  const header = bytes(
+    [1, 4], [88, 4],
+    [0, 4], [0, 4], [99, 4], [49, 4], // rclBounds
+    [0, 4], [0, 4], [2540, 4], [1270, 4], // rclFrame，0.01 毫米
+    [0x464d4520, 4], [0x10000, 4],
+    [88 + body.reduce((sum, record) => sum + record.length, 0), 4], [body.length + 1, 4],
+    [2, 2], [0, 2], [0, 4], [0, 4], [0, 4],
+    [960, 4], [480, 4], [254, 4], [127, 4] // szlDevice, szlMillimeters
+  )
+  return Buffer.concat([header, ...body])
+}
+
+// EMR_CREATEBRUSHINDIRECT + EMR_SELECTOBJECT + EMR_RECTANGLE
+const redRectangleRecords = (): Buffer[] => [
+  bytes([39, 4], [24, 4], [1, 4], [0, 4], [0x0000ff, 4], [0, 4]),
+  bytes([37, 4], [12, 4], [1, 4]),
+  bytes([43, 4], [24, 4], [10, 4], [10, 4], [90, 4], [40, 4]),
+]
+
+// 创建可放置 WMF：1 x 0.5 英寸，每英寸 1440 逻辑单位
+const createWmf = (records: Buffer[]): Buffer => {
+  const body = Buffer.concat([...records, bytes([3, 4], [0, 2])])
+  const placeable = bytes([0x9ac6cdd7, 4], [0, 2], [0, 2], [0, 2], [1440, 2], [720, 2], [1440, 2], [0, 4], [0, 2])
+  const header = bytes([1, 2], [9, 2], [0x0300, 2], [(18 + body.length) / 2, 4], [1, 2], [7, 4], [0, 2])
+  return Buffer.concat([placeable, header, body])
+}
+
+// 创建 8 位灰度 TIFF（默认 2 x 1，单条带）
+const createTiff = (pixels: number[], { width = 2, height = 1, compression = 1 } = {}): Buffer => {
+  const entries: [number, number, number, number][] = [
+    [256, 4, 1, width], [257, 4, 1, height], [258, 3, 1, 8], [259, 3, 1, compression], [262, 3, 1, 1],
+    [273, 4, 1, 122], [277, 3, 1, 1], [278, 4, 1, height], [279, 4, 1, pixels.length],
+  ]
+  return Buffer.concat([
+    Buffer.from('II'), bytes([42, 2], [8, 4], [entries.length, 2]),
+    ...entries.map(([tag, type, count, value]) => bytes([tag, 2], [type, 2], [count, 4], [value, 4])),
+    bytes([0, 4]),
+    Buffer.from(pixels),
+  ])
+}
+
+describe('transcodeMedia', () => {
+  it('should replay EMF records as SVG paths', () => {
+    const result = transcodeMedia({ data: createEmf(redRectangleRecords()), contentType: 'image/x-emf' })
+    const svg = result.data.toString('utf8')
+
+    expect(result.contentType).toBe('image/svg+xml')
+    expect(svg).toContain('width="96" height="48"')
+    expect(svg).toContain('viewBox="0 0 96 48"')
+    expect(svg).toMatch(/<path d="M 10 10[^"]*"[^>]*fill="#FF0000"/)
+  })
+
+  it('should replay WMF records with reversed parameters', () => {
+    const wmf = createWmf([
+      bytes([7, 4], [0x02fc, 2], [0, 2], [0x00ff00, 4], [0, 2]),
+      bytes([4, 4], [0x012d, 2], [0, 2]),
+      bytes([7, 4], [0x041b, 2], [600, 2], [1200, 2], [120, 2], [240, 2]),
+    ])
+    const svg = transcodeMedia({ data: wmf, contentType: 'image/x-wmf' }).data.toString('utf8')
+
+    expect(svg).toContain('width="96" height="48"')
+    expect(svg).toContain('viewBox="0 0 1440 720"')
+    expect(svg).toMatch(/<path d="M 240 120[^"]*"[^>]*fill="#00FF00"/)
+  })
+
+  it('should reject unsupported EMF records', () => {
+    const gradientFill = bytes([118, 4], [36, 4], [0, 4], [0, 4], [0, 4], [0, 4], [0, 4], [0, 4], [0, 4])
+    const emf = createEmf([...redRectangleRecords(), gradientFill])
+
+    expect(() => transcodeMedia({ data: emf, contentType: 'image/x-emf' })).toThrow(UnsupportedMediaError)
+    expect(() => transcodeMedia({ data: emf, contentType: 'image/x-emf' })).toThrow('EMR_GRADIENTFILL')
+  })
+
+  it('should report truncated files as unsupported media', () => {
+    const emf = createEmf(redRectangleRecords()).subarray(0, 40)
+
+    expect(() => transcodeMedia({ data: emf, contentType: 'image/x-emf' })).toThrow(UnsupportedMediaError)
+  })
+
+  it('should decode TIFF to PNG', () => {
+    const result = transcodeMedia({ data: createTiff([0, 255]), contentType: 'image/tiff' })
+    const png = result.data
+
+    expect(result.contentType).toBe('image/png')
+    expect(png.subarray(1, 4).toString('latin1')).toBe('PNG')
+    expect([png.readUInt32BE(16), png.readUInt32BE(20)]).toEqual([2, 1])
+
+    const idatLength = png.readUInt32BE(33)
+    const pixels = inflateSync(png.subarray(41, 41 + idatLength))
+    expect([...pixels]).toEqual([0, 0, 0, 0, 255, 255, 255, 255, 255])
+  })
+
+  it('should reject TIFF dimensions before allocating pixels', () => {
+    const tiff = (pixels: number[], options: { width: number; height: number; compression?: number }) =>
+      () => transcodeMedia({ data: createTiff(pixels, options), contentType: 'image/tiff' })
+
+    expect(tiff([0], { width: 100000, height: 100000 })).toThrow('larger than')
+    expect(tiff([0], { width: 4000, height: 4000 })).toThrow('TIFF strip shorter than its rows')
+    expect(tiff([...deflateSync(Buffer.alloc(64))], { width: 2, height: 2, compression: 8 })).toThrow('TIFF deflate strip')
+  })
+
+  it('should pass through formats browsers can display', () => {
+    const media = { data: Buffer.from('png'), contentType: 'image/png' }
+
+    expect(transcodeMedia(media)).toBe(media)
+  })
+})
@@ -0,0 +1,82 @@
+/**
+ * 自定义几何解析单元测试
+ */
+
+import { describe, it, expect } from 'vitest'
+import JSZip from 'jszip'
+import { parseCustomGeometry } from '../../../src/modules/conversion/services/parser/elements/custom-geometry.js'
+import { readXmlFile } from '../../../src/modules/conversion/services/parser/utils.js'
+import type { XmlObject } from '../../../src/modules/conversion/context/parsing-context.js'
+
+// 解析 a:custGeom 节点，经 readXmlFile 注入路径命令的 order 属性
+const parseCustGeom = async (body: string): Promise<XmlObject> => {
+  const zip = new JSZip()
+  zip.file('ppt/slides/slide1.xml', `<?xml version="1.0" encoding="UTF-8"?>
+<a:custGeom xmlns:a="http://schemas.openxmlformats.org/drawingml/2006/main">${body}</a:custGeom>`)
+  return (await readXmlFile(zip, 'ppt/slides/slide1.xml'))['a:custGeom']
+}
+
+const pt = (x: number | string, y: number | string) => `<a:pt x="${x}" y="${y}"/>`
+
+describe('parseCustomGeometry', () => {
+  it('should return an empty list without a custGeom node', () => {
+    expect(parseCustomGeometry(undefined, 100, 50)).toEqual([])
+  })
+
+  it('should keep path commands in document order', async () => {
+    const custGeom = await parseCustGeom(`<a:pathLst><a:path w="100" h="50">
+      <a:moveTo>${pt(0, 0)}</a:moveTo>
+      <a:lnTo>${pt(100, 0)}</a:lnTo>
+      <a:cubicBezTo>${pt(100, 10)}${pt(90, 20)}${pt(80, 25)}</a:cubicBezTo>
+      <a:arcTo wR="25" hR="25" stAng="0" swAng="5400000"/>
+      <a:lnTo>${pt(0, 50)}</a:lnTo>
+      <a:close/>
+    </a:path></a:pathLst>`)
+
+    expect(parseCustomGeometry(custGeom, 1000, 500)).toEqual([
+      {
+        w: 100,
+        h: 50,
+        fill: undefined,
+        commands: [
+          { type: 'moveTo', x: 0, y: 0 },
+          { type: 'lnTo', x: 100, y: 0 },
+          { type: 'cubicBezTo', points: [[100, 10], [90, 20], [80, 25]] },
+          { type: 'arcTo', wR: 25, hR: 25, stAng: 0, swAng: 90 },
+          { type: 'lnTo', x: 0, y: 50 },
+          { type: 'close' },
+        ],
+      },
+    ])
+  })
+
+  it('should resolve guide names and default the path space to the shape size', async () => {
+    const custGeom = await parseCustGeom(`
+      <a:gdLst><a:gd name="mid" fmla="val 500"/></a:gdLst>
+      <a:pathLst><a:path><a:moveTo>${pt('mid', 't')}</a:moveTo><a:lnTo>${pt('r', 'b')}</a:lnTo></a:path></a:pathLst>`)
+
+    const [path] = parseCustomGeometry(custGeom, 1000, 500)
+
+    expect(path).toMatchObject({ w: 1000, h: 500 })
+    expect(path.commands).toEqual([
+      { type: 'moveTo', x: 500, y: 0 },
+      { type: 'lnTo', x: 1000, y: 500 },
+    ])
+  })
+
+  it('should parse every a:path and keep fill="none"', async () => {
+    const custGeom = await parseCustGeom(`<a:pathLst>
+      <a:path w="10" h="10"><a:moveTo>${pt(0, 0)}</a:moveTo><a:lnTo>${pt(10, 10)}</a:lnTo><a:close/></a:path>
+      <a:path w="20" h="20" fill="none"><a:moveTo>${pt(0, 20)}</a:moveTo><a:lnTo>${pt(20, 0)}</a:lnTo></a:path>
+      <a:path w="30" h="30"/>
+    </a:pathLst>`)
+
+    const paths = parseCustomGeometry(custGeom, 100, 100)
+
+    expect(paths).toHaveLength(2)
+    expect(paths[0]).toMatchObject({ w: 10, h: 10, fill: undefined })
+    expect(paths[0].commands).toHaveLength(3)
+    expect(paths[1]).toMatchObject({ w: 20, h: 20, fill: 'none' })
+    expect(paths[1].commands[1]).toEqual({ type: 'lnTo', x: 20, y: 0 })
+  })
+})
@@ -0,0 +1,132 @@
+/**
+ * SmartArt 绘图部件解析单元测试
+ */
+
+import { describe, it, expect } from 'vitest'
+import JSZip from 'jszip'
+import { parseDiagram } from '../../../src/modules/conversion/services/parser/elements/diagram.js'
+import { parseGraphicFrame } from '../../../src/modules/conversion/services/parser/elements/graphic-frame.js'
+import { parseShape } from '../../../src/modules/conversion/services/parser/elements/shape.js'
+import { parsePicture } from '../../../src/modules/conversion/services/parser/elements/picture.js'
+import { getOrderedChildren } from '../../../src/modules/conversion/services/parser/utils.js'
+import { createDefaultParsingContext } from '../../../src/modules/conversion/context/parsing-context.js'
+import type { ParsingContext, XmlObject } from '../../../src/modules/conversion/context/parsing-context.js'
+import type { PPTXElement, PPTXImageElement, PPTXShapeElement } from '../../../src/modules/conversion/types/pptx.js'
+
+const DATA_XML = `<?xml version="1.0" encoding="UTF-8"?>
+<dgm:dataModel xmlns:dgm="http://schemas.openxmlformats.org/drawingml/2006/diagram" xmlns:a="http://schemas.openxmlformats.org/drawingml/2006/main">
+  <dgm:extLst><a:ext uri="http://schemas.microsoft.com/office/drawing/2008/diagram">
+    <dsp:dataModelExt xmlns:dsp="http://schemas.microsoft.com/office/drawing/2008/diagram" relId="rId3"/>
+  </a:ext></dgm:extLst>
+</dgm:dataModel>`
+
+const diagramShape = (x: number, prst: string, text?: string) => `
+  <dsp:sp modelId="{${x}}">
+    <dsp:nvSpPr><dsp:cNvPr id="0" name=""/><dsp:cNvSpPr/></dsp:nvSpPr>
+    <dsp:spPr>
+      <a:xfrm><a:off x="${x}" y="100"/><a:ext cx="1000" cy="500"/></a:xfrm>
+      <a:prstGeom prst="${prst}"><a:avLst/></a:prstGeom>
+      <a:solidFill><a:srgbClr val="4472C4"/></a:solidFill>
+    </dsp:spPr>
+    ${text ? `<dsp:txBody><a:bodyPr/><a:p><a:r><a:t>${text}</a:t></a:r></a:p></dsp:txBody>` : ''}
+  </dsp:sp>`
+
+const DRAWING_XML = `<?xml version="1.0" encoding="UTF-8"?>
+<dsp:drawing xmlns:dsp="http://schemas.microsoft.com/office/drawing/2008/diagram" xmlns:a="http://schemas.openxmlformats.org/drawingml/2006/main">
+  <dsp:spTree>
+    <dsp:nvGrpSpPr><dsp:cNvPr id="0" name=""/><dsp:cNvGrpSpPr/></dsp:nvGrpSpPr>
+    <dsp:grpSpPr/>
+    ${diagramShape(0, 'ellipse', 'First')}
+    ${diagramShape(2000, 'rightArrow')}
+  </dsp:spTree>
+</dsp:drawing>`
+
+const PICTURE_DRAWING_XML = `<?xml version="1.0" encoding="UTF-8"?>
+<dsp:drawing xmlns:dsp="http://schemas.microsoft.com/office/drawing/2008/diagram" xmlns:a="http://schemas.openxmlformats.org/drawingml/2006/main" xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships">
+  <dsp:spTree>
+    <dsp:nvGrpSpPr><dsp:cNvPr id="0" name=""/><dsp:cNvGrpSpPr/></dsp:nvGrpSpPr>
+    <dsp:grpSpPr/>
+    <dsp:pic>
+      <dsp:nvPicPr><dsp:cNvPr id="0" name=""/><dsp:cNvPicPr/></dsp:nvPicPr>
+      <dsp:blipFill><a:blip r:embed="rId1"/></dsp:blipFill>
+      <dsp:spPr><a:xfrm><a:off x="0" y="0"/><a:ext cx="1000" cy="1000"/></a:xfrm></dsp:spPr>
+    </dsp:pic>
+  </dsp:spTree>
+</dsp:drawing>`
+
+const DRAWING_RELS_XML = `<?xml version="1.0" encoding="UTF-8"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">
+  <Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/image" Target="../media/image5.png"/>
+</Relationships>`
+
+const createFrame = (dataRId: string): XmlObject => ({
+  'p:nvGraphicFramePr': { 'p:cNvPr': { attrs: { id: '5', name: 'Diagram 4' } } },
+  'p:xfrm': {
+    'a:off': { attrs: { x: '10000', y: '20000' } },
+    'a:ext': { attrs: { cx: '6000', cy: '3000' } },
+  },
+  'a:graphic': {
+    'a:graphicData': {
+      attrs: { uri: 'http://schemas.openxmlformats.org/drawingml/2006/diagram' },
+      'dgm:relIds': { attrs: { 'r:dm': dataRId } },
+    },
+  },
+})
+
+const createContext = (drawingXml = DRAWING_XML): ParsingContext => {
+  const zip = new JSZip()
+  zip.file('ppt/diagrams/data1.xml', DATA_XML)
+  zip.file('ppt/diagrams/drawing7.xml', drawingXml)
+  zip.file('ppt/diagrams/_rels/drawing7.xml.rels', DRAWING_RELS_XML)
+
+  return {
+    ...createDefaultParsingContext(zip),
+    slideResObj: {
+      rId2: { type: 'diagramData', target: 'ppt/diagrams/data1.xml' },
+      rId3: { type: 'http://schemas.microsoft.com/office/2007/relationships/diagramDrawing', target: 'ppt/diagrams/drawing7.xml' },
+      rId4: { type: 'diagramData', target: 'ppt/diagrams/data2.xml' },
+    },
+  }
+}
+
+// 只包含形状和图片的简化形状树解析
+const parseShapeTree = async (tree: XmlObject, context: ParsingContext): Promise<PPTXElement[]> =>
+  getOrderedChildren(tree, ['p:sp', 'p:pic'])
+    .map(({ tag, node }) => tag === 'p:pic' ? parsePicture(node, context) : parseShape(node, context))
+    .filter((element): element is PPTXElement => element !== null)
+
+describe('SmartArt diagrams', () => {
+  it('should expand the drawing part into a group positioned on the frame', async () => {
+    const elements = await parseDiagram(createFrame('rId2'), createContext(), parseShapeTree)
+
+    expect(elements).toHaveLength(2)
+    expect(elements![0].transform).toMatchObject({ x: 10000, y: 20100, width: 1000, height: 500 })
+    expect(elements![1].transform).toMatchObject({ x: 12000, y: 20100 })
+    expect(new Set(elements!.map(element => element.groupId)).size).toBe(1)
+    expect(elements![0].groupSpIds).toEqual(['5'])
+  })
+
+  it('should keep filled diagram shapes with text as shapes', async () => {
+    const [first] = await parseDiagram(createFrame('rId2'), createContext(), parseShapeTree) as PPTXShapeElement[]
+
+    expect(first.type).toBe('shape')
+    expect(first.shapeType).toBe('ellipse')
+    expect(first.fill).toBe('#4472C4')
+    expect(first.paragraphs?.[0].runs[0].text).toBe('First')
+  })
+
+  it('should prefix picture rIds with the drawing part', async () => {
+    const [picture] = await parseDiagram(createFrame('rId2'), createContext(PICTURE_DRAWING_XML), parseShapeTree) as PPTXImageElement[]
+
+    expect(picture.type).toBe('image')
+    expect(picture.rId).toBe('diagram:ppt/diagrams/drawing7.xml:rId1')
+  })
+
+  it('should fall back to a SmartArt placeholder without a drawing part', async () => {
+    const context = createContext()
+    const frame = createFrame('rId4')
+
+    expect(await parseDiagram(frame, context, parseShapeTree)).toBeNull()
+    expect(await parseGraphicFrame(frame, context)).toMatchObject({ type: 'shape', shapeType: 'smartArt', id: '5' })
+  })
+})
@@ -0,0 +1,121 @@
+/**
+ * 组合形状解析单元测试
+ */
+
+import { describe, it, expect } from 'vitest'
+import {
+  parseGroup,
+  parseGroupTransform,
+  mapGroupPoint,
+  composeGroupTransform,
+} from '../../../src/modules/conversion/services/parser/elements/group.js'
+import { createDefaultParsingContext } from '../../../src/modules/conversion/context/parsing-context.js'
+import type { XmlObject } from '../../../src/modules/conversion/context/parsing-context.js'
+import type { PPTXElement } from '../../../src/modules/conversion/types/pptx.js'
+
+// 创建组合形状属性节点：组位于 (1000, 2000)，尺寸 2000x1000，子坐标系 1000x1000
+const createGrpSpPr = (attrs: Record<string, string> = {}): XmlObject => ({
+  'a:xfrm': {
+    attrs,
+    'a:off': { attrs: { x: '1000', y: '2000' } },
+    'a:ext': { attrs: { cx: '2000', cy: '1000' } },
+    'a:chOff': { attrs: { x: '0', y: '0' } },
+    'a:chExt': { attrs: { cx: '1000', cy: '1000' } },
+  },
+})
+
+describe('Group parsing', () => {
+  describe('parseGroupTransform', () => {
+    it('should read position, child coordinates, rotation and flips', () => {
+      expect(parseGroupTransform(createGrpSpPr({ rot: '5400000', flipH: '1' }))).toEqual({
+        x: 1000, y: 2000, width: 2000, height: 1000,
+        childX: 0, childY: 0, childWidth: 1000, childHeight: 1000,
+        rotation: 90, flipH: true, flipV: false,
+      })
+    })
+
+    it('should default the child coordinates to the group position and size', () => {
+      const group = parseGroupTransform({
+        'a:xfrm': { 'a:off': { attrs: { x: '10', y: '20' } }, 'a:ext': { attrs: { cx: '30', cy: '40' } } },
+      })
+
+      expect(group).toMatchObject({ childX: 10, childY: 20, childWidth: 30, childHeight: 40, rotation: 0 })
+    })
+  })
+
+  describe('mapGroupPoint', () => {
+    it('should scale and offset child coordinates', () => {
+      const group = parseGroupTransform(createGrpSpPr())
+
+      expect(mapGroupPoint(group, 0, 0)).toEqual([1000, 2000])
+      expect(mapGroupPoint(group, 500, 500)).toEqual([2000, 2500])
+    })
+
+    it('should flip around the group center', () => {
+      expect(mapGroupPoint(parseGroupTransform(createGrpSpPr({ flipH: '1' })), 0, 0)).toEqual([3000, 2000])
+      expect(mapGroupPoint(parseGroupTransform(createGrpSpPr({ flipV: '1' })), 0, 0)).toEqual([1000, 3000])
+    })
+
+    it('should rotate around the group center', () => {
+      const [x, y] = mapGroupPoint(parseGroupTransform(createGrpSpPr({ rot: '5400000' })), 0, 0)
+
+      expect(x).toBeCloseTo(2500)
+      expect(y).toBeCloseTo(1500)
+    })
+  })
+
+  describe('composeGroupTransform', () => {
+    it('should scale child transforms into the parent coordinates', () => {
+      const group = parseGroupTransform(createGrpSpPr())
+
+      expect(composeGroupTransform({ x: 0, y: 0, width: 500, height: 500 }, group)).toEqual({
+        x: 1000, y: 2000, width: 1000, height: 500,
+        rotation: undefined, flipH: undefined, flipV: undefined,
+      })
+    })
+
+    it('should mirror position and rotation and flip children of flipped groups', () => {
+      const group = parseGroupTransform(createGrpSpPr({ flipH: '1' }))
+
+      expect(composeGroupTransform({ x: 0, y: 0, width: 500, height: 500, rotation: 30 }, group)).toEqual({
+        x: 2000, y: 2000, width: 1000, height: 500,
+        rotation: 330, flipH: true, flipV: undefined,
+      })
+    })
+
+    it('should cancel out flips of flipped children', () => {
+      const group = parseGroupTransform(createGrpSpPr({ flipV: '1' }))
+
+      expect(composeGroupTransform({ x: 0, y: 0, width: 500, height: 500, flipV: true }, group).flipV).toBeUndefined()
+    })
+
+    it('should swap the scale of quarter-turned children', () => {
+      const group = parseGroupTransform(createGrpSpPr())
+
+      expect(composeGroupTransform({ x: 0, y: 0, width: 500, height: 200, rotation: 90 }, group))
+        .toMatchObject({ width: 500, height: 400, rotation: 90 })
+    })
+  })
+
+  describe('parseGroup', () => {
+    it('should flatten children with a shared groupId and the group id chain', async () => {
+      const child = (id: string): PPTXElement => ({
+        type: 'shape', id, transform: { x: 0, y: 0, width: 500, height: 500 }, groupSpIds: ['9'],
+      })
+      const grpSp: XmlObject = {
+        'p:nvGrpSpPr': { 'p:cNvPr': { attrs: { id: '4', name: 'Group 3' } } },
+        'p:grpSpPr': createGrpSpPr(),
+      }
+
+      const elements = await parseGroup(grpSp, createDefaultParsingContext({} as any), async () => [child('a'), child('b')])
+
+      expect(elements.map(element => element.transform)).toEqual([
+        expect.objectContaining({ x: 1000, y: 2000, width: 1000, height: 500 }),
+        expect.objectContaining({ x: 1000, y: 2000, width: 1000, height: 500 }),
+      ])
+      expect(elements[0].groupId).toBeDefined()
+      expect(elements[0].groupId).toBe(elements[1].groupId)
+      expect(elements[0].groupSpIds).toEqual(['4', '9'])
+    })
+  })
+})
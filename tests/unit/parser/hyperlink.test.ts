@@ -0,0 +1,116 @@
+/**
+ * 超链接解析单元测试
+ */
+
+import { describe, it, expect } from 'vitest'
+import JSZip from 'jszip'
+import { resolveHyperlink, getElementHyperlink } from '../../../src/modules/conversion/services/parser/hyperlink.js'
+import { parsePPTX } from '../../../src/modules/conversion/services/parser/index.js'
+import { createDefaultParsingContext } from '../../../src/modules/conversion/context/parsing-context.js'
+import type { ParsingContext } from '../../../src/modules/conversion/context/parsing-context.js'
+
+// 当前为 4 张幻灯片中的第 2 张
+const createContext = (): ParsingContext => ({
+  ...createDefaultParsingContext({} as any),
+  slideIndex: 2,
+  slideIds: {
+    'ppt/slides/slide1.xml': 'slide-1',
+    'ppt/slides/slide2.xml': 'slide-2',
+    'ppt/slides/slide3.xml': 'slide-3',
+    'ppt/slides/slide4.xml': 'slide-4',
+  },
+  slideResObj: {
+    rId2: { type: 'hyperlink', target: 'https://example.com/', external: true },
+    rId3: { type: 'slide', target: 'slide4.xml' },
+    rId4: { type: 'slide', target: 'slide9.xml' },
+  },
+})
+
+const hlinkClick = (attrs: Record<string, string>) => ({ attrs })
+
+describe('resolveHyperlink', () => {
+  it('should resolve web links through the relationships', () => {
+    expect(resolveHyperlink(hlinkClick({ 'r:id': 'rId2' }), createContext())).toEqual({ type: 'web', target: 'https://example.com/' })
+  })
+
+  it('should resolve slide jumps to converted slide ids', () => {
+    const context = createContext()
+
+    expect(resolveHyperlink(hlinkClick({ 'r:id': 'rId3', action: 'ppaction://hlinksldjump' }), context))
+      .toEqual({ type: 'slide', target: 'slide-4' })
+    expect(resolveHyperlink(hlinkClick({ 'r:id': 'rId4', action: 'ppaction://hlinksldjump' }), context)).toBeUndefined()
+  })
+
+  it('should resolve show jumps relative to the current slide', () => {
+    const jump = (target: string) =>
+      resolveHyperlink(hlinkClick({ action: `ppaction://hlinkshowjump?jump=${target}` }), createContext())?.target
+
+    expect(jump('nextslide')).toBe('slide-3')
+    expect(jump('previousslide')).toBe('slide-1')
+    expect(jump('firstslide')).toBe('slide-1')
+    expect(jump('lastslide')).toBe('slide-4')
+    expect(jump('endshow')).toBeUndefined()
+  })
+
+  it('should ignore actions without a PPTist equivalent', () => {
+    expect(resolveHyperlink(hlinkClick({ 'r:id': 'rId2', action: 'ppaction://macro?name=Run' }), createContext())).toBeUndefined()
+    expect(resolveHyperlink(undefined, createContext())).toBeUndefined()
+  })
+
+  it('should read the link from the element non-visual properties', () => {
+    const pic = { 'p:nvPicPr': { 'p:cNvPr': { attrs: { id: '4' }, 'a:hlinkClick': hlinkClick({ 'r:id': 'rId2' }) } } }
+
+    expect(getElementHyperlink(pic, createContext())).toEqual({ type: 'web', target: 'https://example.com/' })
+  })
+})
+
+describe('Group hyperlinks', () => {
+  const NS = 'xmlns:p="http://schemas.openxmlformats.org/presentationml/2006/main" xmlns:a="http://schemas.openxmlformats.org/drawingml/2006/main" xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships"'
+
+  const shape = (id: string, link = '') => `
+    <p:sp>
+      <p:nvSpPr><p:cNvPr id="${id}" name="Shape ${id}">${link}</p:cNvPr><p:cNvSpPr/><p:nvPr/></p:nvSpPr>
+      <p:spPr><a:xfrm><a:off x="0" y="0"/><a:ext cx="100" cy="100"/></a:xfrm><a:prstGeom prst="ellipse"/></p:spPr>
+    </p:sp>`
+
+  // 组合链接到网页，组内第一个形状有自己的链接（跳转到第 1 张幻灯片）
+  const createPresentation = async (): Promise<Buffer> => {
+    const zip = new JSZip()
+    zip.file('[Content_Types].xml', `<?xml version="1.0" encoding="UTF-8"?>
+<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">
+  <Override PartName="/ppt/slides/slide1.xml" ContentType="application/vnd.openxmlformats-officedocument.presentationml.slide+xml"/>
+</Types>`)
+    zip.file('ppt/presentation.xml', `<?xml version="1.0" encoding="UTF-8"?>
+<p:presentation ${NS}><p:sldIdLst><p:sldId id="256" r:id="rId2"/></p:sldIdLst><p:sldSz cx="9144000" cy="6858000"/></p:presentation>`)
+    zip.file('ppt/_rels/presentation.xml.rels', `<?xml version="1.0" encoding="UTF-8"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">
+  <Relationship Id="rId2" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/slide" Target="slides/slide1.xml"/>
+</Relationships>`)
+    zip.file('ppt/slides/slide1.xml', `<?xml version="1.0" encoding="UTF-8"?>
+<p:sld ${NS}><p:cSld><p:spTree>
+  <p:nvGrpSpPr><p:cNvPr id="1" name=""/><p:cNvGrpSpPr/><p:nvPr/></p:nvGrpSpPr>
+  <p:grpSpPr/>
+  <p:grpSp>
+    <p:nvGrpSpPr><p:cNvPr id="2" name="Group 1"><a:hlinkClick r:id="rId5"/></p:cNvPr><p:cNvGrpSpPr/><p:nvPr/></p:nvGrpSpPr>
+    <p:grpSpPr/>
+    ${shape('3', '<a:hlinkClick r:id="rId6" action="ppaction://hlinksldjump"/>')}
+    ${shape('4')}
+  </p:grpSp>
+</p:spTree></p:cSld></p:sld>`)
+    zip.file('ppt/slides/_rels/slide1.xml.rels', `<?xml version="1.0" encoding="UTF-8"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">
+  <Relationship Id="rId5" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/hyperlink" Target="https://example.com/" TargetMode="External"/>
+  <Relationship Id="rId6" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/slide" Target="slide1.xml"/>
+</Relationships>`)
+
+    return zip.generateAsync({ type: 'nodebuffer' })
+  }
+
+  it('should apply the group link to children without their own link', async () => {
+    const { slides } = await parsePPTX(await createPresentation())
+    const [own, inherited] = slides[0].elements
+
+    expect(own.link).toEqual({ type: 'slide', target: 'slide-1' })
+    expect(inherited.link).toEqual({ type: 'web', target: 'https://example.com/' })
+  })
+})
@@ -0,0 +1,106 @@
+/**
+ * 视频/音频解析单元测试
+ */
+
+import { describe, it, expect } from 'vitest'
+import { parsePicture } from '../../../src/modules/conversion/services/parser/elements/picture.js'
+import { parseMediaTiming } from '../../../src/modules/conversion/services/parser/timing.js'
+import videoModule from '../../../src/modules/conversion/converters/video.js'
+import { createDefaultParsingContext } from '../../../src/modules/conversion/context/parsing-context.js'
+import type { ParsingContext, XmlObject } from '../../../src/modules/conversion/context/parsing-context.js'
+import type { PPTXVideoElement } from '../../../src/modules/conversion/types/pptx.js'
+import type { ConversionContext } from '../../../src/types/index.js'
+
+const { convertVideo } = videoModule as any
+
+const createContext = (): ParsingContext => ({
+  ...createDefaultParsingContext({} as any),
+  slideResObj: {
+    rId1: { type: 'video', target: 'ppt/media/media1.mp4' },
+    rId2: { type: 'http://schemas.microsoft.com/office/2007/relationships/media', target: 'ppt/media/media1.mp4' },
+    rId3: { type: 'image', target: 'ppt/media/image1.png' },
+    rId4: { type: 'video', target: 'https://www.youtube.com/embed/abc', external: true },
+  },
+})
+
+// 创建视频 p:pic 节点
+const createVideo = (nvPr: XmlObject): XmlObject => ({
+  'p:nvPicPr': { 'p:cNvPr': { attrs: { id: '4', name: 'Video' } }, 'p:nvPr': nvPr },
+  'p:blipFill': { 'a:blip': { attrs: { 'r:embed': 'rId3' } } },
+  'p:spPr': {
+    'a:xfrm': { 'a:off': { attrs: { x: '0', y: '0' } }, 'a:ext': { attrs: { cx: '1905000', cy: '952500' } } },
+  },
+})
+
+const mediaExt = (media: XmlObject) => ({
+  'p:ext': { attrs: { uri: '{DAA4B4D4-6D71-4841-9C94-3DE7FCFB9230}' }, 'p14:media': media },
+})
+
+describe('Media parsing', () => {
+  it('should resolve embedded p14:media with poster and trim', () => {
+    const element = parsePicture(createVideo({
+      'a:videoFile': { attrs: { 'r:link': 'rId1' } },
+      'p:extLst': mediaExt({ attrs: { 'r:embed': 'rId2' }, 'p14:trim': { attrs: { st: '1500.5', end: '2000' } } }),
+    }), createContext()) as PPTXVideoElement
+
+    expect(element).toMatchObject({
+      type: 'video',
+      rId: 'rId2',
+      posterRId: 'rId3',
+      contentType: 'video/mp4',
+      trim: { start: 1500.5, end: 2000 },
+    })
+    expect(element.externalSrc).toBeUndefined()
+  })
+
+  it('should keep linked online videos as external sources', () => {
+    const element = parsePicture(createVideo({ 'a:videoFile': { attrs: { 'r:link': 'rId4' } } }), createContext()) as PPTXVideoElement
+
+    expect(element).toMatchObject({ type: 'video', rId: 'rId4', externalSrc: 'https://www.youtube.com/embed/abc' })
+
+    const context: ConversionContext = {
+      requestId: 'req',
+      startTime: 0,
+      warnings: [],
+      mediaMap: new Map([['0_rId3', { type: 'image', data: 'AAA=', mimeType: 'image/png' }]]),
+      slideSize: { width: 9144000, height: 6858000 },
+      currentSlideIndex: 0,
+      hiddenSlides: 'include',
+    }
+    const video = convertVideo(element, context)
+    expect(video).toMatchObject({ src: 'https://www.youtube.com/embed/abc', poster: 'data:image/png;base64,AAA=', autoplay: false })
+  })
+
+  it('should read autoplay and loop from the timing tree', () => {
+    const playCommand = (spid: string, nodeType: string) => ({
+      'p:cTn': {
+        attrs: { presetID: '1', presetClass: 'mediacall', nodeType },
+        'p:childTnLst': { 'p:cmd': { attrs: { type: 'call', cmd: 'playFrom(0.0)' }, 'p:cBhvr': { 'p:tgtEl': { 'p:spTgt': { attrs: { spid } } } } } },
+      },
+    })
+    const clickGroup = (effect: XmlObject) => ({
+      'p:cTn': { 'p:childTnLst': { 'p:par': { 'p:cTn': { 'p:childTnLst': { 'p:par': effect } } } } },
+    })
+    const timing = {
+      'p:tnLst': {
+        'p:par': {
+          'p:cTn': {
+            attrs: { nodeType: 'tmRoot' },
+            'p:childTnLst': {
+              'p:seq': { 'p:cTn': { attrs: { nodeType: 'mainSeq' }, 'p:childTnLst': { 'p:par': [clickGroup(playCommand('4', 'afterEffect')), clickGroup(playCommand('5', 'clickEffect'))] } } },
+              'p:video': [
+                { 'p:cMediaNode': { 'p:cTn': { attrs: { repeatCount: 'indefinite' } }, 'p:tgtEl': { 'p:spTgt': { attrs: { spid: '4' } } } } },
+                { 'p:cMediaNode': { 'p:cTn': '', 'p:tgtEl': { 'p:spTgt': { attrs: { spid: '5' } } } } },
+              ],
+            },
+          },
+        },
+      },
+    }
+
+    const mediaTiming = parseMediaTiming(timing)
+
+    expect(mediaTiming.get('4')).toEqual({ autoplay: true, loop: true })
+    expect(mediaTiming.get('5')).toBeUndefined()
+  })
+})
@@ -0,0 +1,101 @@
+/**
+ * 公式解析单元测试
+ */
+
+import { describe, it, expect } from 'vitest'
+import { XMLParser } from 'fast-xml-parser'
+import { ommlToLatex, textBodyToLatex } from '../../../src/modules/conversion/parsers/omml-parser.js'
+import { renderLatexPath } from '../../../src/modules/conversion/converters/latex.js'
+import type { XmlObject } from '../../../src/modules/conversion/context/parsing-context.js'
+
+// 与 readXmlFile 相同的解析选项，order 属性手动写入以保留结构顺序
+const parseXml = (xml: string): XmlObject =>
+  new XMLParser({
+    ignoreAttributes: false,
+    attributeNamePrefix: '',
+    attributesGroupName: 'attrs',
+    textNodeName: '#text',
+  }).parse(xml)
+
+const math = (body: string): string =>
+  ommlToLatex(parseXml(`<m:oMath>${body}</m:oMath>`))
+
+const run = (text: string, order: number) => `<m:r order="${order}"><m:t>${text}</m:t></m:r>`
+
+describe('OMML to LaTeX', () => {
+  it('should convert fractions, radicals and scripts', () => {
+    expect(math(`<m:f order="1"><m:num>${run('a', 1)}</m:num><m:den>${run('b', 1)}</m:den></m:f>`)).toBe('\\frac{a}{b}')
+    expect(math(`<m:f order="1"><m:fPr><m:type m:val="lin"/></m:fPr><m:num>${run('a', 1)}</m:num><m:den>${run('b', 1)}</m:den></m:f>`)).toBe('{a}/{b}')
+    expect(math(`<m:rad order="1"><m:radPr><m:degHide m:val="1"/></m:radPr><m:deg/><m:e>${run('x', 1)}</m:e></m:rad>`)).toBe('\\sqrt{x}')
+    expect(math(`<m:rad order="1"><m:deg>${run('3', 1)}</m:deg><m:e>${run('x', 1)}</m:e></m:rad>`)).toBe('\\sqrt[3]{x}')
+    expect(math(`<m:sSubSup order="1"><m:e>${run('x', 1)}</m:e><m:sub>${run('i', 1)}</m:sub><m:sup>${run('2', 1)}</m:sup></m:sSubSup>`)).toBe('{x}_{i}^{2}')
+  })
+
+  it('should convert n-ary operators and keep structure order', () => {
+    const sum = `<m:nary order="2"><m:naryPr><m:chr m:val="∑"/></m:naryPr><m:sub>${run('i=1', 1)}</m:sub><m:sup>${run('n', 1)}</m:sup><m:e>${run('i', 1)}</m:e></m:nary>`
+    expect(math(`${run('S=', 1)}${sum}`)).toBe('S= \\sum_{i=1}^{n}{i}')
+
+    const integral = `<m:nary order="1"><m:naryPr><m:subHide m:val="1"/><m:supHide m:val="1"/></m:naryPr><m:sub/><m:sup/><m:e>${run('f', 1)}</m:e></m:nary>`
+    expect(math(integral)).toBe('\\int{f}')
+  })
+
+  it('should convert delimiters, matrices and accents', () => {
+    expect(math(`<m:d order="1"><m:e>${run('a', 1)}</m:e><m:e>${run('b', 1)}</m:e></m:d>`)).toBe('\\left( a | b \\right)')
+    expect(math(`<m:d order="1"><m:dPr><m:begChr m:val="{"/><m:endChr m:val=""/></m:dPr><m:e>${run('x', 1)}</m:e></m:d>`)).toBe('\\left\\{ x')
+    expect(math(`<m:m order="1"><m:mr><m:e>${run('1', 1)}</m:e><m:e>${run('0', 1)}</m:e></m:mr><m:mr><m:e>${run('0', 1)}</m:e><m:e>${run('1', 1)}</m:e></m:mr></m:m>`))
+      .toBe('\\begin{matrix} 1 & 0 \\\\ 0 & 1 \\end{matrix}')
+    expect(math(`<m:acc order="1"><m:accPr><m:chr m:val="⃗"/></m:accPr><m:e>${run('v', 1)}</m:e></m:acc>`)).toBe('\\vec{v}')
+    expect(math(`<m:bar order="1"><m:barPr><m:pos m:val="top"/></m:barPr><m:e>${run('z', 1)}</m:e></m:bar>`)).toBe('\\overline{z}')
+  })
+
+  it('should convert group characters and border boxes to commands hfmath supports', () => {
+    const groupChr = (pr: string) => math(`<m:groupChr order="1"><m:groupChrPr>${pr}</m:groupChrPr><m:e>${run('x', 1)}</m:e></m:groupChr>`)
+    expect(groupChr('')).toBe('\\underline{x}')
+    expect(groupChr('<m:chr m:val="⏞"/><m:pos m:val="top"/>')).toBe('\\overline{x}')
+    expect(groupChr('<m:chr m:val="→"/><m:pos m:val="top"/>')).toBe('\\overrightarrow{x}')
+    expect(groupChr('<m:chr m:val="∙"/><m:pos m:val="top"/>')).toBe('{x}^{\\bullet}')
+
+    expect(math(`<m:borderBox order="1"><m:e>${run('x', 1)}</m:e></m:borderBox>`)).toBe('\\underline{\\overline{\\left| x \\right|}}')
+    expect(math(`<m:borderBox order="1"><m:borderBoxPr><m:hideLeft/><m:hideRight/><m:hideBot/></m:borderBoxPr><m:e>${run('x', 1)}</m:e></m:borderBox>`))
+      .toBe('\\overline{x}')
+  })
+
+  it('should convert functions and symbols', () => {
+    expect(math(`<m:func order="1"><m:fName><m:r><m:rPr><m:sty m:val="p"/></m:rPr><m:t>sin</m:t></m:r></m:fName><m:e>${run('θ', 1)}</m:e></m:func>`)).toBe('\\sin{\\theta}')
+    expect(math(run('α≤∞', 1))).toBe('\\alpha \\leq \\infty')
+  })
+
+  it('should convert math paragraphs with text runs in document order', () => {
+    const txBody = parseXml(`<p:txBody><a:p><a:r order="1"><a:t>Area</a:t></a:r><a14:m order="2"><m:oMathPara><m:oMath>${run('π', 1)}<m:sSup order="2"><m:e>${run('r', 1)}</m:e><m:sup>${run('2', 1)}</m:sup></m:sSup></m:oMath></m:oMathPara></a14:m></a:p></p:txBody>`)['p:txBody']
+
+    expect(textBodyToLatex(txBody)).toBe('\\text{Area} \\pi {r}^{2}')
+  })
+})
+
+describe('renderLatexPath', () => {
+  it('should typeset LaTeX into a path with a matching viewBox', () => {
+    const rendered = renderLatexPath('\\frac{a}{b}')
+
+    expect(rendered?.path).toMatch(/^M/)
+    expect(rendered?.viewBox[0]).toBeGreaterThan(0)
+    expect(rendered?.viewBox[1]).toBeGreaterThan(0)
+  })
+
+  it('should typeset empty delimiters, group characters and border boxes without literal command names', () => {
+    // 不支持的命令会被当作文字逐个绘制，宽度远大于公式本身
+    const plainWidth = renderLatexPath(math(run('x', 1)))!.viewBox[0]
+    const equations = [
+      `<m:d order="1"><m:dPr><m:begChr m:val="{"/><m:endChr m:val=""/></m:dPr><m:e>${run('x', 1)}</m:e></m:d>`,
+      `<m:d order="1"><m:dPr><m:begChr m:val=""/><m:endChr m:val="|"/></m:dPr><m:e>${run('x', 1)}</m:e></m:d>`,
+      `<m:groupChr order="1"><m:e>${run('x', 1)}</m:e></m:groupChr>`,
+      `<m:groupChr order="1"><m:groupChrPr><m:chr m:val="⏞"/><m:pos m:val="top"/></m:groupChrPr><m:e>${run('x', 1)}</m:e></m:groupChr>`,
+      `<m:borderBox order="1"><m:e>${run('x', 1)}</m:e></m:borderBox>`,
+    ]
+
+    for (const equation of equations) {
+      const rendered = renderLatexPath(math(equation))
+      expect(rendered?.path).toMatch(/^M/)
+      expect(rendered!.viewBox[0]).toBeLessThan(plainWidth * 1.5)
+    }
+  })
+})
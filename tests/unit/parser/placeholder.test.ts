@@ -0,0 +1,154 @@
+/**
+ * 占位符继承单元测试
+ */
+
+import { describe, it, expect } from 'vitest'
+import {
+  findPlaceholderNodes,
+  resolvePlaceholderSpPr,
+  resolveBodyProperties,
+  getListStyleChain,
+} from '../../../src/modules/conversion/services/parser/placeholder.js'
+import { parseShape } from '../../../src/modules/conversion/services/parser/elements/shape.js'
+import { createDefaultParsingContext } from '../../../src/modules/conversion/context/parsing-context.js'
+import type { ParsingContext, XmlObject } from '../../../src/modules/conversion/context/parsing-context.js'
+import type { PPTXTextElement } from '../../../src/modules/conversion/types/pptx.js'
+
+// 创建占位符形状节点
+const createPlaceholder = (ph: Record<string, string>, extra: XmlObject = {}): XmlObject => ({
+  'p:nvSpPr': {
+    'p:cNvPr': { attrs: { id: '2', name: 'Placeholder' } },
+    'p:nvPr': { 'p:ph': { attrs: ph } },
+  },
+  'p:spPr': '',
+  ...extra,
+})
+
+const xfrm = (x: number, y: number, cx: number, cy: number) => ({
+  'a:xfrm': {
+    'a:off': { attrs: { x: String(x), y: String(y) } },
+    'a:ext': { attrs: { cx: String(cx), cy: String(cy) } },
+  },
+})
+
+const layoutTitle = createPlaceholder({ type: 'title' }, {
+  'p:spPr': xfrm(100, 200, 3000, 400),
+  'p:txBody': {
+    'a:bodyPr': { attrs: { anchor: 'b' } },
+    'a:lstStyle': { 'a:lvl1pPr': { attrs: { algn: 'ctr' } } },
+  },
+})
+
+const layoutBody = createPlaceholder({ type: 'body', idx: '1' }, {
+  'p:spPr': xfrm(100, 800, 3000, 2000),
+})
+
+const masterTitle = createPlaceholder({ type: 'title' }, {
+  'p:spPr': xfrm(0, 0, 5000, 500),
+  'p:txBody': { 'a:bodyPr': { attrs: { anchor: 'ctr', wrap: 'square' }, 'a:normAutofit': { attrs: { fontScale: '90000' } } } },
+})
+
+const createContext = (): ParsingContext => ({
+  ...createDefaultParsingContext({} as any),
+  slideLayoutTables: {
+    idTable: {},
+    idxTable: { '1': layoutBody },
+    typeTable: { title: layoutTitle, body: layoutBody },
+  },
+  slideMasterTables: {
+    idTable: {},
+    idxTable: {},
+    typeTable: { title: masterTitle },
+  },
+  slideMasterTextStyles: {
+    'p:titleStyle': {
+      'a:lvl1pPr': { 'a:defRPr': { attrs: { sz: '4400', b: '1' } } },
+    },
+    'p:bodyStyle': {
+      'a:lvl1pPr': {
+        'a:spcBef': { 'a:spcPts': { attrs: { val: '1000' } } },
+        'a:buChar': { attrs: { char: '•' } },
+        'a:defRPr': { attrs: { sz: '2800' } },
+      },
+    },
+    'p:otherStyle': {},
+  },
+})
+
+describe('Placeholder inheritance', () => {
+  it('should find layout placeholders by idx and master placeholders by type', () => {
+    const context = createContext()
+
+    expect(findPlaceholderNodes(createPlaceholder({ idx: '1' }), context)).toEqual([layoutBody])
+    expect(findPlaceholderNodes(createPlaceholder({ type: 'title' }), context)).toEqual([layoutTitle, masterTitle])
+    expect(findPlaceholderNodes(createPlaceholder({ type: 'ctrTitle' }), context)).toEqual([layoutTitle, masterTitle])
+  })
+
+  it('should return no inherited nodes for non-placeholders', () => {
+    expect(findPlaceholderNodes({ 'p:nvSpPr': {} }, createContext())).toEqual([])
+  })
+
+  it('should inherit xfrm only when the slide does not define one', () => {
+    const context = createContext()
+
+    expect(resolvePlaceholderSpPr(createPlaceholder({ type: 'title' }), context)).toBe(layoutTitle['p:spPr'])
+
+    const own = createPlaceholder({ type: 'title' }, { 'p:spPr': xfrm(1, 2, 3, 4) })
+    expect(resolvePlaceholderSpPr(own, context)).toBe(own['p:spPr'])
+  })
+
+  it('should merge body properties from master to slide', () => {
+    const slideTitle = createPlaceholder({ type: 'title' }, {
+      'p:txBody': { 'a:bodyPr': { attrs: { wrap: 'none' } } },
+    })
+    const bodyPr = resolveBodyProperties(slideTitle, createContext())
+
+    expect(bodyPr['attrs']).toEqual({ anchor: 'b', wrap: 'none' })
+  })
+
+  it('should let the nearest autofit declaration win', () => {
+    const text = (bodyPr?: XmlObject) => createPlaceholder({ type: 'title' }, {
+      'p:txBody': { ...(bodyPr && { 'a:bodyPr': bodyPr }), 'a:p': { 'a:r': { 'a:t': 'Title' } } },
+    })
+
+    expect(parseShape(text(), createContext())).toMatchObject({ fontScale: 0.9, vertical: undefined })
+    expect(parseShape(text({ attrs: { vert: 'eaVert', lIns: '0' }, 'a:spAutoFit': '' }), createContext())).toMatchObject({
+      fontScale: undefined,
+      vertical: true,
+      insets: { left: 0, top: 45720, right: 91440, bottom: 45720 },
+    })
+  })
+
+  it('should end the list style chain with the matching master text style', () => {
+    const context = createContext()
+    const chain = getListStyleChain(createPlaceholder({ type: 'title' }), context)
+
+    expect(chain[0]).toBe(layoutTitle['p:txBody']['a:lstStyle'])
+    expect(chain[chain.length - 1]).toBe(context.slideMasterTextStyles!['p:titleStyle'])
+  })
+
+  it('should parse placeholder text with inherited size and styles', () => {
+    const context = createContext()
+    const title = createPlaceholder({ type: 'title' }, {
+      'p:txBody': { 'a:p': { 'a:r': { 'a:rPr': { attrs: { lang: 'en-US' } }, 'a:t': 'Title' } } },
+    })
+    const body = createPlaceholder({ idx: '1' }, {
+      'p:txBody': { 'a:p': { 'a:r': { 'a:t': 'Point' } } },
+    })
+
+    const titleElement = parseShape(title, context) as PPTXTextElement
+    expect(titleElement.transform).toMatchObject({ x: 100, y: 200, width: 3000, height: 400 })
+    expect(titleElement.verticalAlign).toBe('bottom')
+    expect(titleElement.paragraphs[0].align).toBe('center')
+    expect(titleElement.paragraphs[0].runs[0]).toMatchObject({ fontSize: 44, bold: true })
+
+    const bodyElement = parseShape(body, context) as PPTXTextElement
+    expect(bodyElement.transform).toMatchObject({ y: 800, height: 2000 })
+    expect(bodyElement.paragraphs[0]).toMatchObject({ bullet: true, spaceBefore: 10 })
+    expect(bodyElement.paragraphs[0].runs[0].fontSize).toBe(28)
+  })
+
+  it('should skip empty placeholders without their own fill', () => {
+    expect(parseShape(createPlaceholder({ type: 'dt', idx: '10' }), createContext())).toBeNull()
+  })
+})
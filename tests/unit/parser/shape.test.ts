@@ -0,0 +1,63 @@
+/**
+ * 形状与文本框分类单元测试
+ */
+
+import { describe, it, expect } from 'vitest'
+import { parseShape } from '../../../src/modules/conversion/services/parser/elements/shape.js'
+import { createDefaultParsingContext } from '../../../src/modules/conversion/context/parsing-context.js'
+import type { XmlObject } from '../../../src/modules/conversion/context/parsing-context.js'
+import type { PPTXShapeElement } from '../../../src/modules/conversion/types/pptx.js'
+
+const context = createDefaultParsingContext({} as any)
+
+// 创建带文本的 p:sp 节点
+const createShape = (spPr: XmlObject, text = 'Hello', bodyPr: XmlObject | string = ''): XmlObject => ({
+  'p:nvSpPr': { 'p:cNvPr': { attrs: { id: '3', name: 'Shape 2' } }, 'p:cNvSpPr': { attrs: { txBox: '1' } } },
+  'p:spPr': {
+    'a:xfrm': { 'a:off': { attrs: { x: '0', y: '0' } }, 'a:ext': { attrs: { cx: '1905000', cy: '952500' } } },
+    ...spPr,
+  },
+  'p:txBody': { 'a:bodyPr': bodyPr, 'a:p': { 'a:r': { 'a:t': text } } },
+})
+
+const rect = { 'a:prstGeom': { attrs: { prst: 'rect' }, 'a:avLst': '' } }
+const solid = { 'a:solidFill': { 'a:srgbClr': { attrs: { val: 'FF0000' } } } }
+
+describe('Shape classification', () => {
+  it('should output plain text boxes as text elements', () => {
+    expect(parseShape(createShape(rect), context)?.type).toBe('text')
+    expect(parseShape(createShape({ ...rect, 'a:noFill': '', 'a:ln': { 'a:noFill': '' } }), context)?.type).toBe('text')
+    expect(parseShape(createShape({}), context)?.type).toBe('text')
+  })
+
+  it('should keep filled, outlined or non-rectangular shapes with text as shapes', () => {
+    const filled = parseShape(createShape({ ...rect, ...solid }), context) as PPTXShapeElement
+    const outlined = parseShape(createShape({ ...rect, 'a:ln': { attrs: { w: '12700' }, ...solid } }), context)
+    const ellipse = parseShape(createShape({ 'a:prstGeom': { attrs: { prst: 'ellipse' } } }), context)
+
+    expect(filled).toMatchObject({ type: 'shape', shapeType: 'rect', fill: '#FF0000' })
+    expect(filled.paragraphs?.[0].runs[0].text).toBe('Hello')
+    expect(outlined?.type).toBe('shape')
+    expect(ellipse?.type).toBe('shape')
+  })
+
+  it('should output filled shapes without text as shapes', () => {
+    expect(parseShape(createShape({ ...rect, ...solid }, ' '), context)?.type).toBe('shape')
+  })
+})
+
+describe('Text direction', () => {
+  const parseVert = (vert: string) => parseShape(createShape(rect, 'Hello', { attrs: { vert } }), context)
+
+  it('should stack East Asian, Mongolian and WordArt vertical text', () => {
+    for (const vert of ['eaVert', 'mongolianVert', 'wordArtVert', 'wordArtVertRtl']) {
+      expect(parseVert(vert)).toMatchObject({ vertical: true, textRotation: undefined })
+    }
+  })
+
+  it('should rotate vert and vert270 text instead of stacking it', () => {
+    expect(parseVert('vert')).toMatchObject({ vertical: undefined, textRotation: 90 })
+    expect(parseVert('vert270')).toMatchObject({ vertical: undefined, textRotation: 270 })
+    expect(parseVert('horz')).toMatchObject({ vertical: undefined, textRotation: undefined })
+  })
+})
@@ -0,0 +1,193 @@
+/**
+ * 幻灯片列表解析单元测试
+ */
+
+import { describe, it, expect } from 'vitest'
+import JSZip from 'jszip'
+import { parsePPTX, getSections, getSlideIdList } from '../../../src/modules/conversion/services/parser/index.js'
+import type { PPTXElement } from '../../../src/modules/conversion/types/pptx.js'
+
+const NS = 'xmlns:p="http://schemas.openxmlformats.org/presentationml/2006/main" xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships"'
+
+// 创建幻灯片 XML，attrs 为 p:sld 上的属性
+const slideXml = (attrs = '') =>
+  `<?xml version="1.0" encoding="UTF-8"?><p:sld ${NS} ${attrs}><p:cSld><p:spTree><p:grpSpPr/></p:spTree></p:cSld></p:sld>`
+
+/** 演示文稿选项 */
+interface PresentationOptions {
+  /** presentation.xml 的 p:extLst 内容 */
+  extLst?: string
+  /** p:sldIdLst 中幻灯片文件编号的顺序，默认按编号；为空数组时省略 p:sldIdLst */
+  order?: number[]
+  /** 在 [Content_Types].xml 中登记的幻灯片文件编号 */
+  contentTypes?: number[]
+  /** 额外的部件，如布局、母版和幻灯片关系文件 */
+  files?: Record<string, string>
+}
+
+// 创建只包含幻灯片的最小演示文稿，slides 依次给出 slide1.xml、slide2.xml... 的 p:sld 属性，slideN.xml 的 sldId 为 255 + N
+const createPresentation = async (slides: string[], options: PresentationOptions = {}): Promise<Buffer> => {
+  const zip = new JSZip()
+  const order = options.order ?? slides.map((_, i) => i + 1)
+  const ids = order.map(n => `<p:sldId id="${255 + n}" r:id="rId${n + 1}"/>`).join('')
+  const rels = slides.map((_, i) =>
+    `<Relationship Id="rId${i + 2}" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/slide" Target="slides/slide${i + 1}.xml"/>`
+  ).join('')
+  const sldIdLst = order.length > 0 ? `<p:sldIdLst>${ids}</p:sldIdLst>` : ''
+  const extLst = options.extLst ? `<p:extLst>${options.extLst}</p:extLst>` : ''
+
+  zip.file('ppt/presentation.xml', `<?xml version="1.0" encoding="UTF-8"?>
+<p:presentation ${NS}>${sldIdLst}<p:sldSz cx="9144000" cy="6858000"/>${extLst}</p:presentation>`)
+  if (options.contentTypes) {
+    const overrides = options.contentTypes.map(n =>
+      `<Override PartName="/ppt/slides/slide${n}.xml" ContentType="application/vnd.openxmlformats-officedocument.presentationml.slide+xml"/>`
+    ).join('')
+    zip.file('[Content_Types].xml', `<?xml version="1.0" encoding="UTF-8"?>
+<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">${overrides}</Types>`)
+  }
+  zip.file('ppt/_rels/presentation.xml.rels', `<?xml version="1.0" encoding="UTF-8"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">${rels}</Relationships>`)
+  slides.forEach((attrs, i) => zip.file(`ppt/slides/slide${i + 1}.xml`, slideXml(attrs)))
+  for (const [path, content] of Object.entries(options.files || {})) {
+    zip.file(path, content)
+  }
+
+  return zip.generateAsync({ type: 'nodebuffer' })
+}
+
+describe('Slide parsing', () => {
+  it('should mark slides with show="0" or show="false" as hidden', async () => {
+    const { slides } = await parsePPTX(await createPresentation(['', 'show="0"', 'show="false"', 'show="1"']))
+
+    expect(slides.map(slide => slide.hidden)).toEqual([undefined, true, true, undefined])
+  })
+})
+
+describe('Slide order', () => {
+  it('should resolve sldIdLst entries to slide files in show order', async () => {
+    const zip = await JSZip.loadAsync(await createPresentation(['', '', ''], { order: [3, 1, 2] }))
+
+    expect(await getSlideIdList(zip)).toEqual([
+      { id: '258', filename: 'ppt/slides/slide3.xml' },
+      { id: '256', filename: 'ppt/slides/slide1.xml' },
+      { id: '257', filename: 'ppt/slides/slide2.xml' },
+    ])
+  })
+
+  it('should parse slides in sldIdLst order rather than file order', async () => {
+    const { slides } = await parsePPTX(await createPresentation(['show="0"', '', ''], { order: [3, 1, 2] }))
+
+    expect(slides.map(slide => slide.sldId)).toEqual(['258', '256', '257'])
+    expect(slides.map(slide => slide.id)).toEqual(['slide-1', 'slide-2', 'slide-3'])
+    expect(slides[1].hidden).toBe(true)
+  })
+
+  it('should skip sldIdLst entries without a slide file', async () => {
+    const { slides } = await parsePPTX(await createPresentation(['', ''], { order: [2, 5, 1] }))
+
+    expect(slides.map(slide => slide.sldId)).toEqual(['257', '256'])
+  })
+
+  it('should fall back to numbered Content_Types slides without sldIdLst', async () => {
+    // slide10.xml 隐藏，用于确认按数字而不是字符串排序；slide3.xml 未在 Content_Types 中登记
+    const attrs = Array.from({ length: 11 }, (_, i) => (i === 9 ? 'show="0"' : ''))
+    const registered = [11, 10, 2, 1, 4, 5, 6, 7, 8, 9]
+    const { slides } = await parsePPTX(await createPresentation(attrs, { order: [], contentTypes: registered }))
+
+    expect(slides).toHaveLength(11)
+    expect(slides.findIndex(slide => slide.hidden)).toBe(9)
+    expect(slides.every(slide => slide.sldId === undefined)).toBe(true)
+  })
+})
+
+describe('Sections', () => {
+  // 第 1 节包含第 1、2 张幻灯片，空节没有幻灯片，第 3 节从第 3 张开始
+  const SECTIONS = `
+<p:ext uri="{521415D9-36F7-43E2-AB2F-B90AF26B5E84}">
+  <p14:sectionLst xmlns:p14="http://schemas.microsoft.com/office/powerpoint/2010/main">
+    <p14:section name="Intro" id="{A1}"><p14:sldIdLst><p14:sldId id="256"/><p14:sldId id="257"/></p14:sldIdLst></p14:section>
+    <p14:section name="Empty" id="{B2}"><p14:sldIdLst/></p14:section>
+    <p14:section name="Details" id="{C3}"><p14:sldIdLst><p14:sldId id="258"/></p14:sldIdLst></p14:section>
+  </p14:sectionLst>
+</p:ext>`
+
+  it('should read section names and slide ids from the p14:sectionLst extension', async () => {
+    const zip = await JSZip.loadAsync(await createPresentation(['', '', ''], { extLst: SECTIONS }))
+
+    expect(await getSections(zip)).toEqual([
+      { id: '{A1}', title: 'Intro', slideIds: ['256', '257'] },
+      { id: '{B2}', title: 'Empty', slideIds: [] },
+      { id: '{C3}', title: 'Details', slideIds: ['258'] },
+    ])
+  })
+
+  it('should tag the first slide of each section', async () => {
+    const { slides } = await parsePPTX(await createPresentation(['', '', ''], { extLst: SECTIONS }))
+
+    expect(slides.map(slide => slide.sectionTag)).toEqual([
+      { id: '{A1}', title: 'Intro' },
+      undefined,
+      { id: '{C3}', title: 'Details' },
+    ])
+  })
+
+  it('should return no sections without the extension', async () => {
+    expect(await getSections(await JSZip.loadAsync(await createPresentation(['', ''])))).toEqual([])
+  })
+})
+
+describe('Layout and master shapes', () => {
+  const rels = (type: string, target: string) => `<?xml version="1.0" encoding="UTF-8"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">
+  <Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/${type}" Target="${target}"/>
+</Relationships>`
+
+  // 装饰形状（蓝色矩形）和不单独显示的标题占位符
+  const shapeTree = (name: string) => `<p:cSld><p:spTree><p:grpSpPr/>
+  <p:sp>
+    <p:nvSpPr><p:cNvPr id="2" name="${name}"/><p:cNvSpPr/><p:nvPr/></p:nvSpPr>
+    <p:spPr><a:xfrm><a:off x="0" y="0"/><a:ext cx="100" cy="100"/></a:xfrm><a:prstGeom prst="rect"/><a:solidFill><a:srgbClr val="0000FF"/></a:solidFill></p:spPr>
+  </p:sp>
+  <p:sp>
+    <p:nvSpPr><p:cNvPr id="3" name="Title"/><p:cNvSpPr/><p:nvPr><p:ph type="title"/></p:nvPr></p:nvSpPr>
+    <p:spPr><a:solidFill><a:srgbClr val="FF0000"/></a:solidFill></p:spPr>
+  </p:sp>
+</p:spTree></p:cSld>`
+
+  const NS_A = `${NS} xmlns:a="http://schemas.openxmlformats.org/drawingml/2006/main"`
+
+  // 所有幻灯片使用同一个布局，layoutAttrs 为布局 p:sldLayout 上的属性
+  const createDecoratedPresentation = (slides: string[], layoutAttrs = '') => createPresentation(slides, {
+    files: {
+      ...Object.fromEntries(slides.map((_, i) => [
+        `ppt/slides/_rels/slide${i + 1}.xml.rels`,
+        rels('slideLayout', '../slideLayouts/slideLayout1.xml'),
+      ])),
+      'ppt/slideLayouts/slideLayout1.xml': `<?xml version="1.0" encoding="UTF-8"?>
+<p:sldLayout ${NS_A} ${layoutAttrs}>${shapeTree('Layout Bar')}</p:sldLayout>`,
+      'ppt/slideLayouts/_rels/slideLayout1.xml.rels': rels('slideMaster', '../slideMasters/slideMaster1.xml'),
+      'ppt/slideMasters/slideMaster1.xml': `<?xml version="1.0" encoding="UTF-8"?>
+<p:sldMaster ${NS_A}>${shapeTree('Master Logo')}</p:sldMaster>`,
+    },
+  })
+
+  const inherited = (elements: PPTXElement[]) => elements.map(element => `${element.inheritedFrom}:${element.name}`)
+
+  it('should put master and layout decorative shapes below the slide without their placeholders', async () => {
+    const { slides } = await parsePPTX(await createDecoratedPresentation(['']))
+
+    expect(inherited(slides[0].elements)).toEqual(['master:Master Logo', 'layout:Layout Bar'])
+  })
+
+  it('should hide master shapes when the layout sets showMasterSp="0"', async () => {
+    const { slides } = await parsePPTX(await createDecoratedPresentation([''], 'showMasterSp="0"'))
+
+    expect(inherited(slides[0].elements)).toEqual(['layout:Layout Bar'])
+  })
+
+  it('should hide layout and master shapes when the slide sets showMasterSp="0"', async () => {
+    const { slides } = await parsePPTX(await createDecoratedPresentation(['showMasterSp="0"', 'showMasterSp="false"', '']))
+
+    expect(slides.map(slide => slide.elements.length)).toEqual([0, 0, 2])
+  })
+})
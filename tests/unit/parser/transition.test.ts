@@ -0,0 +1,64 @@
+/**
+ * 切换效果解析单元测试
+ */
+
+import { describe, it, expect } from 'vitest'
+import JSZip from 'jszip'
+import { parseTransition } from '../../../src/modules/conversion/services/parser/transition.js'
+import { readXmlFile } from '../../../src/modules/conversion/services/parser/utils.js'
+import type { XmlObject } from '../../../src/modules/conversion/context/parsing-context.js'
+
+// 解析幻灯片 XML，返回 p:sld 节点
+const parseSlide = async (body: string): Promise<XmlObject> => {
+  const zip = new JSZip()
+  zip.file('ppt/slides/slide1.xml', `<?xml version="1.0" encoding="UTF-8"?>
+<p:sld xmlns:p="http://schemas.openxmlformats.org/presentationml/2006/main"
+  xmlns:mc="http://schemas.openxmlformats.org/markup-compatibility/2006"
+  xmlns:p14="http://schemas.microsoft.com/office/powerpoint/2010/main">
+  <p:cSld><p:spTree/></p:cSld>
+  ${body}
+</p:sld>`)
+  return (await readXmlFile(zip, 'ppt/slides/slide1.xml'))['p:sld']
+}
+
+describe('parseTransition', () => {
+  it('should read the effect, direction and advance time of a plain transition', async () => {
+    const slide = await parseSlide('<p:transition spd="slow" advTm="3000"><p:push dir="u"/></p:transition>')
+
+    expect(parseTransition(slide)).toEqual({ advanceTime: 3000, type: 'p:push', direction: 'u', preset: undefined })
+  })
+
+  it('should prefer mc:Choice and keep mc:Fallback as the alternative', async () => {
+    const slide = await parseSlide(`
+  <mc:AlternateContent>
+    <mc:Choice Requires="p14">
+      <p:transition spd="slow" p14:dur="1250" advTm="2000"><p14:vortex dir="r"/></p:transition>
+    </mc:Choice>
+    <mc:Fallback>
+      <p:transition spd="slow" advTm="2000"><p:fade/></p:transition>
+    </mc:Fallback>
+  </mc:AlternateContent>`)
+
+    expect(parseTransition(slide)).toMatchObject({
+      type: 'p14:vortex',
+      direction: 'r',
+      advanceTime: 2000,
+      fallback: { type: 'p:fade', advanceTime: 2000 },
+    })
+  })
+
+  it('should use mc:Fallback when no mc:Choice has a transition', async () => {
+    const slide = await parseSlide(`
+  <mc:AlternateContent>
+    <mc:Choice Requires="p14"><p:timing/></mc:Choice>
+    <mc:Fallback><p:transition><p:split orient="vert"/></p:transition></mc:Fallback>
+  </mc:AlternateContent>`)
+
+    expect(parseTransition(slide)).toEqual({ type: 'p:split', direction: 'vert', preset: undefined })
+  })
+
+  it('should return an empty transition for advance-only transitions and undefined without one', async () => {
+    expect(parseTransition(await parseSlide('<p:transition advTm="5000"/>'))).toEqual({ advanceTime: 5000 })
+    expect(parseTransition(await parseSlide(''))).toBeUndefined()
+  })
+})
@@ -0,0 +1,82 @@
+/**
+ * 填充解析器单元测试
+ */
+
+import { describe, it, expect } from 'vitest'
+import JSZip from 'jszip'
+import { resolveSlideBackgroundFill, getFillType } from '../../../src/modules/conversion/resolvers/fill-resolver.js'
+import { createDefaultParsingContext } from '../../../src/modules/conversion/context/parsing-context.js'
+import { readXmlFile } from '../../../src/modules/conversion/services/parser/utils.js'
+import { getTheme } from '../../../src/modules/conversion/services/parser/theme.js'
+import type { ParsingContext, XmlObject } from '../../../src/modules/conversion/context/parsing-context.js'
+
+const THEME_XML = `<?xml version="1.0" encoding="UTF-8"?>
+<a:theme xmlns:a="http://schemas.openxmlformats.org/drawingml/2006/main"
+  xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships">
+  <a:themeElements>
+    <a:fmtScheme>
+      <a:bgFillStyleLst>
+        <a:solidFill><a:schemeClr val="phClr"/></a:solidFill>
+        <a:blipFill><a:blip r:embed="rId1"/><a:tile tx="0" ty="0" sx="100000" sy="100000"/></a:blipFill>
+        <a:solidFill><a:srgbClr val="00FF00"/></a:solidFill>
+      </a:bgFillStyleLst>
+    </a:fmtScheme>
+  </a:themeElements>
+</a:theme>`
+
+const PRESENTATION_RELS_XML = `<?xml version="1.0" encoding="UTF-8"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">
+  <Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/theme" Target="theme/theme1.xml"/>
+</Relationships>`
+
+// 创建带主题的上下文，幻灯片背景引用主题背景样式
+const createContext = async (bg: XmlObject): Promise<ParsingContext> => {
+  const zip = new JSZip()
+  zip.file('ppt/_rels/presentation.xml.rels', PRESENTATION_RELS_XML)
+  zip.file('ppt/theme/theme1.xml', THEME_XML)
+  zip.file('ppt/media/image1.png', Buffer.from('png'))
+
+  return {
+    ...createDefaultParsingContext(zip),
+    themeContent: (await getTheme(zip)).themeContent,
+    themeResObj: { rId1: { type: 'image', target: 'ppt/media/image1.png' } },
+    slideContent: { 'p:sld': { 'p:cSld': { 'p:bg': bg } } },
+  }
+}
+
+const bgRef = (idx: string) => ({ 'p:bgRef': { attrs: { idx }, 'a:srgbClr': { attrs: { val: 'FF0000' } } } })
+
+describe('resolveSlideBackgroundFill', () => {
+  it('should fill phClr in theme background styles with the bgRef color', async () => {
+    const fill = await resolveSlideBackgroundFill(await createContext(bgRef('1001')))
+
+    expect(fill).toEqual({ type: 'solid', color: '#FF0000' })
+  })
+
+  it('should number theme background styles in document order', async () => {
+    expect(await resolveSlideBackgroundFill(await createContext(bgRef('1003')))).toEqual({ type: 'solid', color: '#00FF00' })
+
+    const image = await resolveSlideBackgroundFill(await createContext(bgRef('1002')))
+    expect(image).toMatchObject({ type: 'image', src: 'data:image/png;base64,cG5n', tile: true })
+  })
+
+  it('should fall back to white when bgRef has no style', async () => {
+    const fill = await resolveSlideBackgroundFill(await createContext(bgRef('0')))
+
+    expect(fill).toEqual({ type: 'solid', color: '#FFFFFF' })
+  })
+})
+
+describe('getFillType', () => {
+  it('should keep empty fills outside the theme as empty nodes', async () => {
+    const zip = new JSZip()
+    zip.file('ppt/slides/slide1.xml', `<?xml version="1.0" encoding="UTF-8"?>
+<p:sld xmlns:p="http://schemas.openxmlformats.org/presentationml/2006/main" xmlns:a="http://schemas.openxmlformats.org/drawingml/2006/main">
+  <p:spPr><a:noFill/></p:spPr>
+</p:sld>`)
+    const spPr = (await readXmlFile(zip, 'ppt/slides/slide1.xml'))['p:sld']['p:spPr']
+
+    expect(spPr['a:noFill']).toBe('')
+    expect(getFillType(spPr)).toBe('')
+  })
+})
@@ -0,0 +1,57 @@
+/**
+ * 字体解析器单元测试
+ */
+
+import { describe, it, expect } from 'vitest'
+import { resolveRunFont, resolveThemeFont } from '../../../src/modules/conversion/resolvers/font-resolver.js'
+import { createDefaultParsingContext } from '../../../src/modules/conversion/context/parsing-context.js'
+import type { ParsingContext, XmlObject } from '../../../src/modules/conversion/context/parsing-context.js'
+
+const font = (typeface: string, script?: string): XmlObject => ({ attrs: script ? { script, typeface } : { typeface } })
+
+// 主题字体：东亚字体为空，按文种选择
+const createContext = (): ParsingContext => ({
+  ...createDefaultParsingContext({} as any),
+  themeContent: {
+    'a:theme': { 'a:themeElements': { 'a:fontScheme': {
+      'a:majorFont': { 'a:latin': font('Calibri Light'), 'a:ea': font(''), 'a:cs': font('') },
+      'a:minorFont': {
+        'a:latin': font('Calibri'),
+        'a:ea': font(''),
+        'a:cs': font(''),
+        'a:font': [font('ＭＳ Ｐゴシック', 'Jpan'), font('等线', 'Hans'), font('新細明體', 'Hant'), font('Arial', 'Arab')],
+      },
+    } } },
+  },
+})
+
+describe('resolveThemeFont', () => {
+  it('should resolve major and minor theme fonts', () => {
+    const context = createContext()
+
+    expect(resolveThemeFont('+mj-lt', context)).toBe('Calibri Light')
+    expect(resolveThemeFont('+mn-ea', context, 'Hans')).toBe('等线')
+    expect(resolveThemeFont('Georgia', context)).toBe('Georgia')
+  })
+})
+
+describe('resolveRunFont', () => {
+  it('should pick the font by the script of the text', () => {
+    const context = createContext()
+    const runProps = [{ 'a:latin': font('Georgia'), 'a:ea': font('+mn-ea') }]
+
+    expect(resolveRunFont(runProps, 'Hello', context)).toBe('Georgia')
+    expect(resolveRunFont(runProps, '你好', context)).toBe('等线')
+    expect(resolveRunFont(runProps, '你好', context, ['zh-TW'])).toBe('新細明體')
+    expect(resolveRunFont(runProps, 'こんにちは', context, ['zh-CN'])).toBe('ＭＳ Ｐゴシック')
+    expect(resolveRunFont([], 'مرحبا', context)).toBe('Arial')
+  })
+
+  it('should use the nearest inherited typeface and fall back to the latin font', () => {
+    const context = createContext()
+    const runProps = [{ attrs: { sz: '2400' } }, { 'a:latin': font('+mj-lt') }]
+
+    expect(resolveRunFont(runProps, 'Title', context)).toBe('Calibri Light')
+    expect(resolveRunFont([], '안녕', context)).toBe('Calibri')
+  })
+})
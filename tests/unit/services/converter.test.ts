@@ -0,0 +1,79 @@
+/**
+ * 幻灯片转换单元测试
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest'
+import { convertSlides, createConversionContext } from '../../../src/modules/conversion/services/converter.js'
+import { clearConverters, registerShapeConverter } from '../../../src/modules/conversion/converters/index.js'
+import type { PPTXShapeElement, PPTXSlide } from '../../../src/modules/conversion/types/pptx.js'
+import type { HiddenSlidesPolicy } from '../../../src/types/index.js'
+
+const SLIDE_SIZE = { width: 9144000, height: 6858000 }
+
+// 创建跳转到指定幻灯片的形状
+const createLinkedShape = (target: string): PPTXShapeElement => ({
+  type: 'shape',
+  id: `link-${target}`,
+  transform: { x: 0, y: 0, width: 914400, height: 914400 },
+  shapeType: 'rect',
+  link: { type: 'slide', target },
+})
+
+// 第 2、3 张隐藏且第 2 张是节的开始，最后一张（第 5 张）也隐藏
+const createPresentation = (): { slides: PPTXSlide[] } => ({
+  slides: [
+    { id: 'slide-1', elements: [createLinkedShape('slide-2'), createLinkedShape('slide-5')] },
+    { id: 'slide-2', elements: [], hidden: true, sectionTag: { id: 'sec-2', title: 'Appendix' } },
+    { id: 'slide-3', elements: [], hidden: true },
+    { id: 'slide-4', elements: [createLinkedShape('slide-1')] },
+    { id: 'slide-5', elements: [], hidden: true },
+  ],
+})
+
+const convert = (hiddenSlides: HiddenSlidesPolicy) => {
+  const context = createConversionContext('req', SLIDE_SIZE, hiddenSlides)
+  return { slides: convertSlides(createPresentation(), context), context }
+}
+
+describe('Hidden slides', () => {
+  beforeEach(() => {
+    clearConverters()
+    registerShapeConverter()
+  })
+
+  it('should keep hidden slides unmarked with hiddenSlides=include', () => {
+    const { slides } = convert('include')
+
+    expect(slides.map(slide => slide.id)).toEqual(['slide-1', 'slide-2', 'slide-3', 'slide-4', 'slide-5'])
+    expect(slides.some(slide => slide.hidden)).toBe(false)
+    expect(slides[0].elements.map(element => element.link?.target)).toEqual(['slide-2', 'slide-5'])
+  })
+
+  it('should mark hidden slides with hiddenSlides=mark', () => {
+    const { slides } = convert('mark')
+
+    expect(slides.map(slide => slide.hidden)).toEqual([undefined, true, true, undefined, true])
+    expect(slides[1].sectionTag).toEqual({ id: 'sec-2', title: 'Appendix' })
+  })
+
+  it('should drop hidden slides with hiddenSlides=skip', () => {
+    const { slides, context } = convert('skip')
+
+    expect(slides.map(slide => slide.id)).toEqual(['slide-1', 'slide-4'])
+    expect(context.warnings).toContainEqual(expect.objectContaining({ code: 'WARN_HIDDEN_SLIDES_SKIPPED', count: 3 }))
+  })
+
+  it('should retarget links to skipped slides and drop links with no visible slide after them', () => {
+    const { slides } = convert('skip')
+
+    expect(slides[0].elements[0].link).toEqual({ type: 'slide', target: 'slide-4' })
+    expect(slides[0].elements[1].link).toBeUndefined()
+    expect(slides[1].elements[0].link).toEqual({ type: 'slide', target: 'slide-1' })
+  })
+
+  it('should move the section tag of a skipped slide to the next visible slide', () => {
+    const { slides } = convert('skip')
+
+    expect(slides[1].sectionTag).toEqual({ id: 'sec-2', title: 'Appendix' })
+  })
+})